@@ -0,0 +1,172 @@
+import { loadConfig } from "../lib/config.js";
+import {
+  filterAuditEntries,
+  readAuditEntries,
+  resolveAuditLogPath,
+  summarizeAuditEntries,
+  type AuditFilter,
+  type AuditSummary,
+  type SecurityAuditDecision,
+  type SecurityAuditEntry,
+} from "../lib/audit-log.js";
+import { COLORS, ICONS, printError, printHeader, printInfo } from "./wizard/prompts.js";
+
+export interface AuditOptions {
+  directory?: string | undefined;
+  session?: string | undefined;
+  tool?: string | undefined;
+  decision?: string | undefined;
+  pattern?: string | undefined;
+  /** ISO timestamp or YYYY-MM-DD */
+  since?: string | undefined;
+  /** ISO timestamp or YYYY-MM-DD (inclusive, whole day) */
+  until?: string | undefined;
+  /** Number of most recent entries to list */
+  limit?: number | undefined;
+  /** Print matching entries as JSON lines instead of the report */
+  json?: boolean | undefined;
+}
+
+export interface AuditResult {
+  success: boolean;
+  logPath: string;
+  entries: SecurityAuditEntry[];
+  summary: AuditSummary;
+  error?: string;
+}
+
+const DECISIONS: readonly SecurityAuditDecision[] = ["deny", "ask", "override"];
+const DEFAULT_LIMIT = 20;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Run the audit command to filter and summarize the security audit log.
+ */
+export async function runAuditCommand(options: AuditOptions = {}): Promise<AuditResult> {
+  const directory = options.directory ?? process.cwd();
+  const config = await loadConfig(directory);
+  const logPath = resolveAuditLogPath(directory, config.security.audit.path);
+
+  const filter = buildFilter(options);
+  if (typeof filter === "string") {
+    printError(filter);
+    process.exitCode = 1;
+    return { success: false, logPath, entries: [], summary: summarizeAuditEntries([]), error: filter };
+  }
+
+  const entries = filterAuditEntries(readAuditEntries(logPath), filter);
+  const summary = summarizeAuditEntries(entries);
+
+  if (options.json) {
+    for (const entry of entries) {
+      console.log(JSON.stringify(entry));
+    }
+    return { success: true, logPath, entries, summary };
+  }
+
+  printHeader("Atreides Security Audit");
+  console.log(`${COLORS.dim}Log: ${logPath}${COLORS.reset}`);
+
+  if (!config.security.audit.enabled) {
+    printInfo("Audit logging is disabled; set atreides.security.audit.enabled in opencode.json");
+  }
+
+  if (entries.length === 0) {
+    console.log(`\n${COLORS.dim}No matching audit entries${COLORS.reset}\n`);
+    return { success: true, logPath, entries, summary };
+  }
+
+  displaySummary(summary);
+  displayEntries(entries, options.limit ?? DEFAULT_LIMIT);
+
+  return { success: true, logPath, entries, summary };
+}
+
+/**
+ * Build an AuditFilter from command options.
+ * Returns an error message for invalid values.
+ */
+function buildFilter(options: AuditOptions): AuditFilter | string {
+  const filter: AuditFilter = {};
+
+  if (options.session) filter.sessionId = options.session;
+  if (options.tool) filter.tool = options.tool;
+  if (options.pattern) filter.pattern = options.pattern;
+
+  if (options.decision) {
+    if (!DECISIONS.includes(options.decision as SecurityAuditDecision)) {
+      return `Invalid decision "${options.decision}" (expected one of: ${DECISIONS.join(", ")})`;
+    }
+    filter.decision = options.decision as SecurityAuditDecision;
+  }
+
+  if (options.since) {
+    const since = parseDate(options.since, false);
+    if (!since) return `Invalid --since date "${options.since}"`;
+    filter.since = since;
+  }
+
+  if (options.until) {
+    const until = parseDate(options.until, true);
+    if (!until) return `Invalid --until date "${options.until}"`;
+    filter.until = until;
+  }
+
+  return filter;
+}
+
+/**
+ * Parse an ISO timestamp or a YYYY-MM-DD date (UTC).
+ * Date-only values for the end of a range cover the whole day.
+ */
+function parseDate(value: string, endOfDay: boolean): Date | undefined {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    return undefined;
+  }
+  return new Date(endOfDay && DATE_ONLY.test(value) ? time + 86_400_000 - 1 : time);
+}
+
+function displaySummary(summary: AuditSummary): void {
+  const { deny, ask, override } = summary.byDecision;
+  console.log(`\n${COLORS.bold}${summary.total} entries${COLORS.reset} ${COLORS.dim}(${summary.firstTimestamp} ${ICONS.arrow} ${summary.lastTimestamp})${COLORS.reset}`);
+  console.log(`  ${COLORS.red}deny ${deny}${COLORS.reset}  ${COLORS.yellow}ask ${ask}${COLORS.reset}  ${COLORS.cyan}override ${override}${COLORS.reset}`);
+
+  displayCounts("By session", summary.bySession);
+  displayCounts("By tool", summary.byTool);
+  displayCounts("By pattern", summary.byPattern);
+}
+
+function displayCounts(title: string, counts: Record<string, number>): void {
+  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (sorted.length === 0) return;
+
+  console.log(`\n${COLORS.bold}${title}${COLORS.reset}`);
+  for (const [key, count] of sorted.slice(0, 10)) {
+    console.log(`  ${String(count).padStart(5)}  ${key}`);
+  }
+  if (sorted.length > 10) {
+    console.log(`  ${COLORS.dim}... ${sorted.length - 10} more${COLORS.reset}`);
+  }
+}
+
+function displayEntries(entries: SecurityAuditEntry[], limit: number): void {
+  const recent = entries.slice(-limit);
+  console.log(`\n${COLORS.bold}Most recent ${recent.length}${COLORS.reset}`);
+
+  for (const entry of recent) {
+    const color = entry.decision === "deny" ? COLORS.red : entry.decision === "ask" ? COLORS.yellow : COLORS.cyan;
+    const flags = entry.obfuscated ? ` ${COLORS.magenta}[obfuscated]${COLORS.reset}` : "";
+    console.log(
+      `  ${COLORS.dim}${entry.timestamp}${COLORS.reset} ${color}${entry.decision.padEnd(8)}${COLORS.reset} ${entry.tool} ${COLORS.dim}${entry.sessionId}${COLORS.reset}${flags}`
+    );
+    console.log(`    ${entry.input}`);
+    if (entry.reason) {
+      console.log(`    ${COLORS.dim}${entry.reason}${entry.matchedPattern ? ` (${entry.matchedPattern})` : ""}${COLORS.reset}`);
+    }
+    if (entry.ruleReason) {
+      console.log(`    ${COLORS.dim}allowed by rule ${entry.ruleIndex}: ${entry.ruleReason}${COLORS.reset}`);
+    }
+  }
+  console.log();
+}
@@ -0,0 +1,133 @@
+import { loadConfig } from "../lib/config.js";
+import {
+  createCheckpoint,
+  createProcessShell,
+  listCheckpoints,
+  restoreCheckpoint,
+  type Checkpoint,
+  type CheckpointShell,
+} from "../lib/checkpoint.js";
+import { COLORS, printError, printHeader, printInfo, printSuccess } from "./wizard/prompts.js";
+
+export type CheckpointAction = "list" | "create" | "restore";
+
+export interface CheckpointOptions {
+  directory?: string | undefined;
+  /** Subcommand (default: list) */
+  action?: string | undefined;
+  /** Checkpoint to restore */
+  id?: string | undefined;
+  /** Restore even if the current state cannot be saved first */
+  force?: boolean | undefined;
+  /** Reason recorded for `create` */
+  reason?: string | undefined;
+  /** Files to copy for `create` when the project is not a git repository */
+  files?: string[] | undefined;
+  /** Print checkpoints as JSON lines instead of the report */
+  json?: boolean | undefined;
+}
+
+export interface CheckpointCommandResult {
+  success: boolean;
+  checkpoints: Checkpoint[];
+  restoredFiles?: string[];
+  error?: string;
+}
+
+const ACTIONS: readonly CheckpointAction[] = ["list", "create", "restore"];
+
+/**
+ * Run the checkpoint command to list, create and restore project checkpoints.
+ */
+export async function runCheckpointCommand(
+  options: CheckpointOptions = {},
+  shell: CheckpointShell = createProcessShell()
+): Promise<CheckpointCommandResult> {
+  const directory = options.directory ?? process.cwd();
+  const action = options.action ?? "list";
+
+  if (!ACTIONS.includes(action as CheckpointAction)) {
+    return fail(`Invalid action "${action}" (expected one of: ${ACTIONS.join(", ")})`);
+  }
+
+  if (action === "create") {
+    const config = await loadConfig(directory);
+    const result = await createCheckpoint(directory, shell, {
+      reason: options.reason ?? "manual",
+      files: options.files ?? [],
+      maxCheckpoints: config.session.checkpoints.maxCheckpoints,
+    });
+    if (!result.checkpoint) {
+      return fail(result.error ?? "Checkpoint failed");
+    }
+    if (options.json) {
+      console.log(JSON.stringify(result.checkpoint));
+    } else {
+      printSuccess(`Created checkpoint ${result.checkpoint.id} (${describe(result.checkpoint)})`);
+    }
+    return { success: true, checkpoints: [result.checkpoint] };
+  }
+
+  if (action === "restore") {
+    if (!options.id) {
+      return fail("Missing checkpoint id (usage: atreides-opencode checkpoint restore <id>)");
+    }
+    const result = await restoreCheckpoint(directory, shell, options.id, { force: options.force ?? false });
+    if (!result.success || !result.checkpoint) {
+      return fail(result.error ?? `Restore of ${options.id} failed`);
+    }
+    if (options.json) {
+      console.log(JSON.stringify(result));
+    } else {
+      printSuccess(`Restored checkpoint ${result.checkpoint.id} (${result.restoredFiles.length} files)`);
+      for (const file of result.restoredFiles) {
+        console.log(`  ${file}`);
+      }
+      if (result.safetyCheckpoint) {
+        printInfo(`Previous state saved as checkpoint ${result.safetyCheckpoint.id}`);
+      }
+    }
+    return { success: true, checkpoints: [result.checkpoint], restoredFiles: result.restoredFiles };
+  }
+
+  const checkpoints = await listCheckpoints(directory, shell);
+
+  if (options.json) {
+    for (const checkpoint of checkpoints) {
+      console.log(JSON.stringify(checkpoint));
+    }
+    return { success: true, checkpoints };
+  }
+
+  printHeader("Atreides Checkpoints");
+  if (checkpoints.length === 0) {
+    console.log(`${COLORS.dim}No checkpoints${COLORS.reset}\n`);
+    return { success: true, checkpoints };
+  }
+
+  for (const checkpoint of checkpoints) {
+    console.log(`  ${COLORS.bold}${checkpoint.id}${COLORS.reset}  ${checkpoint.reason}  ${COLORS.dim}${describe(checkpoint)}${COLORS.reset}`);
+  }
+  console.log("");
+
+  return { success: true, checkpoints };
+}
+
+function describe(checkpoint: Checkpoint): string {
+  const parts = [checkpoint.createdAt];
+  if (checkpoint.kind === "git") {
+    parts.push(`git ${checkpoint.commit?.slice(0, 10) ?? ""}`.trim());
+  } else {
+    parts.push(`${checkpoint.files.length} files`);
+  }
+  if (checkpoint.sessionId) {
+    parts.push(`session ${checkpoint.sessionId}`);
+  }
+  return parts.join(", ");
+}
+
+function fail(error: string): CheckpointCommandResult {
+  printError(error);
+  process.exitCode = 1;
+  return { success: false, checkpoints: [], error };
+}
@@ -3,6 +3,8 @@
 import { runInitCommand } from "./init.js";
 import { runDoctorCommand } from "./doctor.js";
 import { runUpdateCommand } from "./update.js";
+import { runAuditCommand } from "./audit.js";
+import { runCheckpointCommand } from "./checkpoint.js";
 
 const VERSION = "0.1.0";
 const NAME = "atreides-opencode";
@@ -38,6 +40,34 @@ async function main(): Promise<void> {
       break;
     }
 
+    case "audit": {
+      const limit = getOptionValue(args, "--limit");
+      await runAuditCommand({
+        session: getOptionValue(args, "--session"),
+        tool: getOptionValue(args, "--tool"),
+        decision: getOptionValue(args, "--decision"),
+        pattern: getOptionValue(args, "--pattern"),
+        since: getOptionValue(args, "--since"),
+        until: getOptionValue(args, "--until"),
+        limit: limit ? Number.parseInt(limit, 10) : undefined,
+        json: args.includes("--json"),
+      });
+      break;
+    }
+
+    case "checkpoint": {
+      const positional = args.slice(1).filter((arg, i, rest) => !arg.startsWith("-") && rest[i - 1] !== "--reason");
+      await runCheckpointCommand({
+        action: positional[0],
+        id: positional[1],
+        reason: getOptionValue(args, "--reason"),
+        files: positional[0] === "create" ? positional.slice(1) : undefined,
+        force: args.includes("--force"),
+        json: args.includes("--json"),
+      });
+      break;
+    }
+
     default:
       console.error(`Unknown command: ${command}`);
       printHelp();
@@ -45,6 +75,18 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Get the value of `--name value` or `--name=value`.
+ */
+function getOptionValue(args: string[], name: string): string | undefined {
+  const inline = args.find((arg) => arg.startsWith(`${name}=`));
+  if (inline) {
+    return inline.slice(name.length + 1);
+  }
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
 function printHelp(): void {
   console.log(`
 ${NAME} v${VERSION}
@@ -54,14 +96,38 @@ Usage:
   atreides-opencode <command> [options]
 
 Commands:
-  init      Initialize Atreides in current project
-  doctor    Verify installation and diagnose issues
-  update    Update to latest version (preserves customizations)
+  init        Initialize Atreides in current project
+  doctor      Verify installation and diagnose issues
+  update      Update to latest version (preserves customizations)
+  audit       Filter and summarize the security audit log
+  checkpoint  List, create or restore project checkpoints
 
 Update Options:
   -f, --force      Force update even if already up to date
   --no-backup      Skip backup creation before update
 
+Audit Options:
+  --session <id>   Only entries for this session
+  --tool <name>    Only entries for this tool
+  --decision <d>   Only deny, ask or override decisions
+  --pattern <p>    Only entries whose matched pattern contains <p>
+  --since <date>   Only entries at or after this date (ISO or YYYY-MM-DD)
+  --until <date>   Only entries at or before this date (ISO or YYYY-MM-DD)
+  --limit <n>      Number of recent entries to list (default 20)
+  --json           Print matching entries as JSON lines
+
+Checkpoint Usage:
+  checkpoint [list]              List checkpoints, newest first
+  checkpoint create [files...]   Take a checkpoint (files are copied when
+                                 the project is not a git repository)
+  checkpoint restore <id>        Restore a checkpoint (the current state
+                                 is saved as a new checkpoint first)
+
+Checkpoint Options:
+  --reason <text>  Reason recorded for checkpoint create (default manual)
+  --force          Restore even if the current state cannot be saved first
+  --json           Print checkpoints as JSON lines
+
 Global Options:
   -v, --version    Show version
   -h, --help       Show this help
@@ -1,11 +1,11 @@
-import { access, readdir, stat } from "node:fs/promises";
+import { access, readdir, readFile, stat, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { confirm } from "@inquirer/prompts";
 import { runInitWizard, printSuccessSummary } from "./wizard/index.js";
-import { printMergeMode, printCancelled, printError, COLORS } from "./wizard/prompts.js";
+import { printMergeMode, printCancelled, printError, printWarning, COLORS } from "./wizard/prompts.js";
 import { OPENCODE_DIR, AGENTS_MD_FILE } from "../lib/constants.js";
 import { generateMVPAgents, isMVPAgent, type AgentConfig as GeneratorAgentConfig } from "../generators/index.js";
-import type { AgentConfig as WizardAgentConfig } from "./wizard/types.js";
+import { toSecurityPermissions, type AgentConfig as WizardAgentConfig, type WizardConfiguration } from "./wizard/types.js";
 
 export interface InitOptions {
   directory?: string;
@@ -59,6 +59,10 @@ export async function runInitCommand(options: InitOptions = {}): Promise<void> {
       }
     }
 
+    if (result.filesToCreate.includes("opencode.json")) {
+      await writeSecurityPermissions(directory, result.configuration);
+    }
+
     printSuccessSummary(result);
     
   } catch (error) {
@@ -119,6 +123,41 @@ async function detectExistingConfiguration(directory: string): Promise<ExistingC
   };
 }
 
+/**
+ * Store the wizard's permission choices in opencode.json so the plugin
+ * enforces them (custom preset). Other settings in the file are kept.
+ */
+export async function writeSecurityPermissions(
+  directory: string,
+  configuration: WizardConfiguration
+): Promise<boolean> {
+  const configPath = join(directory, "opencode.json");
+  let existing: Record<string, unknown> = {};
+
+  if (await fileExists(configPath)) {
+    try {
+      existing = JSON.parse(await readFile(configPath, "utf-8")) as Record<string, unknown>;
+    } catch {
+      printWarning("opencode.json is not valid JSON; permission choices were not saved");
+      return false;
+    }
+  }
+
+  const atreides = (existing["atreides"] ?? {}) as Record<string, unknown>;
+  const security = (atreides["security"] ?? {}) as Record<string, unknown>;
+  existing["atreides"] = {
+    ...atreides,
+    security: {
+      ...security,
+      preset: "custom",
+      permissions: toSecurityPermissions(configuration.permissions),
+    },
+  };
+
+  await writeFile(configPath, `${JSON.stringify(existing, null, 2)}\n`, "utf-8");
+  return true;
+}
+
 async function handleReinitialization(existingFiles: string[]): Promise<boolean> {
   printMergeMode(existingFiles);
   
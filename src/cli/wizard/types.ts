@@ -147,6 +147,20 @@ export function createDefaultPermissions(projectType: ProjectType): WizardConfig
   };
 }
 
+/**
+ * Convert the wizard's permission choices to `security.permissions`
+ * (permission id to allowed), enforced at runtime with the "custom" preset.
+ */
+export function toSecurityPermissions(permissions: WizardConfiguration["permissions"]): Record<string, boolean> {
+  const items = [
+    ...permissions.fileOperations,
+    ...permissions.shellCommands,
+    ...permissions.networkAccess,
+    ...permissions.gitOperations,
+  ];
+  return Object.fromEntries(items.map((item) => [item.id, item.checked]));
+}
+
 export function getFilesToCreate(mode: InstallationMode): string[] {
   const minimal = ["AGENTS.md"];
   
@@ -0,0 +1,274 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { dirname, isAbsolute, join } from "node:path";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("atreides:audit-log");
+
+/**
+ * Security decision recorded in the audit log.
+ * - deny: tool call blocked
+ * - ask: tool call flagged for confirmation
+ * - override: deny/ask turned into allow by a `security.allow` rule
+ */
+export type SecurityAuditDecision = "deny" | "ask" | "override";
+
+/**
+ * One line of the security audit log.
+ */
+export interface SecurityAuditEntry {
+  /** When the decision was made (ISO string) */
+  timestamp: string;
+  /** Session the tool call belonged to */
+  sessionId: string;
+  /** Tool name */
+  tool: string;
+  /** Decision taken */
+  decision: SecurityAuditDecision;
+  /** Command or file path, sanitized with `sanitizeCommandForLogging()` */
+  input: string;
+  /** Reason for the decision (for overrides: the original reason) */
+  reason?: string;
+  /** Pattern that matched (for overrides: the original pattern) */
+  matchedPattern?: string;
+  /** Command segment that triggered the decision */
+  segment?: string;
+  /** Whether the command was obfuscated (differed after normalization) */
+  obfuscated: boolean;
+  /** Index of the `security.allow` rule (overrides only) */
+  ruleIndex?: number;
+  /** Reason of the `security.allow` rule (overrides only) */
+  ruleReason?: string;
+}
+
+/**
+ * Size-based rotation settings.
+ */
+export interface AuditLogRotation {
+  /** Rotate when the active file would exceed this many bytes */
+  maxBytes: number;
+  /** Number of rotated files to keep (`<file>.1` is the most recent) */
+  maxFiles: number;
+}
+
+/**
+ * Filter for reading audit entries.
+ */
+export interface AuditFilter {
+  sessionId?: string;
+  tool?: string;
+  decision?: SecurityAuditDecision;
+  /** Substring of the matched pattern */
+  pattern?: string;
+  /** Only entries at or after this time */
+  since?: Date;
+  /** Only entries at or before this time */
+  until?: Date;
+}
+
+/**
+ * Aggregated view of audit entries.
+ */
+export interface AuditSummary {
+  total: number;
+  byDecision: Record<SecurityAuditDecision, number>;
+  bySession: Record<string, number>;
+  byTool: Record<string, number>;
+  byPattern: Record<string, number>;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+}
+
+/**
+ * Resolve the audit log path for a project.
+ *
+ * @param projectPath - Project root
+ * @param logPath - Configured path (absolute or project-relative)
+ * @returns Absolute file path
+ */
+export function resolveAuditLogPath(projectPath: string, logPath: string): string {
+  return isAbsolute(logPath) ? logPath : join(projectPath, logPath);
+}
+
+/**
+ * Append-only JSONL audit log with size-based rotation.
+ *
+ * Writes are synchronous so entries are on disk before the tool runs; they
+ * never throw, failures are logged and reported through the return value.
+ *
+ * @example
+ * ```typescript
+ * const log = new SecurityAuditLog("/project/.opencode/security-audit.jsonl", {
+ *   maxBytes: 10 * 1024 * 1024,
+ *   maxFiles: 5,
+ * });
+ * log.append({ timestamp: new Date().toISOString(), sessionId, tool: "bash", ... });
+ * ```
+ */
+export class SecurityAuditLog {
+  constructor(
+    private readonly filePath: string,
+    private readonly rotation: AuditLogRotation
+  ) {}
+
+  /**
+   * Append an entry, rotating first if the file would grow past the limit.
+   *
+   * @param entry - Entry to write
+   * @returns true if the entry was written
+   */
+  append(entry: SecurityAuditEntry): boolean {
+    const line = `${JSON.stringify(entry)}\n`;
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      if (this.shouldRotate(Buffer.byteLength(line))) {
+        this.rotate();
+      }
+      appendFileSync(this.filePath, line, "utf-8");
+      return true;
+    } catch (error) {
+      logger.warn("Failed to write security audit entry", {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get the active log file path.
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private shouldRotate(incomingBytes: number): boolean {
+    if (!existsSync(this.filePath)) {
+      return false;
+    }
+    const stats = statSync(this.filePath);
+    return stats.isFile() && stats.size > 0 && stats.size + incomingBytes > this.rotation.maxBytes;
+  }
+
+  /**
+   * Shift `<file>.n` to `<file>.n+1`, dropping the oldest, then move the
+   * active file to `<file>.1`. With maxFiles 0 the active file is discarded.
+   */
+  private rotate(): void {
+    const { maxFiles } = this.rotation;
+    if (maxFiles <= 0) {
+      rmSync(this.filePath, { force: true });
+      return;
+    }
+
+    rmSync(`${this.filePath}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      const from = `${this.filePath}.${i}`;
+      if (existsSync(from)) {
+        renameSync(from, `${this.filePath}.${i + 1}`);
+      }
+    }
+    renameSync(this.filePath, `${this.filePath}.1`);
+  }
+}
+
+/**
+ * Read audit entries from the active file and its rotated copies, oldest first.
+ * Malformed lines are skipped.
+ *
+ * @param filePath - Active log file path
+ * @returns Entries in chronological order
+ */
+export function readAuditEntries(filePath: string): SecurityAuditEntry[] {
+  const rotated: string[] = [];
+  for (let i = 1; existsSync(`${filePath}.${i}`); i++) {
+    rotated.unshift(`${filePath}.${i}`);
+  }
+
+  const entries: SecurityAuditEntry[] = [];
+  for (const file of [...rotated, filePath]) {
+    if (!existsSync(file)) continue;
+
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      if (line.trim().length === 0) continue;
+      try {
+        const entry = JSON.parse(line) as SecurityAuditEntry;
+        if (typeof entry.timestamp === "string" && typeof entry.decision === "string") {
+          entries.push(entry);
+        }
+      } catch {
+        // Skip partial or corrupt lines
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Filter audit entries.
+ *
+ * @param entries - Entries to filter
+ * @param filter - Criteria; omitted fields match everything
+ * @returns Matching entries
+ */
+export function filterAuditEntries(
+  entries: SecurityAuditEntry[],
+  filter: AuditFilter
+): SecurityAuditEntry[] {
+  const since = filter.since?.getTime();
+  const until = filter.until?.getTime();
+  const pattern = filter.pattern?.toLowerCase();
+
+  return entries.filter((entry) => {
+    if (filter.sessionId !== undefined && entry.sessionId !== filter.sessionId) return false;
+    if (filter.tool !== undefined && entry.tool.toLowerCase() !== filter.tool.toLowerCase()) return false;
+    if (filter.decision !== undefined && entry.decision !== filter.decision) return false;
+    if (pattern !== undefined && !(entry.matchedPattern ?? "").toLowerCase().includes(pattern)) return false;
+
+    const time = Date.parse(entry.timestamp);
+    if (since !== undefined && time < since) return false;
+    if (until !== undefined && time > until) return false;
+    return true;
+  });
+}
+
+/**
+ * Summarize audit entries by decision, session, tool and pattern.
+ *
+ * @param entries - Entries to summarize
+ * @returns Counts per dimension and the covered time range
+ */
+export function summarizeAuditEntries(entries: SecurityAuditEntry[]): AuditSummary {
+  const summary: AuditSummary = {
+    total: entries.length,
+    byDecision: { deny: 0, ask: 0, override: 0 },
+    bySession: {},
+    byTool: {},
+    byPattern: {},
+  };
+
+  for (const entry of entries) {
+    summary.byDecision[entry.decision] = (summary.byDecision[entry.decision] ?? 0) + 1;
+    summary.bySession[entry.sessionId] = (summary.bySession[entry.sessionId] ?? 0) + 1;
+    summary.byTool[entry.tool] = (summary.byTool[entry.tool] ?? 0) + 1;
+    if (entry.matchedPattern) {
+      summary.byPattern[entry.matchedPattern] = (summary.byPattern[entry.matchedPattern] ?? 0) + 1;
+    }
+  }
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (first) summary.firstTimestamp = first.timestamp;
+  if (last) summary.lastTimestamp = last.timestamp;
+
+  return summary;
+}
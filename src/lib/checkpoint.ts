@@ -0,0 +1,477 @@
+import { exec } from "node:child_process";
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("atreides:checkpoint");
+
+/** Ref namespace for git checkpoints (one ref per checkpoint) */
+export const CHECKPOINT_REF_PREFIX = "refs/atreides/checkpoints/";
+
+/** Directory for file-copy checkpoints in projects without git */
+export const CHECKPOINT_BACKUP_DIR = ".atreides-backups";
+
+const METADATA_FILE = "checkpoint.json";
+const MESSAGE_PREFIX = "atreides checkpoint";
+const MESSAGE_PATTERN = /atreides checkpoint: (\S+)(?: \(session (.+)\))?/;
+
+/** Format of `createCheckpointId()` identifiers */
+const CHECKPOINT_ID_PATTERN = /^\d{8}T\d{9}Z-[a-z0-9]{1,4}$/;
+
+/**
+ * Result of a shell command.
+ */
+export interface CheckpointShellResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Runs shell commands for checkpoints. Matches `PluginContext.$`, so the
+ * plugin passes its shell; the CLI uses `createProcessShell()`.
+ */
+export type CheckpointShell = (
+  command: string,
+  options?: { cwd?: string; timeout?: number }
+) => Promise<CheckpointShellResult>;
+
+/**
+ * How a checkpoint was stored.
+ * - git: Snapshot commit under `refs/atreides/checkpoints/<id>`
+ * - files: Copies of the touched files in `.atreides-backups/<id>/`
+ */
+export type CheckpointKind = "git" | "files";
+
+/**
+ * A project checkpoint.
+ */
+export interface Checkpoint {
+  /** Identifier (sorts by creation time) */
+  id: string;
+  kind: CheckpointKind;
+  /** Why the checkpoint was taken (e.g. "before-implementation") */
+  reason: string;
+  /** Session that took the checkpoint */
+  sessionId?: string;
+  /** When the checkpoint was taken (ISO string) */
+  createdAt: string;
+  /** Snapshot commit (git) */
+  commit?: string;
+  /** Copied files, relative to the project root (files) */
+  files: string[];
+  /** Touched files that did not exist yet; restoring removes them (files) */
+  absent: string[];
+}
+
+/**
+ * Options for creating a checkpoint.
+ */
+export interface CreateCheckpointOptions {
+  /** Why the checkpoint is taken */
+  reason: string;
+  /** Session taking the checkpoint */
+  sessionId?: string;
+  /** Files to copy when the project is not a git repository */
+  files?: string[];
+  /** Number of checkpoints to keep (0 or undefined: no limit) */
+  maxCheckpoints?: number;
+}
+
+/**
+ * Result of creating a checkpoint.
+ */
+export interface CheckpointResult {
+  success: boolean;
+  checkpoint?: Checkpoint;
+  error?: string;
+}
+
+/**
+ * Options for restoring a checkpoint.
+ */
+export interface RestoreCheckpointOptions {
+  /** Restore even if the safety checkpoint of the current state fails */
+  force?: boolean;
+}
+
+/**
+ * Result of restoring a checkpoint.
+ */
+export interface RestoreCheckpointResult {
+  success: boolean;
+  checkpoint?: Checkpoint;
+  /** Files written back (or removed) by the restore */
+  restoredFiles: string[];
+  /** Checkpoint of the state before the restore, to undo it */
+  safetyCheckpoint?: Checkpoint;
+  error?: string;
+}
+
+/**
+ * Create a checkpoint of the project.
+ *
+ * Git projects get a snapshot commit: `git stash create` when there are
+ * local changes to tracked files, otherwise a commit of HEAD's tree. The
+ * commit is kept alive by a ref under `refs/atreides/checkpoints/`; the work
+ * tree, index and stash list are not touched. Untracked files are not part
+ * of git snapshots. Projects without git (or without commits) fall back to
+ * copying `options.files` into `.atreides-backups/<id>/`.
+ *
+ * @param projectPath - Project root
+ * @param shell - Shell to run git with
+ * @param options - Reason, session and fallback files
+ * @returns The checkpoint, or an error
+ */
+export async function createCheckpoint(
+  projectPath: string,
+  shell: CheckpointShell,
+  options: CreateCheckpointOptions
+): Promise<CheckpointResult> {
+  try {
+    const id = createCheckpointId();
+    const checkpoint =
+      (await isGitRepository(projectPath, shell) ? await createGitCheckpoint(projectPath, shell, id, options) : undefined) ??
+      (await createFileCheckpoint(projectPath, id, options));
+
+    if (!checkpoint) {
+      return { success: false, error: "Nothing to checkpoint: not a git repository and no files to copy" };
+    }
+
+    if (options.maxCheckpoints) {
+      await pruneCheckpoints(projectPath, shell, options.maxCheckpoints);
+    }
+
+    logger.info("Checkpoint created", { id, kind: checkpoint.kind, reason: options.reason });
+    return { success: true, checkpoint };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Checkpoint failed", { reason: options.reason, error: message });
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * List the checkpoints of a project, newest first.
+ *
+ * @param projectPath - Project root
+ * @param shell - Shell to run git with
+ * @returns Git and file checkpoints
+ */
+export async function listCheckpoints(projectPath: string, shell: CheckpointShell): Promise<Checkpoint[]> {
+  const checkpoints = [...(await listGitCheckpoints(projectPath, shell)), ...(await listFileCheckpoints(projectPath))];
+  return checkpoints.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Restore a checkpoint.
+ *
+ * A safety checkpoint of the current state is taken first, so a restore can
+ * be undone; if it fails, nothing is restored unless `options.force` is set.
+ * Git checkpoints restore the work tree of tracked files from the
+ * snapshot (`git restore --source`), leaving the index alone. File
+ * checkpoints copy the files back and remove files that did not exist when
+ * the checkpoint was taken.
+ *
+ * @param projectPath - Project root
+ * @param shell - Shell to run git with
+ * @param id - Checkpoint identifier
+ * @param options - Restore options
+ * @returns Restored files, or an error
+ */
+export async function restoreCheckpoint(
+  projectPath: string,
+  shell: CheckpointShell,
+  id: string,
+  options: RestoreCheckpointOptions = {}
+): Promise<RestoreCheckpointResult> {
+  const checkpoint = (await listCheckpoints(projectPath, shell)).find((c) => c.id === id);
+  if (!checkpoint) {
+    return { success: false, restoredFiles: [], error: `Checkpoint not found: ${id}` };
+  }
+
+  try {
+    const safety = await createCheckpoint(projectPath, shell, {
+      reason: "before-restore",
+      files: [...checkpoint.files, ...checkpoint.absent],
+    });
+    if (!safety.success && !options.force) {
+      logger.warn("Checkpoint restore aborted: safety checkpoint failed", { id, error: safety.error });
+      return {
+        success: false,
+        checkpoint,
+        restoredFiles: [],
+        error: `Could not save the current state before restoring (${safety.error ?? "unknown error"}); use force to restore anyway`,
+      };
+    }
+
+    const restoredFiles =
+      checkpoint.kind === "git"
+        ? await restoreGitCheckpoint(projectPath, shell, checkpoint)
+        : await restoreFileCheckpoint(projectPath, checkpoint);
+
+    logger.info("Checkpoint restored", { id, kind: checkpoint.kind, files: restoredFiles.length });
+    return {
+      success: true,
+      checkpoint,
+      restoredFiles,
+      ...(safety.checkpoint ? { safetyCheckpoint: safety.checkpoint } : {}),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Checkpoint restore failed", { id, error: message });
+    return { success: false, checkpoint, restoredFiles: [], error: message };
+  }
+}
+
+/**
+ * Remove the oldest checkpoints beyond a limit.
+ *
+ * @param projectPath - Project root
+ * @param shell - Shell to run git with
+ * @param keep - Number of checkpoints to keep
+ * @returns Removed checkpoints
+ */
+export async function pruneCheckpoints(
+  projectPath: string,
+  shell: CheckpointShell,
+  keep: number
+): Promise<Checkpoint[]> {
+  const removed = (await listCheckpoints(projectPath, shell)).slice(keep);
+  for (const checkpoint of removed) {
+    if (checkpoint.kind === "git") {
+      await shell(`git update-ref -d ${CHECKPOINT_REF_PREFIX}${checkpoint.id}`, { cwd: projectPath });
+    } else {
+      await rm(join(projectPath, CHECKPOINT_BACKUP_DIR, checkpoint.id), { recursive: true, force: true });
+    }
+  }
+  return removed;
+}
+
+/**
+ * Shell that runs commands with `child_process.exec`, for use outside the
+ * plugin (CLI).
+ *
+ * @returns Shell function
+ */
+export function createProcessShell(): CheckpointShell {
+  return (command, options = {}) =>
+    new Promise((resolvePromise) => {
+      exec(command, { cwd: options.cwd, timeout: options.timeout ?? 30_000 }, (error, stdout, stderr) => {
+        const exitCode = error ? (typeof error.code === "number" ? error.code : 1) : 0;
+        resolvePromise({ stdout: String(stdout), stderr: String(stderr), exitCode });
+      });
+    });
+}
+
+// =============================================================================
+// Git Checkpoints
+// =============================================================================
+
+async function isGitRepository(projectPath: string, shell: CheckpointShell): Promise<boolean> {
+  const result = await shell("git rev-parse --is-inside-work-tree", { cwd: projectPath });
+  return result.exitCode === 0 && result.stdout.trim() === "true";
+}
+
+async function createGitCheckpoint(
+  projectPath: string,
+  shell: CheckpointShell,
+  id: string,
+  options: CreateCheckpointOptions
+): Promise<Checkpoint | undefined> {
+  const message = `${MESSAGE_PREFIX}: ${options.reason}${options.sessionId ? ` (session ${options.sessionId})` : ""}`;
+
+  let commit = (await shell(`git stash create ${quote(message)}`, { cwd: projectPath })).stdout.trim();
+  if (!commit) {
+    // Clean work tree: snapshot HEAD's tree
+    const snapshot = await shell(`git commit-tree HEAD^{tree} -p HEAD -m ${quote(message)}`, { cwd: projectPath });
+    if (snapshot.exitCode !== 0) {
+      return undefined;
+    }
+    commit = snapshot.stdout.trim();
+  }
+
+  const ref = await shell(`git update-ref ${CHECKPOINT_REF_PREFIX}${id} ${commit}`, { cwd: projectPath });
+  if (ref.exitCode !== 0) {
+    throw new Error(`git update-ref failed: ${ref.stderr.trim()}`);
+  }
+
+  return {
+    id,
+    kind: "git",
+    reason: options.reason,
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    createdAt: new Date().toISOString(),
+    commit,
+    files: [],
+    absent: [],
+  };
+}
+
+async function listGitCheckpoints(projectPath: string, shell: CheckpointShell): Promise<Checkpoint[]> {
+  const result = await shell(
+    `git for-each-ref --format=${quote("%(refname:strip=3)%09%(objectname)%09%(creatordate:iso-strict)%09%(contents:subject)")} ${CHECKPOINT_REF_PREFIX}`,
+    { cwd: projectPath }
+  );
+  if (result.exitCode !== 0) {
+    return [];
+  }
+
+  return result.stdout
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => line.split("\t"))
+    // Ids end up in git commands (prune); skip refs this module did not create
+    .filter(([id = ""]) => CHECKPOINT_ID_PATTERN.test(id))
+    .map(([id = "", commit = "", date = "", subject = ""]) => {
+      const match = subject.match(MESSAGE_PATTERN);
+      return {
+        id,
+        kind: "git" as const,
+        reason: match?.[1] ?? "unknown",
+        ...(match?.[2] ? { sessionId: match[2] } : {}),
+        createdAt: new Date(date).toISOString(),
+        commit,
+        files: [],
+        absent: [],
+      };
+    });
+}
+
+async function restoreGitCheckpoint(
+  projectPath: string,
+  shell: CheckpointShell,
+  checkpoint: Checkpoint
+): Promise<string[]> {
+  const diff = await shell(`git diff --name-only ${checkpoint.commit}`, { cwd: projectPath });
+  const restore = await shell(`git restore --source=${checkpoint.commit} --worktree -- .`, { cwd: projectPath });
+  if (restore.exitCode !== 0) {
+    throw new Error(`git restore failed: ${restore.stderr.trim()}`);
+  }
+  return diff.stdout.split("\n").filter((line) => line.length > 0);
+}
+
+// =============================================================================
+// File Checkpoints
+// =============================================================================
+
+async function createFileCheckpoint(
+  projectPath: string,
+  id: string,
+  options: CreateCheckpointOptions
+): Promise<Checkpoint | undefined> {
+  const root = resolve(projectPath);
+  const relativePaths = new Set<string>();
+  for (const file of options.files ?? []) {
+    const rel = toProjectPath(root, file);
+    if (rel) {
+      relativePaths.add(rel);
+    }
+  }
+  if (relativePaths.size === 0) {
+    return undefined;
+  }
+
+  const checkpointDir = join(root, CHECKPOINT_BACKUP_DIR, id);
+  const files: string[] = [];
+  const absent: string[] = [];
+  for (const rel of relativePaths) {
+    if (existsSync(join(root, rel))) {
+      const target = join(checkpointDir, "files", rel);
+      await mkdir(dirname(target), { recursive: true });
+      await copyFile(join(root, rel), target);
+      files.push(rel);
+    } else {
+      absent.push(rel);
+    }
+  }
+
+  const checkpoint: Checkpoint = {
+    id,
+    kind: "files",
+    reason: options.reason,
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    createdAt: new Date().toISOString(),
+    files,
+    absent,
+  };
+  await mkdir(checkpointDir, { recursive: true });
+  await writeFile(join(checkpointDir, METADATA_FILE), JSON.stringify(checkpoint, null, 2));
+  return checkpoint;
+}
+
+async function listFileCheckpoints(projectPath: string): Promise<Checkpoint[]> {
+  const backupDir = join(projectPath, CHECKPOINT_BACKUP_DIR);
+  let entries: string[];
+  try {
+    entries = await readdir(backupDir);
+  } catch {
+    return [];
+  }
+
+  const checkpoints: Checkpoint[] = [];
+  for (const entry of entries) {
+    try {
+      const content = await readFile(join(backupDir, entry, METADATA_FILE), "utf-8");
+      const checkpoint = JSON.parse(content) as Checkpoint;
+      // The id is used to build paths (prune, restore): it must be the directory's own
+      if (checkpoint.id !== entry || !CHECKPOINT_ID_PATTERN.test(entry)) {
+        logger.warn("Ignoring checkpoint metadata with an unexpected id", { entry });
+        continue;
+      }
+      checkpoints.push(checkpoint);
+    } catch {
+      // Not a checkpoint directory
+    }
+  }
+  return checkpoints;
+}
+
+async function restoreFileCheckpoint(projectPath: string, checkpoint: Checkpoint): Promise<string[]> {
+  const root = resolve(projectPath);
+  const outside = [...checkpoint.files, ...checkpoint.absent].find((file) => toProjectPath(root, file) === undefined);
+  if (outside !== undefined) {
+    throw new Error(`Checkpoint ${checkpoint.id} lists a path outside the project: ${outside}`);
+  }
+
+  const checkpointDir = join(projectPath, CHECKPOINT_BACKUP_DIR, checkpoint.id);
+  for (const rel of checkpoint.files) {
+    const target = join(projectPath, rel);
+    await mkdir(dirname(target), { recursive: true });
+    await copyFile(join(checkpointDir, "files", rel), target);
+  }
+  for (const rel of checkpoint.absent) {
+    await rm(join(projectPath, rel), { force: true });
+  }
+  return [...checkpoint.files, ...checkpoint.absent];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Checkpoint identifier: UTC timestamp (milliseconds) plus a random suffix,
+ * e.g. "20260301T101500123Z-k3j9". Identifiers sort by creation time.
+ */
+function createCheckpointId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, "");
+  return `${timestamp}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Path of a file relative to the project root, or undefined if it is outside
+ * the project (or inside the backups).
+ */
+function toProjectPath(root: string, file: string): string | undefined {
+  const rel = relative(root, resolve(root, file));
+  if (!rel || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    return undefined;
+  }
+  return rel === CHECKPOINT_BACKUP_DIR || rel.startsWith(`${CHECKPOINT_BACKUP_DIR}${sep}`) ? undefined : rel;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -47,6 +47,273 @@ export interface IdentityConfig {
   agentDisplayNames?: Record<string, string>;
 }
 
+/**
+ * Bash command rule in a workflow definition.
+ * Rules are checked in order; the first rule with a matching pattern wins.
+ */
+export interface WorkflowCommandRule {
+  /** Phase indicated by a matching command */
+  phase: string;
+
+  /** Regular expressions matched against the command (case-insensitive) */
+  patterns: string[];
+
+  /**
+   * Phases that are kept when the rule matches.
+   * @example ["implementation"] to stay in implementation while reading files
+   */
+  keepPhases?: string[];
+}
+
+/**
+ * A workflow definition: its phases, allowed transitions, how tool usage
+ * maps to phases, and the guidance injected for each phase.
+ * Every workflow starts in "idle" and enters its first phase when the user
+ * sends a message. Returning to "idle" from the last phase completes it.
+ *
+ * @example
+ * ```json
+ * {
+ *   "phases": ["intent", "red", "green", "refactor", "verification"],
+ *   "transitions": {
+ *     "idle": ["intent"],
+ *     "intent": ["red"],
+ *     "red": ["green"],
+ *     "green": ["refactor", "verification"],
+ *     "refactor": ["verification"],
+ *     "verification": ["intent", "red", "idle"]
+ *   },
+ *   "tools": { "edit": ["green"], "write": ["red"] },
+ *   "commands": [{ "phase": "verification", "patterns": ["\\btest\\b"] }],
+ *   "guidance": { "red": "[WORKFLOW PHASE: RED]\nWrite a failing test first." }
+ * }
+ * ```
+ */
+export interface WorkflowDefinition {
+  /** Ordered phases, excluding "idle". The first phase is entered when the workflow starts */
+  phases: string[];
+
+  /** Allowed transitions per phase; "idle" may be used as a source or target */
+  transitions: Record<string, string[]>;
+
+  /**
+   * Tools that indicate phases. When a tool maps to several phases, the
+   * first one after the current phase is used.
+   */
+  tools?: Record<string, string[]>;
+
+  /** Rules for bash/shell commands, checked in order */
+  commands?: WorkflowCommandRule[];
+
+  /** Phase for bash commands that match no rule, when the current phase is one of `from` */
+  defaultCommandPhase?: { phase: string; from: string[] };
+
+  /** Guidance injected into the system prompt per phase */
+  guidance?: Record<string, string>;
+}
+
+/**
+ * What happens when a phase gate is not satisfied.
+ * - off: Gates are not evaluated
+ * - warn: The tool runs (or the session stops) with a warning
+ * - deny: The tool (or stop) is blocked until the gate is unlocked
+ */
+export type PhaseGateMode = "off" | "warn" | "deny";
+
+/**
+ * Phase gate rules. Can be overridden per intent type.
+ */
+export interface PhaseGateRules {
+  /**
+   * Gate action when a rule is not satisfied.
+   * @default "off"
+   */
+  mode: PhaseGateMode;
+
+  /**
+   * Phases in which implementation tools are gated.
+   * @default ["intent", "assessment"]
+   */
+  blockedPhases: string[];
+
+  /**
+   * Read/search calls required before the first implementation tool.
+   * @default 0
+   */
+  minExplorationCalls: number;
+
+  /**
+   * Require a todo list (todowrite or markdown checkboxes) before the first implementation tool.
+   * @default false
+   */
+  requireTodos: boolean;
+
+  /**
+   * Require a passing verification run (test/build command) after the last change before stop.
+   * Uses the same status as `workflow.requireGreenBeforeStop`.
+   * @default false
+   */
+  requireVerification: boolean;
+}
+
+/**
+ * Phase gates evaluated in `tool.execute.before` and `stop`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "mode": "deny",
+ *   "minExplorationCalls": 3,
+ *   "requireVerification": true,
+ *   "intents": { "exploration": { "mode": "off" }, "documentation": { "requireVerification": false } }
+ * }
+ * ```
+ */
+export interface PhaseGateConfig extends PhaseGateRules {
+  /**
+   * Tools gated as implementation tools.
+   * @default ["edit", "write", "multiedit", "create", "patch"]
+   */
+  implementationTools: string[];
+
+  /**
+   * Tools counted as exploration calls.
+   * @default ["read", "grep", "glob", "list", "search", "codebase_search", "grep_search", "file_search", "list_dir"]
+   */
+  explorationTools: string[];
+
+  /**
+   * Rule overrides per intent type.
+   * @default {}
+   */
+  intents: Record<string, Partial<PhaseGateRules>>;
+}
+
+/**
+ * Error categories used by error recovery (see ErrorRecovery in the plugin).
+ */
+export const ERROR_CATEGORIES = [
+  "command",
+  "permission",
+  "file",
+  "module",
+  "build",
+  "lint",
+  "test",
+  "syntax",
+  "type",
+  "network",
+  "memory",
+  "generic",
+] as const;
+
+export type ErrorCategoryName = (typeof ERROR_CATEGORIES)[number];
+
+/**
+ * Strike thresholds of the error recovery protocol.
+ * Can be overridden per error category.
+ */
+export interface ErrorRecoveryRules {
+  /**
+   * Consecutive errors at which recovery suggestions are shown.
+   * @default 2
+   */
+  suggestAt: number;
+
+  /**
+   * Consecutive errors at which the session escalates. 1 escalates on the
+   * first error, 0 never escalates.
+   * @default 3
+   */
+  escalateAt: number;
+}
+
+/**
+ * Error recovery (3-strike protocol) configuration.
+ *
+ * @example
+ * ```json
+ * {
+ *   "escalateAt": 4,
+ *   "escalationAgent": "plan",
+ *   "cooldownSeconds": 300,
+ *   "categories": { "network": { "escalateAt": 1 }, "lint": { "escalateAt": 0 } }
+ * }
+ * ```
+ */
+export interface ErrorRecoveryConfig extends ErrorRecoveryRules {
+  /**
+   * Agent the session escalates to (Stilgar or any generated agent).
+   * @default "stilgar"
+   */
+  escalationAgent: string;
+
+  /**
+   * Minimum seconds between two escalations of a session. Errors past the
+   * threshold during the cooldown get recovery suggestions instead.
+   * 0 disables the cooldown.
+   * @default 0
+   */
+  cooldownSeconds: number;
+
+  /**
+   * Threshold overrides per error category.
+   * @default {}
+   */
+  categories: Partial<Record<ErrorCategoryName, Partial<ErrorRecoveryRules>>>;
+}
+
+/**
+ * Which open todos block a stop:
+ * - any: Every pending or in-progress todo
+ * - high: Only high-priority todos
+ */
+export const TODO_BLOCK_LEVELS = ["any", "high"] as const;
+
+export type TodoBlockLevel = (typeof TODO_BLOCK_LEVELS)[number];
+
+/**
+ * Todo enforcement policies applied when `strictTodoEnforcement` blocks a stop.
+ *
+ * @example
+ * ```json
+ * {
+ *   "blockOn": "high",
+ *   "allowStopAfterAttempts": 3,
+ *   "releaseTags": ["deferred", "blocked", "later"],
+ *   "maxAgeMinutes": 240
+ * }
+ * ```
+ */
+export interface TodoEnforcementConfig {
+  /**
+   * Which open todos block a stop ("any" or only "high" priority).
+   * @default "any"
+   */
+  blockOn: TodoBlockLevel;
+
+  /**
+   * Allow the stop after this many blocked stop attempts in a row with the
+   * same blocking todos. 0 always blocks.
+   * @default 0
+   */
+  allowStopAfterAttempts: number;
+
+  /**
+   * Todos tagged with one of these (e.g. `- [ ] Migrate the DB [deferred]`)
+   * never block a stop.
+   * @default ["deferred", "blocked"]
+   */
+  releaseTags: string[];
+
+  /**
+   * Minutes after which an open todo is stale and no longer blocks a stop.
+   * 0 disables the limit.
+   * @default 0
+   */
+  maxAgeMinutes: number;
+}
+
 /**
  * Workflow configuration for phase tracking and todo enforcement.
  *
@@ -61,8 +328,9 @@ export interface IdentityConfig {
  */
 export interface WorkflowConfig {
   /**
-   * Enable the 5-phase workflow tracking system.
-   * Phases: idle → intent → assessment → exploration → implementation → verification
+   * Enable the workflow phase tracking system.
+   * The default workflow has 5 phases:
+   * idle → intent → assessment → exploration → implementation → verification
    * @default true
    */
   enablePhaseTracking: boolean;
@@ -75,11 +343,51 @@ export interface WorkflowConfig {
   strictTodoEnforcement: boolean;
 
   /**
-   * Automatically escalate to Stilgar after 3 consecutive errors.
-   * When enabled, sets stilgarEscalation metadata on 3rd strike.
+   * Policies deciding which pending todos block a stop (priority, release
+   * tags, max age) and when a repeatedly blocked stop is let through.
+   */
+  todoEnforcement: TodoEnforcementConfig;
+
+  /**
+   * Automatically escalate when the error recovery protocol reaches its
+   * escalation threshold (3 consecutive errors by default, see errorRecovery).
+   * When enabled, sets stilgarEscalation metadata on escalation.
    * @default true
    */
   autoEscalateOnError: boolean;
+
+  /**
+   * Strike thresholds, escalation agent, cooldown and per-category overrides
+   * of the error recovery protocol.
+   */
+  errorRecovery: ErrorRecoveryConfig;
+
+  /**
+   * Block session stop if files were modified since the last successful
+   * verification run (tests, build, type-check).
+   * @default false
+   */
+  requireGreenBeforeStop: boolean;
+
+  /**
+   * Custom workflow definitions keyed by name.
+   * A definition named "default" replaces the built-in 5-phase workflow.
+   * @default {}
+   */
+  workflows: Record<string, WorkflowDefinition>;
+
+  /**
+   * Workflow to use per intent type. Intents without an entry use "default".
+   * @default {}
+   * @example { "test": "tdd", "documentation": "docs" }
+   */
+  intentWorkflows: Record<string, string>;
+
+  /**
+   * Phase gates that hold back implementation tools and stop until
+   * exploration, planning and verification have happened.
+   */
+  gates: PhaseGateConfig;
 }
 
 /**
@@ -104,7 +412,7 @@ export interface SecurityConfig {
 
   /**
    * Additional command patterns to block (extends built-in list).
-   * Patterns are matched against normalized command strings.
+   * Case-insensitive regular expressions, matched against normalized command strings.
    * @example ["proprietary-tool --dangerous"]
    * @default []
    */
@@ -112,7 +420,7 @@ export interface SecurityConfig {
 
   /**
    * Additional command patterns requiring user confirmation.
-   * Matched patterns show warning but allow execution.
+   * Case-insensitive regular expressions; matches prompt before execution.
    * @example ["deploy", "migrate"]
    * @default []
    */
@@ -120,11 +428,408 @@ export interface SecurityConfig {
 
   /**
    * Additional file paths to block access to.
-   * Supports glob patterns.
+   * Supports glob patterns (`*`, `**`, `?`, `{a,b}`); globs without a leading
+   * `/` match at any directory depth.
    * @example [".vault/*", "secrets/**"]
    * @default []
    */
   blockedFiles: string[];
+
+  /**
+   * Named permission policy applied on top of the built-in patterns.
+   * - strict: deny pushes, system and raw network commands; ask for commits,
+   *   HTTP requests and deletions
+   * - balanced: ask for pushes, deletions, system and raw network commands;
+   *   deny force operations
+   * - permissive: built-in patterns only
+   * - custom: only the restrictions in `permissions`
+   * @default "permissive"
+   */
+  preset: SecurityPreset;
+
+  /**
+   * Per-permission overrides by id (the init wizard's permission ids, e.g.
+   * "git-push", "shell-system", "net-unrestricted"). `false` restricts the
+   * permission (ask or deny, depending on how dangerous it is); `true` lifts
+   * a preset restriction.
+   * @example { "git-push": false, "net-http": true }
+   * @default {}
+   */
+  permissions: Record<string, boolean>;
+
+  /**
+   * Exceptions that override deny/ask decisions from the security pipeline.
+   * Evaluated after normalization; every override is recorded in session
+   * metadata (`securityOverrides`). Workspace confinement and the network
+   * policy are never overridden (use `confinement.allowedRoots` and
+   * `network.allowedDomains`).
+   * @example [{ "path": "fixtures/*.key", "reason": "Test fixtures" }]
+   * @default []
+   */
+  allow: SecurityAllowRule[];
+
+  /**
+   * Workspace confinement for file tools and paths in shell commands.
+   */
+  confinement: WorkspaceConfinementConfig;
+
+  /**
+   * Egress policy for network destinations in shell commands.
+   */
+  network: NetworkPolicyConfig;
+
+  /**
+   * Append-only audit log of deny/ask/override decisions.
+   */
+  audit: SecurityAuditConfig;
+
+  /**
+   * Secret redaction for tool outputs before they reach the model.
+   */
+  redaction: SecretRedactionConfig;
+}
+
+/**
+ * What to do with secrets found in tool outputs.
+ * - off: no scanning
+ * - warn: log and record detections, leave the output unchanged
+ * - redact: replace secrets with `[REDACTED:<detector>]`
+ */
+export type RedactionMode = "off" | "warn" | "redact";
+
+/**
+ * Secret redaction configuration.
+ */
+export interface SecretRedactionConfig {
+  /**
+   * Redaction mode.
+   * @default "redact"
+   */
+  mode: RedactionMode;
+
+  /**
+   * Per-detector toggles by detector id, overriding the catalog defaults.
+   * `high-entropy-string` is off by default since it also matches hashes.
+   * @example { "jwt": false, "high-entropy-string": true }
+   * @default {}
+   */
+  detectors: Record<string, boolean>;
+}
+
+/**
+ * Security audit log configuration.
+ * Entries are written as JSON lines; inspect them with `atreides audit`.
+ */
+export interface SecurityAuditConfig {
+  /**
+   * Write every deny, ask and override decision to the audit log.
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Log file path, relative to the project root.
+   * @default ".opencode/security-audit.jsonl"
+   */
+  path: string;
+
+  /**
+   * Rotate the log when it would grow past this size.
+   * @default 10
+   */
+  maxFileSizeMB: number;
+
+  /**
+   * Number of rotated files to keep (`<path>.1` is the most recent).
+   * @default 5
+   */
+  maxFiles: number;
+}
+
+/**
+ * Named security policy.
+ */
+export type SecurityPreset = "strict" | "balanced" | "permissive" | "custom";
+
+/**
+ * Action for file access outside the workspace.
+ * - off: no confinement
+ * - ask: require user confirmation
+ * - deny: block the tool call
+ */
+export type ConfinementMode = "off" | "ask" | "deny";
+
+/**
+ * Workspace confinement configuration.
+ * The workspace is the project directory plus the git worktree (if any).
+ */
+export interface WorkspaceConfinementConfig {
+  /**
+   * What to do when a path resolves outside the workspace and allowed roots.
+   * Paths are resolved through `..` segments and symlinks.
+   * @default "off"
+   */
+  mode: ConfinementMode;
+
+  /**
+   * Additional directories tools may access.
+   * Relative paths resolve against the project root; `~` expands to the home directory.
+   * @example ["/tmp", "~/.cache/shared-node-modules"]
+   * @default []
+   */
+  allowedRoots: string[];
+}
+
+/**
+ * Action for network destinations outside the allowed domains.
+ * - off: no network policy
+ * - ask: require user confirmation
+ * - deny: block the command
+ */
+export type NetworkPolicyMode = "off" | "ask" | "deny";
+
+/**
+ * Network egress policy configuration.
+ * Destinations are taken from `curl`, `wget`, `git clone`, `npm install <url>`,
+ * `pip install --index-url`, `ssh`, `scp` and `nc` invocations.
+ *
+ * Domain patterns are host names, optionally with wildcards: `*.example.com`
+ * matches any subdomain (not `example.com` itself), `*` within a label
+ * matches any characters in that label.
+ */
+export interface NetworkPolicyConfig {
+  /**
+   * What to do with destinations that do not match `allowedDomains`
+   * (and with destinations that cannot be determined, like `$HOST`).
+   * Denied domains are blocked in every mode except "off".
+   * @default "off"
+   */
+  mode: NetworkPolicyMode;
+
+  /**
+   * Domains the agent may reach. An empty list allows every domain that is
+   * not denied.
+   * @example ["registry.npmjs.org", "*.github.com", "github.com"]
+   * @default []
+   */
+  allowedDomains: string[];
+
+  /**
+   * Domains that are always blocked.
+   * @example ["*.pastebin.com", "transfer.sh"]
+   * @default []
+   */
+  deniedDomains: string[];
+}
+
+/**
+ * Exception rule for the security pipeline.
+ * Set exactly one of `path` or `command`.
+ */
+export interface SecurityAllowRule {
+  /**
+   * File glob, same syntax as `blockedFiles`.
+   * Never applies to paths containing `..` segments.
+   */
+  path?: string;
+
+  /**
+   * Case-insensitive regular expression matched against each parsed command
+   * (pipeline) that is denied; comments are ignored. The command line is
+   * allowed only if every denied command is matched by a rule.
+   * Anchor it (`^...$`) to avoid allowing more than intended.
+   */
+  command?: string;
+
+  /**
+   * Restrict the rule to one tool (e.g. "read", "bash").
+   * Applies to all tools of the matching kind when omitted.
+   */
+  tool?: string;
+
+  /** Why the exception exists; recorded with each override */
+  reason?: string;
+}
+
+/**
+ * Session configuration for state lifecycle and persistence.
+ *
+ * ## Configuration Path
+ * ```json
+ * {
+ *   "atreides": {
+ *     "session": { ... }
+ *   }
+ * }
+ * ```
+ */
+export interface SessionConfig {
+  /**
+   * Persist session state to disk so it survives plugin restarts.
+   * State is written through on every change and rehydrated on `session.created`.
+   * @default false
+   */
+  persistState: boolean;
+
+  /**
+   * Directory where session state files are stored.
+   * Relative paths are resolved against the project root.
+   * @default ".opencode/state"
+   */
+  stateDirectory: string;
+
+  /**
+   * Maximum number of sessions kept in memory.
+   * When exceeded, the least recently active session is evicted.
+   * Use 0 for no limit.
+   * @default 100
+   */
+  maxSessions: number;
+
+  /**
+   * Evict sessions with no activity for this many minutes.
+   * Use 0 to disable idle eviction.
+   * @default 240
+   */
+  maxIdleMinutes: number;
+
+  /**
+   * Git-based checkpoints of the project taken during sessions.
+   */
+  checkpoints: CheckpointConfig;
+
+  /**
+   * Export of open todos to a project markdown file.
+   */
+  todoExport: TodoExportConfig;
+
+  /**
+   * Size budget of the state block preserved on context compaction.
+   */
+  compaction: CompactionConfig;
+}
+
+/**
+ * Checkpoint configuration.
+ *
+ * Git projects are snapshotted with `git stash create` (or a commit of HEAD's
+ * tree when the work tree is clean) under `refs/atreides/checkpoints/`.
+ * Other projects fall back to copies of the touched files in
+ * `.atreides-backups/`.
+ *
+ * ## Configuration Path
+ * ```json
+ * {
+ *   "atreides": {
+ *     "session": {
+ *       "checkpoints": { "enabled": true, "maxCheckpoints": 20 }
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface CheckpointConfig {
+  /**
+   * Take checkpoints automatically.
+   * Listing and restoring via the API and CLI work regardless.
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Checkpoint before the first implementation tool (edit, write, ...) of a session.
+   * @default true
+   */
+  beforeImplementation: boolean;
+
+  /**
+   * Checkpoint before each escalation to Stilgar.
+   * @default true
+   */
+  beforeEscalation: boolean;
+
+  /**
+   * Number of checkpoints to keep; older ones are removed.
+   * Use 0 for no limit.
+   * @default 20
+   */
+  maxCheckpoints: number;
+}
+
+/**
+ * Todo export configuration.
+ *
+ * Open todos of a session are written to a markdown task list so the work
+ * left over when a session ends can be picked up by a later one. Entries
+ * are merged by todo id, so exporting again updates them in place.
+ *
+ * ## Configuration Path
+ * ```json
+ * {
+ *   "atreides": {
+ *     "session": {
+ *       "todoExport": { "enabled": true, "path": ".opencode/TODO.md", "importOnStart": true }
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface TodoExportConfig {
+  /**
+   * Export the session's todos on `session.deleted`.
+   * Exporting and importing via the API work regardless.
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Markdown file the todos are written to.
+   * Relative paths are resolved against the project root.
+   * @default ".opencode/TODO.md"
+   */
+  path: string;
+
+  /**
+   * Import the open todos from the file into new sessions.
+   * @default false
+   */
+  importOnStart: boolean;
+}
+
+/**
+ * Compaction state block configuration.
+ *
+ * The block keeps the workflow phase and escalation state in any case, then
+ * fills the budget with pending todos, security blocks, changed files, files
+ * read, the last error output and recent tools, in that order. Left-out
+ * entries are replaced by truncation markers. Tokens are estimated at 4 characters each; when both
+ * limits are set the smaller one applies.
+ *
+ * ## Configuration Path
+ * ```json
+ * {
+ *   "atreides": {
+ *     "session": {
+ *       "compaction": { "maxChars": 4000 }
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface CompactionConfig {
+  /**
+   * Maximum characters of the state block.
+   * Use 0 for no limit.
+   * @default 8000
+   */
+  maxChars: number;
+
+  /**
+   * Maximum estimated tokens of the state block.
+   * Use 0 for no limit.
+   * @default 0
+   */
+  maxTokens: number;
 }
 
 /**
@@ -151,6 +856,12 @@ export interface SecurityConfig {
  *       "blockedPatterns": [],
  *       "warningPatterns": [],
  *       "blockedFiles": []
+ *     },
+ *     "session": {
+ *       "persistState": false,
+ *       "stateDirectory": ".opencode/state",
+ *       "maxSessions": 100,
+ *       "maxIdleMinutes": 240
  *     }
  *   }
  * }
@@ -160,6 +871,7 @@ export interface Config {
   identity: IdentityConfig;
   workflow: WorkflowConfig;
   security: SecurityConfig;
+  session: SessionConfig;
 }
 
 /**
@@ -195,13 +907,92 @@ const DEFAULT_CONFIG: Config = {
   workflow: {
     enablePhaseTracking: true,
     strictTodoEnforcement: true,
+    todoEnforcement: {
+      blockOn: "any",
+      allowStopAfterAttempts: 0,
+      releaseTags: ["deferred", "blocked"],
+      maxAgeMinutes: 0,
+    },
     autoEscalateOnError: true,
+    errorRecovery: {
+      suggestAt: 2,
+      escalateAt: 3,
+      escalationAgent: "stilgar",
+      cooldownSeconds: 0,
+      categories: {},
+    },
+    requireGreenBeforeStop: false,
+    workflows: {},
+    intentWorkflows: {},
+    gates: {
+      mode: "off",
+      blockedPhases: ["intent", "assessment"],
+      minExplorationCalls: 0,
+      requireTodos: false,
+      requireVerification: false,
+      implementationTools: ["edit", "write", "multiedit", "create", "patch"],
+      explorationTools: [
+        "read",
+        "grep",
+        "glob",
+        "list",
+        "search",
+        "codebase_search",
+        "grep_search",
+        "file_search",
+        "list_dir",
+      ],
+      intents: {},
+    },
   },
   security: {
     enableObfuscationDetection: true,
     blockedPatterns: [],
     warningPatterns: [],
     blockedFiles: [],
+    preset: "permissive",
+    permissions: {},
+    allow: [],
+    confinement: {
+      mode: "off",
+      allowedRoots: [],
+    },
+    network: {
+      mode: "off",
+      allowedDomains: [],
+      deniedDomains: [],
+    },
+    audit: {
+      enabled: false,
+      path: ".opencode/security-audit.jsonl",
+      maxFileSizeMB: 10,
+      maxFiles: 5,
+    },
+    redaction: {
+      mode: "redact",
+      detectors: {},
+    },
+  },
+  session: {
+    persistState: false,
+    stateDirectory: ".opencode/state",
+    maxSessions: 100,
+    maxIdleMinutes: 240,
+    checkpoints: {
+      enabled: false,
+      beforeImplementation: true,
+      beforeEscalation: true,
+      maxCheckpoints: 20,
+    },
+    todoExport: {
+      enabled: false,
+      path: ".opencode/TODO.md",
+      importOnStart: false,
+    },
+    compaction: {
+      maxChars: 8000,
+      maxTokens: 0,
+    },
   },
 };
 
@@ -214,12 +1005,53 @@ const DEFAULT_CONFIG: Config = {
 export function createDefaultConfig(): Config {
   return {
     identity: { ...DEFAULT_CONFIG.identity },
-    workflow: { ...DEFAULT_CONFIG.workflow },
+    workflow: {
+      ...DEFAULT_CONFIG.workflow,
+      todoEnforcement: {
+        ...DEFAULT_CONFIG.workflow.todoEnforcement,
+        releaseTags: [...DEFAULT_CONFIG.workflow.todoEnforcement.releaseTags],
+      },
+      errorRecovery: {
+        ...DEFAULT_CONFIG.workflow.errorRecovery,
+        categories: { ...DEFAULT_CONFIG.workflow.errorRecovery.categories },
+      },
+      workflows: { ...DEFAULT_CONFIG.workflow.workflows },
+      intentWorkflows: { ...DEFAULT_CONFIG.workflow.intentWorkflows },
+      gates: {
+        ...DEFAULT_CONFIG.workflow.gates,
+        blockedPhases: [...DEFAULT_CONFIG.workflow.gates.blockedPhases],
+        implementationTools: [...DEFAULT_CONFIG.workflow.gates.implementationTools],
+        explorationTools: [...DEFAULT_CONFIG.workflow.gates.explorationTools],
+        intents: { ...DEFAULT_CONFIG.workflow.gates.intents },
+      },
+    },
     security: {
       ...DEFAULT_CONFIG.security,
       blockedPatterns: [...DEFAULT_CONFIG.security.blockedPatterns],
       warningPatterns: [...DEFAULT_CONFIG.security.warningPatterns],
       blockedFiles: [...DEFAULT_CONFIG.security.blockedFiles],
+      permissions: { ...DEFAULT_CONFIG.security.permissions },
+      allow: DEFAULT_CONFIG.security.allow.map((rule) => ({ ...rule })),
+      confinement: {
+        ...DEFAULT_CONFIG.security.confinement,
+        allowedRoots: [...DEFAULT_CONFIG.security.confinement.allowedRoots],
+      },
+      network: {
+        ...DEFAULT_CONFIG.security.network,
+        allowedDomains: [...DEFAULT_CONFIG.security.network.allowedDomains],
+        deniedDomains: [...DEFAULT_CONFIG.security.network.deniedDomains],
+      },
+      audit: { ...DEFAULT_CONFIG.security.audit },
+      redaction: {
+        ...DEFAULT_CONFIG.security.redaction,
+        detectors: { ...DEFAULT_CONFIG.security.redaction.detectors },
+      },
+    },
+    session: {
+      ...DEFAULT_CONFIG.session,
+      checkpoints: { ...DEFAULT_CONFIG.session.checkpoints },
+      todoExport: { ...DEFAULT_CONFIG.session.todoExport },
+      compaction: { ...DEFAULT_CONFIG.session.compaction },
     },
   };
 }
@@ -267,6 +1099,38 @@ export function validateConfig(config: unknown): ConfigValidationResult {
     if (typeof cfg.workflow.autoEscalateOnError !== "undefined" && typeof cfg.workflow.autoEscalateOnError !== "boolean") {
       errors.push({ path: "workflow.autoEscalateOnError", message: "Must be a boolean" });
     }
+    if (typeof cfg.workflow.requireGreenBeforeStop !== "undefined" && typeof cfg.workflow.requireGreenBeforeStop !== "boolean") {
+      errors.push({ path: "workflow.requireGreenBeforeStop", message: "Must be a boolean" });
+    }
+    const { workflows, intentWorkflows } = cfg.workflow;
+    if (workflows !== undefined && !isPlainObject(workflows)) {
+      errors.push({ path: "workflow.workflows", message: "Must be an object" });
+    } else if (workflows) {
+      for (const [name, definition] of Object.entries(workflows)) {
+        validateWorkflowDefinition(definition, `workflow.workflows.${name}`, errors);
+      }
+    }
+    if (intentWorkflows !== undefined && !isPlainObject(intentWorkflows)) {
+      errors.push({ path: "workflow.intentWorkflows", message: "Must be an object" });
+    } else if (intentWorkflows) {
+      for (const [intent, name] of Object.entries(intentWorkflows)) {
+        const path = `workflow.intentWorkflows.${intent}`;
+        if (!WORKFLOW_INTENTS.includes(intent)) {
+          errors.push({ path, message: `Unknown intent, must be one of: ${WORKFLOW_INTENTS.join(", ")}` });
+        } else if (name !== DEFAULT_WORKFLOW_NAME && !(isPlainObject(workflows) && typeof name === "string" && name in workflows)) {
+          errors.push({ path, message: `Must be "${DEFAULT_WORKFLOW_NAME}" or the name of a workflow in workflow.workflows` });
+        }
+      }
+    }
+    if (cfg.workflow.gates !== undefined) {
+      validatePhaseGates(cfg.workflow.gates, errors);
+    }
+    if (cfg.workflow.errorRecovery !== undefined) {
+      validateErrorRecovery(cfg.workflow.errorRecovery, errors);
+    }
+    if (cfg.workflow.todoEnforcement !== undefined) {
+      validateTodoEnforcement(cfg.workflow.todoEnforcement, errors);
+    }
   }
 
   // Validate security section
@@ -276,18 +1140,487 @@ export function validateConfig(config: unknown): ConfigValidationResult {
     }
     if (cfg.security.blockedPatterns !== undefined && !Array.isArray(cfg.security.blockedPatterns)) {
       errors.push({ path: "security.blockedPatterns", message: "Must be an array" });
+    } else if (cfg.security.blockedPatterns) {
+      validateRegexList(cfg.security.blockedPatterns, "security.blockedPatterns", errors);
     }
     if (cfg.security.warningPatterns !== undefined && !Array.isArray(cfg.security.warningPatterns)) {
       errors.push({ path: "security.warningPatterns", message: "Must be an array" });
+    } else if (cfg.security.warningPatterns) {
+      validateRegexList(cfg.security.warningPatterns, "security.warningPatterns", errors);
     }
     if (cfg.security.blockedFiles !== undefined && !Array.isArray(cfg.security.blockedFiles)) {
       errors.push({ path: "security.blockedFiles", message: "Must be an array" });
+    } else if (cfg.security.blockedFiles) {
+      cfg.security.blockedFiles.forEach((glob, index) => {
+        if (typeof glob !== "string" || glob.length === 0) {
+          errors.push({ path: `security.blockedFiles[${index}]`, message: "Must be a non-empty string" });
+        }
+      });
+    }
+    if (cfg.security.preset !== undefined && !SECURITY_PRESETS.includes(cfg.security.preset)) {
+      errors.push({ path: "security.preset", message: `Must be one of: ${SECURITY_PRESETS.join(", ")}` });
+    }
+    if (cfg.security.permissions !== undefined) {
+      const { permissions } = cfg.security;
+      if (!permissions || typeof permissions !== "object" || Array.isArray(permissions)) {
+        errors.push({ path: "security.permissions", message: "Must be an object" });
+      } else {
+        for (const [id, allowed] of Object.entries(permissions)) {
+          if (typeof allowed !== "boolean") {
+            errors.push({ path: `security.permissions.${id}`, message: "Must be a boolean" });
+          }
+        }
+      }
+    }
+    if (cfg.security.allow !== undefined && !Array.isArray(cfg.security.allow)) {
+      errors.push({ path: "security.allow", message: "Must be an array" });
+    } else if (cfg.security.allow) {
+      cfg.security.allow.forEach((rule, index) => validateAllowRule(rule, `security.allow[${index}]`, errors));
+    }
+    if (cfg.security.confinement !== undefined) {
+      const { mode, allowedRoots } = cfg.security.confinement;
+      if (mode !== undefined && !CONFINEMENT_MODES.includes(mode)) {
+        errors.push({ path: "security.confinement.mode", message: `Must be one of: ${CONFINEMENT_MODES.join(", ")}` });
+      }
+      if (allowedRoots !== undefined && !Array.isArray(allowedRoots)) {
+        errors.push({ path: "security.confinement.allowedRoots", message: "Must be an array" });
+      } else if (allowedRoots) {
+        allowedRoots.forEach((root, index) => {
+          if (typeof root !== "string" || root.length === 0) {
+            errors.push({ path: `security.confinement.allowedRoots[${index}]`, message: "Must be a non-empty string" });
+          }
+        });
+      }
+    }
+    if (cfg.security.network !== undefined) {
+      const { mode, allowedDomains, deniedDomains } = cfg.security.network;
+      if (mode !== undefined && !NETWORK_POLICY_MODES.includes(mode)) {
+        errors.push({ path: "security.network.mode", message: `Must be one of: ${NETWORK_POLICY_MODES.join(", ")}` });
+      }
+      validateDomainList(allowedDomains, "security.network.allowedDomains", errors);
+      validateDomainList(deniedDomains, "security.network.deniedDomains", errors);
+    }
+    if (cfg.security.audit !== undefined) {
+      const { enabled, path, maxFileSizeMB, maxFiles } = cfg.security.audit;
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        errors.push({ path: "security.audit.enabled", message: "Must be a boolean" });
+      }
+      if (path !== undefined && (typeof path !== "string" || path.length === 0)) {
+        errors.push({ path: "security.audit.path", message: "Must be a non-empty string" });
+      }
+      if (maxFileSizeMB !== undefined && (!isNonNegativeNumber(maxFileSizeMB) || maxFileSizeMB === 0)) {
+        errors.push({ path: "security.audit.maxFileSizeMB", message: "Must be a positive number" });
+      }
+      if (maxFiles !== undefined && !isNonNegativeInteger(maxFiles)) {
+        errors.push({ path: "security.audit.maxFiles", message: "Must be a non-negative integer" });
+      }
+    }
+    if (cfg.security.redaction !== undefined) {
+      const { mode, detectors } = cfg.security.redaction;
+      if (mode !== undefined && !REDACTION_MODES.includes(mode)) {
+        errors.push({ path: "security.redaction.mode", message: `Must be one of: ${REDACTION_MODES.join(", ")}` });
+      }
+      if (detectors !== undefined && (!detectors || typeof detectors !== "object" || Array.isArray(detectors))) {
+        errors.push({ path: "security.redaction.detectors", message: "Must be an object" });
+      } else if (detectors) {
+        for (const [id, enabled] of Object.entries(detectors)) {
+          if (typeof enabled !== "boolean") {
+            errors.push({ path: `security.redaction.detectors.${id}`, message: "Must be a boolean" });
+          }
+        }
+      }
+    }
+  }
+
+  // Validate session section
+  if (cfg.session) {
+    if (typeof cfg.session.persistState !== "undefined" && typeof cfg.session.persistState !== "boolean") {
+      errors.push({ path: "session.persistState", message: "Must be a boolean" });
+    }
+    if (typeof cfg.session.stateDirectory !== "undefined" && (typeof cfg.session.stateDirectory !== "string" || cfg.session.stateDirectory.length === 0)) {
+      errors.push({ path: "session.stateDirectory", message: "Must be a non-empty string" });
+    }
+    if (typeof cfg.session.maxSessions !== "undefined" && !isNonNegativeInteger(cfg.session.maxSessions)) {
+      errors.push({ path: "session.maxSessions", message: "Must be a non-negative integer" });
+    }
+    if (typeof cfg.session.maxIdleMinutes !== "undefined" && !isNonNegativeNumber(cfg.session.maxIdleMinutes)) {
+      errors.push({ path: "session.maxIdleMinutes", message: "Must be a non-negative number" });
+    }
+    const { checkpoints } = cfg.session;
+    if (checkpoints !== undefined && !isPlainObject(checkpoints)) {
+      errors.push({ path: "session.checkpoints", message: "Must be an object" });
+    } else if (checkpoints) {
+      for (const key of ["enabled", "beforeImplementation", "beforeEscalation"] as const) {
+        if (checkpoints[key] !== undefined && typeof checkpoints[key] !== "boolean") {
+          errors.push({ path: `session.checkpoints.${key}`, message: "Must be a boolean" });
+        }
+      }
+      if (checkpoints.maxCheckpoints !== undefined && !isNonNegativeInteger(checkpoints.maxCheckpoints)) {
+        errors.push({ path: "session.checkpoints.maxCheckpoints", message: "Must be a non-negative integer" });
+      }
+    }
+    const { todoExport } = cfg.session;
+    if (todoExport !== undefined && !isPlainObject(todoExport)) {
+      errors.push({ path: "session.todoExport", message: "Must be an object" });
+    } else if (todoExport) {
+      for (const key of ["enabled", "importOnStart"] as const) {
+        if (todoExport[key] !== undefined && typeof todoExport[key] !== "boolean") {
+          errors.push({ path: `session.todoExport.${key}`, message: "Must be a boolean" });
+        }
+      }
+      if (todoExport.path !== undefined && (typeof todoExport.path !== "string" || todoExport.path.length === 0)) {
+        errors.push({ path: "session.todoExport.path", message: "Must be a non-empty string" });
+      }
+    }
+    const { compaction } = cfg.session;
+    if (compaction !== undefined && !isPlainObject(compaction)) {
+      errors.push({ path: "session.compaction", message: "Must be an object" });
+    } else if (compaction) {
+      for (const key of ["maxChars", "maxTokens"] as const) {
+        if (compaction[key] !== undefined && !isNonNegativeInteger(compaction[key])) {
+          errors.push({ path: `session.compaction.${key}`, message: "Must be a non-negative integer (0 for no limit)" });
+        }
+      }
     }
   }
 
   return { valid: errors.length === 0, errors };
 }
 
+function validateRegexList(
+  patterns: unknown[],
+  path: string,
+  errors: ConfigValidationError[]
+): void {
+  patterns.forEach((pattern, index) => validateRegex(pattern, `${path}[${index}]`, errors));
+}
+
+function validateRegex(pattern: unknown, path: string, errors: ConfigValidationError[]): void {
+  if (typeof pattern !== "string" || pattern.length === 0) {
+    errors.push({ path, message: "Must be a non-empty string" });
+    return;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    errors.push({ path, message: `Invalid regular expression: ${reason}` });
+  }
+}
+
+const SECURITY_PRESETS: readonly SecurityPreset[] = ["strict", "balanced", "permissive", "custom"];
+const CONFINEMENT_MODES: readonly ConfinementMode[] = ["off", "ask", "deny"];
+const REDACTION_MODES: readonly RedactionMode[] = ["off", "warn", "redact"];
+const NETWORK_POLICY_MODES: readonly NetworkPolicyMode[] = ["off", "ask", "deny"];
+
+function validateDomainList(domains: unknown, path: string, errors: ConfigValidationError[]): void {
+  if (domains === undefined) {
+    return;
+  }
+  if (!Array.isArray(domains)) {
+    errors.push({ path, message: "Must be an array" });
+    return;
+  }
+  domains.forEach((domain, index) => {
+    if (typeof domain !== "string" || !/^[a-z0-9*_.:-]+$/i.test(domain)) {
+      errors.push({ path: `${path}[${index}]`, message: "Must be a domain name, optionally with * wildcards" });
+    }
+  });
+}
+
+/** Name of the built-in workflow, used for intents without a configured workflow */
+export const DEFAULT_WORKFLOW_NAME = "default";
+
+/** Intent types that can select a workflow (mirrors IntentType in the plugin types) */
+const WORKFLOW_INTENTS: readonly string[] = [
+  "feature",
+  "bugfix",
+  "refactor",
+  "exploration",
+  "documentation",
+  "test",
+  "config",
+  "unknown",
+];
+
+const PHASE_NAME_PATTERN = /^\w+$/;
+
+function validateWorkflowDefinition(definition: unknown, path: string, errors: ConfigValidationError[]): void {
+  if (!isPlainObject(definition)) {
+    errors.push({ path, message: "Must be an object" });
+    return;
+  }
+
+  const { phases, transitions, tools, commands, defaultCommandPhase, guidance } = definition;
+  if (!Array.isArray(phases) || phases.length === 0) {
+    errors.push({ path: `${path}.phases`, message: "Must be a non-empty array" });
+    return;
+  }
+
+  const known = new Set<string>();
+  phases.forEach((phase, index) => {
+    if (typeof phase !== "string" || !PHASE_NAME_PATTERN.test(phase) || phase === "idle") {
+      errors.push({ path: `${path}.phases[${index}]`, message: 'Must be a phase name (letters, digits, _) other than "idle"' });
+    } else if (known.has(phase)) {
+      errors.push({ path: `${path}.phases[${index}]`, message: "Duplicate phase" });
+    } else {
+      known.add(phase);
+    }
+  });
+
+  // "idle" is a valid transition endpoint but not a phase that tools can indicate
+  const endpoints = new Set([...known, "idle"]);
+  const checkPhases = (value: unknown, valuePath: string, allowed: Set<string>): void => {
+    if (!Array.isArray(value)) {
+      errors.push({ path: valuePath, message: "Must be an array" });
+      return;
+    }
+    value.forEach((phase, index) => {
+      if (typeof phase !== "string" || !allowed.has(phase)) {
+        errors.push({ path: `${valuePath}[${index}]`, message: "Must be a phase of this workflow" });
+      }
+    });
+  };
+
+  if (!isPlainObject(transitions)) {
+    errors.push({ path: `${path}.transitions`, message: "Must be an object" });
+  } else {
+    for (const [from, targets] of Object.entries(transitions)) {
+      if (!endpoints.has(from)) {
+        errors.push({ path: `${path}.transitions.${from}`, message: "Must be a phase of this workflow" });
+      } else {
+        checkPhases(targets, `${path}.transitions.${from}`, endpoints);
+      }
+    }
+  }
+
+  if (tools !== undefined && !isPlainObject(tools)) {
+    errors.push({ path: `${path}.tools`, message: "Must be an object" });
+  } else if (tools) {
+    for (const [tool, toolPhases] of Object.entries(tools)) {
+      checkPhases(toolPhases, `${path}.tools.${tool}`, known);
+    }
+  }
+
+  if (commands !== undefined && !Array.isArray(commands)) {
+    errors.push({ path: `${path}.commands`, message: "Must be an array" });
+  } else if (commands) {
+    commands.forEach((rule: unknown, index) => {
+      const rulePath = `${path}.commands[${index}]`;
+      if (!isPlainObject(rule)) {
+        errors.push({ path: rulePath, message: "Must be an object" });
+        return;
+      }
+      if (typeof rule.phase !== "string" || !known.has(rule.phase)) {
+        errors.push({ path: `${rulePath}.phase`, message: "Must be a phase of this workflow" });
+      }
+      if (!Array.isArray(rule.patterns)) {
+        errors.push({ path: `${rulePath}.patterns`, message: "Must be an array" });
+      } else {
+        validateRegexList(rule.patterns, `${rulePath}.patterns`, errors);
+      }
+      if (rule.keepPhases !== undefined) {
+        checkPhases(rule.keepPhases, `${rulePath}.keepPhases`, known);
+      }
+    });
+  }
+
+  if (defaultCommandPhase !== undefined) {
+    if (!isPlainObject(defaultCommandPhase)) {
+      errors.push({ path: `${path}.defaultCommandPhase`, message: "Must be an object" });
+    } else {
+      if (typeof defaultCommandPhase.phase !== "string" || !known.has(defaultCommandPhase.phase)) {
+        errors.push({ path: `${path}.defaultCommandPhase.phase`, message: "Must be a phase of this workflow" });
+      }
+      checkPhases(defaultCommandPhase.from, `${path}.defaultCommandPhase.from`, endpoints);
+    }
+  }
+
+  if (guidance !== undefined && !isPlainObject(guidance)) {
+    errors.push({ path: `${path}.guidance`, message: "Must be an object" });
+  } else if (guidance) {
+    for (const [phase, text] of Object.entries(guidance)) {
+      if (!known.has(phase)) {
+        errors.push({ path: `${path}.guidance.${phase}`, message: "Must be a phase of this workflow" });
+      } else if (typeof text !== "string") {
+        errors.push({ path: `${path}.guidance.${phase}`, message: "Must be a string" });
+      }
+    }
+  }
+}
+
+const PHASE_GATE_MODES: readonly PhaseGateMode[] = ["off", "warn", "deny"];
+
+function validatePhaseGates(gates: unknown, errors: ConfigValidationError[]): void {
+  const path = "workflow.gates";
+  if (!isPlainObject(gates)) {
+    errors.push({ path, message: "Must be an object" });
+    return;
+  }
+
+  validatePhaseGateRules(gates, path, errors);
+  for (const key of ["implementationTools", "explorationTools"]) {
+    const tools = gates[key];
+    if (tools === undefined) {
+      continue;
+    }
+    if (!Array.isArray(tools)) {
+      errors.push({ path: `${path}.${key}`, message: "Must be an array" });
+      continue;
+    }
+    tools.forEach((tool, index) => {
+      if (typeof tool !== "string" || tool.length === 0) {
+        errors.push({ path: `${path}.${key}[${index}]`, message: "Must be a non-empty string" });
+      }
+    });
+  }
+
+  if (gates.intents !== undefined && !isPlainObject(gates.intents)) {
+    errors.push({ path: `${path}.intents`, message: "Must be an object" });
+  } else if (gates.intents) {
+    for (const [intent, rules] of Object.entries(gates.intents)) {
+      const intentPath = `${path}.intents.${intent}`;
+      if (!WORKFLOW_INTENTS.includes(intent)) {
+        errors.push({ path: intentPath, message: `Unknown intent, must be one of: ${WORKFLOW_INTENTS.join(", ")}` });
+      } else if (!isPlainObject(rules)) {
+        errors.push({ path: intentPath, message: "Must be an object" });
+      } else {
+        validatePhaseGateRules(rules, intentPath, errors);
+      }
+    }
+  }
+}
+
+function validatePhaseGateRules(rules: Record<string, unknown>, path: string, errors: ConfigValidationError[]): void {
+  const { mode, blockedPhases, minExplorationCalls, requireTodos, requireVerification } = rules;
+  if (mode !== undefined && !PHASE_GATE_MODES.includes(mode as PhaseGateMode)) {
+    errors.push({ path: `${path}.mode`, message: `Must be one of: ${PHASE_GATE_MODES.join(", ")}` });
+  }
+  if (blockedPhases !== undefined) {
+    if (!Array.isArray(blockedPhases)) {
+      errors.push({ path: `${path}.blockedPhases`, message: "Must be an array" });
+    } else {
+      blockedPhases.forEach((phase, index) => {
+        if (typeof phase !== "string" || !PHASE_NAME_PATTERN.test(phase)) {
+          errors.push({ path: `${path}.blockedPhases[${index}]`, message: "Must be a phase name (letters, digits, _)" });
+        }
+      });
+    }
+  }
+  if (minExplorationCalls !== undefined && !isNonNegativeInteger(minExplorationCalls)) {
+    errors.push({ path: `${path}.minExplorationCalls`, message: "Must be a non-negative integer" });
+  }
+  if (requireTodos !== undefined && typeof requireTodos !== "boolean") {
+    errors.push({ path: `${path}.requireTodos`, message: "Must be a boolean" });
+  }
+  if (requireVerification !== undefined && typeof requireVerification !== "boolean") {
+    errors.push({ path: `${path}.requireVerification`, message: "Must be a boolean" });
+  }
+}
+
+/** Agent names as generated into `.opencode/agent/<name>.md` */
+const AGENT_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+function validateErrorRecovery(recovery: unknown, errors: ConfigValidationError[]): void {
+  const path = "workflow.errorRecovery";
+  if (!isPlainObject(recovery)) {
+    errors.push({ path, message: "Must be an object" });
+    return;
+  }
+
+  validateErrorRecoveryRules(recovery, path, errors);
+  const { escalationAgent, cooldownSeconds, categories } = recovery;
+  if (escalationAgent !== undefined && (typeof escalationAgent !== "string" || !AGENT_NAME_PATTERN.test(escalationAgent))) {
+    errors.push({ path: `${path}.escalationAgent`, message: "Must be an agent name (lowercase letters, digits, -)" });
+  }
+  if (cooldownSeconds !== undefined && !isNonNegativeNumber(cooldownSeconds)) {
+    errors.push({ path: `${path}.cooldownSeconds`, message: "Must be a non-negative number" });
+  }
+
+  if (categories !== undefined && !isPlainObject(categories)) {
+    errors.push({ path: `${path}.categories`, message: "Must be an object" });
+  } else if (categories) {
+    for (const [category, rules] of Object.entries(categories)) {
+      const categoryPath = `${path}.categories.${category}`;
+      if (!(ERROR_CATEGORIES as readonly string[]).includes(category)) {
+        errors.push({ path: categoryPath, message: `Unknown error category, must be one of: ${ERROR_CATEGORIES.join(", ")}` });
+      } else if (!isPlainObject(rules)) {
+        errors.push({ path: categoryPath, message: "Must be an object" });
+      } else {
+        validateErrorRecoveryRules(rules, categoryPath, errors);
+      }
+    }
+  }
+}
+
+function validateErrorRecoveryRules(rules: Record<string, unknown>, path: string, errors: ConfigValidationError[]): void {
+  const { suggestAt, escalateAt } = rules;
+  if (suggestAt !== undefined && (!isNonNegativeInteger(suggestAt) || suggestAt === 0)) {
+    errors.push({ path: `${path}.suggestAt`, message: "Must be a positive integer" });
+  }
+  if (escalateAt !== undefined && !isNonNegativeInteger(escalateAt)) {
+    errors.push({ path: `${path}.escalateAt`, message: "Must be a non-negative integer (0 never escalates)" });
+  }
+}
+
+function validateTodoEnforcement(enforcement: unknown, errors: ConfigValidationError[]): void {
+  const path = "workflow.todoEnforcement";
+  if (!isPlainObject(enforcement)) {
+    errors.push({ path, message: "Must be an object" });
+    return;
+  }
+
+  const { blockOn, allowStopAfterAttempts, releaseTags, maxAgeMinutes } = enforcement;
+  if (blockOn !== undefined && !(TODO_BLOCK_LEVELS as readonly unknown[]).includes(blockOn)) {
+    errors.push({ path: `${path}.blockOn`, message: `Must be one of: ${TODO_BLOCK_LEVELS.join(", ")}` });
+  }
+  if (allowStopAfterAttempts !== undefined && !isNonNegativeInteger(allowStopAfterAttempts)) {
+    errors.push({ path: `${path}.allowStopAfterAttempts`, message: "Must be a non-negative integer (0 always blocks)" });
+  }
+  if (releaseTags !== undefined && (!Array.isArray(releaseTags) || !releaseTags.every((tag) => typeof tag === "string" && /^[\w-]+$/.test(tag)))) {
+    errors.push({ path: `${path}.releaseTags`, message: "Must be an array of tags (letters, digits, _ or -)" });
+  }
+  if (maxAgeMinutes !== undefined && !isNonNegativeNumber(maxAgeMinutes)) {
+    errors.push({ path: `${path}.maxAgeMinutes`, message: "Must be a non-negative number" });
+  }
+}
+
+function validateAllowRule(rule: unknown, path: string, errors: ConfigValidationError[]): void {
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+    errors.push({ path, message: "Must be an object" });
+    return;
+  }
+
+  const { path: glob, command, tool, reason } = rule as Record<string, unknown>;
+  if ((glob === undefined) === (command === undefined)) {
+    errors.push({ path, message: "Must set exactly one of path or command" });
+  }
+  if (glob !== undefined && (typeof glob !== "string" || glob.length === 0)) {
+    errors.push({ path: `${path}.path`, message: "Must be a non-empty string" });
+  }
+  if (command !== undefined) {
+    validateRegex(command, `${path}.command`, errors);
+  }
+  if (tool !== undefined && (typeof tool !== "string" || tool.length === 0)) {
+    errors.push({ path: `${path}.tool`, message: "Must be a non-empty string" });
+  }
+  if (reason !== undefined && typeof reason !== "string") {
+    errors.push({ path: `${path}.reason`, message: "Must be a string" });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
 /**
  * Load configuration from opencode.json.
  * Merges with defaults and validates.
@@ -311,18 +1644,81 @@ export async function loadConfig(projectPath: string): Promise<Config> {
       // Continue with valid fields, use defaults for invalid ones
     }
 
-    const securityConfig = atreidesConfig.security ?? {};
+    const securityConfig: Partial<SecurityConfig> = atreidesConfig.security ?? {};
     return {
       ...DEFAULT_CONFIG,
       ...atreidesConfig,
       identity: { ...DEFAULT_CONFIG.identity, ...atreidesConfig.identity },
-      workflow: { ...DEFAULT_CONFIG.workflow, ...atreidesConfig.workflow },
+      workflow: {
+        ...DEFAULT_CONFIG.workflow,
+        ...atreidesConfig.workflow,
+        todoEnforcement: {
+          ...DEFAULT_CONFIG.workflow.todoEnforcement,
+          ...atreidesConfig.workflow?.todoEnforcement,
+          releaseTags: [
+            ...(atreidesConfig.workflow?.todoEnforcement?.releaseTags ?? DEFAULT_CONFIG.workflow.todoEnforcement.releaseTags),
+          ],
+        },
+        errorRecovery: {
+          ...DEFAULT_CONFIG.workflow.errorRecovery,
+          ...atreidesConfig.workflow?.errorRecovery,
+          categories: {
+            ...DEFAULT_CONFIG.workflow.errorRecovery.categories,
+            ...atreidesConfig.workflow?.errorRecovery?.categories,
+          },
+        },
+        workflows: { ...DEFAULT_CONFIG.workflow.workflows, ...atreidesConfig.workflow?.workflows },
+        intentWorkflows: { ...DEFAULT_CONFIG.workflow.intentWorkflows, ...atreidesConfig.workflow?.intentWorkflows },
+        gates: {
+          ...DEFAULT_CONFIG.workflow.gates,
+          ...atreidesConfig.workflow?.gates,
+          blockedPhases: [...(atreidesConfig.workflow?.gates?.blockedPhases ?? DEFAULT_CONFIG.workflow.gates.blockedPhases)],
+          implementationTools: [
+            ...(atreidesConfig.workflow?.gates?.implementationTools ?? DEFAULT_CONFIG.workflow.gates.implementationTools),
+          ],
+          explorationTools: [
+            ...(atreidesConfig.workflow?.gates?.explorationTools ?? DEFAULT_CONFIG.workflow.gates.explorationTools),
+          ],
+          intents: { ...DEFAULT_CONFIG.workflow.gates.intents, ...atreidesConfig.workflow?.gates?.intents },
+        },
+      },
       security: {
         ...DEFAULT_CONFIG.security,
         ...securityConfig,
         blockedPatterns: [...(securityConfig.blockedPatterns ?? DEFAULT_CONFIG.security.blockedPatterns)],
         warningPatterns: [...(securityConfig.warningPatterns ?? DEFAULT_CONFIG.security.warningPatterns)],
         blockedFiles: [...(securityConfig.blockedFiles ?? DEFAULT_CONFIG.security.blockedFiles)],
+        permissions: { ...DEFAULT_CONFIG.security.permissions, ...securityConfig.permissions },
+        allow: [...(securityConfig.allow ?? DEFAULT_CONFIG.security.allow)],
+        confinement: {
+          ...DEFAULT_CONFIG.security.confinement,
+          ...securityConfig.confinement,
+          allowedRoots: [
+            ...(securityConfig.confinement?.allowedRoots ?? DEFAULT_CONFIG.security.confinement.allowedRoots),
+          ],
+        },
+        network: {
+          ...DEFAULT_CONFIG.security.network,
+          ...securityConfig.network,
+          allowedDomains: [...(securityConfig.network?.allowedDomains ?? DEFAULT_CONFIG.security.network.allowedDomains)],
+          deniedDomains: [...(securityConfig.network?.deniedDomains ?? DEFAULT_CONFIG.security.network.deniedDomains)],
+        },
+        audit: { ...DEFAULT_CONFIG.security.audit, ...securityConfig.audit },
+        redaction: {
+          ...DEFAULT_CONFIG.security.redaction,
+          ...securityConfig.redaction,
+          detectors: {
+            ...DEFAULT_CONFIG.security.redaction.detectors,
+            ...securityConfig.redaction?.detectors,
+          },
+        },
+      },
+      session: {
+        ...DEFAULT_CONFIG.session,
+        ...atreidesConfig.session,
+        checkpoints: { ...DEFAULT_CONFIG.session.checkpoints, ...atreidesConfig.session?.checkpoints },
+        todoExport: { ...DEFAULT_CONFIG.session.todoExport, ...atreidesConfig.session?.todoExport },
+        compaction: { ...DEFAULT_CONFIG.session.compaction, ...atreidesConfig.session?.compaction },
       },
     };
   } catch {
@@ -5,4 +5,5 @@ export * from "./constants.js";
 export * from "./manifest.js";
 export * from "./version.js";
 export * from "./backup.js";
+export * from "./checkpoint.js";
 export * from "./merge.js";
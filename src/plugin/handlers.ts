@@ -9,7 +9,10 @@ import type {
   SystemTransformHookResult,
   CompactionHookPayload,
   CompactionHookResult,
+  ChatMessageHookPayload,
   PluginContext,
+  SessionState,
+  TodoWriteItem,
 } from "./types.js";
 import type { Config } from "../lib/config.js";
 import { createLogger } from "../lib/logger.js";
@@ -22,11 +25,18 @@ import {
 import * as SessionManager from "./managers/session-manager.js";
 import { workflowEngine } from "./managers/workflow-engine.js";
 import * as ErrorRecovery from "./managers/error-recovery.js";
+import * as SecurityHardening from "./managers/security-hardening.js";
+import * as PhaseGates from "./managers/phase-gates.js";
+import * as VerificationTracker from "./managers/verification-tracker.js";
+import * as ChangeLedger from "./managers/change-ledger.js";
+import * as CheckpointManager from "./managers/checkpoint-manager.js";
+import * as TodoExport from "./managers/todo-export.js";
 import { toolInterceptor } from "./managers/tool-interceptor.js";
 import { IdentityManager } from "./managers/identity-manager.js";
 import { SystemPromptInjector } from "./managers/system-prompt-injector.js";
-import { compactionHandler } from "./managers/compaction-handler.js";
+import { compactionHandler, PRESERVED_STATE_MARKER } from "./managers/compaction-handler.js";
 import { todoEnforcer } from "./managers/todo-enforcer.js";
+import { todoStore } from "./managers/todo-store.js";
 
 const logger = createLogger("atreides:handlers");
 
@@ -44,10 +54,18 @@ const logger = createLogger("atreides:handlers");
  *      with default values (phase: "idle", errorCount: 0, workflow state, etc.)
  *    - `SessionManager.setState()` stores this state in the internal Map<sessionId, SessionState>
  *
+ *    - If persistence is enabled and the sessionId is known to the store, the
+ *      persisted state is rehydrated instead via `SessionManager.rehydrateSession()`
+ *
+ *    - Otherwise, a preserved state block (`<!-- ATREIDES STATE -->`) in the
+ *      event data (e.g. a compacted summary) is restored into the fresh state
+ *
  * 2. The state remains accessible throughout the session via `SessionManager.getState()`
  *
  * 3. When `session.deleted` event fires:
- *    - State is removed from the Map via `SessionManager.deleteSession()`
+ *    - The files the session changed are summarized (log and `client.notify`)
+ *    - Remaining todos are exported to the todo file (`session.todoExport`)
+ *    - State is removed from the Map (and the store) via `SessionManager.deleteSession()`
  *    - Related caches (compaction todos, enforcer todos) are also cleared
  *
  * @example
@@ -59,12 +77,12 @@ const logger = createLogger("atreides:handlers");
  * ```
  *
  * @param config - Plugin configuration
- * @param _context - Plugin context (unused but available for future extensions)
+ * @param context - Plugin context (client for the session change summary)
  * @returns Event hook handler function
  */
 export function createEventHandler(
   config: Config,
-  _context: PluginContext
+  context: PluginContext
 ) {
   return async (payload: EventHookPayload): Promise<void> => {
     const { type, sessionId } = payload;
@@ -72,6 +90,16 @@ export function createEventHandler(
 
     switch (type) {
       case "session.created": {
+        // Known session (e.g. after a plugin restart): restore persisted state
+        const restored = SessionManager.rehydrateSession(sessionId, config);
+        if (restored) {
+          logger.info("Session restored from persisted state", {
+            sessionId,
+            phase: restored.phase,
+          });
+          break;
+        }
+
         // Step 1: Initialize session state with default values (phase: "idle", errorCount: 0, etc.)
         // This creates a fresh SessionState object based on the provided config
         const state = SessionManager.initializeSessionState(sessionId, config);
@@ -79,19 +107,40 @@ export function createEventHandler(
         // The Map provides O(1) access for subsequent state operations
         SessionManager.setState(sessionId, state);
         logger.info("Session initialized", { sessionId });
+
+        // Resumed after compaction in a new process: restore from the state block
+        restoreCompactedState(sessionId, collectEventText(payload.data), config);
+        // Pick up the todos earlier sessions left in the todo file
+        TodoExport.importTodosOnSessionStart(sessionId);
         break;
       }
 
       case "session.deleted": {
+        // Summarize the files the session changed before its state is dropped
+        const changes = ChangeLedger.summarize(sessionId);
+        if (changes) {
+          logger.info("Session change summary", { sessionId, summary: changes });
+          context.client.notify?.("atreides.session.changes", {
+            sessionId,
+            summary: changes,
+            files: ChangeLedger.getChanges(sessionId),
+          });
+        }
+
+        // Keep the remaining todos in the todo file
+        TodoExport.exportTodosOnSessionEnd(sessionId);
+
         SessionManager.deleteSession(sessionId);
-        compactionHandler.clearSessionTodos(sessionId);
-        todoEnforcer.clearSessionTodos(sessionId);
+        clearSessionCaches(sessionId);
         logger.info("Session cleaned up", { sessionId });
         break;
       }
 
       case "session.idle": {
         SessionManager.updateActivity(sessionId);
+        SessionManager.persistSession(sessionId);
+        // Opportunistic sweep of other sessions that went idle
+        SessionManager.enforceEvictionPolicy(sessionId);
         break;
       }
 
@@ -101,6 +150,83 @@ export function createEventHandler(
   };
 }
 
+/**
+ * Clear the per-session caches kept outside SessionManager.
+ * Used on `session.deleted` and when SessionManager evicts a session, so the
+ * parallel maps in TodoStore and ToolInterceptor never outlive the session
+ * state.
+ *
+ * @param sessionId - Session identifier
+ */
+export function clearSessionCaches(sessionId: string): void {
+  todoStore.clearSessionTodos(sessionId);
+  toolInterceptor.clearSessionTrackers(sessionId);
+}
+
+/**
+ * Restore session state from a preserved state block, if the text has one
+ * this process has not written or restored yet. Creates the session state
+ * first when it is missing (resumed session whose `session.created` fired
+ * in an earlier process).
+ *
+ * @param sessionId - Session identifier
+ * @param text - Compacted summary, system prompt or event text
+ * @param config - Plugin configuration
+ * @returns The restored session state, or undefined if nothing was restored
+ */
+export function restoreCompactedState(
+  sessionId: string,
+  text: string,
+  config: Config
+): SessionState | undefined {
+  if (!text.includes(PRESERVED_STATE_MARKER)) {
+    return undefined;
+  }
+
+  if (!SessionManager.getStateOrUndefined(sessionId)) {
+    const state =
+      SessionManager.rehydrateSession(sessionId, config) ??
+      SessionManager.initializeSessionState(sessionId, config);
+    SessionManager.setState(sessionId, state);
+  }
+
+  const preserved = compactionHandler.restoreFromText(sessionId, text);
+  if (!preserved) {
+    return undefined;
+  }
+
+  if (preserved.workflowPhase !== "idle") {
+    // Don't restart the workflow from intent on the next transform
+    SessionManager.setMetadata(sessionId, "workflowStarted", true);
+  }
+  SessionManager.persistSession(sessionId);
+
+  logger.info("Session state restored from compacted context", {
+    sessionId,
+    phase: preserved.workflowPhase,
+    version: preserved.version,
+  });
+  return SessionManager.getStateOrUndefined(sessionId);
+}
+
+/**
+ * Collect the strings in event data that may hold a preserved state block.
+ * Event payloads differ between OpenCode versions, so nested values are
+ * searched too (up to a small depth).
+ */
+function collectEventText(data: unknown, depth = 0): string {
+  if (typeof data === "string") {
+    return data.includes(PRESERVED_STATE_MARKER) ? data : "";
+  }
+  if (!data || typeof data !== "object" || depth >= 4) {
+    return "";
+  }
+  return Object.values(data)
+    .map((value) => collectEventText(value, depth + 1))
+    .filter((text) => text.length > 0)
+    .join("\n");
+}
+
 export function createStopHandler(
   config: Config
 ) {
@@ -124,12 +250,32 @@ export function createStopHandler(
       }
     }
 
+    // Require a green test/build run after the last file change if configured
+    if (config.workflow.requireGreenBeforeStop) {
+      const green = VerificationTracker.checkGreenBeforeStop(sessionId);
+      if (!green.allow) {
+        logger.info("Stop blocked until changes are verified", {
+          sessionId,
+          editsSinceGreen: VerificationTracker.getStatus(sessionId).editsSinceGreen,
+        });
+        return createStopHookResult(false, green.reason);
+      }
+    }
+
+    // Require verification of the changes if the phase gates say so (never
+    // closed here when requireGreenBeforeStop passed, as both read the same status)
+    const gate = PhaseGates.checkStopGate(sessionId);
+    if (gate.action === "deny") {
+      return createStopHookResult(false, PhaseGates.formatGateMessage(gate));
+    }
+
     // Log workflow status on stop (informational, doesn't block)
     if (config.workflow.enablePhaseTracking && state.phase !== "idle") {
       const phaseHistory = workflowEngine.getPhaseHistory(sessionId);
       const completed = workflowEngine.isWorkflowComplete(sessionId);
+      const finalPhase = workflowEngine.getWorkflow(sessionId).definition.phases.at(-1);
 
-      if (!completed && state.phase !== "verification") {
+      if (!completed && state.phase !== finalPhase) {
         logger.info("Session stopping before workflow completion", {
           sessionId,
           currentPhase: state.phase,
@@ -138,7 +284,7 @@ export function createStopHandler(
       }
     }
 
-    return createStopHookResult(true);
+    return createStopHookResult(true, gate.action === "warn" ? PhaseGates.formatGateMessage(gate) : undefined);
   };
 }
 
@@ -166,6 +312,13 @@ export function createStopHandler(
  * - Returns `{ allow: true }` with no message
  * - Tool execution proceeds normally
  *
+ * ## Phase Gates
+ *
+ * Implementation tools that pass security validation are then checked against
+ * the phase gates (see `PhaseGates.checkToolGate`). A closed gate in `deny`
+ * mode blocks the tool with `[PHASE GATE] ... To unlock: ...`; in `warn` mode
+ * the tool runs and the message is returned as a warning.
+ *
  * ## Future Enhancement: User Confirmation Flow
  *
  * When OpenCode adds support for interactive confirmation from plugins:
@@ -184,6 +337,7 @@ export function createToolBeforeHandler(
     const { tool, sessionId, input } = payload;
 
     logger.debug(`Tool before: ${tool}`, { sessionId });
+    let securityWarning: string | undefined;
 
     // Security validation via ToolInterceptor (if enabled)
     if (config.security.enableObfuscationDetection) {
@@ -229,17 +383,24 @@ export function createToolBeforeHandler(
         // For "ask" action, we return allow: true but include a warning message
         // The warning message alerts the AI to proceed with caution
         // Note: Interactive user confirmation is not currently supported by OpenCode
-        return createToolBeforeResult(
-          true,
-          `[SECURITY WARNING] ${validationResult.reason}. Pattern matched: ${validationResult.matchedPattern}. Proceed with caution.`
-        );
+        securityWarning = `[SECURITY WARNING] ${validationResult.reason}. Pattern matched: ${validationResult.matchedPattern}. Proceed with caution.`;
       }
     } else {
       // Even when security is disabled, call beforeExecute to start timing
       await toolInterceptor.beforeExecute(tool, input, sessionId);
     }
 
-    return createToolBeforeResult(true);
+    const gate = PhaseGates.checkToolGate(sessionId, tool);
+    if (gate.action === "deny") {
+      logger.info("Phase gate denied tool execution", { tool, sessionId, gate: gate.gate });
+      return createToolBeforeResult(false, PhaseGates.formatGateMessage(gate));
+    }
+
+    // Snapshot the project before the session's first change
+    await CheckpointManager.checkpointBeforeImplementation(sessionId, tool, input);
+
+    const warnings = [securityWarning, gate.action === "warn" ? PhaseGates.formatGateMessage(gate) : undefined];
+    return createToolBeforeResult(true, warnings.filter(Boolean).join("\n") || undefined);
   };
 }
 
@@ -247,7 +408,21 @@ export function createToolAfterHandler(
   config: Config
 ) {
   return async (payload: ToolAfterHookPayload): Promise<void> => {
-    const { tool, sessionId, output, input } = payload;
+    const { tool, sessionId, input } = payload;
+
+    // Scan for secrets before the output is logged, stored or reaches the model
+    const redaction = SecurityHardening.redactToolOutput(payload.output, config.security.redaction);
+    const output = redaction.output;
+    if (redaction.findings.length > 0) {
+      payload.output = output;
+      SessionManager.setMetadata(sessionId, "lastSecretDetection", {
+        timestamp: Date.now(),
+        tool,
+        redacted: redaction.redacted,
+        detectors: [...new Set(redaction.findings.map((finding) => finding.detector))],
+        count: redaction.findings.length,
+      });
+    }
 
     // Log tool execution via ToolInterceptor (handles duration tracking and history)
     await toolInterceptor.afterExecute(tool, output, sessionId);
@@ -255,7 +430,7 @@ export function createToolAfterHandler(
     const state = SessionManager.getStateOrUndefined(sessionId);
     if (state) {
       // Use ErrorRecovery module for comprehensive error handling
-      const recoveryResult = await ErrorRecovery.checkForErrors(tool, output, sessionId);
+      const recoveryResult = await ErrorRecovery.checkForErrors(tool, output, sessionId, input);
 
       // Log recovery actions based on result
       if (recoveryResult.action === "suggested" && recoveryResult.recoveryMessage) {
@@ -265,15 +440,18 @@ export function createToolAfterHandler(
           strikeCount: recoveryResult.strikeCount,
         });
       } else if (recoveryResult.action === "escalated") {
-        logger.warn("Session escalated to Stilgar due to repeated errors", {
+        logger.warn("Session escalated due to repeated errors", {
           tool,
           sessionId,
+          agent: ErrorRecovery.getRecoveryConfig(sessionId).escalationAgent,
           strikeCount: recoveryResult.strikeCount,
         });
+        await CheckpointManager.checkpointBeforeEscalation(sessionId);
 
         // Trigger auto-escalation if configured
         if (config.workflow.autoEscalateOnError) {
           SessionManager.setMetadata(sessionId, "stilgarEscalation", {
+            agent: ErrorRecovery.getRecoveryConfig(sessionId).escalationAgent,
             message: recoveryResult.escalationMessage,
             timestamp: Date.now(),
           });
@@ -284,37 +462,71 @@ export function createToolAfterHandler(
       if (config.workflow.enablePhaseTracking) {
         await workflowEngine.updatePhase(tool, sessionId, input);
       }
+      PhaseGates.recordToolUse(sessionId, tool);
+      VerificationTracker.recordToolUse(sessionId, tool, input, output);
+      ChangeLedger.recordToolUse(sessionId, tool, input);
 
       if (tool === "todowrite") {
-        const todoData = output as {
-          todos?: Array<{
-            id?: string;
-            content?: string;
-            description?: string;
-            status?: string;
-          }>
-        } | undefined;
-        if (todoData?.todos) {
-          const total = todoData.todos.length;
-          const completed = todoData.todos.filter(
-            (t) => t.status === "completed"
-          ).length;
-          SessionManager.updateTodos(sessionId, total, completed);
-
-          // Store pending todos for compaction preservation
-          compactionHandler.storePendingTodos(sessionId, todoData.todos);
+        const todoData = output as { todos?: TodoWriteItem[] } | undefined;
+        if (Array.isArray(todoData?.todos)) {
+          // Shared with the stop handler and compaction
+          todoStore.ingestTodoWrite(sessionId, todoData.todos);
         }
       }
+
+      // Write in-place mutations (history, strikes, phase) through to the store
+      SessionManager.persistSession(sessionId);
     }
 
     logger.debug(`Tool after: ${tool}`, { sessionId });
   };
 }
 
+/**
+ * Create a chat message handler that feeds message text to the managers.
+ *
+ * - **User messages** drive intent classification: the first prompt starts
+ *   the workflow (idle → intent) with a classification, later prompts
+ *   re-classify on topic change via `workflowEngine.reclassifyIntent()`
+ * - **Assistant messages** are scanned for markdown checkbox todos and
+ *   completion phrases via `todoEnforcer.detectTodos()`
+ *
+ * @param config - Plugin configuration
+ * @returns Chat message hook handler
+ */
+export function createChatMessageHandler(
+  config: Config
+) {
+  return async (payload: ChatMessageHookPayload): Promise<void> => {
+    const { sessionId, role, text } = payload;
+    const state = SessionManager.getStateOrUndefined(sessionId);
+    if (!state || !text) return;
+
+    if (role === "user") {
+      if (config.workflow.enablePhaseTracking) {
+        if (state.phase === "idle") {
+          workflowEngine.startWorkflow(sessionId, text);
+          SessionManager.setMetadata(sessionId, "workflowStarted", true);
+        } else {
+          workflowEngine.reclassifyIntent(sessionId, text);
+        }
+      }
+    } else {
+      todoEnforcer.detectTodos(text, sessionId);
+    }
+
+    SessionManager.updateActivity(sessionId);
+    SessionManager.persistSession(sessionId);
+    logger.debug(`Chat message: ${role}`, { sessionId });
+  };
+}
+
 /**
  * Create a system transform handler that injects orchestration rules.
  *
  * This handler:
+ * 0. **Restores state** from a preserved state block in the system prompt
+ *    (after compaction or in a new process), see `restoreCompactedState()`
  * 1. **Starts the workflow** on first user interaction (idle → intent transition)
  * 2. Uses SystemPromptInjector to inject AGENTS.md and identity header
  * 3. Adds phase-specific workflow guidance
@@ -322,10 +534,11 @@ export function createToolAfterHandler(
  *
  * ## Workflow Initialization Strategy
  *
- * The `experimental.chat.system.transform` hook is the earliest point where we can
- * detect user interaction. Unlike tool hooks which only fire during tool execution,
- * this hook fires for every AI response, including the initial one before any tools
- * are called.
+ * Apart from `chat.message` (which also classifies intent, see
+ * `createChatMessageHandler`), the `experimental.chat.system.transform` hook is the
+ * earliest point where we can detect user interaction. Unlike tool hooks which only
+ * fire during tool execution, this hook fires for every AI response, including the
+ * initial one before any tools are called.
  *
  * On first invocation for a session (when phase is "idle" and workflowStarted is not set):
  * - Calls `workflowEngine.startWorkflow(sessionId)` to transition idle → intent
@@ -357,7 +570,7 @@ export function createSystemTransformHandler(
     payload: SystemTransformHookPayload
   ): Promise<SystemTransformHookResult> => {
     const { system, sessionId } = payload;
-    const state = SessionManager.getStateOrUndefined(sessionId);
+    const state = restoreCompactedState(sessionId, system, config) ?? SessionManager.getStateOrUndefined(sessionId);
 
     // Start workflow on first user interaction if phase tracking is enabled
     // This ensures the workflow transitions from idle → intent before any tool execution
@@ -370,6 +583,7 @@ export function createSystemTransformHandler(
 
         // Set flag to prevent repeated startWorkflow calls on subsequent transforms
         SessionManager.setMetadata(sessionId, "workflowStarted", true);
+        SessionManager.persistSession(sessionId);
 
         logger.debug("Workflow started on first system transform", { sessionId });
       }
@@ -382,13 +596,20 @@ export function createSystemTransformHandler(
     if (state && state.phase !== "idle" && config.workflow.enablePhaseTracking) {
       const phaseGuidance = workflowEngine.generatePhaseGuidance(
         state.phase,
-        state.workflow.intentClassification
+        state.workflow.intentClassification,
+        workflowEngine.getWorkflow(sessionId).definition
       );
       if (phaseGuidance) {
         enhanced += `\n\n${phaseGuidance}\n`;
       }
     }
 
+    // Explain which phase gates are closed and how to unlock them
+    const gateGuidance = state ? PhaseGates.describeGates(sessionId) : "";
+    if (gateGuidance) {
+      enhanced += `\n\n${gateGuidance}\n`;
+    }
+
     // Add error recovery guidance based on strike count
     if (state && state.errorCount > 0) {
       // Check for escalation state
@@ -400,24 +621,33 @@ export function createSystemTransformHandler(
       if (isEscalated && escalationData?.message) {
         // Include full Stilgar escalation message
         enhanced += `\n\n${escalationData.message}\n`;
-      } else if (state.errorCount >= 2) {
-        // Strike 2: Include recovery suggestions
-        const suggestion = ErrorRecovery.getRecoverySuggestion(
-          SessionManager.getMetadata(sessionId, "lastError")
-        );
-        const recoveryBlock = `\n\n[ERROR RECOVERY - Strike ${state.errorCount}/3]
+      } else {
+        // Thresholds follow workflow.errorRecovery and the last error's category
+        const lastError = SessionManager.getMetadata(sessionId, "lastError") as { category?: string } | undefined;
+        const rules = ErrorRecovery.getRecoveryRules(sessionId, lastError?.category);
+        const strikes = rules.escalateAt > 0 ? `${state.errorCount}/${rules.escalateAt}` : `${state.errorCount}`;
+
+        if (state.errorCount >= rules.suggestAt) {
+          // Include recovery suggestions
+          const suggestion = ErrorRecovery.getRecoverySuggestion(lastError);
+          const remaining = rules.escalateAt > state.errorCount ? rules.escalateAt - state.errorCount : undefined;
+          const outlook = remaining === 1
+            ? `One more error will trigger ${ErrorRecovery.getEscalationAgentName(sessionId)} escalation.`
+            : "";
+          const recoveryBlock = `\n\n[ERROR RECOVERY - Strike ${strikes}]
 ${suggestion.message}
 
 Suggested actions:
 ${suggestion.suggestions.map((s, i) => `  ${i + 1}. ${s}`).join("\n")}
 
-Proceed carefully. ${state.errorCount === 2 ? "One more error will trigger Stilgar escalation." : ""}
+Proceed carefully. ${outlook}
 `;
-        enhanced += recoveryBlock;
-      } else {
-        // Strike 1: Simple warning
-        const errorBlock = `\n\n[ERROR RECOVERY]\nConsecutive errors: ${state.errorCount}/3. Proceed carefully.\n`;
-        enhanced += errorBlock;
+          enhanced += recoveryBlock;
+        } else {
+          // Below the suggestion threshold: simple warning
+          const errorBlock = `\n\n[ERROR RECOVERY]\nConsecutive errors: ${strikes}. Proceed carefully.\n`;
+          enhanced += errorBlock;
+        }
       }
     }
 
@@ -17,7 +17,7 @@
  *
  * ## Hook Registration
  *
- * The plugin registers 6 hooks with OpenCode:
+ * The plugin registers 7 hooks with OpenCode:
  *
  * | Hook                                | Purpose                        |
  * |-------------------------------------|--------------------------------|
@@ -27,6 +27,7 @@
  * | `tool.execute.after`                | Error recovery & phase tracking|
  * | `experimental.chat.system.transform`| AGENTS.md & identity injection |
  * | `experimental.session.compacting`   | State preservation             |
+ * | `chat.message`                      | Intent & todo detection        |
  *
  * ## Phase Guidance Output
  *
@@ -67,6 +68,7 @@ import type {
   SessionState,
 } from "./types.js";
 import { loadConfig } from "../lib/config.js";
+import { SecurityAuditLog, resolveAuditLogPath } from "../lib/audit-log.js";
 import { createLogger } from "../lib/logger.js";
 import { wrapHook } from "./utils.js";
 import {
@@ -76,15 +78,37 @@ import {
   createToolAfterHandler,
   createSystemTransformHandler,
   createCompactionHandler,
+  createChatMessageHandler,
+  clearSessionCaches,
 } from "./handlers.js";
 import * as SessionManager from "./managers/session-manager.js";
+import { FileSessionStore, resolveStateDirectory } from "./managers/session-store.js";
+import { setWorkspaceRoots } from "./managers/workspace-confinement.js";
+import { configureCheckpoints } from "./managers/checkpoint-manager.js";
+import { configureTodoExport } from "./managers/todo-export.js";
+import { toolInterceptor } from "./managers/tool-interceptor.js";
 
-export type { Config as AtreidesPluginConfig } from "../lib/config.js";
+export type {
+  Config as AtreidesPluginConfig,
+  WorkflowDefinition,
+  WorkflowCommandRule,
+  PhaseGateConfig,
+  PhaseGateRules,
+  PhaseGateMode,
+  CheckpointConfig,
+  TodoExportConfig,
+  CompactionConfig,
+} from "../lib/config.js";
+export type { Checkpoint, CheckpointKind } from "../lib/checkpoint.js";
 export type {
   PluginContext,
   PluginHooks,
   SessionState,
+  SessionEvictionPolicy,
+  SessionEvictionReason,
+  SessionEvictionStats,
   WorkflowPhase,
+  BuiltinWorkflowPhase,
   WorkflowState,
   PhaseTransition,
   IntentType,
@@ -92,14 +116,92 @@ export type {
   CommandValidationResult,
   FileValidationResult,
   SecurityPatternConfig,
+  SecurityOverride,
+  SecurityOverrideRecord,
+  SecurityBlockRecord,
+  PermissionRule,
+  RestrictedAction,
   SecurityValidationStats,
+  PhaseGateName,
+  PhaseGateResult,
+  PhaseGateProgress,
+  VerificationRunner,
+  VerificationResult,
+  VerificationStatus,
+  FileChangeOperation,
+  FileChangeEntry,
+  SessionCheckpoints,
   TodoItem as TodoItemType,
+  TodoStatus,
+  TodoPriority,
+  TodoSource,
+  TodoWriteItem,
+  TodoSummary,
   PendingTodosResult as PendingTodosResultType,
 } from "./types.js";
 export * as SessionManager from "./managers/session-manager.js";
-export { WorkflowEngine, workflowEngine } from "./managers/workflow-engine.js";
+export {
+  FileSessionStore,
+  resolveStateDirectory,
+  serializeSessionState,
+  deserializeSessionState,
+  type SessionStore,
+  type PersistedSessionState,
+} from "./managers/session-store.js";
+export { WorkflowEngine, workflowEngine, DEFAULT_WORKFLOW } from "./managers/workflow-engine.js";
 export * as SecurityHardening from "./managers/security-hardening.js";
+export * as PhaseGates from "./managers/phase-gates.js";
+export * as VerificationTracker from "./managers/verification-tracker.js";
+export * as ChangeLedger from "./managers/change-ledger.js";
+export * as CheckpointManager from "./managers/checkpoint-manager.js";
+export * as TodoExport from "./managers/todo-export.js";
+export {
+  parseShellCommand,
+  type ShellParseResult,
+  type ShellSegment,
+  type ShellSimpleCommand,
+  type ShellRedirect,
+} from "./managers/shell-parser.js";
+export {
+  setWorkspaceRoots,
+  getWorkspaceRoots,
+  resolveWorkspacePath,
+} from "./managers/workspace-confinement.js";
+export {
+  extractNetworkDestinations,
+  compileDomainPattern,
+  matchesDomain,
+  type NetworkDestination,
+} from "./managers/network-policy.js";
+export {
+  PERMISSION_DEFINITIONS,
+  SECURITY_PRESETS,
+  compilePermissionRules,
+  matchPermissionRules,
+  type PermissionDefinition,
+} from "./managers/security-presets.js";
+export {
+  SECRET_DETECTORS,
+  getSecretDetectors,
+  redactSecrets,
+  redactValue,
+  shannonEntropy,
+  type SecretDetector,
+  type SecretFinding,
+  type RedactionResult,
+} from "./managers/secret-redaction.js";
 export { ToolInterceptor, toolInterceptor } from "./managers/tool-interceptor.js";
+export {
+  SecurityAuditLog,
+  readAuditEntries,
+  filterAuditEntries,
+  summarizeAuditEntries,
+  resolveAuditLogPath,
+  type SecurityAuditEntry,
+  type SecurityAuditDecision,
+  type AuditFilter,
+  type AuditSummary,
+} from "../lib/audit-log.js";
 export { IdentityManager, createIdentityManager } from "./managers/identity-manager.js";
 export {
   SystemPromptInjector,
@@ -111,8 +213,12 @@ export {
   CompactionHandler,
   compactionHandler,
   createCompactionHandler,
+  PRESERVED_STATE_VERSION,
+  PRESERVED_STATE_MARKER,
+  estimateTokens,
   type PendingTodo,
   type ToolHistoryEntry,
+  type SecurityBlockEntry,
   type PreservedState,
   type PreservationResult,
 } from "./managers/compaction-handler.js";
@@ -123,6 +229,14 @@ export {
   type TodoItem,
   type PendingTodosResult,
 } from "./managers/todo-enforcer.js";
+export {
+  TodoStore,
+  todoStore,
+  createTodoStore,
+  generateTodoId,
+  parseTodoText,
+  type ParsedTodoText,
+} from "./managers/todo-store.js";
 
 const logger = createLogger("atreides:plugin");
 
@@ -138,6 +252,35 @@ export const AtreidesPlugin: AtreidesPluginFunction = async (context) => {
 
   const config = await loadConfig(projectPath);
   SessionManager.setDefaultConfig(config);
+  setWorkspaceRoots([directory, context.worktree, projectPath]);
+  configureCheckpoints(context.$, projectPath);
+  configureTodoExport(projectPath);
+
+  if (config.session.persistState) {
+    const stateDirectory = resolveStateDirectory(projectPath, config.session.stateDirectory);
+    SessionManager.setStore(new FileSessionStore(stateDirectory));
+    logger.info("Session persistence enabled", { stateDirectory });
+  }
+
+  if (config.security.audit.enabled) {
+    const auditPath = resolveAuditLogPath(projectPath, config.security.audit.path);
+    toolInterceptor.setAuditLog(
+      new SecurityAuditLog(auditPath, {
+        maxBytes: config.security.audit.maxFileSizeMB * 1024 * 1024,
+        maxFiles: config.security.audit.maxFiles,
+      })
+    );
+    logger.info("Security audit log enabled", { auditPath });
+  }
+
+  SessionManager.setEvictionPolicy({
+    maxSessions: config.session.maxSessions,
+    maxIdleMs: config.session.maxIdleMinutes * 60_000,
+  });
+  SessionManager.onSessionEvicted((sessionId, reason) => {
+    clearSessionCaches(sessionId);
+    context.client.notify?.("atreides.session.evicted", { sessionId, reason });
+  });
 
   logger.info("Plugin configured", {
     persona: config.identity.personaName,
@@ -150,6 +293,7 @@ export const AtreidesPlugin: AtreidesPluginFunction = async (context) => {
   const toolAfterHandler = createToolAfterHandler(config);
   const systemTransformHandler = createSystemTransformHandler(config, projectPath);
   const compactionHandler = createCompactionHandler(config);
+  const chatMessageHandler = createChatMessageHandler(config);
 
   return {
     event: wrapHook("event", eventHandler),
@@ -164,6 +308,7 @@ export const AtreidesPlugin: AtreidesPluginFunction = async (context) => {
       "experimental.session.compacting",
       compactionHandler
     ),
+    "chat.message": wrapHook("chat.message", chatMessageHandler),
   };
 };
 
@@ -0,0 +1,391 @@
+/**
+ * ChangeLedger - Files changed per session
+ *
+ * ToolExecutionRecord only keeps the tool name, success and duration. The
+ * ledger records which files a session changed (and which it read), so the
+ * plugin can answer "what did this session touch?" during the session,
+ * after compaction and when it ends.
+ *
+ * Key features:
+ * - File paths from write/edit/multiedit inputs
+ * - Obvious file operations in bash commands (`mv`, `rm`, `cp`, `sed -i`,
+ *   output redirections)
+ * - Change count and first/last touched timestamps per file
+ * - Files read with the `read` tool, most recent first ("filesRead")
+ * - Paths stored relative to the workspace root
+ * - Ledger stored per session in metadata ("changeLedger")
+ */
+
+import { basename, isAbsolute, normalize, relative } from "node:path";
+import * as SessionManager from "./session-manager.js";
+import { parseShellCommand } from "./shell-parser.js";
+import { getWorkspaceRoots, isWithinRoots } from "./workspace-confinement.js";
+import { createLogger } from "../../lib/logger.js";
+import { extractCommand } from "../utils.js";
+import type { FileChangeEntry, FileChangeOperation } from "../types.js";
+
+const logger = createLogger("atreides:change-ledger");
+
+/** Session metadata key for the ledger */
+const LEDGER_KEY = "changeLedger";
+
+/** Session metadata key for the files read */
+const FILES_READ_KEY = "filesRead";
+
+/** Maximum number of files read kept per session */
+const MAX_FILES_READ = 50;
+
+/** File tools and the change they make */
+const FILE_TOOLS: Record<string, FileChangeOperation> = {
+  write: "write",
+  create: "write",
+  edit: "edit",
+  multiedit: "edit",
+};
+
+/** Labels for the operations shown in summaries (write and edit are implied) */
+const OPERATION_LABELS: Partial<Record<FileChangeOperation, string>> = {
+  move: "moved",
+  copy: "copied",
+  delete: "deleted",
+};
+
+/** A change found in a tool call */
+interface FileChange {
+  path: string;
+  operation: FileChangeOperation;
+  count: number;
+}
+
+/**
+ * Get the files a session changed.
+ *
+ * @param sessionId - Session identifier
+ * @returns Entries, most recently touched first
+ */
+export function getChanges(sessionId: string): FileChangeEntry[] {
+  return Object.values(getLedger(sessionId))
+    .map((entry) => ({ ...entry, operations: [...entry.operations] }))
+    .sort((a, b) => b.lastTouched - a.lastTouched || a.path.localeCompare(b.path));
+}
+
+/**
+ * Get the ledger entry of a single file.
+ *
+ * @param sessionId - Session identifier
+ * @param filePath - File path (relative to the workspace root or absolute)
+ * @returns Entry, or undefined if the session did not change the file
+ */
+export function getFileChange(sessionId: string, filePath: string): FileChangeEntry | undefined {
+  const entry = getLedger(sessionId)[normalizePath(filePath)];
+  return entry ? { ...entry, operations: [...entry.operations] } : undefined;
+}
+
+/**
+ * Get the files a session read.
+ *
+ * @param sessionId - Session identifier
+ * @returns Paths, most recently read first
+ */
+export function getFilesRead(sessionId: string): string[] {
+  const paths = SessionManager.getMetadata(sessionId, FILES_READ_KEY);
+  return Array.isArray(paths) ? [...(paths as string[])] : [];
+}
+
+/**
+ * Record the files changed (or read) by a completed tool call.
+ * Called from the tool.execute.after hook; failed calls are not recorded.
+ *
+ * @param sessionId - Session identifier
+ * @param tool - Tool that was executed
+ * @param input - Tool input (file path or bash command)
+ * @returns Changes recorded for the call
+ */
+export function recordToolUse(sessionId: string, tool: string, input: unknown): FileChangeEntry[] {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  if (!state) {
+    return [];
+  }
+
+  const last = state.toolHistory.at(-1);
+  if (last?.tool === tool && !last.success) {
+    return [];
+  }
+
+  const name = tool.toLowerCase();
+  if (name === "read") {
+    const path = extractInputPath(input);
+    if (path) {
+      recordFileRead(sessionId, path);
+    }
+    return [];
+  }
+
+  const changes = name === "bash" || name === "shell"
+    ? extractCommandChanges(extractCommand(input))
+    : extractToolChanges(name, input);
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const ledger = getLedger(sessionId);
+  const now = Date.now();
+  const touched: FileChangeEntry[] = [];
+  for (const change of changes) {
+    const path = normalizePath(change.path);
+    const entry = ledger[path] ?? { path, edits: 0, operations: [], firstTouched: now, lastTouched: now };
+    entry.edits += change.count;
+    entry.lastTouched = now;
+    if (!entry.operations.includes(change.operation)) {
+      entry.operations.push(change.operation);
+    }
+    ledger[path] = entry;
+    touched.push(entry);
+  }
+  SessionManager.setMetadata(sessionId, LEDGER_KEY, ledger);
+
+  logger.debug("File changes recorded", { sessionId, tool, files: touched.map((entry) => entry.path) });
+  return touched.map((entry) => ({ ...entry, operations: [...entry.operations] }));
+}
+
+/**
+ * Get the files a bash command changes (see `recordToolUse`), without
+ * recording them.
+ *
+ * @param command - Bash command
+ * @returns Changed paths as written in the command
+ */
+export function getCommandChanges(command: string): string[] {
+  return extractCommandChanges(command).map((change) => change.path);
+}
+
+/**
+ * Replace the files read of a session, e.g. from a preserved compaction block.
+ *
+ * @param sessionId - Session identifier
+ * @param paths - Paths, most recently read first
+ */
+export function restoreFilesRead(sessionId: string, paths: string[]): void {
+  SessionManager.setMetadata(sessionId, FILES_READ_KEY, paths.slice(0, MAX_FILES_READ));
+}
+
+/**
+ * Replace the ledger of a session, e.g. from a preserved compaction block.
+ *
+ * @param sessionId - Session identifier
+ * @param entries - Ledger entries
+ */
+export function restoreChanges(sessionId: string, entries: FileChangeEntry[]): void {
+  const ledger: Record<string, FileChangeEntry> = {};
+  for (const entry of entries) {
+    ledger[entry.path] = { ...entry, operations: [...entry.operations] };
+  }
+  SessionManager.setMetadata(sessionId, LEDGER_KEY, ledger);
+}
+
+/**
+ * Format a ledger entry as a one-line description.
+ *
+ * @example
+ * ```typescript
+ * formatChange(entry); // → "src/old.ts (2 edits, moved)"
+ * ```
+ *
+ * @param entry - Ledger entry
+ * @returns Path with change count and notable operations
+ */
+export function formatChange(entry: FileChangeEntry): string {
+  const details = [`${entry.edits} edit${entry.edits === 1 ? "" : "s"}`];
+  for (const operation of entry.operations) {
+    const label = OPERATION_LABELS[operation];
+    if (label) details.push(label);
+  }
+  return `${entry.path} (${details.join(", ")})`;
+}
+
+/**
+ * Parse a description written by `formatChange()` back into an entry.
+ * Timestamps are not part of the description and are set to now; plain
+ * writes and edits are restored as "edit".
+ *
+ * @param line - Text from `formatChange()`
+ * @returns Parsed entry, or undefined if the text is not a description
+ */
+export function parseChange(line: string): FileChangeEntry | undefined {
+  const match = line.match(/^(.+) \((\d+) edits?((?:, \w+)*)\)$/);
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+
+  const labels = (match[3] ?? "").split(", ").filter((label) => label.length > 0);
+  const operations = (Object.keys(OPERATION_LABELS) as FileChangeOperation[]).filter((operation) =>
+    labels.includes(OPERATION_LABELS[operation] ?? "")
+  );
+  const now = Date.now();
+  return {
+    path: match[1],
+    edits: parseInt(match[2], 10),
+    operations: operations.length > 0 ? operations : ["edit"],
+    firstTouched: now,
+    lastTouched: now,
+  };
+}
+
+/**
+ * Summarize the files a session changed, e.g. when it ends.
+ *
+ * @param sessionId - Session identifier
+ * @param limit - Maximum number of files to list
+ * @returns Summary, or an empty string if no file was changed
+ */
+export function summarize(sessionId: string, limit = 10): string {
+  const changes = getChanges(sessionId);
+  if (changes.length === 0) {
+    return "";
+  }
+
+  const total = changes.reduce((sum, entry) => sum + entry.edits, 0);
+  const lines = [
+    `${changes.length} file${changes.length === 1 ? "" : "s"} changed (${total} edit${total === 1 ? "" : "s"}):`,
+    ...changes.slice(0, limit).map((entry) => `- ${formatChange(entry)}`),
+  ];
+  if (changes.length > limit) {
+    lines.push(`- ... and ${changes.length - limit} more`);
+  }
+  return lines.join("\n");
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function getLedger(sessionId: string): Record<string, FileChangeEntry> {
+  return (SessionManager.getMetadata(sessionId, LEDGER_KEY) as Record<string, FileChangeEntry> | undefined) ?? {};
+}
+
+/**
+ * Store paths inside the workspace relative to its root, so `src/a.ts` and
+ * `/project/src/a.ts` are one entry.
+ */
+function normalizePath(filePath: string): string {
+  const [root] = getWorkspaceRoots();
+  if (root && isAbsolute(filePath) && isWithinRoots(filePath, [root])) {
+    return relative(root, filePath) || ".";
+  }
+  return normalize(filePath);
+}
+
+/**
+ * Move a file to the front of the files read.
+ */
+function recordFileRead(sessionId: string, filePath: string): void {
+  const path = normalizePath(filePath);
+  const paths = [path, ...getFilesRead(sessionId).filter((p) => p !== path)];
+  SessionManager.setMetadata(sessionId, FILES_READ_KEY, paths.slice(0, MAX_FILES_READ));
+}
+
+function extractInputPath(input: unknown): string | undefined {
+  if (!input || typeof input !== "object") {
+    return undefined;
+  }
+  const obj = input as Record<string, unknown>;
+  return [obj["filePath"], obj["file_path"], obj["path"]].find(
+    (value): value is string => typeof value === "string" && value.length > 0
+  );
+}
+
+function extractToolChanges(tool: string, input: unknown): FileChange[] {
+  const operation = FILE_TOOLS[tool];
+  const path = operation ? extractInputPath(input) : undefined;
+  if (!operation || !path) {
+    return [];
+  }
+
+  // multiedit applies several edits to one file
+  const edits = (input as Record<string, unknown>)["edits"];
+  const count = Array.isArray(edits) && edits.length > 0 ? edits.length : 1;
+  return [{ path, operation, count }];
+}
+
+/**
+ * Find file changes in a bash command: `mv` (source and destination), `cp`
+ * (destination), `rm`, `sed -i` and output redirections. Words with
+ * expansions cannot be resolved statically and are skipped.
+ */
+function extractCommandChanges(command: string | undefined): FileChange[] {
+  if (!command) {
+    return [];
+  }
+
+  const changes: FileChange[] = [];
+  const add = (path: string | undefined, operation: FileChangeOperation): void => {
+    if (path && path !== "-" && !/[$`*?]/.test(path) && !path.startsWith("/dev/")) {
+      changes.push({ path, operation, count: 1 });
+    }
+  };
+
+  for (const segment of parseShellCommand(command).segments) {
+    for (const simple of segment.commands) {
+      const name = basename(simple.argv[0] ?? "");
+      const args = positionalArguments(simple.argv.slice(1));
+
+      if (name === "mv" && args.length >= 2) {
+        args.forEach((arg) => add(arg, "move"));
+      } else if (name === "cp" && args.length >= 2) {
+        add(args.at(-1), "copy");
+      } else if (name === "rm") {
+        args.forEach((arg) => add(arg, "delete"));
+      } else if (name === "sed") {
+        sedInPlaceFiles(simple.argv.slice(1)).forEach((file) => add(file, "edit"));
+      }
+
+      for (const redirect of simple.redirects) {
+        if (/^(\d*>{1,2}\|?|&>{1,2})$/.test(redirect.operator) && !/^\d+$/.test(redirect.target)) {
+          add(redirect.target, "write");
+        }
+      }
+    }
+  }
+
+  return changes;
+}
+
+function positionalArguments(args: string[]): string[] {
+  const positional: string[] = [];
+  let optionsEnded = false;
+  for (const arg of args) {
+    if (!optionsEnded && arg === "--") {
+      optionsEnded = true;
+    } else if (optionsEnded || !arg.startsWith("-")) {
+      positional.push(arg);
+    }
+  }
+  return positional;
+}
+
+/**
+ * Files edited by `sed -i`: the operands after the script. The script is the
+ * first operand unless it was given with `-e`/`-f`.
+ */
+function sedInPlaceFiles(args: string[]): string[] {
+  let inPlace = false;
+  let scriptGiven = false;
+  const operands: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    if (arg.startsWith("-i") || arg.startsWith("--in-place")) {
+      inPlace = true;
+    } else if (arg === "-e" || arg === "-f" || arg === "--expression" || arg === "--file") {
+      scriptGiven = true;
+      i++;
+    } else if (!arg.startsWith("-")) {
+      operands.push(arg);
+    }
+  }
+
+  if (!inPlace) {
+    return [];
+  }
+  return scriptGiven ? operands : operands.slice(1);
+}
@@ -0,0 +1,202 @@
+/**
+ * CheckpointManager - Automatic project checkpoints during sessions
+ *
+ * Takes lightweight snapshots of the project (see `lib/checkpoint.ts`) with
+ * the plugin's shell (`PluginContext.$`) at the moments configured in
+ * `session.checkpoints`:
+ * - before the first implementation tool of a session
+ * - before each escalation to Stilgar
+ *
+ * Key features:
+ * - Git snapshots under `refs/atreides/checkpoints/`, file copies in
+ *   `.atreides-backups/` for projects without git
+ * - Checkpoints never block a tool; failures are logged
+ * - API to take, list and restore checkpoints
+ * - Checkpoints taken per session recorded in metadata ("checkpoints")
+ */
+
+import * as SessionManager from "./session-manager.js";
+import * as ChangeLedger from "./change-ledger.js";
+import { createLogger } from "../../lib/logger.js";
+import type { SessionCheckpoints } from "../types.js";
+import {
+  createCheckpoint as createProjectCheckpoint,
+  listCheckpoints as listProjectCheckpoints,
+  restoreCheckpoint as restoreProjectCheckpoint,
+  type Checkpoint,
+  type CheckpointResult,
+  type CheckpointShell,
+  type RestoreCheckpointOptions,
+  type RestoreCheckpointResult,
+} from "../../lib/checkpoint.js";
+
+const logger = createLogger("atreides:checkpoint-manager");
+
+/** Session metadata key for the checkpoints taken */
+const CHECKPOINTS_KEY = "checkpoints";
+
+/** Implementation tools used when the phase gates are not configured */
+const DEFAULT_IMPLEMENTATION_TOOLS = ["edit", "write", "multiedit", "create", "patch"];
+
+// Shell and project for this plugin instance
+let shell: CheckpointShell | undefined;
+let projectRoot: string | undefined;
+
+/**
+ * Register the shell and project root used for checkpoints.
+ * Called once at plugin init.
+ *
+ * @param runner - Shell (`PluginContext.$`); undefined disables checkpoints
+ * @param projectPath - Project root
+ */
+export function configureCheckpoints(runner: CheckpointShell | undefined, projectPath: string | undefined): void {
+  shell = runner;
+  projectRoot = projectPath;
+}
+
+/**
+ * Take a checkpoint.
+ *
+ * @param reason - Why the checkpoint is taken
+ * @param sessionId - Session taking the checkpoint (recorded in its metadata)
+ * @param files - Files to copy when the project is not a git repository
+ * @returns The checkpoint, or an error
+ */
+export async function createCheckpoint(reason: string, sessionId?: string, files: string[] = []): Promise<CheckpointResult> {
+  if (!shell || !projectRoot) {
+    return { success: false, error: "Checkpoints are not configured" };
+  }
+
+  const state = sessionId ? SessionManager.getStateOrUndefined(sessionId) : undefined;
+  const result = await createProjectCheckpoint(projectRoot, shell, {
+    reason,
+    files,
+    ...(sessionId ? { sessionId } : {}),
+    ...(state ? { maxCheckpoints: state.config.session?.checkpoints?.maxCheckpoints ?? 0 } : {}),
+  });
+
+  if (result.checkpoint && sessionId) {
+    const taken = getSessionCheckpoints(sessionId);
+    taken.ids.push(result.checkpoint.id);
+    SessionManager.setMetadata(sessionId, CHECKPOINTS_KEY, taken);
+  }
+  return result;
+}
+
+/**
+ * Take the before-implementation checkpoint if this is the session's first
+ * implementation tool and the checkpoint is enabled.
+ * Called from the tool.execute.before hook once the tool is allowed.
+ *
+ * @param sessionId - Session identifier
+ * @param tool - Tool about to be executed
+ * @param input - Tool input (file path for the fallback)
+ * @returns The checkpoint, if one was taken
+ */
+export async function checkpointBeforeImplementation(
+  sessionId: string,
+  tool: string,
+  input: unknown
+): Promise<Checkpoint | undefined> {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  const config = state?.config.session?.checkpoints;
+  if (!state || !config?.enabled || !config.beforeImplementation) {
+    return undefined;
+  }
+
+  const implementationTools = state.config.workflow.gates?.implementationTools ?? DEFAULT_IMPLEMENTATION_TOOLS;
+  const taken = getSessionCheckpoints(sessionId);
+  if (taken.beforeImplementation || !implementationTools.includes(tool.toLowerCase())) {
+    return undefined;
+  }
+
+  // Attempt once per session, even if it fails
+  taken.beforeImplementation = true;
+  SessionManager.setMetadata(sessionId, CHECKPOINTS_KEY, taken);
+
+  const file = extractFilePath(input);
+  const result = await createCheckpoint("before-implementation", sessionId, file ? [file] : []);
+  logResult(result, sessionId, "before-implementation");
+  return result.checkpoint;
+}
+
+/**
+ * Take the before-escalation checkpoint if enabled. The fallback copies the
+ * files the session changed so far.
+ * Called from the tool.execute.after hook when a session escalates.
+ *
+ * @param sessionId - Session identifier
+ * @returns The checkpoint, if one was taken
+ */
+export async function checkpointBeforeEscalation(sessionId: string): Promise<Checkpoint | undefined> {
+  const config = SessionManager.getStateOrUndefined(sessionId)?.config.session?.checkpoints;
+  if (!config?.enabled || !config.beforeEscalation) {
+    return undefined;
+  }
+
+  const files = ChangeLedger.getChanges(sessionId).map((entry) => entry.path);
+  const result = await createCheckpoint("before-escalation", sessionId, files);
+  logResult(result, sessionId, "before-escalation");
+  return result.checkpoint;
+}
+
+/**
+ * List the project's checkpoints, newest first.
+ *
+ * @returns Checkpoints (empty if checkpoints are not configured)
+ */
+export async function listCheckpoints(): Promise<Checkpoint[]> {
+  return shell && projectRoot ? listProjectCheckpoints(projectRoot, shell) : [];
+}
+
+/**
+ * Restore a checkpoint. A safety checkpoint of the current state is taken
+ * first; the restore is aborted if it fails, unless `options.force` is set.
+ *
+ * @param id - Checkpoint identifier
+ * @param options - Restore options
+ * @returns Restored files, or an error
+ */
+export async function restoreCheckpoint(
+  id: string,
+  options: RestoreCheckpointOptions = {}
+): Promise<RestoreCheckpointResult> {
+  if (!shell || !projectRoot) {
+    return { success: false, restoredFiles: [], error: "Checkpoints are not configured" };
+  }
+  return restoreProjectCheckpoint(projectRoot, shell, id, options);
+}
+
+/**
+ * Get the checkpoints a session took.
+ *
+ * @param sessionId - Session identifier
+ * @returns Checkpoint identifiers (oldest first) and the before-implementation flag
+ */
+export function getSessionCheckpoints(sessionId: string): SessionCheckpoints {
+  const taken = SessionManager.getMetadata(sessionId, CHECKPOINTS_KEY) as SessionCheckpoints | undefined;
+  return taken ? { ...taken, ids: [...taken.ids] } : { ids: [], beforeImplementation: false };
+}
+
+function logResult(result: CheckpointResult, sessionId: string, reason: string): void {
+  if (result.checkpoint) {
+    logger.info("Checkpoint taken", { sessionId, reason, id: result.checkpoint.id, kind: result.checkpoint.kind });
+  } else {
+    logger.warn("Checkpoint not taken", { sessionId, reason, error: result.error });
+  }
+}
+
+/**
+ * Extract file path from tool input.
+ */
+function extractFilePath(input: unknown): string | undefined {
+  if (input && typeof input === "object") {
+    const obj = input as Record<string, unknown>;
+    for (const key of ["filePath", "file_path", "path"]) {
+      if (typeof obj[key] === "string" && obj[key].length > 0) {
+        return obj[key];
+      }
+    }
+  }
+  return undefined;
+}
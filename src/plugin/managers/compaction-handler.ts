@@ -7,9 +7,19 @@
  *
  * Key features:
  * - Serializes critical state (workflow phase, todos, strike counter)
+ * - Reads todos from the shared todo store (`todo-store.ts`)
  * - Formats state as markdown for injection into compacted context
  * - Provides state restoration from compacted markdown
  * - Preserves error escalation state for continuity
+ * - Carries the last verification (test/build) result
+ * - Lists the files the session changed and the files it only read
+ * - Lists the tool calls denied by security validation
+ * - Records why the session escalated (strikes or a repeated-error loop)
+ * - Fits the block into a character/token budget (`session.compaction`):
+ *   phase and escalation first, then pending todos, security blocks,
+ *   changed files, files read, the last error output and recent tools,
+ *   with truncation markers
+ * - Embeds the state as JSON in an HTML comment for exact restoration
  * - Performance optimized (<10ms per compaction)
  *
  * ## State Preservation Flow
@@ -21,22 +31,100 @@
  *
  * ## State Restoration Flow (Post-Compaction)
  *
- * When a session resumes after compaction:
- * 1. AI sees the `<!-- ATREIDES STATE -->` block in context
- * 2. `parsePreservedStateFromMarkdown()` extracts state from markdown
- * 3. `restoreState()` applies state to SessionManager
+ * When a session resumes after compaction (or in a new process):
+ * 1. The `<!-- ATREIDES STATE -->` block shows up in the system prompt
+ *    (`experimental.chat.system.transform`) or `session.created` event data
+ * 2. `restoreFromText()` finds the latest block and skips blocks this
+ *    process already knows (fingerprint in session metadata)
+ * 3. `parsePreservedStateFromMarkdown()` extracts state from markdown
+ * 4. `restoreState()` applies state to SessionManager
  *
- * Note: Automatic restoration requires OpenCode to call a restoration hook,
- * which is not currently implemented. The markdown block serves as a
- * human/AI-readable fallback that provides continuity guidance.
+ * ## Format Versions
+ *
+ * Blocks carry `<!-- ATREIDES STATE VERSION n -->` after the start marker.
+ * Blocks without it are version 1. Parsing is best effort for newer versions,
+ * so bump `PRESERVED_STATE_VERSION` when fields change meaning and keep
+ * older versions parseable.
+ *
+ * Version 2 adds `<!-- ATREIDES STATE JSON {...} -->` with the same state
+ * as the markdown. It is parsed in preference to the markdown, which stays
+ * the fallback (e.g. when a summarizer rewrote the comment).
  */
 
-import type { SessionState, WorkflowPhase, ToolExecutionRecord, ErrorRecoveryState } from "../types.js";
+import { createHash } from "node:crypto";
+import type {
+  SessionState,
+  WorkflowPhase,
+  ToolExecutionRecord,
+  ErrorRecoveryState,
+  VerificationResult,
+  VerificationStatus,
+  FileChangeEntry,
+  SecurityBlockRecord,
+  TodoPriority,
+  TodoWriteItem,
+} from "../types.js";
 import * as SessionManager from "./session-manager.js";
+import * as VerificationTracker from "./verification-tracker.js";
+import * as ChangeLedger from "./change-ledger.js";
+import * as ErrorRecovery from "./error-recovery.js";
+import { SECURITY_BLOCKS_METADATA_KEY } from "./tool-interceptor.js";
+import { createTodoStore, parseTodoText, todoStore, type TodoStore } from "./todo-store.js";
 import { createLogger } from "../../lib/logger.js";
+import { DEFAULT_CONFIG, DEFAULT_WORKFLOW_NAME, type CompactionConfig } from "../../lib/config.js";
 
 const logger = createLogger("atreides:compaction-handler");
 
+/**
+ * Maximum number of changed files listed in a preserved state block.
+ */
+const MAX_CHANGED_FILES = 20;
+
+/**
+ * Maximum number of files read listed in a preserved state block.
+ */
+const MAX_FILES_READ = 20;
+
+/**
+ * Maximum number of security blocks carried in a preserved state block.
+ */
+const MAX_SECURITY_BLOCKS = 10;
+
+/**
+ * Maximum length of a preserved security block reason.
+ */
+const MAX_BLOCK_REASON_CHARS = 200;
+
+/**
+ * Characters per token used to estimate the size of a block.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Shortest prefix of the last error output kept when the budget is tight.
+ */
+const MIN_ERROR_OUTPUT_CHARS = 60;
+
+/**
+ * Format version written to preserved state blocks.
+ */
+export const PRESERVED_STATE_VERSION = 2;
+
+/**
+ * Start marker of a preserved state block.
+ */
+export const PRESERVED_STATE_MARKER = "<!-- ATREIDES STATE -->";
+
+const STATE_BLOCK_PATTERN = /<!-- ATREIDES STATE -->([\s\S]*?)<!-- END ATREIDES STATE -->/g;
+const STATE_VERSION_PATTERN = /<!-- ATREIDES STATE VERSION (\d+) -->/;
+const STATE_JSON_PATTERN = /<!-- ATREIDES STATE JSON (.*?) -->/;
+
+/**
+ * Session metadata key holding the fingerprint of the latest block this
+ * process wrote or restored.
+ */
+const STATE_FINGERPRINT_KEY = "preservedStateFingerprint";
+
 /**
  * Represents a pending todo item for preservation.
  */
@@ -47,6 +135,10 @@ export interface PendingTodo {
   description: string;
   /** Current status of the todo */
   status: "pending" | "in_progress";
+  /** Priority, if one was given */
+  priority?: TodoPriority;
+  /** Tags (e.g. "deferred") */
+  tags?: string[];
 }
 
 /**
@@ -59,6 +151,18 @@ export interface ToolHistoryEntry {
   success: boolean;
 }
 
+/**
+ * Represents a denied tool call for preservation.
+ */
+export interface SecurityBlockEntry {
+  /** Tool that was denied */
+  tool: string;
+  /** Why the call was denied (truncated) */
+  reason: string;
+  /** Sanitized command or file path */
+  input?: string;
+}
+
 /**
  * Critical state that is preserved during compaction.
  *
@@ -70,15 +174,24 @@ export interface ToolHistoryEntry {
  * |---------------------|----------------------------------------|
  * | workflowPhase       | workflow.currentPhase                  |
  * | intentClassification| workflow.intentClassification          |
- * | pendingTodos        | External from TodoEnforcer             |
+ * | workflowName        | workflow.workflowName                  |
+ * | pendingTodos        | Open todos in the TodoStore            |
  * | strikeCount         | errorCount                             |
  * | escalated           | metadata.errorRecovery.escalated       |
  * | escalatedAt         | metadata.errorRecovery.escalatedAt     |
+ * | escalationAgent     | display name of the escalation agent   |
  * | triggeringTool      | metadata.errorRecovery.triggeringTool  |
+ * | escalationReason    | metadata.errorRecovery.reason          |
+ * | escalationFingerprint| metadata.errorRecovery.fingerprint    |
  * | lastErrorOutput     | metadata.lastError.output              |
  * | recentTools         | toolHistory (last 10)                  |
  * | totalTodos          | todoCount                              |
  * | completedTodos      | todosCompleted                         |
+ * | lastVerification    | metadata.verification.lastResult       |
+ * | editsSinceGreen     | metadata.verification.editsSinceGreen  |
+ * | changedFiles        | metadata.changeLedger                  |
+ * | filesRead           | metadata.filesRead (not changed)       |
+ * | securityBlocks      | metadata.securityBlocks (latest 10)    |
  * | personaName         | config.identity.personaName            |
  */
 export interface PreservedState {
@@ -86,6 +199,8 @@ export interface PreservedState {
   workflowPhase: WorkflowPhase;
   /** Intent classification (if set) */
   intentClassification?: string;
+  /** Name of a custom workflow definition (if not the default) */
+  workflowName?: string;
   /** List of pending todos with descriptions */
   pendingTodos: PendingTodo[];
   /** Current strike count for error recovery */
@@ -94,8 +209,14 @@ export interface PreservedState {
   escalated: boolean;
   /** Timestamp when escalation occurred (for audit) */
   escalatedAt?: number;
+  /** Display name of the agent the session escalated to (only when escalated) */
+  escalationAgent?: string;
   /** Tool that triggered the escalation */
   triggeringTool?: string;
+  /** Why the session escalated (only when escalated) */
+  escalationReason?: "strikes" | "loop";
+  /** Fingerprint of the error that triggered the escalation */
+  escalationFingerprint?: string;
   /** Truncated last error output for context */
   lastErrorOutput?: string;
   /** Recent tool executions (last 10) */
@@ -104,8 +225,33 @@ export interface PreservedState {
   totalTodos: number;
   /** Completed todos count */
   completedTodos: number;
+  /** Last verification (test/build) run */
+  lastVerification?: VerificationResult;
+  /** File changes since the last green verification run */
+  editsSinceGreen?: number;
+  /** Files changed in the session, most recently touched first */
+  changedFiles?: FileChangeEntry[];
+  /** Files read but not changed in the session, most recently read first */
+  filesRead?: string[];
+  /** Tool calls denied by security validation, most recent first */
+  securityBlocks?: SecurityBlockEntry[];
   /** Identity persona name (if configured) */
   personaName?: string;
+  /** Format version of the block the state was parsed from */
+  version?: number;
+}
+
+/**
+ * Entry counts of a preserved state before it was fitted into the budget,
+ * for the truncation markers.
+ */
+interface StateTotals {
+  pendingTodos: number;
+  securityBlocks: number;
+  changedFiles: number;
+  filesRead: number;
+  recentTools: number;
+  lastErrorOutput: number;
 }
 
 /**
@@ -133,46 +279,45 @@ export interface PreservationResult {
  * ```
  */
 export class CompactionHandler {
-  private pendingTodosMap: Map<string, PendingTodo[]> = new Map();
+  /**
+   * Todo storage (the shared `todoStore` for the singleton).
+   */
+  private readonly todos: TodoStore;
 
   /**
    * Creates a new CompactionHandler instance.
+   *
+   * @param store - Todo store to read (default: a new, isolated store)
    */
-  constructor() {
+  constructor(store: TodoStore = createTodoStore()) {
+    this.todos = store;
     logger.debug("CompactionHandler initialized");
   }
 
   /**
-   * Store pending todos for a session.
-   * Called when todowrite tool is executed to capture todo descriptions.
+   * Store a `todowrite` payload in the todo store.
    *
    * @param sessionId - Session identifier
    * @param todos - Array of todo items from todowrite output
    */
-  public storePendingTodos(
-    sessionId: string,
-    todos: Array<{ id?: string; content?: string; description?: string; status?: string }>
-  ): void {
-    const pending: PendingTodo[] = todos
-      .filter((t) => t.status === "pending" || t.status === "in_progress")
-      .map((t, index) => ({
-        id: t.id ?? `todo-${index}`,
-        description: t.content ?? t.description ?? "No description",
-        status: (t.status as "pending" | "in_progress") ?? "pending",
-      }));
-
-    this.pendingTodosMap.set(sessionId, pending);
-    logger.debug("Stored pending todos", { sessionId, count: pending.length });
+  public storePendingTodos(sessionId: string, todos: readonly TodoWriteItem[]): void {
+    this.todos.ingestTodoWrite(sessionId, todos);
   }
 
   /**
-   * Get stored pending todos for a session.
+   * Get the open (pending or in-progress) todos of a session.
    *
    * @param sessionId - Session identifier
    * @returns Array of pending todos or empty array
    */
   public getPendingTodos(sessionId: string): PendingTodo[] {
-    return this.pendingTodosMap.get(sessionId) ?? [];
+    return this.todos.getOpenTodos(sessionId).map((todo) => ({
+      id: todo.id,
+      description: todo.description,
+      status: todo.status === "in_progress" ? "in_progress" : "pending",
+      ...(todo.priority ? { priority: todo.priority } : {}),
+      ...(todo.tags ? { tags: [...todo.tags] } : {}),
+    }));
   }
 
   /**
@@ -181,7 +326,7 @@ export class CompactionHandler {
    * @param sessionId - Session identifier
    */
   public clearSessionTodos(sessionId: string): void {
-    this.pendingTodosMap.delete(sessionId);
+    this.todos.clearSessionTodos(sessionId);
   }
 
   /**
@@ -206,9 +351,16 @@ export class CompactionHandler {
       }
 
       const preserved = this.extractPreservedState(state, personaName);
-      const markdown = this.formatAsMarkdown(preserved);
+      const budget = { ...DEFAULT_CONFIG.session.compaction, ...state.config.session?.compaction };
+      const markdown = this.formatAsMarkdown(preserved, budget);
       const durationMs = performance.now() - startTime;
 
+      // The block is current for this process; don't restore it on the next transform
+      const fingerprint = this.fingerprintBlock(markdown);
+      if (fingerprint) {
+        SessionManager.setMetadata(sessionId, STATE_FINGERPRINT_KEY, fingerprint);
+      }
+
       logger.debug("State preserved", { sessionId, durationMs: durationMs.toFixed(2) });
 
       return markdown;
@@ -231,8 +383,7 @@ export class CompactionHandler {
     state: SessionState,
     personaName?: string
   ): PreservedState {
-    // Get pending todos from our storage or create from counts
-    const storedTodos = this.pendingTodosMap.get(state.sessionId) ?? [];
+    const storedTodos = this.getPendingTodos(state.sessionId);
 
     // Extract recent tools (last 10)
     const recentTools: ToolHistoryEntry[] = state.toolHistory
@@ -245,6 +396,11 @@ export class CompactionHandler {
     // Extract error recovery state from metadata
     const errorRecovery = state.metadata?.errorRecovery as ErrorRecoveryState | undefined;
     const lastError = state.metadata?.lastError as { output?: string; tool?: string } | undefined;
+    const verification = state.metadata?.verification as VerificationStatus | undefined;
+    const changedFiles = ChangeLedger.getChanges(state.sessionId);
+    const changedPaths = new Set(changedFiles.map((entry) => entry.path));
+    const filesRead = ChangeLedger.getFilesRead(state.sessionId).filter((path) => !changedPaths.has(path));
+    const securityBlocks = extractSecurityBlocks(state.metadata?.[SECURITY_BLOCKS_METADATA_KEY]);
 
     return {
       workflowPhase: state.workflow.currentPhase,
@@ -254,27 +410,110 @@ export class CompactionHandler {
       // Error escalation details for Stilgar continuity
       escalated: errorRecovery?.escalated ?? false,
       escalatedAt: errorRecovery?.escalatedAt,
+      ...(errorRecovery?.escalated ? { escalationAgent: ErrorRecovery.getEscalationAgentName(state.sessionId) } : {}),
       triggeringTool: lastError?.tool ?? errorRecovery?.triggeringTool,
+      ...(errorRecovery?.escalated && errorRecovery.reason ? { escalationReason: errorRecovery.reason } : {}),
+      ...(errorRecovery?.escalated && errorRecovery.fingerprint
+        ? { escalationFingerprint: errorRecovery.fingerprint }
+        : {}),
       // Truncate error output to avoid bloating the preserved state (max 500 chars)
       lastErrorOutput: lastError?.output?.substring(0, 500),
       recentTools,
       totalTodos: state.todoCount,
       completedTodos: state.todosCompleted,
       personaName,
+      ...(state.workflow.workflowName ? { workflowName: state.workflow.workflowName } : {}),
+      ...(verification?.lastResult ? { lastVerification: verification.lastResult } : {}),
+      ...(verification?.editsSinceGreen ? { editsSinceGreen: verification.editsSinceGreen } : {}),
+      ...(changedFiles.length > 0 ? { changedFiles } : {}),
+      ...(filesRead.length > 0 ? { filesRead } : {}),
+      ...(securityBlocks.length > 0 ? { securityBlocks } : {}),
     };
   }
 
   /**
    * Format preserved state as markdown for injection into compacted context.
    *
+   * With a budget, the phase, escalation and other one-line fields are always
+   * kept. Sections are then added while the block fits, in this order:
+   * pending todos, security blocks, changed files, files read, the last error
+   * output and the most recent tools. Security blocks come right after the
+   * todos so the agent does not retry a denied call; the error output comes
+   * before the tools because it says why the last one failed. The first
+   * section that does not fit is cut short and the ones after it are left
+   * out; entries left out are replaced by truncation markers. Only a block
+   * whose fixed fields alone exceed the budget is longer than the budget.
+   *
    * @param state - Preserved state to format
+   * @param budget - Size limits (default: no limit)
    * @returns Markdown-formatted state block
    */
-  public formatAsMarkdown(state: PreservedState): string {
+  public formatAsMarkdown(state: PreservedState, budget: Partial<CompactionConfig> = {}): string {
+    const totals: StateTotals = {
+      pendingTodos: state.pendingTodos.length,
+      securityBlocks: state.securityBlocks?.length ?? 0,
+      changedFiles: state.changedFiles?.length ?? 0,
+      filesRead: state.filesRead?.length ?? 0,
+      recentTools: state.recentTools.length,
+      lastErrorOutput: state.lastErrorOutput?.length ?? 0,
+    };
+    const maxChars = getCharBudget(budget);
+    if (maxChars === 0) {
+      return this.renderBlock(state, totals);
+    }
+
+    const { changedFiles = [], filesRead = [], securityBlocks = [], lastErrorOutput, ...fixed } = state;
+    let kept: PreservedState = { ...fixed, pendingTodos: [], recentTools: [] };
+    // Once a section is cut short, the sections after it are left out
+    let truncated = false;
+    const tryAdd = (candidate: PreservedState): boolean => {
+      if (this.renderBlock(candidate, totals).length > maxChars) {
+        truncated = true;
+        return false;
+      }
+      kept = candidate;
+      return true;
+    };
+    // Add entries one at a time until one does not fit
+    const addEach = <T>(items: T[], add: (item: T) => PreservedState): void => {
+      for (const item of truncated ? [] : items) {
+        if (!tryAdd(add(item))) break;
+      }
+    };
+
+    addEach(state.pendingTodos, (todo) => ({ ...kept, pendingTodos: [...kept.pendingTodos, todo] }));
+    addEach(securityBlocks, (entry) => ({ ...kept, securityBlocks: [...(kept.securityBlocks ?? []), entry] }));
+    addEach(changedFiles.slice(0, MAX_CHANGED_FILES), (entry) => ({
+      ...kept,
+      changedFiles: [...(kept.changedFiles ?? []), entry],
+    }));
+    addEach(filesRead.slice(0, MAX_FILES_READ), (path) => ({ ...kept, filesRead: [...(kept.filesRead ?? []), path] }));
+    if (lastErrorOutput && !truncated) {
+      for (let length = lastErrorOutput.length; length >= MIN_ERROR_OUTPUT_CHARS; length = Math.floor(length / 2)) {
+        if (tryAdd({ ...kept, lastErrorOutput: lastErrorOutput.substring(0, length) })) break;
+      }
+    }
+    // Most recent tools first
+    addEach([...state.recentTools].reverse(), (tool) => ({ ...kept, recentTools: [tool, ...kept.recentTools] }));
+
+    const markdown = this.renderBlock(kept, totals);
+    if (markdown.length > maxChars) {
+      logger.warn("Preserved state exceeds the compaction budget", { length: markdown.length, maxChars });
+    }
+    return markdown;
+  }
+
+  /**
+   * Render a state block: markdown sections in priority order and the JSON
+   * payload. Sections with fewer entries than in `totals` get a truncation
+   * marker.
+   */
+  private renderBlock(state: PreservedState, totals: StateTotals): string {
     const lines: string[] = [
       "",
       "---",
-      "<!-- ATREIDES STATE -->",
+      PRESERVED_STATE_MARKER,
+      `<!-- ATREIDES STATE VERSION ${PRESERVED_STATE_VERSION} -->`,
       "",
       `**Workflow Phase:** ${state.workflowPhase}`,
     ];
@@ -284,24 +523,9 @@ export class CompactionHandler {
       lines.push(`**Intent:** ${state.intentClassification}`);
     }
 
-    // Add pending todos section
-    const pendingCount = state.pendingTodos.length;
-    lines.push("");
-    lines.push(`**Pending Todos:** ${pendingCount}`);
-
-    if (pendingCount > 0) {
-      state.pendingTodos.forEach((todo) => {
-        const marker = todo.status === "in_progress" ? "[-]" : "[ ]";
-        lines.push(`${marker} ${todo.description}`);
-      });
-    }
-
-    // Add todo summary
-    if (state.totalTodos > 0) {
-      lines.push("");
-      lines.push(
-        `**Todo Progress:** ${state.completedTodos}/${state.totalTodos} completed`
-      );
+    // Add custom workflow name so its phases can be restored
+    if (state.workflowName && state.workflowName !== DEFAULT_WORKFLOW_NAME) {
+      lines.push(`**Workflow:** ${state.workflowName}`);
     }
 
     // Add error recovery info with escalation details
@@ -310,30 +534,113 @@ export class CompactionHandler {
       `**Error Recovery:** ${state.strikeCount} strike${state.strikeCount !== 1 ? "s" : ""}`
     );
 
-    // Add escalation info if session is in Stilgar mode
+    // Add escalation info if session is in escalated mode
     if (state.escalated) {
-      lines.push(`**Escalation Status:** ACTIVE (Stilgar mode)`);
+      lines.push(`**Escalation Status:** ACTIVE (${state.escalationAgent ?? "Stilgar"} mode)`);
       if (state.triggeringTool) {
         lines.push(`**Triggering Tool:** ${state.triggeringTool}`);
       }
       if (state.escalatedAt) {
         lines.push(`**Escalated At:** ${new Date(state.escalatedAt).toISOString()}`);
       }
+      if (state.escalationReason) {
+        const fingerprint = state.escalationFingerprint ? ` (error \`${state.escalationFingerprint}\`)` : "";
+        lines.push(`**Escalation Reason:** ${state.escalationReason}${fingerprint}`);
+      }
+    }
+
+    // Add pending todos section
+    lines.push("");
+    lines.push(`**Pending Todos:** ${totals.pendingTodos}`);
+    state.pendingTodos.forEach((todo) => {
+      const marker = todo.status === "in_progress" ? "[-]" : "[ ]";
+      const tags = [todo.priority, ...(todo.tags ?? [])].filter(Boolean).map((tag) => ` [${tag}]`);
+      lines.push(`${marker} ${todo.description}${tags.join("")}`);
+    });
+    if (totals.pendingTodos > state.pendingTodos.length) {
+      lines.push(`- ... and ${totals.pendingTodos - state.pendingTodos.length} more`);
+    }
+
+    // Add todo summary
+    if (state.totalTodos > 0) {
+      lines.push("");
+      lines.push(
+        `**Todo Progress:** ${state.completedTodos}/${state.totalTodos} completed`
+      );
+    }
+
+    // Add the tool calls security validation denied, so they are not retried
+    if (totals.securityBlocks > 0) {
+      const listed = state.securityBlocks ?? [];
+      lines.push("");
+      lines.push(`**Security Blocks:** ${totals.securityBlocks}`);
+      listed.forEach((entry) => {
+        lines.push(`- ${entry.tool}: ${entry.reason}${entry.input ? ` (\`${entry.input}\`)` : ""}`);
+      });
+      if (totals.securityBlocks > listed.length) {
+        lines.push(`- ... and ${totals.securityBlocks - listed.length} more`);
+      }
+    }
+
+    // Add the last verification result so the model knows whether the code is green
+    if (state.lastVerification || state.editsSinceGreen) {
+      lines.push("");
+      if (state.lastVerification) {
+        lines.push(`**Last Verification:** ${VerificationTracker.formatResult(state.lastVerification)}`);
+      }
+      if (state.editsSinceGreen) {
+        lines.push(`**Edits Since Green:** ${state.editsSinceGreen}`);
+      }
+    }
+
+    // Add the files changed so far (most recent first, capped)
+    if (totals.changedFiles > 0) {
+      const listed = (state.changedFiles ?? []).slice(0, MAX_CHANGED_FILES);
+      lines.push("");
+      lines.push(`**Changed Files:** ${totals.changedFiles}`);
+      listed.forEach((entry) => {
+        lines.push(`- ${ChangeLedger.formatChange(entry)}`);
+      });
+      if (totals.changedFiles > listed.length) {
+        lines.push(`- ... and ${totals.changedFiles - listed.length} more`);
+      }
+    }
+
+    // Add the files read but not changed (most recent first, capped)
+    if (totals.filesRead > 0) {
+      const listed = (state.filesRead ?? []).slice(0, MAX_FILES_READ);
+      lines.push("");
+      lines.push(`**Files Read:** ${totals.filesRead}`);
+      listed.forEach((path) => {
+        lines.push(`- ${path}`);
+      });
+      if (totals.filesRead > listed.length) {
+        lines.push(`- ... and ${totals.filesRead - listed.length} more`);
+      }
     }
 
     // Add truncated error output if available (helps AI understand context)
-    if (state.lastErrorOutput) {
+    if (totals.lastErrorOutput > 0) {
+      const output = state.lastErrorOutput ?? "";
       lines.push("");
       lines.push("**Last Error Output (truncated):**");
-      lines.push("```");
-      lines.push(state.lastErrorOutput);
-      lines.push("```");
+      if (output) {
+        lines.push("```");
+        lines.push(output);
+        lines.push("```");
+      }
+      if (totals.lastErrorOutput > output.length) {
+        lines.push(`... and ${totals.lastErrorOutput - output.length} more characters`);
+      }
     }
 
-    // Add recent tool history
-    if (state.recentTools.length > 0) {
+    // Add recent tool history (the most recent ones if truncated)
+    if (totals.recentTools > 0) {
       lines.push("");
       lines.push("**Recent Tool History:**");
+      if (totals.recentTools > state.recentTools.length) {
+        lines.push(`- ... and ${totals.recentTools - state.recentTools.length} earlier`);
+      }
       state.recentTools.forEach((t) => {
         const status = t.success ? "✓" : "✗";
         lines.push(`- ${t.tool} (${status})`);
@@ -347,6 +654,7 @@ export class CompactionHandler {
     }
 
     lines.push("");
+    lines.push(`<!-- ATREIDES STATE JSON ${serializeState(state)} -->`);
     lines.push("<!-- END ATREIDES STATE -->");
     lines.push("---");
     lines.push("");
@@ -357,23 +665,35 @@ export class CompactionHandler {
   /**
    * Parse preserved state from a markdown string.
    * Used to restore state when a compacted context is loaded.
+   * If the text contains several blocks (repeated compactions), the last one wins.
    *
    * @param markdown - The markdown content to parse
    * @returns Parsed PreservedState or null if not found/invalid
    */
   public parsePreservedStateFromMarkdown(markdown: string): PreservedState | null {
-    // Find the ATREIDES STATE block
-    const stateMatch = markdown.match(
-      /<!-- ATREIDES STATE -->([\s\S]*?)<!-- END ATREIDES STATE -->/
-    );
+    // Find the latest ATREIDES STATE block
+    const stateBlock = this.findLatestBlock(markdown);
 
-    if (!stateMatch || !stateMatch[1]) {
+    if (!stateBlock) {
       return null;
     }
 
-    const stateBlock = stateMatch[1];
-
     try {
+      const versionMatch = stateBlock.match(STATE_VERSION_PATTERN);
+      const version = versionMatch?.[1] ? parseInt(versionMatch[1], 10) : 1;
+      if (version > PRESERVED_STATE_VERSION) {
+        logger.warn("Preserved state block has a newer format, parsing known fields", {
+          version,
+          supported: PRESERVED_STATE_VERSION,
+        });
+      }
+
+      // Version 2+ blocks carry the state as JSON; the markdown is the fallback
+      const payload = version <= PRESERVED_STATE_VERSION ? parseStatePayload(stateBlock) : undefined;
+      if (payload) {
+        return { ...payload, version };
+      }
+
       // Parse workflow phase
       const phaseMatch = stateBlock.match(/\*\*Workflow Phase:\*\*\s*(\w+)/);
       const workflowPhase = (phaseMatch?.[1] ?? "idle") as WorkflowPhase;
@@ -382,13 +702,48 @@ export class CompactionHandler {
       const intentMatch = stateBlock.match(/\*\*Intent:\*\*\s*(\w+)/);
       const intentClassification = intentMatch?.[1];
 
+      // Parse custom workflow name
+      const workflowMatch = stateBlock.match(/\*\*Workflow:\*\*\s*(\w+)/);
+      const workflowName = workflowMatch?.[1];
+
+      // Parse last verification result
+      const verificationMatch = stateBlock.match(/\*\*Last Verification:\*\*\s*(.+)/);
+      const lastVerification = verificationMatch?.[1]
+        ? VerificationTracker.parseResult(verificationMatch[1])
+        : undefined;
+      const editsMatch = stateBlock.match(/\*\*Edits Since Green:\*\*\s*(\d+)/);
+      const editsSinceGreen = editsMatch?.[1] ? parseInt(editsMatch[1], 10) : undefined;
+
+      // Parse changed files
+      const changedFiles: FileChangeEntry[] = [];
+      const changedSection = stateBlock.match(
+        /\*\*Changed Files:\*\*\s*\d+\n([\s\S]*?)(?=\n\n|\n\*\*|\n<!--|$)/
+      );
+      for (const line of changedSection?.[1]?.split("\n") ?? []) {
+        const entry = ChangeLedger.parseChange(line.replace(/^- /, ""));
+        if (entry) changedFiles.push(entry);
+      }
+
+      // Parse files read
+      const filesRead = parseListSection(stateBlock, "Files Read");
+
+      // Parse security blocks
+      const securityBlocks: SecurityBlockEntry[] = [];
+      for (const line of parseListSection(stateBlock, "Security Blocks")) {
+        const match = line.match(/^(\S+): (.+?)(?: \(`(.*)`\))?$/);
+        if (match?.[1] && match[2]) {
+          securityBlocks.push({ tool: match[1], reason: match[2], ...(match[3] ? { input: match[3] } : {}) });
+        }
+      }
+
       // Parse strike count
       const strikeMatch = stateBlock.match(/\*\*Error Recovery:\*\*\s*(\d+)/);
       const strikeCount = parseInt(strikeMatch?.[1] ?? "0", 10);
 
       // Parse escalation status
-      const escalatedMatch = stateBlock.match(/\*\*Escalation Status:\*\*\s*ACTIVE/);
+      const escalatedMatch = stateBlock.match(/\*\*Escalation Status:\*\*\s*ACTIVE(?: \((.+) mode\))?/);
       const escalated = !!escalatedMatch;
+      const escalationAgent = escalatedMatch?.[1];
 
       // Parse triggering tool
       const toolMatch = stateBlock.match(/\*\*Triggering Tool:\*\*\s*(\S+)/);
@@ -400,6 +755,11 @@ export class CompactionHandler {
         ? new Date(escalatedAtMatch[1]).getTime()
         : undefined;
 
+      // Parse escalation reason and error fingerprint
+      const reasonMatch = stateBlock.match(/\*\*Escalation Reason:\*\*\s*(strikes|loop)(?: \(error `(.+)`\))?/);
+      const escalationReason = reasonMatch?.[1] as PreservedState["escalationReason"];
+      const escalationFingerprint = reasonMatch?.[2];
+
       // Parse error output
       const errorOutputMatch = stateBlock.match(
         /\*\*Last Error Output \(truncated\):\*\*\s*```\n?([\s\S]*?)```/
@@ -418,10 +778,13 @@ export class CompactionHandler {
       const todoMatches = stateBlock.matchAll(/\[([- ])\]\s+(.+)/g);
       let todoIndex = 0;
       for (const match of todoMatches) {
+        const { description, priority, tags } = parseTodoText(match[2] ?? "");
         pendingTodos.push({
           id: `restored-${todoIndex++}`,
-          description: match[2]?.trim() ?? "",
+          description,
           status: match[1] === "-" ? "in_progress" : "pending",
+          ...(priority ? { priority } : {}),
+          ...(tags ? { tags } : {}),
         });
       }
 
@@ -457,6 +820,16 @@ export class CompactionHandler {
         totalTodos,
         completedTodos,
         personaName,
+        version,
+        ...(workflowName ? { workflowName } : {}),
+        ...(lastVerification ? { lastVerification } : {}),
+        ...(editsSinceGreen ? { editsSinceGreen } : {}),
+        ...(changedFiles.length > 0 ? { changedFiles } : {}),
+        ...(filesRead.length > 0 ? { filesRead } : {}),
+        ...(securityBlocks.length > 0 ? { securityBlocks } : {}),
+        ...(escalationAgent ? { escalationAgent } : {}),
+        ...(escalationReason ? { escalationReason } : {}),
+        ...(escalationFingerprint ? { escalationFingerprint } : {}),
       };
     } catch (error) {
       logger.error("Failed to parse preserved state", {
@@ -489,6 +862,9 @@ export class CompactionHandler {
       if (preservedState.intentClassification) {
         existingState.workflow.intentClassification = preservedState.intentClassification;
       }
+      if (preservedState.workflowName) {
+        existingState.workflow.workflowName = preservedState.workflowName;
+      }
 
       // Restore error count
       existingState.errorCount = preservedState.strikeCount;
@@ -503,14 +879,46 @@ export class CompactionHandler {
           escalated: true,
           escalatedAt: preservedState.escalatedAt,
           triggeringTool: preservedState.triggeringTool,
+          strikeCount: preservedState.strikeCount,
+          ...(preservedState.escalationReason ? { reason: preservedState.escalationReason } : {}),
+          ...(preservedState.escalationFingerprint ? { fingerprint: preservedState.escalationFingerprint } : {}),
         };
       }
 
-      // Store pending todos in our map
-      if (preservedState.pendingTodos.length > 0) {
-        this.pendingTodosMap.set(sessionId, preservedState.pendingTodos);
+      // Restore verification status
+      if (preservedState.lastVerification || preservedState.editsSinceGreen) {
+        const lastResult = preservedState.lastVerification;
+        existingState.metadata.verification = {
+          editsSinceGreen: preservedState.editsSinceGreen ?? 0,
+          runs: lastResult ? 1 : 0,
+          ...(lastResult ? { lastResult } : {}),
+          ...(lastResult?.success ? { lastGreenAt: lastResult.timestamp } : {}),
+        } satisfies VerificationStatus;
+      }
+
+      // Restore the change ledger
+      if (preservedState.changedFiles && preservedState.changedFiles.length > 0) {
+        ChangeLedger.restoreChanges(sessionId, preservedState.changedFiles);
+      }
+      if (preservedState.filesRead && preservedState.filesRead.length > 0) {
+        ChangeLedger.restoreFilesRead(sessionId, preservedState.filesRead);
+      }
+
+      // Restore the security blocks (oldest first, as the interceptor stores them)
+      if (preservedState.securityBlocks && preservedState.securityBlocks.length > 0) {
+        const timestamp = new Date().toISOString();
+        existingState.metadata[SECURITY_BLOCKS_METADATA_KEY] = [...preservedState.securityBlocks]
+          .reverse()
+          .map((entry): SecurityBlockRecord => ({ ...entry, timestamp }));
       }
 
+      // Add the pending todos to the todo store
+      // Ids parsed from a markdown block are placeholders ("restored-0")
+      this.todos.restoreTodos(
+        sessionId,
+        preservedState.pendingTodos.map(({ id: _id, ...todo }) => todo)
+      );
+
       // Update the session state
       SessionManager.setState(sessionId, existingState);
 
@@ -532,6 +940,55 @@ export class CompactionHandler {
     }
   }
 
+  /**
+   * Restore session state from the latest preserved state block in a text
+   * (compacted summary, system prompt or event data).
+   * Blocks this process wrote or already restored are skipped, so the same
+   * block never resets state that has moved on since.
+   *
+   * @param sessionId - Session to restore state to (must exist)
+   * @param text - Text that may contain a preserved state block
+   * @returns The restored state, or null if there was nothing new to restore
+   */
+  public restoreFromText(sessionId: string, text: string): PreservedState | null {
+    const fingerprint = this.fingerprintBlock(text);
+    if (!fingerprint || SessionManager.getMetadata(sessionId, STATE_FINGERPRINT_KEY) === fingerprint) {
+      return null;
+    }
+
+    const preserved = this.parsePreservedStateFromMarkdown(text);
+    if (!preserved || !this.restoreState(sessionId, preserved)) {
+      return null;
+    }
+
+    SessionManager.setMetadata(sessionId, STATE_FINGERPRINT_KEY, fingerprint);
+    return preserved;
+  }
+
+  /**
+   * Get the contents of the last preserved state block in a text.
+   */
+  private findLatestBlock(text: string): string | undefined {
+    let latest: string | undefined;
+    for (const match of text.matchAll(STATE_BLOCK_PATTERN)) {
+      latest = match[1];
+    }
+    return latest;
+  }
+
+  /**
+   * Fingerprint the last preserved state block in a text.
+   * Whitespace is collapsed so re-wrapped copies of a block match.
+   */
+  private fingerprintBlock(text: string): string | undefined {
+    const block = this.findLatestBlock(text);
+    if (block === undefined) {
+      return undefined;
+    }
+    const normalized = block.replace(/\s+/g, " ").trim();
+    return createHash("sha256").update(normalized).digest("hex").substring(0, 16);
+  }
+
   /**
    * Perform full preservation and return detailed result.
    *
@@ -573,18 +1030,108 @@ export class CompactionHandler {
   }
 }
 
+/**
+ * Estimate the number of tokens of a text (about 4 characters per token).
+ *
+ * @param text - Text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the character budget of a block: the smaller of the two limits, or 0
+ * for no limit.
+ */
+function getCharBudget({ maxChars = 0, maxTokens = 0 }: Partial<CompactionConfig>): number {
+  const limits = [maxChars, maxTokens * CHARS_PER_TOKEN].filter((limit) => limit > 0);
+  return limits.length > 0 ? Math.min(...limits) : 0;
+}
+
+/**
+ * Get the latest security blocks from session metadata, most recent first.
+ */
+function extractSecurityBlocks(records: unknown): SecurityBlockEntry[] {
+  if (!Array.isArray(records)) {
+    return [];
+  }
+  return (records as SecurityBlockRecord[])
+    .slice(-MAX_SECURITY_BLOCKS)
+    .reverse()
+    .map(({ tool, reason, input }) => ({
+      tool,
+      reason: reason.length > MAX_BLOCK_REASON_CHARS ? `${reason.substring(0, MAX_BLOCK_REASON_CHARS - 3)}...` : reason,
+      ...(input !== undefined ? { input } : {}),
+    }));
+}
+
+/**
+ * Get the `- ` list entries of a markdown section, without truncation markers.
+ */
+function parseListSection(stateBlock: string, title: string): string[] {
+  const section = stateBlock.match(new RegExp(`\\*\\*${title}:\\*\\*\\s*\\d+\\n([\\s\\S]*?)(?=\\n\\n|\\n\\*\\*|\\n<!--|$)`));
+  return (section?.[1]?.split("\n") ?? [])
+    .filter((line) => line.startsWith("- ") && !line.startsWith("- ... and "))
+    .map((line) => line.substring(2));
+}
+
+/**
+ * Serialize a preserved state for the JSON comment.
+ * "--" is escaped so the payload cannot end the HTML comment.
+ */
+function serializeState(state: PreservedState): string {
+  const { version: _version, ...payload } = state;
+  return JSON.stringify(payload).replace(/--/g, "-\\u002d");
+}
+
+/**
+ * Parse the JSON comment of a state block.
+ *
+ * @returns The state, or undefined if there is no valid payload
+ */
+function parseStatePayload(stateBlock: string): PreservedState | undefined {
+  const json = stateBlock.match(STATE_JSON_PATTERN)?.[1];
+  if (!json) {
+    return undefined;
+  }
+
+  try {
+    const payload = JSON.parse(json) as Partial<PreservedState> | null;
+    if (
+      typeof payload?.workflowPhase !== "string" ||
+      !Array.isArray(payload.pendingTodos) ||
+      !Array.isArray(payload.recentTools)
+    ) {
+      return undefined;
+    }
+    return {
+      strikeCount: 0,
+      escalated: false,
+      totalTodos: 0,
+      completedTodos: 0,
+      ...payload,
+    } as PreservedState;
+  } catch {
+    logger.warn("Invalid JSON in preserved state block, parsing the markdown");
+    return undefined;
+  }
+}
+
 /**
  * Singleton instance of CompactionHandler.
  * Use this for most operations to share state across the plugin.
+ * Shares the `todoStore` with the `todoEnforcer` singleton.
  */
-export const compactionHandler = new CompactionHandler();
+export const compactionHandler = new CompactionHandler(todoStore);
 
 /**
  * Factory function to create a new CompactionHandler instance.
  * Use when you need a fresh instance (e.g., for testing).
  *
+ * @param store - Todo store to read (default: a new, isolated store)
  * @returns New CompactionHandler instance
  */
-export function createCompactionHandler(): CompactionHandler {
-  return new CompactionHandler();
+export function createCompactionHandler(store?: TodoStore): CompactionHandler {
+  return new CompactionHandler(store);
 }
@@ -9,14 +9,34 @@
  *
  * Key features:
  * - 22 error patterns from deep dive analysis
+ * - Tool-aware output analysis with a confidence per detection; only
+ *   high-confidence detections count as strikes
  * - Pattern-specific recovery suggestions
  * - Strike counter management via SessionManager
+ * - Error fingerprints and a sliding-window loop detector that escalates
+ *   when the same error keeps recurring between successful calls
  * - Stilgar escalation with context injection
  */
 
 import * as SessionManager from "./session-manager.js";
+import { parseVerificationOutput } from "./verification-tracker.js";
+import { createIdentityManager } from "./identity-manager.js";
 import { createLogger } from "../../lib/logger.js";
-import type { ErrorRecoveryState, ErrorRecoveryResult, RecoverySuggestion } from "../types.js";
+import { extractCommand } from "../utils.js";
+import {
+  DEFAULT_CONFIG,
+  type ErrorCategoryName,
+  type ErrorRecoveryConfig,
+  type ErrorRecoveryRules,
+} from "../../lib/config.js";
+import type {
+  ErrorDetection,
+  ErrorLoop,
+  ErrorRecoveryState,
+  ErrorRecoveryResult,
+  LastErrorInfo,
+  RecoverySuggestion,
+} from "../types.js";
 
 const logger = createLogger("atreides:error-recovery");
 
@@ -75,6 +95,12 @@ export const ERROR_PATTERNS: readonly RegExp[] = [
   /compilation failed/i,                   // [OFFICIAL] Alternative phrasing
   /build failed/i,                         // [OFFICIAL] Build system errors
 
+  // ==========================================================================
+  // Lint errors [EXTENDED]
+  // ==========================================================================
+  /\d+ problems? \(\d+ errors?/,             // [EXTENDED] ESLint summary
+  /\blint(?:ing)? (?:failed|errors?)\b/i,    // [EXTENDED] Generic linter failure
+
   // ==========================================================================
   // Test failures [OFFICIAL: 13-15]
   // ==========================================================================
@@ -124,6 +150,68 @@ export const ERROR_PATTERNS: readonly RegExp[] = [
   /\bfatal error\b/i,                      // [EXTENDED] Fatal errors (high confidence)
 ] as const;
 
+/**
+ * Patterns too broad to count as a strike on their own. A bare "Error" or
+ * "FAILED" also appears in log lines, file contents and passing test output,
+ * so matches are low-confidence unless an exit code or a test summary
+ * confirms the failure.
+ */
+const LOOSE_PATTERNS: readonly RegExp[] = [
+  /test.*failed/i,
+  /tests? (failed|failing)/i,
+  /FAILED/,
+  /\bexception\b/i,
+  /\bError\b(?!\.prototype)/,
+];
+
+/**
+ * Minimum confidence for a detection to count as a strike.
+ * Detections below the threshold are logged only.
+ */
+export const STRIKE_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Confidence of a detection by what it was based on.
+ */
+const CONFIDENCE = {
+  /** Non-zero exit code */
+  exitCode: 1,
+  /** Error reported by the tool */
+  errorField: 0.95,
+  /** Failures in a test runner or compiler summary */
+  testSummary: 0.9,
+  /** Specific error pattern (e.g. "command not found", "error:") */
+  pattern: 0.8,
+  /** Loose pattern (see LOOSE_PATTERNS) */
+  loosePattern: 0.4,
+  /** Any pattern in the output of a command that exited with 0 */
+  afterSuccess: 0.2,
+} as const;
+
+/** Tools whose output is file or search content; it is never scanned for patterns */
+const CONTENT_TOOLS = new Set(["read", "grep", "glob", "list", "ls", "webfetch"]);
+
+/** Tools whose output may contain a test runner or compiler summary */
+const SHELL_TOOLS = new Set(["bash", "shell"]);
+
+/**
+ * Occurrences of the same error fingerprint within the loop window that
+ * escalate the session, even when successful calls reset the strike counter
+ * in between.
+ */
+export const LOOP_THRESHOLD = 3;
+
+/**
+ * Number of recent tool calls the loop detector looks at.
+ */
+export const LOOP_WINDOW = 10;
+
+/** Session metadata key for the fingerprints of the recent tool calls */
+const ERROR_WINDOW_KEY = "errorWindow";
+
+/** Maximum length of the normalized error line in a fingerprint */
+const MAX_FINGERPRINT_LINE = 120;
+
 /**
  * Count of official patterns from deep dive (for reference).
  * This includes patterns 1-22 as marked above.
@@ -132,19 +220,10 @@ export const OFFICIAL_PATTERN_COUNT = 22;
 
 /**
  * Pattern category mapping for recovery suggestions.
+ * The category names are shared with the configuration
+ * (`workflow.errorRecovery.categories`).
  */
-type ErrorCategory =
-  | "command"
-  | "permission"
-  | "file"
-  | "module"
-  | "build"
-  | "test"
-  | "syntax"
-  | "type"
-  | "network"
-  | "memory"
-  | "generic";
+type ErrorCategory = ErrorCategoryName;
 
 /**
  * Map patterns to categories for targeted recovery suggestions.
@@ -158,6 +237,7 @@ type ErrorCategory =
  * - file: File or directory not found
  * - module: Module/import resolution failures
  * - build: Compilation and build errors
+ * - lint: Linter errors
  * - test: Test failures and assertions
  * - syntax: Syntax errors in code
  * - type: Type errors and null references
@@ -184,6 +264,10 @@ const PATTERN_CATEGORIES: Map<RegExp, ErrorCategory> = new Map([
   [/compilation failed/i, "build"],
   [/build failed/i, "build"],
 
+  // Lint errors → lint
+  [/\d+ problems? \(\d+ errors?/, "lint"],
+  [/\blint(?:ing)? (?:failed|errors?)\b/i, "lint"],
+
   // Test failures → test
   [/test.*failed/i, "test"],
   [/tests? (failed|failing)/i, "test"],
@@ -274,6 +358,16 @@ export const RECOVERY_SUGGESTIONS: Record<ErrorCategory, RecoverySuggestion> = {
       "Try cleaning the build cache and rebuilding",
     ],
   },
+  lint: {
+    category: "lint",
+    message: "Lint errors detected",
+    suggestions: [
+      "Review the reported rule violations and their locations",
+      "Run the linter's autofix (e.g. 'eslint --fix') for fixable issues",
+      "Check the project's lint configuration for the expected style",
+      "Avoid disabling rules unless the violation is intentional",
+    ],
+  },
   test: {
     category: "test",
     message: "Test failure detected",
@@ -358,9 +452,103 @@ export function hasStructuralError(output: unknown): boolean {
   return false;
 }
 
+/**
+ * Analyze a tool output for errors, taking the tool into account.
+ *
+ * ## Per-Tool Parsing
+ *
+ * | Tool                         | Checked                                          |
+ * |------------------------------|--------------------------------------------------|
+ * | read, grep, glob, list, ...  | Error reported by the tool only (never content)  |
+ * | bash, shell                  | Exit code, then test/compiler summary, then text |
+ * | Other tools                  | Error field, exit code, then text                |
+ *
+ * An exit code takes precedence over the text: a non-zero exit code is an
+ * error, and patterns in the output of a command that exited with 0 are
+ * low-confidence. A parsed test summary decides on its own when there is no
+ * exit code, so a passing suite printing "0 failed" is not an error.
+ *
+ * @example
+ * ```typescript
+ * analyzeOutput("bash", { stdout: "Tests: 0 failed, 12 passed", exitCode: 0 });
+ * // → { detected: false, confidence: 0, category: "generic" }
+ * analyzeOutput("read", "throw new Error('boom')");
+ * // → { detected: false, ... } (file content is not scanned)
+ * ```
+ *
+ * @param tool - Tool that produced the output
+ * @param output - Tool output to analyze
+ * @param input - Tool input (the command of shell tools picks the test parser)
+ * @returns Detection with confidence, source and category
+ */
+export function analyzeOutput(tool: string, output: unknown, input?: unknown): ErrorDetection {
+  const name = tool.toLowerCase();
+  const text = extractOutputText(output);
+
+  if (hasErrorField(output)) {
+    return {
+      detected: true,
+      confidence: CONFIDENCE.errorField,
+      source: "error-field",
+      category: matchPattern(text)?.category ?? "generic",
+      reason: "tool reported an error",
+    };
+  }
+
+  if (CONTENT_TOOLS.has(name)) {
+    return NO_ERROR;
+  }
+
+  const exitCode = extractExitCode(output);
+  const summary = SHELL_TOOLS.has(name) ? parseSummary(extractCommand(input) ?? "", output) : undefined;
+  const failure = summary?.failed ? summary : undefined;
+
+  if (exitCode !== undefined && exitCode !== 0) {
+    return {
+      detected: true,
+      confidence: CONFIDENCE.exitCode,
+      source: "exit-code",
+      category: failure?.category ?? matchPattern(text)?.category ?? "generic",
+      reason: failure ? `exit code ${exitCode}, ${failure.reason}` : `exit code ${exitCode}`,
+    };
+  }
+
+  if (failure) {
+    return {
+      detected: true,
+      confidence: CONFIDENCE.testSummary,
+      source: "test-summary",
+      category: failure.category,
+      reason: failure.reason,
+    };
+  }
+
+  // A summary without failures means the run passed, whatever the text says
+  if (summary) {
+    return NO_ERROR;
+  }
+
+  const match = matchPattern(text);
+  if (!match) {
+    return NO_ERROR;
+  }
+
+  const confidence = match.loose ? CONFIDENCE.loosePattern : CONFIDENCE.pattern;
+  return {
+    detected: true,
+    confidence: exitCode === 0 ? Math.min(confidence, CONFIDENCE.afterSuccess) : confidence,
+    source: "pattern",
+    category: match.category,
+    pattern: match.pattern.source,
+    reason: exitCode === 0 ? "error pattern in output of a successful command" : "error pattern in output",
+  };
+}
+
 /**
  * Detect if output contains an error.
  * Checks both pattern-based detection and structural indicators.
+ * Tool-agnostic and without confidence; the 3-strike protocol uses
+ * `analyzeOutput()`.
  *
  * @param output - Tool output to analyze
  * @returns true if an error is detected
@@ -524,6 +712,11 @@ export function extractOutputText(output: unknown): string {
  * - Strike 2: Show warning with recovery suggestions (action: "suggested")
  * - Strike 3+: Escalate to Stilgar with full context (action: "escalated")
  *
+ * The thresholds, the escalation agent and a cooldown between escalations
+ * are configurable in `workflow.errorRecovery`, with overrides per error
+ * category (e.g. escalate network errors on the first strike, never
+ * escalate lint errors). See `getRecoveryRules()`.
+ *
  * **On Success:**
  * - Resets strike counter to 0 via `SessionManager.resetErrorCount()`
  * - If previously escalated, clears the `escalated` flag and sets `resolvedAt`
@@ -543,22 +736,55 @@ export function extractOutputText(output: unknown): string {
  * [Reset] → errorCount: 0, escalated: false, resolvedAt: timestamp
  * ```
  *
+ * ## Confidence
+ *
+ * Outputs are analyzed with `analyzeOutput()`. Only detections with a
+ * confidence of at least `STRIKE_CONFIDENCE_THRESHOLD` count as strikes;
+ * low-confidence detections are logged and leave the strike counter as is
+ * (action: "none", with the detection attached to the result).
+ *
  * @param tool - Name of the tool that was executed
  * @param output - Tool output to analyze
  * @param sessionId - Session identifier for state tracking
+ * @param input - Tool input (used to parse test runner output of shell tools)
  * @returns ErrorRecoveryResult with action taken
  */
 export async function checkForErrors(
   tool: string,
   output: unknown,
-  sessionId: string
+  sessionId: string,
+  input?: unknown
 ): Promise<ErrorRecoveryResult> {
-  const hasError = detectError(output);
+  const detection = analyzeOutput(tool, output, input);
+  const counted = detection.detected && detection.confidence >= STRIKE_CONFIDENCE_THRESHOLD;
+  const fingerprint = counted ? fingerprintError(tool, detection.category, extractOutputText(output), detection.reason) : undefined;
+  const loop = recordErrorWindow(sessionId, fingerprint);
 
-  if (hasError) {
+  if (detection.detected && !counted) {
+    logger.info("Low-confidence error detection (not counted as a strike)", {
+      tool,
+      sessionId,
+      confidence: detection.confidence,
+      category: detection.category,
+      pattern: detection.pattern,
+      reason: detection.reason,
+    });
+
+    return {
+      errorDetected: false,
+      strikeCount: getStrikeCount(sessionId),
+      action: "none",
+      detection,
+    };
+  }
+
+  if (counted && fingerprint) {
     const errorCount = SessionManager.incrementErrorCount(sessionId);
     const outputText = extractOutputText(output);
-    const suggestion = getRecoverySuggestion(output);
+    const category = detection.category as ErrorCategory;
+    const suggestion = RECOVERY_SUGGESTIONS[category] ?? RECOVERY_SUGGESTIONS.generic;
+    const rules = getRecoveryRules(sessionId, suggestion.category);
+    const { escalationAgent, cooldownSeconds } = getRecoveryConfig(sessionId);
 
     // Store last error info in session metadata
     SessionManager.setMetadata(sessionId, "lastError", {
@@ -566,28 +792,21 @@ export async function checkForErrors(
       tool,
       output: outputText.substring(0, 500), // Truncate for storage
       category: suggestion.category,
+      confidence: detection.confidence,
+      fingerprint,
     });
 
-    if (errorCount === 1) {
-      // Strike 1: Log and continue
-      logger.warn(`Error detected (strike 1/3)`, {
-        tool,
-        sessionId,
-        category: suggestion.category,
-      });
+    const thresholdReached = rules.escalateAt > 0 && errorCount >= rules.escalateAt;
+    const loopDetected = rules.escalateAt > 0 && loop !== undefined;
+    const strikeLabel = rules.escalateAt > 0 ? `${errorCount}/${rules.escalateAt}` : `${errorCount}`;
 
-      return {
-        errorDetected: true,
-        strikeCount: errorCount,
-        action: "logged",
-        suggestion,
-      };
-    } else if (errorCount === 2) {
-      // Strike 2: Show warning and suggest recovery
-      logger.warn(`Error detected (strike 2/3) - recovery suggestions provided`, {
+    if ((thresholdReached || loopDetected) && isOnCooldown(sessionId, cooldownSeconds)) {
+      // Escalated recently: keep suggesting instead of escalating again
+      logger.warn(`Error detected (strike ${strikeLabel}) - escalation on cooldown`, {
         tool,
         sessionId,
         category: suggestion.category,
+        cooldownSeconds,
       });
 
       return {
@@ -595,15 +814,29 @@ export async function checkForErrors(
         strikeCount: errorCount,
         action: "suggested",
         suggestion,
-        recoveryMessage: formatRecoverySuggestion(suggestion),
+        recoveryMessage: formatRecoverySuggestion(suggestion, "Escalation is on cooldown after a recent escalation."),
+        detection,
+        fingerprint,
+        ...(loop ? { loop } : {}),
       };
-    } else {
-      // Strike 3+: Escalate to Stilgar
-      logger.error(`Error threshold reached (strike ${errorCount}/3) - escalating to Stilgar`, {
-        tool,
-        sessionId,
-        category: suggestion.category,
-      });
+    }
+
+    if (thresholdReached || loopDetected) {
+      const reason = thresholdReached ? "strikes" : "loop";
+      if (reason === "loop") {
+        // Same error recurring despite interleaved successes: escalate early
+        logger.error(`Repeated failure loop (${loop?.count}x in ${loop?.window} tool calls) - escalating to ${escalationAgent}`, {
+          tool,
+          sessionId,
+          fingerprint,
+        });
+      } else {
+        logger.error(`Error threshold reached (strike ${strikeLabel}) - escalating to ${escalationAgent}`, {
+          tool,
+          sessionId,
+          category: suggestion.category,
+        });
+      }
 
       // Mark session as escalated
       SessionManager.setMetadata(sessionId, "errorRecovery", {
@@ -611,6 +844,9 @@ export async function checkForErrors(
         escalatedAt: Date.now(),
         triggeringTool: tool,
         strikeCount: errorCount,
+        reason,
+        fingerprint,
+        agent: escalationAgent,
       });
 
       return {
@@ -619,8 +855,52 @@ export async function checkForErrors(
         action: "escalated",
         suggestion,
         escalationMessage: generateEscalationMessage(sessionId, tool, suggestion),
+        detection,
+        fingerprint,
+        ...(loop ? { loop } : {}),
+      };
+    }
+
+    if (errorCount >= rules.suggestAt) {
+      // Show warning and suggest recovery
+      logger.warn(`Error detected (strike ${strikeLabel}) - recovery suggestions provided`, {
+        tool,
+        sessionId,
+        category: suggestion.category,
+      });
+
+      return {
+        errorDetected: true,
+        strikeCount: errorCount,
+        action: "suggested",
+        suggestion,
+        recoveryMessage: formatRecoverySuggestion(
+          suggestion,
+          formatEscalationOutlook(
+            rules.escalateAt > 0 ? rules.escalateAt - errorCount : undefined,
+            getEscalationAgentName(sessionId)
+          )
+        ),
+        detection,
+        fingerprint,
       };
     }
+
+    // Below the suggestion threshold: log and continue
+    logger.warn(`Error detected (strike ${strikeLabel})`, {
+      tool,
+      sessionId,
+      category: suggestion.category,
+    });
+
+    return {
+      errorDetected: true,
+      strikeCount: errorCount,
+      action: "logged",
+      suggestion,
+      detection,
+      fingerprint,
+    };
   } else {
     // =========================================================================
     // SUCCESS PATH: Reset escalation state
@@ -702,27 +982,90 @@ export function getErrorRecoveryState(sessionId: string): ErrorRecoveryState | u
     | undefined;
 }
 
+/**
+ * Get the error recovery configuration of a session, with defaults for
+ * missing fields.
+ *
+ * @param sessionId - Session identifier
+ * @returns Thresholds, escalation agent, cooldown and category overrides
+ */
+export function getRecoveryConfig(sessionId: string): ErrorRecoveryConfig {
+  const configured = SessionManager.getStateOrUndefined(sessionId)?.config.workflow.errorRecovery;
+  return { ...DEFAULT_CONFIG.workflow.errorRecovery, ...configured };
+}
+
+/**
+ * Get the strike thresholds for an error category: the category override
+ * from `workflow.errorRecovery.categories`, falling back to the global
+ * thresholds.
+ *
+ * @param sessionId - Session identifier
+ * @param category - Error category (global thresholds if omitted)
+ * @returns Suggestion and escalation thresholds
+ */
+export function getRecoveryRules(sessionId: string, category?: string): ErrorRecoveryRules {
+  const config = getRecoveryConfig(sessionId);
+  const override = category ? config.categories[category as ErrorCategory] : undefined;
+  return {
+    suggestAt: override?.suggestAt ?? config.suggestAt,
+    escalateAt: override?.escalateAt ?? config.escalateAt,
+  };
+}
+
+/**
+ * Get the display name of the agent a session escalates to.
+ *
+ * @param sessionId - Session identifier
+ * @returns Display name, e.g. "Stilgar"
+ */
+export function getEscalationAgentName(sessionId: string): string {
+  const agent = getRecoveryConfig(sessionId).escalationAgent;
+  const config = SessionManager.getStateOrUndefined(sessionId)?.config;
+  return config?.identity
+    ? createIdentityManager(config).getAgentDisplayName(agent)
+    : agent.charAt(0).toUpperCase() + agent.slice(1);
+}
+
+/**
+ * Describe how far a session is from escalation.
+ *
+ * @param remaining - Errors left until escalation (undefined: never escalates)
+ * @param agentName - Display name of the escalation agent
+ * @returns Sentence for recovery messages, or an empty string
+ */
+export function formatEscalationOutlook(remaining: number | undefined, agentName: string): string {
+  if (remaining === undefined) {
+    return "";
+  }
+  return remaining <= 1
+    ? `If issues persist, one more error will trigger ${agentName} escalation.`
+    : `If issues persist, ${remaining} more errors will trigger ${agentName} escalation.`;
+}
+
 /**
  * Format recovery suggestion as a user-friendly message.
  *
  * @param suggestion - Recovery suggestion to format
+ * @param outlook - Closing sentence (defaults to escalation after one more error)
  * @returns Formatted message string
  */
-export function formatRecoverySuggestion(suggestion: RecoverySuggestion): string {
+export function formatRecoverySuggestion(
+  suggestion: RecoverySuggestion,
+  outlook: string = formatEscalationOutlook(1, "Stilgar")
+): string {
   const lines = [
     `[ERROR RECOVERY - ${suggestion.message}]`,
     "",
     "Suggested actions:",
     ...suggestion.suggestions.map((s, i) => `  ${i + 1}. ${s}`),
-    "",
-    "If issues persist, one more error will trigger Stilgar escalation.",
+    ...(outlook ? ["", outlook] : []),
   ];
 
   return lines.join("\n");
 }
 
 /**
- * Generate escalation message for Stilgar agent.
+ * Generate escalation message for the escalation agent (Stilgar by default).
  *
  * @param sessionId - Session identifier
  * @param tool - Tool that triggered escalation
@@ -734,16 +1077,31 @@ export function generateEscalationMessage(
   tool: string,
   suggestion: RecoverySuggestion
 ): string {
-  const lastError = SessionManager.getMetadata(sessionId, "lastError") as
-    | { timestamp: number; tool: string; output: string; category: string }
-    | undefined;
+  const lastError = SessionManager.getMetadata(sessionId, "lastError") as LastErrorInfo | undefined;
+  const window = getErrorWindow(sessionId);
+  const occurrences = lastError?.fingerprint ? window.filter((f) => f === lastError.fingerprint).length : 0;
+  const loop = getErrorRecoveryState(sessionId)?.reason === "loop";
+  const { escalateAt } = getRecoveryRules(sessionId, suggestion.category);
+  const agentName = getEscalationAgentName(sessionId);
+  const label = agentName.toUpperCase();
 
   const lines = [
-    "[STILGAR ESCALATION - 3-Strike Protocol Triggered]",
+    loop
+      ? `[${label} ESCALATION - Repeated Failure Loop Detected]`
+      : `[${label} ESCALATION - ${escalateAt}-Strike Protocol Triggered]`,
     "",
-    "The session has encountered 3+ consecutive errors.",
+    loop
+      ? "The same error keeps recurring, with successful tool calls in between."
+      : `The session has encountered ${escalateAt}+ consecutive error${escalateAt === 1 ? "" : "s"}.`,
+    `Escalation agent: ${agentName}`,
     `Error category: ${suggestion.category}`,
     `Triggering tool: ${tool}`,
+    ...(lastError?.fingerprint
+      ? [
+          `Error fingerprint: ${lastError.fingerprint}`,
+          `Seen: ${occurrences} time${occurrences === 1 ? "" : "s"} in the last ${window.length} tool call${window.length === 1 ? "" : "s"}`,
+        ]
+      : []),
     "",
     "Error context:",
     lastError?.output ? `  ${lastError.output.substring(0, 300)}...` : "  (No output captured)",
@@ -771,5 +1129,171 @@ export function resetErrorRecovery(sessionId: string): void {
   SessionManager.resetErrorCount(sessionId);
   SessionManager.setMetadata(sessionId, "errorRecovery", undefined);
   SessionManager.setMetadata(sessionId, "lastError", undefined);
+  SessionManager.setMetadata(sessionId, ERROR_WINDOW_KEY, undefined);
   logger.debug("Error recovery state reset", { sessionId });
 }
+
+/**
+ * Fingerprint an error so recurrences can be recognized: tool, category and
+ * the first error line of the output (or its first line) with paths, line
+ * numbers, ids and other numbers stripped.
+ *
+ * @example
+ * ```typescript
+ * fingerprintError("bash", "module", "Error: Cannot find module './db' from /app/src/index.ts:12:3");
+ * // → "bash:module:Error: Cannot find module '<path>' from <path>"
+ * ```
+ *
+ * @param tool - Tool that produced the error
+ * @param category - Error category
+ * @param text - Error output text
+ * @param fallback - Description used when the output has no text (e.g. "exit code 1")
+ * @returns Fingerprint
+ */
+export function fingerprintError(tool: string, category: string, text: string, fallback?: string): string {
+  const lines = text.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+  const errorLine = lines.find((line) => ERROR_PATTERNS.some((pattern) => pattern.test(line)))
+    ?? lines[0]
+    ?? fallback
+    ?? "";
+  return `${tool.toLowerCase()}:${category}:${normalizeErrorLine(errorLine)}`;
+}
+
+/**
+ * Normalize an error line for fingerprinting: strip ANSI codes, replace
+ * paths, ids and numbers with placeholders and collapse whitespace.
+ *
+ * @param line - Error line
+ * @returns Normalized line (at most 120 characters)
+ */
+export function normalizeErrorLine(line: string): string {
+  return line
+    // eslint-disable-next-line no-control-regex
+    .replace(/\x1b\[[0-9;]*m/g, "")
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/(?:[A-Za-z]:)?(?:\.{0,2}[\w@~-]*[/\\])+[\w.@~-]+/g, "<path>")
+    .replace(/(<path>|\w\.\w+)(?::\d+){1,2}\b/g, "$1")
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,}\b/gi, "<id>")
+    .replace(/\d+(?:\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_FINGERPRINT_LINE);
+}
+
+/**
+ * Get the repeated-failure loop of a session: the most frequent error
+ * fingerprint in the last LOOP_WINDOW tool calls, if it was seen at least
+ * LOOP_THRESHOLD times.
+ *
+ * @param sessionId - Session identifier
+ * @returns Loop, or undefined if no error keeps recurring
+ */
+export function getErrorLoop(sessionId: string): ErrorLoop | undefined {
+  const counts = new Map<string, number>();
+  for (const fingerprint of getErrorWindow(sessionId)) {
+    if (fingerprint) counts.set(fingerprint, (counts.get(fingerprint) ?? 0) + 1);
+  }
+
+  const [fingerprint, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return fingerprint && count && count >= LOOP_THRESHOLD ? { fingerprint, count, window: LOOP_WINDOW } : undefined;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Fingerprints of the recent tool calls of a session, oldest first
+ * (null for calls without a counted error).
+ */
+function getErrorWindow(sessionId: string): Array<string | null> {
+  return (SessionManager.getMetadata(sessionId, ERROR_WINDOW_KEY) as Array<string | null> | undefined) ?? [];
+}
+
+/**
+ * Add a tool call to the loop window.
+ *
+ * @returns The loop, if the call's error fingerprint now recurs often enough
+ */
+function recordErrorWindow(sessionId: string, fingerprint: string | undefined): ErrorLoop | undefined {
+  const window = [...getErrorWindow(sessionId), fingerprint ?? null].slice(-LOOP_WINDOW);
+  SessionManager.setMetadata(sessionId, ERROR_WINDOW_KEY, window);
+  if (!fingerprint) {
+    return undefined;
+  }
+
+  const count = window.filter((f) => f === fingerprint).length;
+  return count >= LOOP_THRESHOLD ? { fingerprint, count, window: LOOP_WINDOW } : undefined;
+}
+
+/**
+ * Check whether the last escalation of a session is within the cooldown.
+ */
+function isOnCooldown(sessionId: string, cooldownSeconds: number): boolean {
+  const escalatedAt = getErrorRecoveryState(sessionId)?.escalatedAt;
+  return cooldownSeconds > 0 && escalatedAt !== undefined && Date.now() - escalatedAt < cooldownSeconds * 1000;
+}
+
+/** Analysis result for outputs without an error */
+const NO_ERROR: ErrorDetection = { detected: false, confidence: 0, category: "generic" };
+
+/** Failure counts found in a test runner or compiler summary */
+interface OutputSummary {
+  failed: boolean;
+  category: ErrorCategory;
+  reason: string;
+}
+
+/**
+ * Find the most telling error pattern in a text: the first specific pattern,
+ * otherwise the first loose one.
+ */
+function matchPattern(text: string): { pattern: RegExp; category: ErrorCategory; loose: boolean } | undefined {
+  if (!text) return undefined;
+
+  const matches = ERROR_PATTERNS.filter((pattern) => pattern.test(text));
+  const pattern = matches.find((p) => !isLoosePattern(p)) ?? matches[0];
+  return pattern ? { pattern, category: getErrorCategory(pattern), loose: isLoosePattern(pattern) } : undefined;
+}
+
+function isLoosePattern(pattern: RegExp): boolean {
+  return LOOSE_PATTERNS.some((p) => p.source === pattern.source && p.flags === pattern.flags);
+}
+
+/**
+ * Parse the failure counts of a test runner or compiler run.
+ * Uses the verification parsers (Jest, Vitest, Bun, pytest, Go, Cargo, tsc).
+ *
+ * @returns Summary, or undefined if the output has no recognizable counts
+ */
+function parseSummary(command: string, output: unknown): OutputSummary | undefined {
+  const result = parseVerificationOutput(command, output);
+  if (result.passed === undefined && result.failed === undefined && result.errors === undefined) {
+    return undefined;
+  }
+
+  const failed = result.failed ?? 0;
+  const errors = result.errors ?? 0;
+  if (failed > 0) {
+    return { failed: true, category: "test", reason: `${failed} failed test${failed === 1 ? "" : "s"}` };
+  }
+  if (errors > 0) {
+    return { failed: true, category: "build", reason: `${errors} error${errors === 1 ? "" : "s"}` };
+  }
+  return { failed: false, category: "test", reason: "no failures" };
+}
+
+/**
+ * Check for an error reported by the tool itself (truthy `error` property).
+ */
+function hasErrorField(output: unknown): boolean {
+  return output !== null && typeof output === "object" && Boolean((output as Record<string, unknown>)["error"]);
+}
+
+function extractExitCode(output: unknown): number | undefined {
+  if (output && typeof output === "object") {
+    const exitCode = (output as Record<string, unknown>)["exitCode"];
+    return typeof exitCode === "number" ? exitCode : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,502 @@
+/**
+ * NetworkPolicy - Destination extraction for network egress checks
+ *
+ * Finds the hosts a shell command connects to and matches them against
+ * domain patterns with wildcard support.
+ *
+ * Key features:
+ * - Host extraction for `curl`, `wget`, `git clone`/`fetch`/`push`,
+ *   `npm install <url>` (and yarn/pnpm/bun), `pip install --index-url`,
+ *   `ssh`, `scp` and `nc`
+ * - URL, scp-style (`user@host:path`) and bare host arguments
+ * - Destinations built from variables are reported as dynamic
+ *
+ * The policy itself (off/ask/deny plus domain lists) is applied by SecurityHardening.
+ */
+
+import { basename } from "node:path";
+import type { ShellParseResult } from "./shell-parser.js";
+
+/**
+ * A network destination found in a shell command.
+ */
+export interface NetworkDestination {
+  /** Host name (lowercase, without credentials or port), or the raw value if dynamic */
+  host: string;
+  /** True when the host depends on a variable or substitution (`$HOST`) */
+  dynamic: boolean;
+  /** Command that connects to the host ("curl", "git", ...) */
+  command: string;
+  /** Text of the segment containing the command */
+  segment: string;
+}
+
+/**
+ * Options of a command that take a value, so their values are not mistaken
+ * for destinations.
+ */
+interface OptionSpec {
+  /** Short options that take a value (e.g. "oH" for -o and -H) */
+  short: string;
+  /** Long options that take a value (without leading dashes) */
+  long: ReadonlySet<string>;
+}
+
+interface ParsedArguments {
+  /** Non-option arguments */
+  positionals: string[];
+  /** Option values as [option as written, value] */
+  values: Array<[string, string]>;
+  /** Options without values (short options as "-l", long ones as "--listen") */
+  flags: Set<string>;
+}
+
+const CURL_OPTIONS: OptionSpec = {
+  short: "AbcCdDeEFHKmoPQrTuUwxXyYz",
+  long: new Set([
+    "data",
+    "data-raw",
+    "data-binary",
+    "data-urlencode",
+    "header",
+    "output",
+    "output-dir",
+    "user",
+    "user-agent",
+    "request",
+    "cookie",
+    "cookie-jar",
+    "form",
+    "max-time",
+    "connect-timeout",
+    "proxy",
+    "referer",
+    "write-out",
+    "upload-file",
+    "config",
+    "cacert",
+    "cert",
+    "key",
+    "retry",
+    "range",
+    "dump-header",
+    "resolve",
+    "connect-to",
+    "url",
+  ]),
+};
+
+const WGET_OPTIONS: OptionSpec = {
+  short: "aABDeiIlOoPQRtTUwX",
+  long: new Set([
+    "output-document",
+    "output-file",
+    "append-output",
+    "directory-prefix",
+    "header",
+    "user-agent",
+    "user",
+    "password",
+    "post-data",
+    "post-file",
+    "input-file",
+    "timeout",
+    "tries",
+    "execute",
+    "referer",
+    "load-cookies",
+    "save-cookies",
+    "base",
+  ]),
+};
+
+const GIT_GLOBAL_OPTIONS: OptionSpec = {
+  short: "Cc",
+  long: new Set(["git-dir", "work-tree", "namespace", "exec-path", "config-env"]),
+};
+
+const GIT_SUBCOMMAND_OPTIONS: OptionSpec = {
+  short: "bjo",
+  long: new Set([
+    "branch",
+    "origin",
+    "depth",
+    "jobs",
+    "reference",
+    "separate-git-dir",
+    "template",
+    "upload-pack",
+    "receive-pack",
+    "filter",
+    "shallow-since",
+    "shallow-exclude",
+    "push-option",
+    "config",
+    "server-option",
+  ]),
+};
+
+const PACKAGE_MANAGER_OPTIONS: OptionSpec = {
+  short: "",
+  long: new Set(["registry", "prefix", "cache", "userconfig", "workspace", "tag", "cwd"]),
+};
+
+const PIP_OPTIONS: OptionSpec = {
+  short: "cefirt",
+  long: new Set([
+    "index-url",
+    "extra-index-url",
+    "find-links",
+    "requirement",
+    "constraint",
+    "editable",
+    "target",
+    "prefix",
+    "root",
+    "src",
+    "trusted-host",
+    "proxy",
+    "platform",
+    "python-version",
+    "implementation",
+    "abi",
+    "cache-dir",
+    "log",
+  ]),
+};
+
+const SSH_OPTIONS: OptionSpec = {
+  short: "BbcDEeFIiJLlmOoPpQRSWw",
+  long: new Set(),
+};
+
+const SCP_OPTIONS: OptionSpec = {
+  short: "cFiJlOoPS",
+  long: new Set(),
+};
+
+const NETCAT_OPTIONS: OptionSpec = {
+  short: "ceIiMmOPpqsTVwXx",
+  long: new Set(["source", "source-port", "wait", "proxy", "proxy-type", "exec", "sh-exec"]),
+};
+
+/**
+ * Git subcommands that talk to a remote.
+ */
+const GIT_NETWORK_SUBCOMMANDS: ReadonlySet<string> = new Set([
+  "clone",
+  "fetch",
+  "pull",
+  "push",
+  "ls-remote",
+  "remote",
+  "submodule",
+]);
+
+/**
+ * Package manager subcommands that install packages.
+ */
+const INSTALL_SUBCOMMANDS: ReadonlySet<string> = new Set(["install", "i", "add", "ci"]);
+
+/**
+ * Hosts of package spec shorthands (`github:user/repo`).
+ */
+const PACKAGE_SHORTHAND_HOSTS: Readonly<Record<string, string>> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+  gist: "gist.github.com",
+};
+
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const SCP_PATTERN = /^(?:([^@/:]+)@)?(\[[^\]]+\]|[^:/@]+):/;
+const DYNAMIC_PATTERN = /[$`]/;
+
+/**
+ * Extract the network destinations of a parsed shell command.
+ *
+ * @param parsed - Result of `parseShellCommand()`
+ * @returns Destinations in order of appearance
+ */
+export function extractNetworkDestinations(parsed: ShellParseResult): NetworkDestination[] {
+  const destinations: NetworkDestination[] = [];
+
+  for (const segment of parsed.segments) {
+    for (const command of segment.commands) {
+      const name = basename(command.argv[0] ?? "");
+      for (const value of extractHostValues(name, command.argv)) {
+        const host = value.dynamic ? value.host : normalizeHost(value.host);
+        if (host.length > 0) {
+          destinations.push({ host, dynamic: value.dynamic, command: name, segment: segment.text });
+        }
+      }
+    }
+  }
+
+  return destinations;
+}
+
+/**
+ * Compile a domain pattern to a RegExp.
+ * `*.example.com` matches subdomains at any depth; any other `*` matches
+ * within one label; `*` alone matches every host.
+ *
+ * @param pattern - Domain pattern (case-insensitive)
+ * @returns RegExp anchored at both ends
+ */
+export function compileDomainPattern(pattern: string): RegExp {
+  const domain = normalizeHost(pattern);
+  if (domain === "*") {
+    return /^.+$/;
+  }
+
+  let source = "";
+  let rest = domain;
+  if (rest.startsWith("*.")) {
+    source = "(?:[^.]+\\.)+";
+    rest = rest.slice(2);
+  }
+  source += rest
+    .split("*")
+    .map((part) => part.replace(/[.+?^$()|[\]{}\\]/g, "\\$&"))
+    .join("[^.]*");
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Check whether a host matches any of the compiled domain patterns.
+ *
+ * @param host - Normalized host name
+ * @param patterns - Patterns from `compileDomainPattern()`
+ * @returns True if a pattern matches
+ */
+export function matchesDomain(host: string, patterns: readonly RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(host));
+}
+
+interface HostValue {
+  host: string;
+  dynamic: boolean;
+}
+
+/**
+ * Get the raw host values for one simple command.
+ */
+function extractHostValues(name: string, argv: readonly string[]): HostValue[] {
+  const args = argv.slice(1);
+
+  if (name === "curl" || name === "wget") {
+    const parsed = parseArguments(args, name === "curl" ? CURL_OPTIONS : WGET_OPTIONS);
+    const urls = [...parsed.positionals, ...optionValues(parsed, ["--url"])];
+    return collect(urls, (arg) => hostFromUrl(arg) ?? hostFromBare(arg));
+  }
+
+  if (name === "git") {
+    return extractGitHosts(args);
+  }
+
+  if (name === "npm" || name === "yarn" || name === "pnpm" || name === "bun") {
+    const parsed = parseArguments(args, PACKAGE_MANAGER_OPTIONS);
+    if (!INSTALL_SUBCOMMANDS.has(parsed.positionals[0] ?? "")) {
+      return [];
+    }
+    return [
+      ...collect(parsed.positionals.slice(1), (arg) => hostFromUrl(arg) ?? hostFromPackageShorthand(arg)),
+      ...collect(optionValues(parsed, ["--registry"]), hostFromUrl),
+    ];
+  }
+
+  if (/^pip[0-9.]*$/.test(name)) {
+    return extractPipHosts(args);
+  }
+  if (/^python[0-9.]*$/.test(name) && args[0] === "-m" && /^pip[0-9.]*$/.test(args[1] ?? "")) {
+    return extractPipHosts(args.slice(2));
+  }
+  if (name === "uv" && args[0] === "pip") {
+    return extractPipHosts(args.slice(1));
+  }
+
+  if (name === "ssh") {
+    const parsed = parseArguments(args, SSH_OPTIONS);
+    const jumps = optionValues(parsed, ["-J"]).flatMap((value) => value.split(","));
+    return collect([...parsed.positionals.slice(0, 1), ...jumps], (arg) => hostFromUrl(arg) ?? hostFromBare(arg));
+  }
+
+  if (name === "scp") {
+    const parsed = parseArguments(args, SCP_OPTIONS);
+    const jumps = optionValues(parsed, ["-J"]).flatMap((value) => value.split(","));
+    return [
+      ...collect(parsed.positionals, (arg) => hostFromUrl(arg) ?? hostFromScp(arg)),
+      ...collect(jumps, (arg) => hostFromUrl(arg) ?? hostFromBare(arg)),
+    ];
+  }
+
+  if (name === "nc" || name === "ncat" || name === "netcat") {
+    const parsed = parseArguments(args, NETCAT_OPTIONS);
+    if (parsed.flags.has("-l") || parsed.flags.has("--listen")) {
+      return [];
+    }
+    return collect(parsed.positionals.slice(0, 1), hostFromBare);
+  }
+
+  return [];
+}
+
+function extractGitHosts(args: readonly string[]): HostValue[] {
+  const global = parseArguments(args, GIT_GLOBAL_OPTIONS, true);
+  const [subcommand, ...rest] = global.positionals;
+  if (!subcommand || !GIT_NETWORK_SUBCOMMANDS.has(subcommand)) {
+    return [];
+  }
+
+  const parsed = parseArguments(rest, GIT_SUBCOMMAND_OPTIONS);
+  return collect(parsed.positionals, (arg, index) => {
+    const url = hostFromUrl(arg);
+    if (url !== undefined) return url;
+    // scp-style remotes; without a user only for the repository of `git clone`,
+    // since "main:main" refspecs look the same
+    const match = SCP_PATTERN.exec(arg);
+    if (!match || (match[1] === undefined && !(subcommand === "clone" && index === 0))) {
+      return undefined;
+    }
+    return match[2];
+  });
+}
+
+function extractPipHosts(args: readonly string[]): HostValue[] {
+  const parsed = parseArguments(args, PIP_OPTIONS);
+  if (parsed.positionals[0] !== "install" && parsed.positionals[0] !== "download") {
+    return [];
+  }
+  const indexes = optionValues(parsed, [
+    "-i",
+    "--index-url",
+    "--extra-index-url",
+    "-f",
+    "--find-links",
+    "-e",
+    "--editable",
+  ]);
+  return collect([...indexes, ...parsed.positionals.slice(1)], hostFromUrl);
+}
+
+/**
+ * Parse arguments into positionals, option values and flags.
+ * With `stopAtPositional`, parsing stops at the first positional (the rest
+ * are returned as positionals), as needed for subcommands.
+ */
+function parseArguments(args: readonly string[], spec: OptionSpec, stopAtPositional = false): ParsedArguments {
+  const parsed: ParsedArguments = { positionals: [], values: [], flags: new Set() };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+
+    if (arg === "--") {
+      parsed.positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) {
+        parsed.values.push([arg.slice(0, eq), arg.slice(eq + 1)]);
+      } else if (spec.long.has(arg.slice(2)) && i + 1 < args.length) {
+        parsed.values.push([arg, args[++i] as string]);
+      } else {
+        parsed.flags.add(arg);
+      }
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        const option = arg[j] as string;
+        if (!spec.short.includes(option)) {
+          parsed.flags.add(`-${option}`);
+          continue;
+        }
+        const attached = arg.slice(j + 1);
+        if (attached.length > 0) {
+          parsed.values.push([`-${option}`, attached]);
+        } else if (i + 1 < args.length) {
+          parsed.values.push([`-${option}`, args[++i] as string]);
+        }
+        break;
+      }
+      continue;
+    }
+
+    if (stopAtPositional) {
+      parsed.positionals.push(...args.slice(i));
+      break;
+    }
+    parsed.positionals.push(arg);
+  }
+
+  return parsed;
+}
+
+function optionValues(parsed: ParsedArguments, names: readonly string[]): string[] {
+  return parsed.values.filter(([option]) => names.includes(option)).map(([, value]) => value);
+}
+
+/**
+ * Map arguments to host values; dynamic arguments are reported as-is.
+ */
+function collect(
+  args: readonly string[],
+  extract: (arg: string, index: number) => string | undefined
+): HostValue[] {
+  const hosts: HostValue[] = [];
+  args.forEach((arg, index) => {
+    const host = extract(arg, index);
+    if (host === undefined || host.length === 0) return;
+    hosts.push(DYNAMIC_PATTERN.test(host) ? { host: arg, dynamic: true } : { host, dynamic: false });
+  });
+  return hosts;
+}
+
+function hostFromUrl(value: string): string | undefined {
+  if (!URL_PATTERN.test(value)) {
+    return undefined;
+  }
+  const authority = value.replace(URL_PATTERN, "").split(/[/?#]/)[0] ?? "";
+  if (DYNAMIC_PATTERN.test(authority)) {
+    return authority;
+  }
+  try {
+    return new URL(value).hostname;
+  } catch {
+    // e.g. "git+ssh://git@github.com:user/repo.git" (scp-style path after the host)
+    return hostFromBare(authority);
+  }
+}
+
+function hostFromScp(value: string): string | undefined {
+  return SCP_PATTERN.exec(value)?.[2];
+}
+
+function hostFromPackageShorthand(value: string): string | undefined {
+  const prefix = /^([a-z]+):[^/]/i.exec(value)?.[1];
+  return prefix === undefined ? undefined : PACKAGE_SHORTHAND_HOSTS[prefix.toLowerCase()];
+}
+
+/**
+ * Host of a scheme-less destination like `user@host`, `host:port/path` or `[::1]:80`.
+ */
+function hostFromBare(value: string): string | undefined {
+  const authority = value.split(/[/?#]/)[0] ?? "";
+  const host = authority.slice(authority.lastIndexOf("@") + 1);
+  if (host.startsWith("[")) {
+    return host.slice(0, host.indexOf("]") + 1) || undefined;
+  }
+  return host.split(":")[0];
+}
+
+/**
+ * Lowercase a host and strip IPv6 brackets and a trailing dot.
+ */
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+}
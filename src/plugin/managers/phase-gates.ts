@@ -0,0 +1,246 @@
+/**
+ * PhaseGates - Workflow enforcement for implementation tools and stop
+ *
+ * WorkflowEngine only observes tool usage to track phases; phase gates act
+ * on it. They are evaluated in `tool.execute.before` for implementation tools
+ * (edit, write, ...) and in `stop`:
+ * - early-phase: Implementation tools are held back in early phases (intent, assessment)
+ * - exploration: At least N read/search calls before the first change
+ * - todos: A todo list before the first change
+ * - verification: A passing test/build run after the last change before stop
+ *
+ * Key features:
+ * - off / warn / deny modes, with rule overrides per intent type
+ * - Every closed gate tells the model what unlocks it
+ * - Progress counted per session in metadata ("phaseGates"); the verification
+ *   gate reads the VerificationTracker status instead
+ */
+
+import * as SessionManager from "./session-manager.js";
+import { todoEnforcer } from "./todo-enforcer.js";
+import * as VerificationTracker from "./verification-tracker.js";
+import { createLogger } from "../../lib/logger.js";
+import type { PhaseGateConfig, PhaseGateRules } from "../../lib/config.js";
+import type { PhaseGateName, PhaseGateProgress, PhaseGateResult, SessionState } from "../types.js";
+
+const logger = createLogger("atreides:phase-gates");
+
+/** Session metadata key for gate progress */
+const PROGRESS_KEY = "phaseGates";
+
+const ALLOW: PhaseGateResult = { action: "allow" };
+
+const GATES_OFF: PhaseGateRules = {
+  mode: "off",
+  blockedPhases: [],
+  minExplorationCalls: 0,
+  requireTodos: false,
+  requireVerification: false,
+};
+
+interface ClosedGate {
+  gate: PhaseGateName;
+  reason: string;
+  unlock: string;
+}
+
+/**
+ * Resolve the gate rules for an intent: the base rules with the intent's
+ * overrides applied.
+ *
+ * @param gates - Phase gate configuration (missing means gates are off)
+ * @param intent - Classified intent type
+ * @returns Effective gate rules
+ */
+export function resolveGateRules(gates: PhaseGateConfig | undefined, intent?: string): PhaseGateRules {
+  if (!gates) {
+    return GATES_OFF;
+  }
+
+  const rules: PhaseGateRules = {
+    mode: gates.mode,
+    blockedPhases: gates.blockedPhases,
+    minExplorationCalls: gates.minExplorationCalls,
+    requireTodos: gates.requireTodos,
+    requireVerification: gates.requireVerification,
+  };
+  const overrides = intent ? gates.intents?.[intent] : undefined;
+  return overrides ? { ...rules, ...overrides } : rules;
+}
+
+/**
+ * Get the gate progress counted for a session.
+ *
+ * @param sessionId - Session identifier
+ * @returns Progress (zero counts if nothing was recorded)
+ */
+export function getGateProgress(sessionId: string): PhaseGateProgress {
+  const progress = SessionManager.getMetadata(sessionId, PROGRESS_KEY) as PhaseGateProgress | undefined;
+  return progress
+    ? { ...progress }
+    : { explorationCalls: 0, changes: 0 };
+}
+
+/**
+ * Count a completed tool call towards the gates.
+ * Called from the tool.execute.after hook.
+ *
+ * @param sessionId - Session identifier
+ * @param tool - Tool that was executed
+ */
+export function recordToolUse(sessionId: string, tool: string): void {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  const gates = state?.config.workflow.gates;
+  if (!gates) {
+    return;
+  }
+
+  const name = tool.toLowerCase();
+  const progress = getGateProgress(sessionId);
+  if (gates.explorationTools.includes(name)) {
+    progress.explorationCalls++;
+  }
+  if (gates.implementationTools.includes(name)) {
+    progress.changes++;
+  }
+  SessionManager.setMetadata(sessionId, PROGRESS_KEY, progress);
+}
+
+/**
+ * Evaluate the gates for a tool call. Only implementation tools are gated.
+ *
+ * @param sessionId - Session identifier
+ * @param tool - Tool about to be executed
+ * @returns Gate result (allow when the gates are off or open)
+ */
+export function checkToolGate(sessionId: string, tool: string): PhaseGateResult {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  const gates = state?.config.workflow.gates;
+  if (!state || !gates || !gates.implementationTools.includes(tool.toLowerCase())) {
+    return ALLOW;
+  }
+
+  const rules = resolveGateRules(gates, state.workflow.intentClassification);
+  if (rules.mode === "off") {
+    return ALLOW;
+  }
+
+  const [closed] = findClosedToolGates(state, tool, rules);
+  return closed ? applyMode(rules, closed, sessionId, tool) : ALLOW;
+}
+
+/**
+ * Evaluate the gates for ending the session.
+ *
+ * @param sessionId - Session identifier
+ * @returns Gate result (allow when the gates are off or open)
+ */
+export function checkStopGate(sessionId: string): PhaseGateResult {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  if (!state) {
+    return ALLOW;
+  }
+
+  const rules = resolveGateRules(state.config.workflow.gates, state.workflow.intentClassification);
+  const closed = rules.mode === "off" ? undefined : findClosedStopGate(sessionId, rules);
+  return closed ? applyMode(rules, closed, sessionId, "stop") : ALLOW;
+}
+
+/**
+ * Describe the closed gates for the system prompt, so the model knows what
+ * is required before it tries an implementation tool or stops.
+ *
+ * @param sessionId - Session identifier
+ * @returns Guidance block, or an empty string if no gate is closed
+ */
+export function describeGates(sessionId: string): string {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  if (!state) {
+    return "";
+  }
+
+  const rules = resolveGateRules(state.config.workflow.gates, state.workflow.intentClassification);
+  if (rules.mode === "off") {
+    return "";
+  }
+
+  const lines: string[] = [];
+  const toolGates = findClosedToolGates(state, "edit", rules);
+  if (toolGates.length > 0) {
+    lines.push("Before changing files:", ...toolGates.map((closed) => `- ${closed.unlock}`));
+  }
+  const stopGate = findClosedStopGate(sessionId, rules);
+  if (stopGate) {
+    lines.push("Before finishing:", `- ${stopGate.unlock}`);
+  }
+
+  return lines.length > 0 ? `[PHASE GATES]\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Format a gate result as a message for the model.
+ *
+ * @param result - Gate result with a closed gate
+ * @returns Message explaining the gate and how to unlock it
+ */
+export function formatGateMessage(result: PhaseGateResult): string {
+  const prefix = result.action === "deny" ? "[PHASE GATE]" : "[PHASE GATE WARNING]";
+  return `${prefix} ${result.reason}. To unlock: ${result.unlock}.`;
+}
+
+function findClosedToolGates(state: SessionState, tool: string, rules: PhaseGateRules): ClosedGate[] {
+  const closed: ClosedGate[] = [];
+
+  if (rules.blockedPhases.includes(state.phase)) {
+    closed.push({
+      gate: "early-phase",
+      reason: `${tool} is not allowed during the ${state.phase} phase`,
+      unlock: `read or search the code involved first, so the workflow moves past the ${state.phase} phase`,
+    });
+  }
+
+  const { explorationCalls } = getGateProgress(state.sessionId);
+  if (explorationCalls < rules.minExplorationCalls) {
+    const remaining = rules.minExplorationCalls - explorationCalls;
+    closed.push({
+      gate: "exploration",
+      reason: `Only ${explorationCalls} of ${rules.minExplorationCalls} required read/search calls were made before changing files`,
+      unlock: `read or search the relevant code (${remaining} more call${remaining === 1 ? "" : "s"}) before editing`,
+    });
+  }
+
+  if (rules.requireTodos && !state.todosCreated && todoEnforcer.getPendingTodos(state.sessionId).length === 0) {
+    closed.push({
+      gate: "todos",
+      reason: "No todo list has been created for this task",
+      unlock: "plan the changes in a todo list (todowrite or markdown checkboxes) before editing",
+    });
+  }
+
+  return closed;
+}
+
+function findClosedStopGate(sessionId: string, rules: PhaseGateRules): ClosedGate | undefined {
+  if (!rules.requireVerification) {
+    return undefined;
+  }
+
+  // Same status as workflow.requireGreenBeforeStop, so both checks agree
+  const { editsSinceGreen, lastResult } = VerificationTracker.getStatus(sessionId);
+  if (editsSinceGreen === 0) {
+    return undefined;
+  }
+
+  const last = lastResult && !lastResult.success ? `; last run ${VerificationTracker.formatResult(lastResult)}` : "";
+  return {
+    gate: "verification",
+    reason: `The changes have not passed a test or build run since the last edit${last}`,
+    unlock: "run the tests or the build (e.g. `npm test`) and make them pass before finishing",
+  };
+}
+
+function applyMode(rules: PhaseGateRules, closed: ClosedGate, sessionId: string, tool: string): PhaseGateResult {
+  const action = rules.mode === "deny" ? "deny" : "warn";
+  logger.info("Phase gate closed", { sessionId, tool, gate: closed.gate, action });
+  return { action, ...closed };
+}
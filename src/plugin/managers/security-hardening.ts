@@ -4,19 +4,42 @@
  * Implements comprehensive security validation including:
  * - 5-stage obfuscation detection pipeline
  * - 22+ blocked command patterns
+ * - Shell parsing: compound commands, substitutions and wrappers are checked per segment
  * - Warning patterns requiring user confirmation
  * - File operation guards (blocked files/paths)
+ * - User-configured patterns (regex strings and file globs) merged with built-ins
+ * - Security presets and per-permission restrictions (`security.preset`, `security.permissions`)
+ * - `security.allow` exceptions that override deny/ask decisions
+ * - Optional workspace confinement for file tools and paths in shell commands
+ * - Network egress policy (allowed/denied domains) for hosts in shell commands
+ * - Secret redaction in tool outputs (detector catalog plus entropy heuristics)
  * - Log sanitization
  * - Performance optimization with caching (<15ms target)
  *
- * All patterns are compiled once at module load for performance.
+ * Built-in patterns are compiled once at module load for performance.
+ * User patterns are compiled once per distinct security config.
  */
 
 import { createLogger } from "../../lib/logger.js";
+import { extractCommand } from "../utils.js";
+import { parseShellCommand } from "./shell-parser.js";
+import { getSecretDetectors, redactValue, type SecretFinding } from "./secret-redaction.js";
+import { compilePermissionRules, matchPermissionRules, toPermissionCommand } from "./security-presets.js";
+import { compileDomainPattern, extractNetworkDestinations, matchesDomain } from "./network-policy.js";
+import {
+  extractCommandPaths,
+  getWorkspaceRoots,
+  isWithinRoots,
+  resolveWorkspacePath,
+} from "./workspace-confinement.js";
+import type { SecretRedactionConfig, SecurityAllowRule, SecurityConfig } from "../../lib/config.js";
 import type {
   CommandValidationResult,
   FileValidationResult,
+  PermissionRule,
   SecurityAction,
+  SecurityAllowMatcher,
+  SecurityPatternConfig,
   SecurityValidationStats,
 } from "../types.js";
 
@@ -220,6 +243,233 @@ export const BLOCKED_PATH_PATTERNS: readonly RegExp[] = [
   /^\.?config\/google-chrome.*Login/i,
 ] as const;
 
+/**
+ * Built-in pattern set used when no user configuration applies.
+ */
+export const DEFAULT_SECURITY_PATTERNS: SecurityPatternConfig = {
+  blockedPatterns: BLOCKED_COMMAND_PATTERNS,
+  warningPatterns: WARNING_COMMAND_PATTERNS,
+  blockedFiles: BLOCKED_FILE_PATTERNS,
+  blockedPaths: BLOCKED_PATH_PATTERNS,
+  allowRules: [],
+  permissionRules: [],
+  confinement: { mode: "off", allowedRoots: [] },
+  network: { mode: "off", allowedDomains: [], deniedDomains: [] },
+};
+
+// =============================================================================
+// User Pattern Compilation
+// =============================================================================
+
+/**
+ * Convert a file glob to a RegExp.
+ *
+ * Supported syntax:
+ * - `**` matches any number of path segments
+ * - `*` matches within a single segment
+ * - `?` matches a single character
+ * - `{a,b}` matches either alternative
+ *
+ * Globs without a leading `/` match at any directory depth, so `.vault/*`
+ * matches both `.vault/key` and `/home/me/project/.vault/key`.
+ *
+ * @param glob - Glob pattern
+ * @returns Case-insensitive RegExp anchored at the end of the path
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const prefix = glob.startsWith("/") ? "^" : "(?:^|/)";
+  return new RegExp(`${prefix}${source}$`, "i");
+}
+
+/**
+ * Compile user-configured regex strings, skipping (and logging) invalid ones.
+ * Invalid patterns are also reported by `validateConfig()` at config load.
+ */
+function compileRegexList(sources: readonly string[], field: string): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const source of sources) {
+    if (typeof source !== "string" || source.length === 0) continue;
+    try {
+      compiled.push(new RegExp(source, "i"));
+    } catch (error) {
+      logger.warn("Ignoring invalid security pattern", {
+        field,
+        pattern: source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Compile `security.allow` rules, skipping (and logging) invalid ones.
+ */
+function compileAllowRules(rules: readonly SecurityAllowRule[]): SecurityAllowMatcher[] {
+  const compiled: SecurityAllowMatcher[] = [];
+
+  rules.forEach((rule, index) => {
+    const hasPath = typeof rule?.path === "string" && rule.path.length > 0;
+    const hasCommand = typeof rule?.command === "string" && rule.command.length > 0;
+    if (hasPath === hasCommand) {
+      logger.warn("Ignoring security allow rule without exactly one of path or command", { index });
+      return;
+    }
+
+    const matcher: SecurityAllowMatcher = { index };
+    if (typeof rule.tool === "string" && rule.tool.length > 0) {
+      matcher.tool = rule.tool.toLowerCase();
+    }
+    if (typeof rule.reason === "string") {
+      matcher.reason = rule.reason;
+    }
+
+    if (hasPath) {
+      matcher.path = globToRegExp(rule.path as string);
+    } else {
+      try {
+        matcher.command = new RegExp(rule.command as string, "i");
+      } catch (error) {
+        logger.warn("Ignoring security allow rule with invalid command pattern", {
+          index,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+    }
+
+    compiled.push(matcher);
+  });
+
+  return compiled;
+}
+
+/**
+ * Compile a security config into a pattern set.
+ * User patterns are appended to the built-in patterns (built-ins always apply).
+ *
+ * @param security - Security section of the plugin config
+ * @returns Merged SecurityPatternConfig
+ */
+export function compileSecurityPatterns(security: SecurityConfig): SecurityPatternConfig {
+  const blockedFiles = (security.blockedFiles ?? [])
+    .filter((glob) => typeof glob === "string" && glob.length > 0)
+    .map(globToRegExp);
+
+  return {
+    blockedPatterns: [
+      ...BLOCKED_COMMAND_PATTERNS,
+      ...compileRegexList(security.blockedPatterns ?? [], "blockedPatterns"),
+    ],
+    warningPatterns: [
+      ...WARNING_COMMAND_PATTERNS,
+      ...compileRegexList(security.warningPatterns ?? [], "warningPatterns"),
+    ],
+    blockedFiles: [...BLOCKED_FILE_PATTERNS, ...blockedFiles],
+    blockedPaths: BLOCKED_PATH_PATTERNS,
+    allowRules: compileAllowRules(security.allow ?? []),
+    permissionRules: compilePermissionRules(security.preset ?? "permissive", security.permissions ?? {}),
+    confinement: {
+      mode: security.confinement?.mode ?? "off",
+      allowedRoots: [...(security.confinement?.allowedRoots ?? [])],
+    },
+    network: {
+      mode: security.network?.mode ?? "off",
+      allowedDomains: compileDomainList(security.network?.allowedDomains ?? []),
+      deniedDomains: compileDomainList(security.network?.deniedDomains ?? []),
+    },
+  };
+}
+
+/**
+ * Compile network policy domain patterns, skipping invalid entries.
+ */
+function compileDomainList(domains: readonly string[]): RegExp[] {
+  return domains.filter((domain) => typeof domain === "string" && domain.length > 0).map(compileDomainPattern);
+}
+
+/**
+ * Compiled pattern sets keyed by the user patterns they were built from.
+ * Identical configs share one pattern set (and therefore one result cache).
+ */
+const compiledPatternSets = new Map<string, SecurityPatternConfig>();
+
+/**
+ * Get the compiled pattern set for a security config, compiling on first use.
+ * Returns `DEFAULT_SECURITY_PATTERNS` when no user patterns are configured.
+ *
+ * @param security - Security section of the plugin config
+ * @returns Merged SecurityPatternConfig
+ */
+export function getSecurityPatterns(security: SecurityConfig | undefined): SecurityPatternConfig {
+  if (!security) {
+    return DEFAULT_SECURITY_PATTERNS;
+  }
+
+  const blocked = security.blockedPatterns ?? [];
+  const warning = security.warningPatterns ?? [];
+  const files = security.blockedFiles ?? [];
+  const allow = security.allow ?? [];
+  const confinement = security.confinement ?? DEFAULT_SECURITY_PATTERNS.confinement;
+  const network = security.network ?? { mode: "off" };
+  const preset = security.preset ?? "permissive";
+  const permissions = security.permissions ?? {};
+  if (
+    blocked.length === 0 &&
+    warning.length === 0 &&
+    files.length === 0 &&
+    allow.length === 0 &&
+    confinement.mode === "off" &&
+    network.mode === "off" &&
+    preset === "permissive" &&
+    Object.keys(permissions).length === 0
+  ) {
+    return DEFAULT_SECURITY_PATTERNS;
+  }
+
+  const key = JSON.stringify([blocked, warning, files, allow, confinement, network, preset, permissions]);
+  let patterns = compiledPatternSets.get(key);
+  if (!patterns) {
+    patterns = compileSecurityPatterns(security);
+    compiledPatternSets.set(key, patterns);
+  }
+  return patterns;
+}
+
 // =============================================================================
 // Obfuscation Detection Pipeline (5 stages)
 // =============================================================================
@@ -373,6 +623,35 @@ export function normalizeCommand(command: string): string {
   return normalized;
 }
 
+/**
+ * Split a command into the texts validated by `validateCommand()`.
+ *
+ * The decoding stages (URL, hex, octal, unicode) run first; the shell parser
+ * then takes care of quotes and backslashes itself. Returns every parsed
+ * segment (pipelines, substitution/eval/`-c` payloads, unwrapped commands)
+ * followed by the whole normalized command line. Quoted arguments to
+ * `echo`/`printf` are masked in the whole-line text since they are only printed.
+ *
+ * @param command - Raw command
+ * @param normalized - Result of `normalizeCommand(command)`
+ * @returns Texts to match against security patterns, most specific first
+ */
+export function getCommandSegments(command: string, normalized = normalizeCommand(command)): string[] {
+  const decoded = normalizeUnicode(octalDecode(hexDecode(urlDecode(command))));
+  const parsed = parseShellCommand(decoded);
+
+  let whole = normalized;
+  if (parsed.complete && parsed.inertArguments.length > 0) {
+    let masked = decoded;
+    for (const [start, end] of [...parsed.inertArguments].sort((a, b) => b[0] - a[0])) {
+      masked = `${masked.slice(0, start)}''${masked.slice(end)}`;
+    }
+    whole = normalizeCommand(masked);
+  }
+
+  return [...parsed.segments.map((segment) => segment.text), whole];
+}
+
 /**
  * Check if command was obfuscated (differs after normalization).
  */
@@ -391,9 +670,13 @@ export function wasObfuscated(original: string, normalized: string): boolean {
  * Applies the 5-stage obfuscation detection pipeline before checking patterns.
  *
  * @param command - The command to validate
+ * @param patterns - Pattern set to check against (defaults to built-ins)
  * @returns CommandValidationResult with action and reason
  */
-export function validateCommand(command: string): CommandValidationResult {
+export function validateCommand(
+  command: string,
+  patterns: SecurityPatternConfig = DEFAULT_SECURITY_PATTERNS
+): CommandValidationResult {
   const startTime = performance.now();
 
   try {
@@ -402,20 +685,28 @@ export function validateCommand(command: string): CommandValidationResult {
     const obfuscated = wasObfuscated(command, normalized);
 
     if (obfuscated) {
+      stats.obfuscationDetected++;
       logger.warn("Potential obfuscation detected in command", {
         original: command.substring(0, 100),
         normalized: normalized.substring(0, 100),
       });
     }
 
+    // Each parsed segment is checked on its own, then the whole command line
+    // for patterns that span several commands
+    const segments = getCommandSegments(command, normalized);
+
     // Check blocked patterns first (highest priority)
-    for (const pattern of BLOCKED_COMMAND_PATTERNS) {
-      if (pattern.test(normalized)) {
+    for (const pattern of patterns.blockedPatterns) {
+      const segment = segments.find((text) => pattern.test(text));
+      if (segment !== undefined) {
         const result: CommandValidationResult = {
           action: "deny",
           reason: "Command matches blocked security pattern",
           matchedPattern: pattern.source,
           normalizedCommand: normalized,
+          segment,
+         ...(obfuscated && { obfuscated }),
         };
 
         logValidation("command", "deny", command, performance.now() - startTime);
@@ -424,13 +715,16 @@ export function validateCommand(command: string): CommandValidationResult {
     }
 
     // Check warning patterns (require user confirmation)
-    for (const pattern of WARNING_COMMAND_PATTERNS) {
-      if (pattern.test(normalized)) {
+    for (const pattern of patterns.warningPatterns) {
+      const segment = segments.find((text) => pattern.test(text));
+      if (segment !== undefined) {
         const result: CommandValidationResult = {
           action: "ask",
           reason: "Command requires user confirmation",
           matchedPattern: pattern.source,
           normalizedCommand: normalized,
+          segment,
+         ...(obfuscated && { obfuscated }),
         };
 
         logValidation("command", "ask", command, performance.now() - startTime);
@@ -442,6 +736,7 @@ export function validateCommand(command: string): CommandValidationResult {
     const result: CommandValidationResult = {
       action: "allow",
       normalizedCommand: normalized,
+      ...(obfuscated && { obfuscated }),
     };
 
     logValidation("command", "allow", command, performance.now() - startTime);
@@ -461,6 +756,21 @@ export function validateCommand(command: string): CommandValidationResult {
   }
 }
 
+/**
+ * Normalize a file path for pattern matching.
+ * URL-decodes (to catch encoded traversals like `%2e%2e%2f`), converts
+ * backslashes to forward slashes, collapses duplicate slashes and strips quotes.
+ *
+ * @param filePath - Raw file path
+ * @returns Normalized path
+ */
+export function normalizeFilePath(filePath: string): string {
+  return urlDecode(filePath)
+    .replace(/\\/g, "/")           // Normalize backslashes to forward slashes
+    .replace(/\/+/g, "/")          // Remove duplicate slashes
+    .replace(/['"]/g, "");         // Remove quotes
+}
+
 /**
  * Validate a file path against security patterns.
  * Performs path normalization and traversal detection before pattern matching.
@@ -475,20 +785,18 @@ export function validateCommand(command: string): CommandValidationResult {
  * 5. **Pattern matching**: Checks against blocked file and path patterns
  *
  * @param filePath - The file path to validate
+ * @param patterns - Pattern set to check against (defaults to built-ins)
  * @returns FileValidationResult with action and reason
  */
-export function validateFilePath(filePath: string): FileValidationResult {
+export function validateFilePath(
+  filePath: string,
+  patterns: SecurityPatternConfig = DEFAULT_SECURITY_PATTERNS
+): FileValidationResult {
   const startTime = performance.now();
 
   try {
-    // Step 1: URL decode to catch encoded traversals (%2e%2e%2f = ../)
-    let normalized = urlDecode(filePath);
-
-    // Step 2: Normalize separators
-    normalized = normalized
-      .replace(/\\/g, "/")           // Normalize backslashes to forward slashes
-      .replace(/\/+/g, "/")          // Remove duplicate slashes
-      .replace(/['"]/g, "");         // Remove quotes
+    // Steps 1-2: URL decode and normalize separators
+    let normalized = normalizeFilePath(filePath);
 
     // Step 3: Check for path traversal sequences BEFORE resolving
     // This catches attempts to escape the current directory
@@ -524,7 +832,7 @@ export function validateFilePath(filePath: string): FileValidationResult {
     normalized = normalized.replace(/\/\.\//g, "/");
 
     // Step 5: Check blocked file patterns
-    for (const pattern of BLOCKED_FILE_PATTERNS) {
+    for (const pattern of patterns.blockedFiles) {
       if (pattern.test(normalized) || pattern.test(filePath)) {
         const result: FileValidationResult = {
           action: "deny",
@@ -538,7 +846,7 @@ export function validateFilePath(filePath: string): FileValidationResult {
     }
 
     // Step 6: Check blocked path patterns
-    for (const pattern of BLOCKED_PATH_PATTERNS) {
+    for (const pattern of patterns.blockedPaths) {
       if (pattern.test(normalized) || pattern.test(filePath)) {
         const result: FileValidationResult = {
           action: "deny",
@@ -575,15 +883,19 @@ export function validateFilePath(filePath: string): FileValidationResult {
 
 /**
  * Validate tool input based on tool type.
- * Routes to appropriate validation function.
+ * Routes to appropriate validation function, then applies `security.allow`
+ * exceptions to deny/ask decisions. Workspace confinement and the network
+ * policy are checked last and are not subject to exceptions.
  *
  * @param tool - The tool name
  * @param input - The tool input
+ * @param patterns - Pattern set to check against (defaults to built-ins)
  * @returns CommandValidationResult or FileValidationResult
  */
 export function validateToolInput(
   tool: string,
-  input: unknown
+  input: unknown,
+  patterns: SecurityPatternConfig = DEFAULT_SECURITY_PATTERNS
 ): CommandValidationResult | FileValidationResult {
   const toolLower = tool.toLowerCase();
 
@@ -591,7 +903,21 @@ export function validateToolInput(
   if (toolLower === "bash" || toolLower === "shell" || toolLower === "exec") {
     const command = extractCommand(input);
     if (command) {
-      return validateCommand(command);
+      const validated = checkCommandPermissions(toolLower, command, validateCommand(command, patterns), patterns);
+      // Every segment that denies must be covered by a rule; the rest of the
+      // command line (other commands, comments) never matches a rule
+      const result = validated.action === "allow"
+        ? validated
+        : applyAllowRules(
+            toolLower,
+            sanitizeCommandForLogging(command),
+            validated,
+            patterns,
+            getDenyingSegments(command, validated, patterns),
+            (rule, segment) => rule.command !== undefined && coversSegment(rule.command, segment, patterns)
+          );
+      // Confinement and the network policy come after the exceptions, which never lift them
+      return checkCommandConfinement(command, checkNetworkPolicy(command, result, patterns), patterns);
     }
   }
 
@@ -605,12 +931,371 @@ export function validateToolInput(
   ) {
     const filePath = extractFilePath(input);
     if (filePath) {
-      return validateFilePath(filePath);
+      const validated = checkToolPermission(toolLower, validateFilePath(filePath, patterns), patterns);
+      const normalized = normalizeFilePath(filePath).replace(/\/\.\//g, "/");
+      // Exceptions never apply to traversal paths: "fixtures/../.ssh/id_rsa"
+      // must not match an allow glob like "fixtures/**"
+      const result = /(^|\/)\.\.(\/|$)/.test(normalized)
+        ? validated
+        : applyAllowRules(toolLower, sanitizeLogOutput(filePath, 200), validated, patterns, [normalized], (rule, path) =>
+            rule.path !== undefined && rule.path.test(path)
+          );
+      // Confinement comes after the exceptions, which never lift it
+      return checkFileConfinement(filePath, result, patterns);
+    }
+  }
+
+  // Default: allow, unless the tool itself is restricted
+  return checkToolPermission(toolLower, { action: "allow" }, patterns);
+}
+
+/**
+ * Prefix of `matchedPattern` for permission restrictions ("permission:git-push").
+ */
+export const PERMISSION_PATTERN_PREFIX = "permission:";
+
+/**
+ * Describe why a permission restriction applies.
+ */
+function describePermissionRule(rule: PermissionRule): string {
+  const origin = rule.source === "permissions" ? "security.permissions" : `the ${rule.source} security preset`;
+  return `Permission "${rule.permission}" (${rule.label}) is restricted by ${origin}`;
+}
+
+/**
+ * Apply permission restrictions to the simple commands of a shell line.
+ * The stricter of the pattern result and the permission action wins.
+ */
+function checkCommandPermissions(
+  tool: string,
+  command: string,
+  result: CommandValidationResult,
+  patterns: SecurityPatternConfig
+): CommandValidationResult {
+  if (patterns.permissionRules.length === 0 || result.action === "deny") {
+    return result;
+  }
+
+  const decoded = normalizeUnicode(octalDecode(hexDecode(urlDecode(command))));
+  const commands = parseShellCommand(decoded)
+    .segments.flatMap((segment) => segment.commands)
+    .map((simple) => toPermissionCommand(simple.argv))
+    .filter((text) => text.length > 0);
+
+  const match = matchPermissionRules(patterns.permissionRules, tool, commands);
+  if (!match || (result.action === "ask" && match.rule.action === "ask")) {
+    return result;
+  }
+
+  return {
+    ...result,
+    action: match.rule.action,
+    reason: describePermissionRule(match.rule),
+    matchedPattern: `${PERMISSION_PATTERN_PREFIX}${match.rule.permission}`,
+    ...(match.command !== undefined && { segment: match.command }),
+  };
+}
+
+/**
+ * Apply permission restrictions on the tool itself (e.g. "write" without file-write).
+ */
+function checkToolPermission<T extends CommandValidationResult | FileValidationResult>(
+  tool: string,
+  result: T,
+  patterns: SecurityPatternConfig
+): T {
+  if (patterns.permissionRules.length === 0 || result.action === "deny") {
+    return result;
+  }
+
+  const match = matchPermissionRules(
+    patterns.permissionRules.filter((rule) => rule.tools.length > 0),
+    tool
+  );
+  if (!match || (result.action === "ask" && match.rule.action === "ask")) {
+    return result;
+  }
+
+  return {
+    ...result,
+    action: match.rule.action,
+    reason: describePermissionRule(match.rule),
+    matchedPattern: `${PERMISSION_PATTERN_PREFIX}${match.rule.permission}`,
+  };
+}
+
+/**
+ * Describe a tool input for logs and audit entries.
+ * Returns the sanitized command for shell tools and the truncated file path
+ * for other tools, or undefined if the input has neither.
+ *
+ * @param tool - The tool name
+ * @param input - The tool input
+ * @returns Sanitized command or path
+ */
+export function describeToolInput(tool: string, input: unknown): string | undefined {
+  const toolLower = tool.toLowerCase();
+  if (toolLower === "bash" || toolLower === "shell" || toolLower === "exec") {
+    const command = extractCommand(input);
+    return command ? sanitizeCommandForLogging(command) : undefined;
+  }
+  const filePath = extractFilePath(input);
+  return filePath ? sanitizeLogOutput(filePath, 200) : undefined;
+}
+
+/**
+ * Pattern reported for workspace confinement decisions.
+ */
+export const CONFINEMENT_PATTERN = "workspace-confinement";
+
+/**
+ * Get the roots tools may access, or undefined if confinement is inactive.
+ * Confinement needs both a mode other than "off" and registered workspace roots.
+ */
+function getConfinementRoots(patterns: SecurityPatternConfig): string[] | undefined {
+  const workspace = getWorkspaceRoots();
+  const base = workspace[0];
+  if (patterns.confinement.mode === "off" || base === undefined) {
+    return undefined;
+  }
+  return [...workspace, ...patterns.confinement.allowedRoots.map((root) => resolveWorkspacePath(root, base))];
+}
+
+/**
+ * Apply workspace confinement to a file tool call that is not denied yet.
+ */
+function checkFileConfinement(
+  filePath: string,
+  result: FileValidationResult,
+  patterns: SecurityPatternConfig
+): FileValidationResult {
+  const roots = getConfinementRoots(patterns);
+  if (!roots || result.action === "deny") {
+    return result;
+  }
+
+  const resolved = resolveWorkspacePath(normalizeFilePath(filePath), roots[0] as string);
+  const action = patterns.confinement.mode === "deny" ? "deny" : "ask";
+  if (isWithinRoots(resolved, roots) || (action === "ask" && result.action === "ask")) {
+    return result;
+  }
+
+  logger.warn("Path outside workspace", { filePath: filePath.substring(0, 100), resolved });
+  return {
+    action,
+    reason: `Path is outside the workspace: ${resolved}`,
+    matchedPattern: CONFINEMENT_PATTERN,
+  };
+}
+
+/**
+ * Apply workspace confinement to paths in a shell command that is not denied yet.
+ */
+function checkCommandConfinement(
+  command: string,
+  result: CommandValidationResult,
+  patterns: SecurityPatternConfig
+): CommandValidationResult {
+  const roots = getConfinementRoots(patterns);
+  const action = patterns.confinement.mode === "deny" ? "deny" : "ask";
+  if (!roots || result.action === "deny" || (action === "ask" && result.action === "ask")) {
+    return result;
+  }
+
+  const decoded = normalizeUnicode(octalDecode(hexDecode(urlDecode(command))));
+  for (const { path, segment, cwd } of extractCommandPaths(parseShellCommand(decoded))) {
+    const base = cwd === undefined ? (roots[0] as string) : resolveWorkspacePath(cwd, roots[0] as string);
+    const resolved = resolveWorkspacePath(path, base);
+    if (!isWithinRoots(resolved, roots)) {
+      logger.warn("Command path outside workspace", { segment: sanitizeCommandForLogging(segment), resolved });
+      return withoutOverride({
+        ...result,
+        action,
+        reason: `Command accesses a path outside the workspace: ${resolved}`,
+        matchedPattern: CONFINEMENT_PATTERN,
+        segment,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drop the allow rule override from a result that a later check decided.
+ */
+function withoutOverride(result: CommandValidationResult): CommandValidationResult {
+  const decided = { ...result };
+  delete decided.override;
+  return decided;
+}
+
+/**
+ * Pattern reported for network policy decisions.
+ */
+export const NETWORK_POLICY_PATTERN = "network-policy";
+
+/**
+ * Apply the network egress policy to the destinations of a shell command.
+ * Denied domains are blocked; with an allow list, other destinations (and
+ * destinations that cannot be determined) get the policy's mode action.
+ */
+function checkNetworkPolicy(
+  command: string,
+  result: CommandValidationResult,
+  patterns: SecurityPatternConfig
+): CommandValidationResult {
+  const { mode, allowedDomains, deniedDomains } = patterns.network;
+  if (mode === "off" || result.action === "deny") {
+    return result;
+  }
+
+  const decoded = normalizeUnicode(octalDecode(hexDecode(urlDecode(command))));
+  let violation: { action: SecurityAction; reason: string; segment: string } | undefined;
+
+  for (const destination of extractNetworkDestinations(parseShellCommand(decoded))) {
+    if (!destination.dynamic && matchesDomain(destination.host, deniedDomains)) {
+      violation = {
+        action: "deny",
+        reason: `Network destination is denied: ${destination.host}`,
+        segment: destination.segment,
+      };
+      break;
+    }
+    if (violation || allowedDomains.length === 0) continue;
+
+    if (destination.dynamic) {
+      violation = {
+        action: mode,
+        reason: `Network destination cannot be determined: ${sanitizeLogOutput(destination.host, 100)}`,
+        segment: destination.segment,
+      };
+    } else if (!matchesDomain(destination.host, allowedDomains)) {
+      violation = {
+        action: mode,
+        reason: `Network destination is not in the allowed domains: ${destination.host}`,
+        segment: destination.segment,
+      };
+    }
+  }
+
+  if (!violation || (result.action === "ask" && violation.action === "ask")) {
+    return result;
+  }
+
+  logger.warn("Network policy violation", {
+    action: violation.action,
+    reason: violation.reason,
+    segment: sanitizeCommandForLogging(violation.segment),
+  });
+  return withoutOverride({
+    ...result,
+    action: violation.action,
+    reason: violation.reason,
+    matchedPattern: NETWORK_POLICY_PATTERN,
+    segment: violation.segment,
+  });
+}
+
+/**
+ * Get the parts of a command that produced a deny/ask: parsed segments
+ * matching a blocked or warning pattern, plus the segment reported by the
+ * result. A decision on the whole command line (patterns spanning several
+ * commands) is represented by the parsed commands without comments.
+ */
+function getDenyingSegments(
+  command: string,
+  result: CommandValidationResult,
+  patterns: SecurityPatternConfig
+): string[] {
+  const texts = getCommandSegments(command);
+  const whole = texts.pop();
+  const denying = texts.filter((text) => matchesSecurityPattern(text, patterns));
+
+  let reported = result.segment;
+  if (reported === undefined || reported === whole) {
+    const decoded = normalizeUnicode(octalDecode(hexDecode(urlDecode(command))));
+    const parsed = parseShellCommand(decoded);
+    reported = parsed.segments
+      .filter((segment) => segment.depth === 0 && segment.source === "command")
+      .map((segment) => segment.text)
+      .join(" ; ");
+    // Unparseable commands are matched as a whole
+    if (!parsed.complete || reported.length === 0) {
+      reported = result.normalizedCommand ?? normalizeCommand(command);
     }
   }
+  if (!denying.includes(reported)) {
+    denying.push(reported);
+  }
+  return denying;
+}
+
+/**
+ * Check whether an allow rule covers a denying segment: the rule matches it
+ * and what the match leaves over matches no blocked or warning pattern
+ * (`rm -rf / "curl ... | sh"` is not covered by a rule for `curl ... | sh`).
+ */
+function coversSegment(rule: RegExp, segment: string, patterns: SecurityPatternConfig): boolean {
+  const match = rule.exec(segment);
+  if (!match) {
+    return false;
+  }
+  const rest = `${segment.slice(0, match.index)} ${segment.slice(match.index + match[0].length)}`;
+  return !matchesSecurityPattern(rest, patterns);
+}
 
-  // Default: allow
-  return { action: "allow" };
+function matchesSecurityPattern(text: string, patterns: SecurityPatternConfig): boolean {
+  return [...patterns.blockedPatterns, ...patterns.warningPatterns].some((pattern) => pattern.test(text));
+}
+
+/**
+ * Apply allow rules to a deny/ask result. The decision is overridden only when
+ * every subject (denying segment or file path) is matched by a rule; the rule
+ * matching the first subject is recorded.
+ * Validation errors (fail-closed results without a matched pattern) are never overridden.
+ */
+function applyAllowRules<T extends CommandValidationResult | FileValidationResult>(
+  tool: string,
+  target: string,
+  result: T,
+  patterns: SecurityPatternConfig,
+  subjects: readonly string[],
+  matches: (rule: SecurityAllowMatcher, subject: string) => boolean
+): T {
+  if (result.action === "allow" || !result.matchedPattern || patterns.allowRules.length === 0) {
+    return result;
+  }
+
+  const rules = patterns.allowRules.filter((candidate) => candidate.tool === undefined || candidate.tool === tool);
+  const covering = subjects.map((subject) => rules.find((candidate) => matches(candidate, subject)));
+  const rule = covering[0];
+  if (!rule || covering.some((candidate) => candidate === undefined)) {
+    return result;
+  }
+
+  stats.overridesApplied++;
+  logger.info("Security decision overridden by allow rule", {
+    tool,
+    originalAction: result.action,
+    ruleIndex: rule.index,
+    ruleReason: rule.reason,
+  });
+
+  const overridden: T = {
+    ...result,
+    action: "allow",
+    override: {
+      originalAction: result.action,
+      ruleIndex: rule.index,
+      ...(result.reason !== undefined && { originalReason: result.reason }),
+      originalPattern: result.matchedPattern,
+      ...(rule.reason !== undefined && { ruleReason: rule.reason }),
+      target,
+    },
+  };
+  delete overridden.reason;
+  return overridden;
 }
 
 // =============================================================================
@@ -671,6 +1356,58 @@ export function sanitizeCommandForLogging(command: string): string {
   return sanitizeLogOutput(sanitized, 200);
 }
 
+// =============================================================================
+// Output Redaction
+// =============================================================================
+
+/**
+ * Result of scanning a tool output for secrets.
+ */
+export interface OutputRedactionResult<T> {
+  /** Output to pass on (redacted in "redact" mode, unchanged otherwise) */
+  output: T;
+  /** Secrets found */
+  findings: SecretFinding[];
+  /** Whether the output was changed */
+  redacted: boolean;
+}
+
+/**
+ * Scan a tool output for secrets and apply the configured redaction mode.
+ * In "redact" mode objects are updated in place; string outputs are returned
+ * redacted and must be written back by the caller.
+ *
+ * @param output - Tool output
+ * @param settings - Redaction settings (defaults to redacting with catalog defaults)
+ * @returns Output, findings and whether anything was redacted
+ */
+export function redactToolOutput<T>(
+  output: T,
+  settings: SecretRedactionConfig = { mode: "redact", detectors: {} }
+): OutputRedactionResult<T> {
+  if (settings.mode === "off") {
+    return { output, findings: [], redacted: false };
+  }
+
+  const startTime = performance.now();
+  const redact = settings.mode === "redact";
+  const { value, findings } = redactValue(output, getSecretDetectors(settings.detectors), redact);
+
+  if (findings.length > 0) {
+    stats.secretsDetected += findings.length;
+    if (redact) {
+      stats.secretsRedacted += findings.length;
+    }
+    logger.warn(redact ? "Secrets redacted from tool output" : "Secrets detected in tool output", {
+      detectors: [...new Set(findings.map((finding) => finding.detector))],
+      count: findings.length,
+      durationMs: (performance.now() - startTime).toFixed(2),
+    });
+  }
+
+  return { output: value, findings, redacted: redact && findings.length > 0 };
+}
+
 // =============================================================================
 // Performance Optimization - Caching
 // =============================================================================
@@ -720,26 +1457,45 @@ class LRUCache<K, V> {
   }
 }
 
-// Cache for command validation results (max 100 entries)
-const commandValidationCache = new LRUCache<string, CommandValidationResult>(100);
-
-// Cache for file validation results (max 100 entries)
-const fileValidationCache = new LRUCache<string, FileValidationResult>(100);
+/**
+ * Result caches per pattern set (max 100 entries each).
+ * Keying caches by pattern set prevents a result computed under one
+ * config from being served to a session with different patterns.
+ */
+let commandValidationCaches = new WeakMap<SecurityPatternConfig, LRUCache<string, CommandValidationResult>>();
+let fileValidationCaches = new WeakMap<SecurityPatternConfig, LRUCache<string, FileValidationResult>>();
+
+function getCache<V>(
+  caches: WeakMap<SecurityPatternConfig, LRUCache<string, V>>,
+  patterns: SecurityPatternConfig
+): LRUCache<string, V> {
+  let cache = caches.get(patterns);
+  if (!cache) {
+    cache = new LRUCache<string, V>(100);
+    caches.set(patterns, cache);
+  }
+  return cache;
+}
 
 /**
  * Validate command with caching for performance.
  *
  * @param command - Command to validate
+ * @param patterns - Pattern set to check against (defaults to built-ins)
  * @returns Cached or fresh CommandValidationResult
  */
-export function validateCommandCached(command: string): CommandValidationResult {
-  const cached = commandValidationCache.get(command);
+export function validateCommandCached(
+  command: string,
+  patterns: SecurityPatternConfig = DEFAULT_SECURITY_PATTERNS
+): CommandValidationResult {
+  const cache = getCache(commandValidationCaches, patterns);
+  const cached = cache.get(command);
   if (cached) {
     return cached;
   }
 
-  const result = validateCommand(command);
-  commandValidationCache.set(command, result);
+  const result = validateCommand(command, patterns);
+  cache.set(command, result);
   return result;
 }
 
@@ -747,16 +1503,21 @@ export function validateCommandCached(command: string): CommandValidationResult
  * Validate file path with caching for performance.
  *
  * @param filePath - File path to validate
+ * @param patterns - Pattern set to check against (defaults to built-ins)
  * @returns Cached or fresh FileValidationResult
  */
-export function validateFilePathCached(filePath: string): FileValidationResult {
-  const cached = fileValidationCache.get(filePath);
+export function validateFilePathCached(
+  filePath: string,
+  patterns: SecurityPatternConfig = DEFAULT_SECURITY_PATTERNS
+): FileValidationResult {
+  const cache = getCache(fileValidationCaches, patterns);
+  const cached = cache.get(filePath);
   if (cached) {
     return cached;
   }
 
-  const result = validateFilePath(filePath);
-  fileValidationCache.set(filePath, result);
+  const result = validateFilePath(filePath, patterns);
+  cache.set(filePath, result);
   return result;
 }
 
@@ -765,8 +1526,9 @@ export function validateFilePathCached(filePath: string): FileValidationResult {
  * Useful for testing or when patterns change.
  */
 export function clearValidationCaches(): void {
-  commandValidationCache.clear();
-  fileValidationCache.clear();
+  commandValidationCaches = new WeakMap();
+  fileValidationCaches = new WeakMap();
+  compiledPatternSets.clear();
 }
 
 // =============================================================================
@@ -780,6 +1542,9 @@ const stats: SecurityValidationStats = {
   commandsWarned: 0,
   filesBlocked: 0,
   obfuscationDetected: 0,
+  overridesApplied: 0,
+  secretsDetected: 0,
+  secretsRedacted: 0,
   avgValidationTimeMs: 0,
 };
 
@@ -838,6 +1603,9 @@ export function resetValidationStats(): void {
   stats.commandsWarned = 0;
   stats.filesBlocked = 0;
   stats.obfuscationDetected = 0;
+  stats.overridesApplied = 0;
+  stats.secretsDetected = 0;
+  stats.secretsRedacted = 0;
   stats.avgValidationTimeMs = 0;
   totalValidationTimeMs = 0;
   totalValidations = 0;
@@ -847,30 +1615,6 @@ export function resetValidationStats(): void {
 // Helper Functions
 // =============================================================================
 
-/**
- * Extract command string from tool input.
- */
-function extractCommand(input: unknown): string | undefined {
-  if (typeof input === "string") {
-    return input;
-  }
-
-  if (input && typeof input === "object") {
-    const obj = input as Record<string, unknown>;
-    if (typeof obj["command"] === "string") {
-      return obj["command"];
-    }
-    if (typeof obj["cmd"] === "string") {
-      return obj["cmd"];
-    }
-    if (typeof obj["script"] === "string") {
-      return obj["script"];
-    }
-  }
-
-  return undefined;
-}
-
 /**
  * Extract file path from tool input.
  *
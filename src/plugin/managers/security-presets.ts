@@ -0,0 +1,237 @@
+/**
+ * SecurityPresets - Named permission policies for tool calls
+ *
+ * Translates `security.preset` and `security.permissions` into concrete
+ * permission rules (tool names and command patterns) that SecurityHardening
+ * evaluates alongside its built-in patterns.
+ *
+ * Key features:
+ * - Permission catalog shared with the init wizard (same ids as its checkboxes)
+ * - strict / balanced / permissive presets, plus custom (permissions map only)
+ * - Per-permission overrides on top of any preset
+ *
+ * Command patterns are matched against each simple command of the parsed
+ * shell line (argv joined by spaces), so wrappers like `sudo` and compound
+ * commands are covered and quoted echo/printf text is not. The program is
+ * reduced to its basename and git's global options are dropped, so
+ * `/usr/bin/git -C . push` matches like `git push`.
+ */
+
+import type { SecurityPreset } from "../../lib/config.js";
+import type { PermissionRule, RestrictedAction } from "../types.js";
+
+/**
+ * An operation the agent may be allowed to perform.
+ */
+export interface PermissionDefinition {
+  /** Permission id (matches the wizard's PermissionItem ids) */
+  id: string;
+  /** Human-readable name */
+  label: string;
+  /** Tools the permission covers (lowercase) */
+  tools?: readonly string[];
+  /** Patterns for simple commands (see `toPermissionCommand`) the permission covers */
+  commands?: readonly RegExp[];
+  /** Action when the permission is disabled in `security.permissions` */
+  restrictedAction: RestrictedAction;
+}
+
+/**
+ * Permission catalog.
+ */
+export const PERMISSION_DEFINITIONS: readonly PermissionDefinition[] = [
+  { id: "file-read", label: "Read files", tools: ["read", "glob", "grep"], restrictedAction: "ask" },
+  { id: "file-write", label: "Write files", tools: ["write"], restrictedAction: "ask" },
+  { id: "file-edit", label: "Edit files", tools: ["edit", "multiedit"], restrictedAction: "ask" },
+  {
+    id: "file-delete",
+    label: "Delete files",
+    commands: [/^(?:rm|rmdir|unlink|shred)\b/i, /^git\s+rm\b/i, /^find\b.*\s-delete\b/i],
+    restrictedAction: "deny",
+  },
+  { id: "shell-npm", label: "npm commands", commands: [/^(?:npm|yarn|pnpm)\b/i], restrictedAction: "ask" },
+  { id: "shell-npx", label: "npx commands", commands: [/^(?:npx|pnpx)\b/i], restrictedAction: "ask" },
+  { id: "shell-node", label: "Node.js execution", commands: [/^(?:node|tsx|ts-node)\b/i], restrictedAction: "ask" },
+  { id: "shell-bun", label: "Bun commands", commands: [/^(?:bun|bunx)\b/i], restrictedAction: "ask" },
+  {
+    id: "shell-python",
+    label: "Python commands",
+    commands: [/^(?:python[0-9.]*|pip[0-9.]*|pytest|poetry|pipenv|uv)\b/i],
+    restrictedAction: "ask",
+  },
+  { id: "shell-go", label: "Go commands", commands: [/^go\b/i], restrictedAction: "ask" },
+  { id: "shell-cargo", label: "Cargo commands", commands: [/^(?:cargo|rustc|rustup)\b/i], restrictedAction: "ask" },
+  {
+    id: "shell-system",
+    label: "System commands",
+    commands: [
+      /^(?:sudo|doas|su|systemctl|service|launchctl|crontab|mount|umount|shutdown|reboot|useradd|usermod)\b/i,
+      /^(?:apt|apt-get|yum|dnf|pacman|apk|brew)\b/i,
+      /^(?:chmod|chown|chgrp|kill|killall|pkill)\b/i,
+    ],
+    restrictedAction: "deny",
+  },
+  { id: "net-http", label: "HTTP/HTTPS requests", commands: [/^(?:curl|wget|http|https)\b/i], restrictedAction: "ask" },
+  {
+    id: "net-unrestricted",
+    label: "Unrestricted network",
+    commands: [/^(?:nc|ncat|netcat|socat|telnet|ssh|scp|sftp|rsync|ftp)\b/i],
+    restrictedAction: "deny",
+  },
+  {
+    id: "git-read",
+    label: "Git read-only",
+    commands: [/^git\s+(?:status|diff|log|show|branch|blame)\b/i],
+    restrictedAction: "ask",
+  },
+  { id: "git-commit", label: "Git add/commit", commands: [/^git\s+(?:add|commit)\b/i], restrictedAction: "ask" },
+  { id: "git-push", label: "Git push", commands: [/^git\s+push\b/i], restrictedAction: "deny" },
+  {
+    id: "git-force",
+    label: "Git force operations",
+    commands: [
+      /^git\s+push\b.*\s(?:--force(?:-with-lease)?|-f)\b/i,
+      /^git\s+reset\s+--hard\b/i,
+      /^git\s+clean\s+-[a-z]*f/i,
+    ],
+    restrictedAction: "deny",
+  },
+];
+
+/**
+ * Restrictions per named preset; permissions not listed are allowed.
+ * "permissive" adds nothing to the built-in patterns (which already ask
+ * for force pushes and hard resets).
+ */
+export const SECURITY_PRESETS: Readonly<Record<Exclude<SecurityPreset, "custom">, Readonly<Record<string, RestrictedAction>>>> = {
+  strict: {
+    "file-delete": "ask",
+    "shell-system": "deny",
+    "net-http": "ask",
+    "net-unrestricted": "deny",
+    "git-commit": "ask",
+    "git-push": "deny",
+    "git-force": "deny",
+  },
+  balanced: {
+    "file-delete": "ask",
+    "shell-system": "ask",
+    "net-unrestricted": "ask",
+    "git-push": "ask",
+    "git-force": "deny",
+  },
+  permissive: {},
+};
+
+const PERMISSIONS_BY_ID: ReadonlyMap<string, PermissionDefinition> = new Map(
+  PERMISSION_DEFINITIONS.map((definition) => [definition.id, definition])
+);
+
+/**
+ * Compile a preset and per-permission overrides into permission rules.
+ * `true` in `permissions` lifts a preset restriction; `false` restricts the
+ * permission with its catalog action. Unknown ids are ignored.
+ *
+ * @param preset - Named preset ("custom" starts with no restrictions)
+ * @param permissions - Per-permission overrides
+ * @returns Rules for restricted permissions
+ */
+export function compilePermissionRules(
+  preset: SecurityPreset,
+  permissions: Readonly<Record<string, boolean>> = {}
+): PermissionRule[] {
+  const restrictions = new Map<string, { action: RestrictedAction; source: PermissionRule["source"] }>();
+
+  if (preset !== "custom") {
+    for (const [id, action] of Object.entries(SECURITY_PRESETS[preset] ?? {})) {
+      restrictions.set(id, { action, source: preset });
+    }
+  }
+
+  for (const [id, allowed] of Object.entries(permissions)) {
+    const definition = PERMISSIONS_BY_ID.get(id);
+    if (!definition) continue;
+    if (allowed === true) {
+      restrictions.delete(id);
+    } else if (allowed === false) {
+      restrictions.set(id, { action: definition.restrictedAction, source: "permissions" });
+    }
+  }
+
+  const rules: PermissionRule[] = [];
+  for (const definition of PERMISSION_DEFINITIONS) {
+    const restriction = restrictions.get(definition.id);
+    if (!restriction) continue;
+    rules.push({
+      permission: definition.id,
+      label: definition.label,
+      action: restriction.action,
+      source: restriction.source,
+      tools: definition.tools ?? [],
+      commands: definition.commands ?? [],
+    });
+  }
+  return rules;
+}
+
+/** git global options that take the next argument as their value */
+const GIT_OPTIONS_WITH_VALUE = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace", "--config-env"]);
+
+/**
+ * Build the text permission patterns are matched against from a simple
+ * command: argv joined by spaces, with the program reduced to its basename
+ * and git's global options (`-C <dir>`, `-c k=v`, `--git-dir=...`) removed.
+ *
+ * @example
+ * ```typescript
+ * toPermissionCommand(["/usr/bin/git", "-C", "app", "push", "origin"]); // → "git push origin"
+ * ```
+ *
+ * @param argv - Words of the simple command
+ * @returns Command text for matching
+ */
+export function toPermissionCommand(argv: readonly string[]): string {
+  const [program = "", ...args] = argv;
+  const name = program.slice(program.lastIndexOf("/") + 1);
+  if (name.toLowerCase() !== "git") {
+    return [name, ...args].join(" ");
+  }
+
+  let index = 0;
+  while (index < args.length && (args[index] ?? "").startsWith("-")) {
+    index += GIT_OPTIONS_WITH_VALUE.has(args[index] ?? "") ? 2 : 1;
+  }
+  return [name, ...args.slice(index)].join(" ");
+}
+
+/**
+ * Find the strictest rule matching a tool call.
+ *
+ * @param rules - Compiled permission rules
+ * @param tool - Tool name (lowercase)
+ * @param commands - Simple commands of a shell line (see `toPermissionCommand`)
+ * @returns Matching rule ("deny" before "ask"), or undefined
+ */
+export function matchPermissionRules(
+  rules: readonly PermissionRule[],
+  tool: string,
+  commands: readonly string[] = []
+): { rule: PermissionRule; command?: string } | undefined {
+  let match: { rule: PermissionRule; command?: string } | undefined;
+
+  for (const rule of rules) {
+    if (match && match.rule.action === "deny") break;
+    if (match && rule.action !== "deny") continue;
+
+    if (rule.tools.includes(tool)) {
+      match = { rule };
+      continue;
+    }
+    const command = commands.find((text) => rule.commands.some((pattern) => pattern.test(text)));
+    if (command !== undefined) {
+      match = { rule, command };
+    }
+  }
+
+  return match;
+}
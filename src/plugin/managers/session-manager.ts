@@ -9,11 +9,22 @@
  * - Auto-initialization on getState() if session doesn't exist
  * - Session cleanup on deletion
  * - Multiple concurrent sessions supported
+ * - Optional write-through persistence via a pluggable SessionStore
+ * - Idle/LRU eviction with listeners so dependent caches can be cleaned
  */
 
-import type { SessionState, WorkflowPhase, WorkflowState, ToolExecutionRecord } from "../types.js";
+import type {
+  SessionState,
+  WorkflowPhase,
+  WorkflowState,
+  ToolExecutionRecord,
+  SessionEvictionPolicy,
+  SessionEvictionReason,
+  SessionEvictionStats,
+} from "../types.js";
 import type { Config } from "../../lib/config.js";
 import { createLogger } from "../../lib/logger.js";
+import { toSessionState, type SessionStore } from "./session-store.js";
 
 const logger = createLogger("atreides:session-manager");
 
@@ -29,6 +40,35 @@ const sessions = new Map<string, SessionState>();
  */
 let defaultConfig: Config | null = null;
 
+/**
+ * Persistence backend for write-through storage.
+ * Null when persistence is disabled (the default).
+ */
+let store: SessionStore | null = null;
+
+/**
+ * Callback invoked after a session has been evicted from memory.
+ */
+export type SessionEvictionListener = (
+  sessionId: string,
+  reason: SessionEvictionReason
+) => void;
+
+/**
+ * Active eviction policy. Null disables eviction (the default).
+ */
+let evictionPolicy: SessionEvictionPolicy | null = null;
+
+/**
+ * Listeners notified on eviction (e.g. to clear per-session caches).
+ */
+const evictionListeners = new Set<SessionEvictionListener>();
+
+/**
+ * Eviction counters.
+ */
+const evictionStats: SessionEvictionStats = { evicted: 0, idle: 0, capacity: 0 };
+
 /**
  * Set the default config used for auto-initialization.
  * Called during plugin initialization.
@@ -37,6 +77,35 @@ export function setDefaultConfig(config: Config): void {
   defaultConfig = config;
 }
 
+/**
+ * Get the default config used for auto-initialization.
+ *
+ * @returns The plugin's loaded config, or null before initialization
+ */
+export function getDefaultConfig(): Config | null {
+  return defaultConfig;
+}
+
+/**
+ * Set the persistence backend.
+ * Once set, setState/deleteSession write through to the store and
+ * unknown sessions are looked up in the store before auto-initializing.
+ *
+ * @param sessionStore - Store to use, or null to disable persistence
+ */
+export function setStore(sessionStore: SessionStore | null): void {
+  store = sessionStore;
+}
+
+/**
+ * Get the current persistence backend.
+ *
+ * @returns The configured SessionStore or null if persistence is disabled
+ */
+export function getStore(): SessionStore | null {
+  return store;
+}
+
 /**
  * Initialize a new session state.
  * Creates a fresh SessionState with default values.
@@ -102,22 +171,81 @@ export function getState(sessionId: string, config?: Config): SessionState {
         `Call setDefaultConfig() first or provide config parameter.`
       );
     }
-    state = initializeSessionState(sessionId, initConfig);
-    sessions.set(sessionId, state);
-    logger.debug("Session auto-initialized", { sessionId });
+    state = rehydrateSession(sessionId, initConfig);
+    if (!state) {
+      state = initializeSessionState(sessionId, initConfig);
+      sessions.set(sessionId, state);
+      logger.debug("Session auto-initialized", { sessionId });
+    }
+    enforceEvictionPolicy(sessionId);
   }
   return state;
 }
 
+/**
+ * Restore a session from the persistence backend into memory.
+ * The current config is attached in place of the persisted snapshot.
+ *
+ * @param sessionId - Unique session identifier
+ * @param config - Plugin configuration to associate with the restored session
+ * @returns Restored SessionState, or undefined if not persisted or no store is set
+ */
+export function rehydrateSession(
+  sessionId: string,
+  config: Config
+): SessionState | undefined {
+  if (!store) {
+    return undefined;
+  }
+
+  const persisted = store.load(sessionId);
+  if (!persisted) {
+    return undefined;
+  }
+
+  const state = toSessionState(persisted, config);
+  // A restored session counts as active again
+  state.lastActivityAt = new Date();
+  sessions.set(sessionId, state);
+  logger.info("Session rehydrated from store", {
+    sessionId,
+    phase: state.phase,
+    toolHistory: state.toolHistory.length,
+  });
+  enforceEvictionPolicy(sessionId);
+  return state;
+}
+
+/**
+ * Write the in-memory state of a session through to the persistence backend.
+ * Call after mutating state in place. No-op when persistence is disabled.
+ *
+ * @param sessionId - Unique session identifier
+ * @returns true if the state was written
+ */
+export function persistSession(sessionId: string): boolean {
+  const state = sessions.get(sessionId);
+  if (!store || !state) {
+    return false;
+  }
+  return store.save(state);
+}
+
 /**
  * Get session state by ID, returning undefined if not found.
  * Use this when you need to check if a session exists without auto-creating.
+ * A session that is persisted but not in memory (e.g. evicted) is
+ * rehydrated from the store.
  *
  * @param sessionId - Unique session identifier
  * @returns SessionState if found, undefined otherwise
  */
 export function getStateOrUndefined(sessionId: string): SessionState | undefined {
-  return sessions.get(sessionId);
+  const state = sessions.get(sessionId);
+  if (state || !store || !defaultConfig) {
+    return state;
+  }
+  return rehydrateSession(sessionId, defaultConfig);
 }
 
 /**
@@ -128,8 +256,13 @@ export function getStateOrUndefined(sessionId: string): SessionState | undefined
  * @param state - SessionState to store
  */
 export function setState(sessionId: string, state: SessionState): void {
+  const isNew = !sessions.has(sessionId);
   sessions.set(sessionId, state);
+  store?.save(state);
   logger.debug("Session state set", { sessionId });
+  if (isNew) {
+    enforceEvictionPolicy(sessionId);
+  }
 }
 
 /**
@@ -143,6 +276,7 @@ export function setState(sessionId: string, state: SessionState): void {
 export function deleteSession(sessionId: string): boolean {
   const existed = sessions.has(sessionId);
   sessions.delete(sessionId);
+  store?.delete(sessionId);
   if (existed) {
     logger.debug("Session deleted", { sessionId });
   }
@@ -180,13 +314,20 @@ export function getSessionCount(): number {
 
 /**
  * Clear all sessions.
- * Removes all stored session state.
+ * Removes all in-memory session state and detaches the persistence backend
+ * (persisted files are left untouched).
  * Primarily used for testing.
  */
 export function clearSessions(): void {
   const count = sessions.size;
   sessions.clear();
   defaultConfig = null;
+  store = null;
+  evictionPolicy = null;
+  evictionListeners.clear();
+  evictionStats.evicted = 0;
+  evictionStats.idle = 0;
+  evictionStats.capacity = 0;
   logger.debug("All sessions cleared", { count });
 }
 
@@ -197,7 +338,7 @@ export function clearSessions(): void {
  * @param sessionId - Unique session identifier
  */
 export function updateActivity(sessionId: string): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.lastActivityAt = new Date();
   }
@@ -213,7 +354,7 @@ export function addToolExecution(
   sessionId: string,
   record: ToolExecutionRecord
 ): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.toolHistory.push(record);
     state.lastActivityAt = new Date();
@@ -228,7 +369,7 @@ export function addToolExecution(
  * @returns New error count, or 0 if session not found
  */
 export function incrementErrorCount(sessionId: string): number {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.errorCount++;
     return state.errorCount;
@@ -243,7 +384,7 @@ export function incrementErrorCount(sessionId: string): number {
  * @param sessionId - Unique session identifier
  */
 export function resetErrorCount(sessionId: string): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.errorCount = 0;
   }
@@ -261,7 +402,7 @@ export function updateTodos(
   total: number,
   completed: number
 ): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.todosCreated = true;
     state.todoCount = total;
@@ -277,7 +418,7 @@ export function updateTodos(
  * @param phase - New workflow phase
  */
 export function setPhase(sessionId: string, phase: WorkflowPhase): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.phase = phase;
     state.workflow.currentPhase = phase;
@@ -293,7 +434,7 @@ export function setPhase(sessionId: string, phase: WorkflowPhase): void {
  * @returns WorkflowState or undefined if session not found
  */
 export function getWorkflowState(sessionId: string): WorkflowState | undefined {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   return state?.workflow;
 }
 
@@ -309,7 +450,7 @@ export function setMetadata(
   key: string,
   value: unknown
 ): void {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   if (state) {
     state.metadata[key] = value;
   }
@@ -323,6 +464,129 @@ export function setMetadata(
  * @returns Metadata value or undefined
  */
 export function getMetadata(sessionId: string, key: string): unknown {
-  const state = sessions.get(sessionId);
+  const state = getStateOrUndefined(sessionId);
   return state?.metadata[key];
 }
+
+// =============================================================================
+// Eviction
+// =============================================================================
+
+/**
+ * Set the eviction policy for in-memory sessions.
+ * Evicted sessions are removed from memory only; a persisted copy (if any)
+ * stays in the store and is rehydrated on next access.
+ *
+ * @param policy - Limits to enforce, or null to disable eviction
+ */
+export function setEvictionPolicy(policy: SessionEvictionPolicy | null): void {
+  evictionPolicy = policy;
+}
+
+/**
+ * Get the current eviction policy.
+ *
+ * @returns Active SessionEvictionPolicy or null if eviction is disabled
+ */
+export function getEvictionPolicy(): SessionEvictionPolicy | null {
+  return evictionPolicy;
+}
+
+/**
+ * Register a listener called whenever a session is evicted.
+ *
+ * @param listener - Callback receiving the sessionId and eviction reason
+ * @returns Function that unregisters the listener
+ */
+export function onSessionEvicted(listener: SessionEvictionListener): () => void {
+  evictionListeners.add(listener);
+  return () => {
+    evictionListeners.delete(listener);
+  };
+}
+
+/**
+ * Apply the eviction policy: first drop idle sessions, then the least
+ * recently active sessions until the session cap is respected.
+ *
+ * @param protectedSessionId - Session that must not be evicted (e.g. the one just created)
+ * @param now - Current time in ms (injectable for testing)
+ * @returns Evicted session ids
+ */
+export function enforceEvictionPolicy(
+  protectedSessionId?: string,
+  now: number = Date.now()
+): string[] {
+  if (!evictionPolicy) {
+    return [];
+  }
+
+  const evicted: string[] = [];
+  const { maxSessions, maxIdleMs } = evictionPolicy;
+
+  if (maxIdleMs > 0) {
+    for (const [sessionId, state] of sessions) {
+      if (sessionId === protectedSessionId) continue;
+      if (now - state.lastActivityAt.getTime() > maxIdleMs) {
+        evictSession(sessionId, "idle");
+        evicted.push(sessionId);
+      }
+    }
+  }
+
+  if (maxSessions > 0 && sessions.size > maxSessions) {
+    const byActivity = [...sessions.values()]
+      .filter((state) => state.sessionId !== protectedSessionId)
+      .sort((a, b) => a.lastActivityAt.getTime() - b.lastActivityAt.getTime());
+
+    for (const state of byActivity) {
+      if (sessions.size <= maxSessions) break;
+      evictSession(state.sessionId, "capacity");
+      evicted.push(state.sessionId);
+    }
+  }
+
+  return evicted;
+}
+
+/**
+ * Get eviction counters.
+ *
+ * @returns Copy of current SessionEvictionStats
+ */
+export function getEvictionStats(): SessionEvictionStats {
+  return { ...evictionStats };
+}
+
+/**
+ * Remove a session from memory and notify listeners.
+ */
+function evictSession(sessionId: string, reason: SessionEvictionReason): void {
+  const state = sessions.get(sessionId);
+  if (!state) return;
+
+  // Keep the persisted copy current so the session can be rehydrated later
+  store?.save(state);
+  sessions.delete(sessionId);
+
+  evictionStats.evicted++;
+  evictionStats[reason]++;
+
+  logger.info("Session evicted", {
+    sessionId,
+    reason,
+    idleMs: Date.now() - state.lastActivityAt.getTime(),
+    activeSessions: sessions.size,
+  });
+
+  for (const listener of evictionListeners) {
+    try {
+      listener(sessionId, reason);
+    } catch (error) {
+      logger.error("Eviction listener failed", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * SessionStore - Pluggable persistence for SessionState
+ *
+ * Provides the persistence layer behind SessionManager so that workflow phase,
+ * strike count, todo counts and tool history survive plugin restarts.
+ *
+ * Key features:
+ * - `SessionStore` interface for custom backends
+ * - `FileSessionStore`: one JSON file per session, written atomically
+ * - Date fields (`createdAt`, `lastActivityAt`, tool history timestamps) round-trip
+ * - Corrupt files are quarantined (renamed) instead of crashing hooks
+ *
+ * The store API is synchronous so SessionManager can stay synchronous;
+ * state files are small and written with a temp-file + rename.
+ *
+ * ## File Format
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "savedAt": "2025-01-01T00:00:00.000Z",
+ *   "state": { "sessionId": "...", "createdAt": "...", ... }
+ * }
+ * ```
+ *
+ * The `config` snapshot is not persisted; the current plugin config is
+ * attached again on rehydration.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { isAbsolute, join } from "node:path";
+import type { SessionState, ToolExecutionRecord } from "../types.js";
+import type { Config } from "../../lib/config.js";
+import { createLogger } from "../../lib/logger.js";
+
+const logger = createLogger("atreides:session-store");
+
+/**
+ * Current version of the persisted state file format.
+ */
+export const SESSION_STATE_FORMAT_VERSION = 1;
+
+/**
+ * SessionState without the config snapshot, as written to a store.
+ */
+export type PersistedSessionState = Omit<SessionState, "config">;
+
+/**
+ * Persistence backend for session state.
+ *
+ * Implementations must never throw from these methods; failures should be
+ * logged and reported through the return value.
+ */
+export interface SessionStore {
+  /**
+   * Load a persisted session.
+   *
+   * @param sessionId - Session identifier
+   * @returns Persisted state, or undefined if unknown or unreadable
+   */
+  load(sessionId: string): PersistedSessionState | undefined;
+  /**
+   * Save a session, replacing any previously persisted copy.
+   *
+   * @param state - Session state to persist
+   * @returns true if the state was written
+   */
+  save(state: SessionState): boolean;
+  /**
+   * Remove a persisted session.
+   *
+   * @param sessionId - Session identifier
+   * @returns true if a persisted copy existed and was removed
+   */
+  delete(sessionId: string): boolean;
+}
+
+/**
+ * Serialize a session state for storage.
+ * Dates are written as ISO strings; the config snapshot is dropped.
+ *
+ * @param state - Session state to serialize
+ * @returns JSON string
+ */
+export function serializeSessionState(state: SessionState): string {
+  const { config: _config, ...persisted } = state;
+  return JSON.stringify(
+    {
+      version: SESSION_STATE_FORMAT_VERSION,
+      savedAt: new Date().toISOString(),
+      state: persisted,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse a serialized session state, reviving Date fields.
+ *
+ * @param content - JSON string produced by `serializeSessionState()`
+ * @returns Persisted state
+ * @throws Error if the content is not a valid persisted session
+ */
+export function deserializeSessionState(content: string): PersistedSessionState {
+  const parsed = JSON.parse(content) as {
+    version?: unknown;
+    state?: Record<string, unknown>;
+  };
+
+  if (!parsed || typeof parsed !== "object" || typeof parsed.version !== "number") {
+    throw new Error("Missing format version");
+  }
+  if (parsed.version > SESSION_STATE_FORMAT_VERSION) {
+    throw new Error(`Unsupported format version ${parsed.version}`);
+  }
+
+  const raw = parsed.state;
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Missing state");
+  }
+  if (typeof raw["sessionId"] !== "string" || !raw["workflow"] || typeof raw["workflow"] !== "object") {
+    throw new Error("Invalid session state shape");
+  }
+
+  const toolHistory = Array.isArray(raw["toolHistory"]) ? raw["toolHistory"] : [];
+
+  return {
+    ...(raw as unknown as PersistedSessionState),
+    createdAt: reviveDate(raw["createdAt"], "createdAt"),
+    lastActivityAt: reviveDate(raw["lastActivityAt"], "lastActivityAt"),
+    toolHistory: toolHistory.map((record: Record<string, unknown>) => ({
+      ...(record as unknown as ToolExecutionRecord),
+      timestamp: reviveDate(record["timestamp"], "toolHistory.timestamp"),
+    })),
+    metadata: (raw["metadata"] as Record<string, unknown> | undefined) ?? {},
+  };
+}
+
+/**
+ * Reattach a config snapshot to a persisted state.
+ *
+ * @param persisted - State loaded from a store
+ * @param config - Current plugin configuration
+ * @returns Complete SessionState
+ */
+export function toSessionState(
+  persisted: PersistedSessionState,
+  config: Config
+): SessionState {
+  return { ...persisted, config };
+}
+
+/**
+ * Resolve the state directory for a project.
+ *
+ * @param projectPath - Project root
+ * @param stateDirectory - Configured directory (absolute or project-relative)
+ * @returns Absolute directory path
+ */
+export function resolveStateDirectory(projectPath: string, stateDirectory: string): string {
+  return isAbsolute(stateDirectory) ? stateDirectory : join(projectPath, stateDirectory);
+}
+
+/**
+ * JSON-file session store.
+ * Writes one `<sessionId>.json` file per session under the given directory.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSessionStore("/project/.opencode/state");
+ * SessionManager.setStore(store);
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {}
+
+  load(sessionId: string): PersistedSessionState | undefined {
+    const filePath = this.getFilePath(sessionId);
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = readFileSync(filePath, "utf-8");
+    } catch (error) {
+      logger.warn("Failed to read persisted session", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+
+    try {
+      const state = deserializeSessionState(content);
+      if (state.sessionId !== sessionId) {
+        throw new Error(`Session id mismatch: ${state.sessionId}`);
+      }
+      return state;
+    } catch (error) {
+      this.quarantine(filePath, sessionId, error);
+      return undefined;
+    }
+  }
+
+  save(state: SessionState): boolean {
+    const filePath = this.getFilePath(state.sessionId);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      mkdirSync(this.directory, { recursive: true });
+      writeFileSync(tempPath, serializeSessionState(state), "utf-8");
+      renameSync(tempPath, filePath);
+      return true;
+    } catch (error) {
+      logger.warn("Failed to persist session", {
+        sessionId: state.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  delete(sessionId: string): boolean {
+    const filePath = this.getFilePath(sessionId);
+    if (!existsSync(filePath)) {
+      return false;
+    }
+
+    try {
+      rmSync(filePath, { force: true });
+      return true;
+    } catch (error) {
+      logger.warn("Failed to delete persisted session", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get the file path used for a session.
+   * Session ids are URI-encoded so they are always safe file names.
+   *
+   * @param sessionId - Session identifier
+   * @returns Absolute path of the session's state file
+   */
+  getFilePath(sessionId: string): string {
+    return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  /**
+   * Move an unreadable state file aside so it is not loaded again.
+   */
+  private quarantine(filePath: string, sessionId: string, error: unknown): void {
+    const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+    try {
+      renameSync(filePath, quarantinePath);
+    } catch {
+      // Best effort; a file we cannot move will be overwritten on next save
+    }
+    logger.warn("Corrupt session state quarantined", {
+      sessionId,
+      quarantinePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Parse a persisted date value.
+ */
+function reviveDate(value: unknown, field: string): Date {
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  throw new Error(`Invalid date in ${field}`);
+}
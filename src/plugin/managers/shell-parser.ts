@@ -0,0 +1,710 @@
+/**
+ * ShellParser - Lightweight POSIX shell tokenizer for security validation
+ *
+ * Splits a command line into the individual commands the shell would run so
+ * each one can be validated on its own.
+ *
+ * Key features:
+ * - Splits on `;`, `&&`, `||`, `&`, newlines and subshell parentheses
+ * - Keeps pipelines together (`curl ... | sh` is one segment)
+ * - Recursively parses `$( )`, backticks, `<( )`, `eval` and `bash -c`/`sh -c` payloads
+ * - Parses `echo`/`printf` output piped into a shell or run by `eval` or a
+ *   substitution as commands
+ * - Resolves wrappers (`sudo`, `env`, `xargs`, `nohup`, `timeout`, ...)
+ * - Shell quoting rules: single/double quotes, `$'...'`, backslash escapes
+ *
+ * This is not a full shell grammar: control-flow keywords, heredoc bodies and
+ * parameter expansion are treated as plain words. Callers should combine the
+ * segments with a whole-string check rather than rely on parsing alone.
+ */
+
+/**
+ * Where a segment came from.
+ * - command: top-level command line
+ * - substitution: `$( )`, backticks or process substitution
+ * - eval: arguments of `eval`
+ * - shell: `-c` payload of `bash`/`sh`/`zsh`/...
+ * - wrapper: command with a wrapper (`sudo`, `timeout`, ...) stripped
+ */
+export type ShellSegmentSource = "command" | "substitution" | "eval" | "shell" | "wrapper";
+
+/**
+ * Redirection attached to a simple command.
+ */
+export interface ShellRedirect {
+  /** Operator including any fd prefix (e.g. ">", ">>", "2>", "&>", "<") */
+  operator: string;
+  /** Redirection target (file, fd or heredoc delimiter) */
+  target: string;
+}
+
+/**
+ * A simple command: optional assignments, argv and redirections.
+ */
+export interface ShellSimpleCommand {
+  /** Command name and arguments after quote removal */
+  argv: string[];
+  /** Leading `NAME=value` assignments */
+  assignments: string[];
+  /** Redirections in source order */
+  redirects: ShellRedirect[];
+  /** Canonical text of the command */
+  text: string;
+}
+
+/**
+ * A pipeline of one or more simple commands, validated as a unit.
+ */
+export interface ShellSegment {
+  /** Canonical text of the pipeline (commands joined with " | ") */
+  text: string;
+  /** Commands in the pipeline */
+  commands: ShellSimpleCommand[];
+  /** Where the segment came from */
+  source: ShellSegmentSource;
+  /** Nesting depth (0 for the top-level command line) */
+  depth: number;
+}
+
+/**
+ * Result of parsing a command line.
+ */
+export interface ShellParseResult {
+  /** All segments, nested payloads following the segment that contains them */
+  segments: ShellSegment[];
+  /** False when quotes or substitutions were unbalanced or nesting was too deep */
+  complete: boolean;
+  /**
+   * Spans (`[start, end)` offsets into the input) of fully quoted,
+   * substitution-free arguments to output-only commands (`echo`, `printf`).
+   * Their contents are data, not commands. Output piped into a shell or
+   * run through `eval` or a command substitution is never inert.
+   */
+  inertArguments: Array<[number, number]>;
+}
+
+/**
+ * Maximum nesting depth for substitutions, `eval` and `-c` payloads.
+ */
+const MAX_PARSE_DEPTH = 8;
+
+/**
+ * Commands whose arguments are printed, never executed.
+ */
+const OUTPUT_ONLY_COMMANDS: ReadonlySet<string> = new Set(["echo", "printf"]);
+
+/**
+ * Shells whose `-c` argument is a command string.
+ */
+const SHELL_COMMANDS: ReadonlySet<string> = new Set(["sh", "bash", "zsh", "dash", "ksh", "ash"]);
+
+/**
+ * Wrapper commands and their options that consume a following argument.
+ */
+const WRAPPER_COMMANDS: Readonly<Record<string, ReadonlySet<string>>> = {
+  sudo: new Set(["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U", "-T", "--user", "--group", "--chdir", "--prompt", "--host", "--close-from"]),
+  doas: new Set(["-u", "-C"]),
+  env: new Set(["-u", "-C", "-S", "--unset", "--chdir", "--split-string"]),
+  xargs: new Set(["-I", "-n", "-P", "-L", "-d", "-E", "-s", "-a", "--max-args", "--max-procs", "--max-lines", "--delimiter", "--eof", "--max-chars", "--arg-file", "--replace"]),
+  nohup: new Set<string>(),
+  timeout: new Set(["-s", "-k", "--signal", "--kill-after"]),
+  nice: new Set(["-n", "--adjustment"]),
+  exec: new Set(["-a"]),
+  command: new Set<string>(),
+  time: new Set(["-f", "-o", "--format", "--output"]),
+};
+
+/**
+ * Wrappers followed by a positional argument before the wrapped command.
+ */
+const WRAPPER_POSITIONAL_ARGS: Readonly<Record<string, number>> = {
+  timeout: 1,
+};
+
+/**
+ * Matches redirection operators with optional fd prefix.
+ */
+const REDIRECT_PATTERN = /^(\d*)(>>|>&|>\||<<<|<<-|<<|<&|<>|>|<)|^(&>>|&>)/;
+
+/**
+ * Separator operators, longest first.
+ */
+const SEPARATORS = ["&&", "||", ";;", "|&", ";", "|", "&", "(", ")"] as const;
+
+interface Word {
+  kind: "word";
+  value: string;
+  /** Any part of the word was quoted */
+  quoted: boolean;
+  /** Every character of the word came from inside quotes */
+  fullyQuoted: boolean;
+  /** Word contains a command or process substitution */
+  hasSubstitution: boolean;
+  start: number;
+  end: number;
+}
+
+type Token =
+  | Word
+  | { kind: "op"; value: string }
+  | { kind: "redirect"; value: string };
+
+interface LexResult {
+  tokens: Token[];
+  substitutions: string[];
+  complete: boolean;
+}
+
+/**
+ * Parse a command line into segments.
+ *
+ * @param input - Command line (already decoded by the obfuscation pipeline)
+ * @returns Segments, completeness flag and inert argument spans
+ *
+ * @example
+ * ```typescript
+ * const { segments } = parseShellCommand("ls && sudo rm -rf / ; echo `id`");
+ * segments.map((s) => s.text);
+ * // ["ls", "sudo rm -rf /", "rm -rf /", "echo `id`", "id"]
+ * ```
+ */
+export function parseShellCommand(input: string): ShellParseResult {
+  const result: ShellParseResult = { segments: [], complete: true, inertArguments: [] };
+  parseLevel(input, "command", 0, result, true);
+  return result;
+}
+
+/**
+ * Parse one nesting level and append its segments to the result.
+ * `printed` is false inside `eval` and command substitutions, where printed
+ * output may be executed.
+ */
+function parseLevel(
+  input: string,
+  source: ShellSegmentSource,
+  depth: number,
+  result: ShellParseResult,
+  printed: boolean
+): void {
+  if (depth > MAX_PARSE_DEPTH) {
+    result.complete = false;
+    return;
+  }
+
+  const lexed = lex(input);
+  if (!lexed.complete) {
+    result.complete = false;
+  }
+
+  for (const pipeline of buildPipelines(lexed.tokens)) {
+    // Output piped into a shell (`echo ... | sh`) is run, not just printed
+    const inert = pipeline.map((_, index) => printed && !pipeline.slice(index + 1).some(runsShell));
+    const commands = pipeline.map((raw, index) => toSimpleCommand(raw, inert[index] ?? false));
+    result.segments.push({
+      text: commands.map((c) => c.text).join(" | "),
+      commands,
+      source,
+      depth,
+    });
+
+    pipeline.forEach((raw, index) => {
+      if (depth === 0 && inert[index]) {
+        for (const word of inertWords(raw.words)) {
+          result.inertArguments.push([word.start, word.end]);
+        }
+      }
+      const command = commands[index] as ShellSimpleCommand;
+      expandCommand(command, depth, result, printed);
+
+      // Printed text that gets executed is a command line of its own
+      const name = commandName(command.argv[0]);
+      if (!inert[index] && name && OUTPUT_ONLY_COMMANDS.has(name) && command.argv.length > 1) {
+        parseLevel(command.argv.slice(1).join(" "), "shell", depth + 1, result, printed);
+      }
+    });
+  }
+
+  for (const substitution of lexed.substitutions) {
+    parseLevel(substitution, "substitution", depth + 1, result, false);
+  }
+}
+
+/**
+ * Add wrapper, `eval` and `-c` payload segments for a command.
+ */
+function expandCommand(
+  command: ShellSimpleCommand,
+  depth: number,
+  result: ShellParseResult,
+  printed: boolean
+): void {
+  let argv = command.argv;
+  let unwrapped = false;
+
+  for (let guard = 0; guard < MAX_PARSE_DEPTH; guard++) {
+    const inner = unwrap(argv);
+    if (!inner) break;
+    argv = inner;
+    unwrapped = true;
+  }
+
+  if (unwrapped && argv.length > 0) {
+    const inner = toSimpleCommandFromArgv(argv, command.redirects);
+    result.segments.push({ text: inner.text, commands: [inner], source: "wrapper", depth });
+  }
+
+  const name = commandName(argv[0]);
+  if (name === "eval" && argv.length > 1) {
+    parseLevel(argv.slice(1).join(" "), "eval", depth + 1, result, false);
+    return;
+  }
+
+  if (name && SHELL_COMMANDS.has(name)) {
+    const flagIndex = argv.findIndex((arg, i) => i > 0 && /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg));
+    const payload = flagIndex > 0 ? argv[flagIndex + 1] : undefined;
+    if (payload !== undefined) {
+      parseLevel(payload, "shell", depth + 1, result, printed);
+    }
+  }
+}
+
+/**
+ * Strip one wrapper from argv.
+ *
+ * @returns Wrapped command argv, or undefined if argv is not a wrapper
+ */
+function unwrap(argv: string[]): string[] | undefined {
+  const name = commandName(argv[0]);
+  if (!name) return undefined;
+
+  const optionsWithArgs = WRAPPER_COMMANDS[name];
+  if (!optionsWithArgs) return undefined;
+
+  let i = 1;
+  while (i < argv.length) {
+    const arg = argv[i] as string;
+    if (arg === "--") {
+      i++;
+      break;
+    }
+    if (name === "env" && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+      i++;
+      continue;
+    }
+    if (arg.startsWith("-") && arg.length > 1) {
+      i += optionsWithArgs.has(arg) ? 2 : 1;
+      continue;
+    }
+    break;
+  }
+
+  i += WRAPPER_POSITIONAL_ARGS[name] ?? 0;
+  const inner = argv.slice(i);
+  return inner.length > 0 ? inner : undefined;
+}
+
+/**
+ * Arguments of an output-only command that are fully quoted and contain no
+ * substitutions. Printing them cannot run anything.
+ */
+function inertWords(words: Word[]): Word[] {
+  const nameIndex = words.findIndex((w) => !isAssignment(w));
+  const name = commandName(words[nameIndex]?.value);
+  if (nameIndex < 0 || !name || !OUTPUT_ONLY_COMMANDS.has(name)) return [];
+
+  return words.slice(nameIndex + 1).filter((w) => w.fullyQuoted && !w.hasSubstitution);
+}
+
+/**
+ * Whether a command runs a shell interpreter (`sh`, `sudo bash`, ...).
+ */
+function runsShell({ words }: RawCommand): boolean {
+  const nameIndex = words.findIndex((w) => !isAssignment(w));
+  let argv = nameIndex < 0 ? [] : words.slice(nameIndex).map((w) => w.value);
+  for (let guard = 0; guard < MAX_PARSE_DEPTH; guard++) {
+    const inner = unwrap(argv);
+    if (!inner) break;
+    argv = inner;
+  }
+  const name = commandName(argv[0]);
+  return name !== undefined && SHELL_COMMANDS.has(name);
+}
+
+/**
+ * Base name of a command word (`/usr/bin/sudo` -> `sudo`).
+ */
+function commandName(word: string | undefined): string | undefined {
+  if (!word) return undefined;
+  const slash = word.lastIndexOf("/");
+  return (slash >= 0 ? word.slice(slash + 1) : word).toLowerCase();
+}
+
+// =============================================================================
+// Command Assembly
+// =============================================================================
+
+interface RawCommand {
+  words: Word[];
+  redirects: ShellRedirect[];
+}
+
+/**
+ * Group tokens into pipelines of raw commands.
+ */
+function buildPipelines(tokens: Token[]): RawCommand[][] {
+  const pipelines: RawCommand[][] = [];
+  let pipeline: RawCommand[] = [];
+  let current: RawCommand = { words: [], redirects: [] };
+  let pendingRedirect: string | undefined;
+
+  const finishCommand = (): void => {
+    if (pendingRedirect !== undefined) {
+      current.redirects.push({ operator: pendingRedirect, target: "" });
+      pendingRedirect = undefined;
+    }
+    if (current.words.length > 0 || current.redirects.length > 0) {
+      pipeline.push(current);
+    }
+    current = { words: [], redirects: [] };
+  };
+
+  const finishPipeline = (): void => {
+    finishCommand();
+    if (pipeline.length > 0) {
+      pipelines.push(pipeline);
+    }
+    pipeline = [];
+  };
+
+  for (const token of tokens) {
+    if (token.kind === "word") {
+      if (pendingRedirect !== undefined) {
+        current.redirects.push({ operator: pendingRedirect, target: token.value });
+        pendingRedirect = undefined;
+      } else {
+        current.words.push(token);
+      }
+    } else if (token.kind === "redirect") {
+      if (pendingRedirect !== undefined) {
+        current.redirects.push({ operator: pendingRedirect, target: "" });
+      }
+      pendingRedirect = token.value;
+    } else if (token.value === "|" || token.value === "|&") {
+      finishCommand();
+    } else {
+      finishPipeline();
+    }
+  }
+
+  finishPipeline();
+  return pipelines;
+}
+
+/**
+ * Build a simple command. Inert arguments are shown as `''` in its text
+ * unless `maskInert` is false.
+ */
+function toSimpleCommand({ words, redirects }: RawCommand, maskInert: boolean): ShellSimpleCommand {
+  let firstArg = 0;
+  while (firstArg < words.length && isAssignment(words[firstArg] as Word)) {
+    firstArg++;
+  }
+
+  const inert = new Set(maskInert ? inertWords(words) : []);
+  const displayed = words.map((w) => (inert.has(w) ? "''" : displayWord(w.value, w.quoted)));
+
+  return {
+    argv: words.slice(firstArg).map((w) => w.value),
+    assignments: words.slice(0, firstArg).map((w) => w.value),
+    redirects,
+    text: formatText(displayed, redirects),
+  };
+}
+
+function toSimpleCommandFromArgv(argv: string[], redirects: ShellRedirect[]): ShellSimpleCommand {
+  return {
+    argv,
+    assignments: [],
+    redirects,
+    text: formatText(argv.map((arg) => displayWord(arg, /\s/.test(arg))), redirects),
+  };
+}
+
+function formatText(words: string[], redirects: ShellRedirect[]): string {
+  return [...words, ...redirects.map((r) => `${r.operator} ${r.target}`.trim())]
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function displayWord(value: string, quoted: boolean): string {
+  return quoted && (value.length === 0 || /\s/.test(value)) ? `"${value}"` : value;
+}
+
+function isAssignment(word: Word): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(word.value);
+}
+
+// =============================================================================
+// Lexer
+// =============================================================================
+
+/**
+ * Split input into words, operators and redirections.
+ * Substitution bodies are collected for recursive parsing and kept verbatim
+ * in the containing word.
+ */
+function lex(input: string): LexResult {
+  const tokens: Token[] = [];
+  const substitutions: string[] = [];
+  let complete = true;
+  let word: Word | undefined;
+  let i = 0;
+
+  const startWord = (start: number): Word => {
+    word ??= { kind: "word", value: "", quoted: false, fullyQuoted: true, hasSubstitution: false, start, end: start };
+    return word;
+  };
+  const appendUnquoted = (text: string, start: number): void => {
+    const w = startWord(start);
+    w.value += text;
+    w.fullyQuoted = false;
+  };
+  const appendQuoted = (text: string, start: number): void => {
+    const w = startWord(start);
+    w.value += text;
+    w.quoted = true;
+  };
+  const flush = (end: number): void => {
+    if (word) {
+      word.end = end;
+      tokens.push(word);
+      word = undefined;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i] as string;
+    const next = input[i + 1];
+
+    // Whitespace ends a word; newlines also end a command
+    if (char === " " || char === "\t" || char === "\r") {
+      flush(i);
+      i++;
+      continue;
+    }
+    if (char === "\n") {
+      flush(i);
+      tokens.push({ kind: "op", value: ";" });
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (char === "#" && word === undefined) {
+      while (i < input.length && input[i] !== "\n") i++;
+      continue;
+    }
+
+    // Backslash escapes (line continuations are dropped)
+    if (char === "\\") {
+      if (next === "\n") {
+        i += 2;
+        continue;
+      }
+      if (next !== undefined) {
+        appendQuoted(next, i);
+        i += 2;
+        continue;
+      }
+      appendUnquoted(char, i);
+      i++;
+      continue;
+    }
+
+    // Single quotes and ANSI-C quotes: literal
+    if (char === "'" || (char === "$" && next === "'")) {
+      const start = i;
+      const open = char === "'" ? i + 1 : i + 2;
+      const close = findSingleQuoteEnd(input, open, char === "$");
+      if (close < 0) complete = false;
+      const body = input.slice(open, close < 0 ? input.length : close);
+      appendQuoted(char === "$" ? unescapeAnsiC(body) : body, start);
+      i = close < 0 ? input.length : close + 1;
+      continue;
+    }
+
+    // Double quotes: escapes and substitutions remain active
+    if (char === '"') {
+      const start = i;
+      const w = startWord(start);
+      w.quoted = true;
+      i++;
+      let closed = false;
+      while (i < input.length) {
+        const c = input[i] as string;
+        if (c === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+        if (c === "\\" && i + 1 < input.length && '"\\$`\n'.includes(input[i + 1] as string)) {
+          if (input[i + 1] !== "\n") w.value += input[i + 1];
+          i += 2;
+          continue;
+        }
+        const sub = readSubstitution(input, i);
+        if (sub) {
+          substitutions.push(sub.body);
+          if (!sub.complete) complete = false;
+          w.value += input.slice(i, sub.end);
+          w.hasSubstitution = true;
+          i = sub.end;
+          continue;
+        }
+        w.value += c;
+        i++;
+      }
+      if (!closed) complete = false;
+      continue;
+    }
+
+    // Command and process substitutions outside quotes
+    const sub = readSubstitution(input, i) ?? (word === undefined ? readProcessSubstitution(input, i) : undefined);
+    if (sub) {
+      substitutions.push(sub.body);
+      if (!sub.complete) complete = false;
+      appendUnquoted(input.slice(i, sub.end), i);
+      startWord(i).hasSubstitution = true;
+      i = sub.end;
+      continue;
+    }
+
+    // Redirections (a preceding all-digit word is the fd prefix)
+    if (char === ">" || char === "<" || (char === "&" && next === ">")) {
+      const fdWord: Word | undefined = word;
+      const fd = fdWord && !fdWord.quoted && /^\d+$/.test(fdWord.value) ? fdWord.value : "";
+      if (fd) word = undefined;
+      flush(i);
+      const match = REDIRECT_PATTERN.exec(input.slice(i));
+      const operator = match ? match[0] : char;
+      tokens.push({ kind: "redirect", value: `${fd}${operator}` });
+      i += operator.length;
+      continue;
+    }
+
+    // Separators
+    const separator = SEPARATORS.find((op) => input.startsWith(op, i));
+    if (separator) {
+      flush(i);
+      tokens.push({ kind: "op", value: separator });
+      i += separator.length;
+      continue;
+    }
+
+    appendUnquoted(char, i);
+    i++;
+  }
+
+  flush(input.length);
+  return { tokens, substitutions, complete };
+}
+
+/**
+ * Find the closing quote of a single-quoted (or `$'...'`) string.
+ */
+function findSingleQuoteEnd(input: string, from: number, ansiC: boolean): number {
+  for (let i = from; i < input.length; i++) {
+    if (ansiC && input[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (input[i] === "'") return i;
+  }
+  return -1;
+}
+
+/**
+ * Resolve the escapes of a `$'...'` string.
+ * Hex and octal escapes are already decoded by the obfuscation pipeline.
+ */
+function unescapeAnsiC(body: string): string {
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"' };
+  return body.replace(/\\(.)/g, (_, c: string) => escapes[c] ?? c);
+}
+
+interface Substitution {
+  body: string;
+  end: number;
+  complete: boolean;
+}
+
+/**
+ * Read a `$( )` or backtick substitution starting at `start`.
+ */
+function readSubstitution(input: string, start: number): Substitution | undefined {
+  if (input[start] === "$" && input[start + 1] === "(") {
+    return readParenthesized(input, start + 2);
+  }
+  if (input[start] === "`") {
+    let body = "";
+    for (let i = start + 1; i < input.length; i++) {
+      const c = input[i] as string;
+      if (c === "\\" && i + 1 < input.length) {
+        body += input[i + 1];
+        i++;
+        continue;
+      }
+      if (c === "`") {
+        return { body, end: i + 1, complete: true };
+      }
+      body += c;
+    }
+    return { body, end: input.length, complete: false };
+  }
+  return undefined;
+}
+
+/**
+ * Read a `<( )` or `>( )` process substitution starting at `start`.
+ */
+function readProcessSubstitution(input: string, start: number): Substitution | undefined {
+  if ((input[start] === "<" || input[start] === ">") && input[start + 1] === "(") {
+    return readParenthesized(input, start + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Read up to the matching `)`, honoring nesting and quotes.
+ */
+function readParenthesized(input: string, from: number): Substitution {
+  let depth = 1;
+  let quote: string | undefined;
+
+  for (let i = from; i < input.length; i++) {
+    const c = input[i] as string;
+    if (quote) {
+      if (c === "\\" && quote === '"') {
+        i++;
+      } else if (c === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (c === "\\") {
+      i++;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      depth--;
+      if (depth === 0) {
+        return { body: input.slice(from, i), end: i + 1, complete: true };
+      }
+    }
+  }
+
+  return { body: input.slice(from), end: input.length, complete: false };
+}
@@ -3,94 +3,68 @@
  *
  * Implements the todo enforcement system that:
  * - Detects todos from AI responses (markdown checkboxes)
- * - Tracks todos in session state
+ * - Tracks todos in the session todo store (see `todo-store.ts`)
  * - Blocks session stop if pending todos exist
  * - Provides todo status summaries
  *
  * Key features:
  * - Parses markdown checkbox patterns: `- [ ] todo description`
  * - Detects completed checkboxes: `- [x] completed todo`
- * - Tracks todo lifecycle (created, completed)
- * - Generates content-based IDs for duplicate prevention across compactions
+ * - Reads the same todos as CompactionHandler, including `todowrite` todos
  * - Supports nested list detection (indented todos)
  * - Detects completion from subsequent AI responses
+ * - Enforcement policies (`workflow.todoEnforcement`): block only on
+ *   high-priority todos, release tags, max age, and letting the stop
+ *   through after N blocked attempts in a row
  * - Performance target: <5ms per check
  *
- * ## State Shape (`state.todos`)
+ * ## State Shape
  *
- * The session state uses a Map<sessionId, Map<todoId, TodoItem>> structure:
+ * Todos live in a TodoStore (`Map<sessionId, Map<todoId, TodoItem>>`).
+ * The `todoEnforcer` singleton uses the shared `todoStore`; instances from
+ * `createTodoEnforcer()` get their own store unless one is passed.
  *
  * ```typescript
- * // Per-session todo storage (in TodoEnforcer.sessionTodos)
- * Map<sessionId, Map<todoId, TodoItem>>
- *
  * // TodoItem lifecycle:
- * // 1. Created: id generated from content hash, createdAt set, completedAt undefined
- * // 2. In-progress: same as created (tracked externally via TodoWrite)
- * // 3. Completed: completedAt set to timestamp
- * // 4. Removed: deleted from Map (via removeTodo)
+ * // 1. Created: id generated from content hash, status pending (or in_progress)
+ * // 2. In-progress: `- [-]` checkbox or todowrite status
+ * // 3. Completed: status completed, completedAt set to timestamp
+ * // 4. Cancelled: `~~struck~~` checkbox or todowrite status; never blocks a stop
+ * // 5. Removed: deleted from the store (via removeTodo)
  * ```
  *
  * ## Lifecycle Events
  *
  * 1. **Detection**: `detectTodos()` called from AI response text
- * 2. **Completion via checkbox**: `- [x]` pattern in same response marks as complete
+ * 2. **Completion via checkbox**: `- [x]` pattern in a later response marks as complete
  * 3. **Completion via subsequent response**: `detectCompletionPhrases()` checks for
  *    "completed X", "finished X", "done with X" patterns
  * 4. **Manual completion**: `completeTodo()` or `completeTodoByDescription()`
  * 5. **Removal**: `removeTodo()` for cancelled/irrelevant todos
  * 6. **Session cleanup**: `clearSessionTodos()` on session.deleted event
+ * 7. **Compaction restore**: `restoreTodos()` re-adds pending todos from a
+ *    preserved state block
  */
 
 import * as SessionManager from "./session-manager.js";
 import { createLogger } from "../../lib/logger.js";
-import { createHash } from "node:crypto";
+import { DEFAULT_CONFIG, type TodoEnforcementConfig } from "../../lib/config.js";
+import { createTodoStore, todoStore, type TodoStore } from "./todo-store.js";
+import type { TodoItem, TodoSummary, PendingTodosResult } from "../types.js";
+
+export type { TodoItem, PendingTodosResult } from "../types.js";
 
 const logger = createLogger("atreides:todo-enforcer");
 
 /**
- * Represents a single todo item with tracking metadata.
+ * Session metadata key for the blocked stop attempts in a row.
  */
-export interface TodoItem {
-  /** Unique identifier for this todo */
-  id: string;
-  /** Human-readable description of the todo */
-  description: string;
-  /** Timestamp when the todo was created (ms since epoch) */
-  createdAt: number;
-  /** Timestamp when the todo was completed (ms since epoch), undefined if pending */
-  completedAt?: number;
-}
+const STOP_ATTEMPTS_KEY = "todoStopAttempts";
 
 /**
- * Result of checking pending todos before session stop.
+ * Why an open todo does not block a stop.
  */
-export interface PendingTodosResult {
-  /** Whether the stop action should be allowed */
-  allow: boolean;
-  /** Message explaining why stop was blocked (if blocked) */
-  reason?: string;
-  /** Count of pending todos */
-  pendingCount: number;
-  /** List of pending todo descriptions (for display) */
-  pendingTodos: string[];
-}
-
-/**
- * Regex patterns for detecting todos in markdown text.
- * Supports nested lists (any level of indentation with spaces or tabs).
- *
- * - Unchecked: `- [ ] description` or `* [ ] description`
- * - Checked: `- [x] description` or `- [X] description` or `* [x] description`
- * - In-progress: `- [-] description` (used by some systems)
- *
- * The patterns capture:
- * - Group 1: Leading whitespace (for nesting level detection)
- * - Group 2: The todo description
- */
-const UNCHECKED_TODO_PATTERN = /^([\t ]*[-*+]\s*\[\s*\]\s+)(.+)$/gm;
-const CHECKED_TODO_PATTERN = /^([\t ]*[-*+]\s*\[[xX✓✔]\]\s+)(.+)$/gm;
-const IN_PROGRESS_TODO_PATTERN = /^([\t ]*[-*+]\s*\[[-~]\]\s+)(.+)$/gm;
+type ExemptReason = "tag" | "stale" | "priority";
 
 /**
  * Patterns for detecting todo completion in subsequent AI responses.
@@ -105,8 +79,8 @@ const COMPLETION_PHRASE_PATTERNS: readonly RegExp[] = [
 /**
  * TodoEnforcer class for managing todo detection and stop blocking.
  *
- * Each instance maintains its own isolated storage of todos,
- * which is important for testing.
+ * Each instance reads and writes one TodoStore. Instances created without
+ * a store get their own, which is important for testing.
  *
  * @example
  * ```typescript
@@ -124,12 +98,19 @@ const COMPLETION_PHRASE_PATTERNS: readonly RegExp[] = [
  */
 export class TodoEnforcer {
   /**
-   * Instance-level storage for todos per session.
-   * Key: sessionId, Value: Map of todoId -> TodoItem
+   * Todo storage (the shared `todoStore` for the singleton).
    */
-  private sessionTodos = new Map<string, Map<string, TodoItem>>();
+  private readonly store: TodoStore;
+
   /**
-   * Detect todos from an AI response and track them in session state.
+   * @param store - Todo store to use (default: a new, isolated store)
+   */
+  constructor(store: TodoStore = createTodoStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Detect todos from an AI response and track them in the todo store.
    * Parses markdown checkboxes (including nested lists) and creates TodoItem entries.
    * Also detects completion phrases in subsequent responses.
    *
@@ -139,87 +120,11 @@ export class TodoEnforcer {
    */
   detectTodos(aiResponse: string, sessionId: string): number {
     try {
-      const todos = this.getOrCreateTodoMap(sessionId);
-
-      // Parse unchecked todos (new tasks) - supports nested lists
-      const uncheckedMatches = [...aiResponse.matchAll(UNCHECKED_TODO_PATTERN)];
-      let newTodosCount = 0;
-
-      for (const match of uncheckedMatches) {
-        // Group 2 contains the description (group 1 is the prefix with indentation)
-        const description = match[2]?.trim() ?? "";
-        if (!description) continue;
-
-        // Generate content-based ID for duplicate prevention
-        const todoId = this.generateId(description);
-
-        // Check if we already have this todo by ID (more reliable than description)
-        if (todos.has(todoId)) {
-          logger.debug("Duplicate todo skipped", { sessionId, description });
-          continue;
-        }
-
-        // Also check by normalized description for fuzzy matching
-        const existingTodo = this.findTodoByDescription(sessionId, description);
-        if (existingTodo) {
-          logger.debug("Similar todo already exists", { sessionId, description });
-          continue;
-        }
-
-        const todo: TodoItem = {
-          id: todoId,
-          description,
-          createdAt: Date.now(),
-        };
-        todos.set(todo.id, todo);
-        newTodosCount++;
-        logger.debug("Todo detected", { sessionId, description, nested: match[1]?.startsWith(" ") || match[1]?.startsWith("\t") });
-      }
-
-      // Parse checked todos (completed tasks in same response)
-      const checkedMatches = [...aiResponse.matchAll(CHECKED_TODO_PATTERN)];
-
-      for (const match of checkedMatches) {
-        const description = match[2]?.trim() ?? "";
-        if (!description) continue;
-
-        const existingTodo = this.findTodoByDescription(sessionId, description);
-
-        if (existingTodo && !existingTodo.completedAt) {
-          existingTodo.completedAt = Date.now();
-          logger.debug("Todo completed via checkbox", { sessionId, description });
-        }
-      }
-
-      // Parse in-progress todos (mark as created but not completed)
-      const inProgressMatches = [...aiResponse.matchAll(IN_PROGRESS_TODO_PATTERN)];
-
-      for (const match of inProgressMatches) {
-        const description = match[2]?.trim() ?? "";
-        if (!description) continue;
-
-        const todoId = this.generateId(description);
-        if (todos.has(todoId)) continue;
-
-        const existingTodo = this.findTodoByDescription(sessionId, description);
-        if (existingTodo) continue;
-
-        const todo: TodoItem = {
-          id: todoId,
-          description,
-          createdAt: Date.now(),
-        };
-        todos.set(todo.id, todo);
-        newTodosCount++;
-        logger.debug("In-progress todo detected", { sessionId, description });
-      }
+      const newTodosCount = this.store.ingestMarkdown(sessionId, aiResponse);
 
       // Detect completion phrases in subsequent responses
       this.detectCompletionPhrases(aiResponse, sessionId);
 
-      // Update session state with current counts
-      this.syncSessionState(sessionId);
-
       return newTodosCount;
     } catch (error) {
       logger.error("Todo detection error", { sessionId, error: String(error) });
@@ -236,8 +141,7 @@ export class TodoEnforcer {
    * @returns Number of todos marked as completed
    */
   detectCompletionPhrases(aiResponse: string, sessionId: string): number {
-    const todos = this.sessionTodos.get(sessionId);
-    if (!todos || todos.size === 0) return 0;
+    if (this.store.getOpenTodos(sessionId).length === 0) return 0;
 
     let completedCount = 0;
 
@@ -250,10 +154,8 @@ export class TodoEnforcer {
         const phrase = match[1]?.trim();
         if (!phrase) continue;
 
-        // Try to find a matching pending todo
-        for (const todo of todos.values()) {
-          if (todo.completedAt) continue;
-
+        // Try to find a matching open todo
+        for (const todo of this.store.getOpenTodos(sessionId)) {
           // Check if the phrase matches or is contained in the todo description
           // Require meaningful phrase length (at least 3 chars) to avoid false positives
           const normalizedPhrase = phrase.toLowerCase();
@@ -267,7 +169,7 @@ export class TodoEnforcer {
             normalizedPhrase.includes(normalizedDesc) ||
             this.fuzzyMatch(normalizedPhrase, normalizedDesc)
           ) {
-            todo.completedAt = Date.now();
+            this.store.setStatus(sessionId, todo.id, "completed");
             completedCount++;
             logger.debug("Todo completed via phrase detection", {
               sessionId,
@@ -280,10 +182,6 @@ export class TodoEnforcer {
       }
     }
 
-    if (completedCount > 0) {
-      this.syncSessionState(sessionId);
-    }
-
     return completedCount;
   }
 
@@ -315,45 +213,76 @@ export class TodoEnforcer {
 
   /**
    * Check if there are pending todos that should block session stop.
+   * Pending and in-progress todos block unless the enforcement policies
+   * exempt them (release tag, max age, priority). After
+   * `allowStopAfterAttempts` blocked attempts in a row with the same
+   * blocking todos, the next attempt is let through.
    *
    * @param sessionId - The session to check
    * @returns Result indicating if stop is allowed and any blocking reason
    */
   async checkPendingTodos(sessionId: string): Promise<PendingTodosResult> {
     try {
-      const todos = this.sessionTodos.get(sessionId);
+      const policy = this.getEnforcementPolicy(sessionId);
+      const now = Date.now();
+      const blocking: TodoItem[] = [];
+      const exempt: Record<ExemptReason, number> = { tag: 0, stale: 0, priority: 0 };
+
+      for (const todo of this.store.getOpenTodos(sessionId)) {
+        const reason = getExemptReason(todo, policy, now);
+        if (reason) {
+          exempt[reason]++;
+        } else {
+          blocking.push(todo);
+        }
+      }
 
-      if (!todos || todos.size === 0) {
+      const exemptCount = exempt.tag + exempt.stale + exempt.priority;
+      const exemptFields = exemptCount > 0 ? { exemptCount } : {};
+
+      if (blocking.length === 0) {
+        SessionManager.setMetadata(sessionId, STOP_ATTEMPTS_KEY, undefined);
         return {
           allow: true,
           pendingCount: 0,
           pendingTodos: [],
+          ...exemptFields,
         };
       }
 
-      const pending: TodoItem[] = [];
-      for (const todo of todos.values()) {
-        if (!todo.completedAt) {
-          pending.push(todo);
-        }
-      }
-
-      if (pending.length === 0) {
+      const pendingDescriptions = blocking.map((t) => t.description);
+      const key = blocking.map((t) => t.id).join(",");
+      const previous = SessionManager.getMetadata(sessionId, STOP_ATTEMPTS_KEY) as
+        | { count: number; key: string }
+        | undefined;
+      const attempts = previous?.key === key ? previous.count : 0;
+
+      if (policy.allowStopAfterAttempts > 0 && attempts >= policy.allowStopAfterAttempts) {
+        SessionManager.setMetadata(sessionId, STOP_ATTEMPTS_KEY, undefined);
+        logger.info("Stop allowed after repeated blocked attempts", {
+          sessionId,
+          attempts,
+          pendingCount: blocking.length,
+        });
         return {
           allow: true,
-          pendingCount: 0,
-          pendingTodos: [],
+          pendingCount: blocking.length,
+          pendingTodos: pendingDescriptions,
+          ...exemptFields,
+          blockedAttempts: attempts,
+          overridden: true,
         };
       }
 
-      const summary = this.formatTodoSummary(pending);
-      const pendingDescriptions = pending.map((t) => t.description);
+      SessionManager.setMetadata(sessionId, STOP_ATTEMPTS_KEY, { count: attempts + 1, key });
 
       return {
         allow: false,
-        reason: `Cannot stop: ${pending.length} pending todo(s)\n\n${summary}\n\nPlease complete or remove todos before stopping.`,
-        pendingCount: pending.length,
+        reason: this.formatBlockedReason(blocking, exempt, policy, attempts + 1),
+        pendingCount: blocking.length,
         pendingTodos: pendingDescriptions,
+        ...exemptFields,
+        blockedAttempts: attempts + 1,
       };
     } catch (error) {
       logger.error("Todo check error", { sessionId, error: String(error) });
@@ -366,6 +295,63 @@ export class TodoEnforcer {
     }
   }
 
+  /**
+   * Get the todo enforcement policies of a session (defaults merged with
+   * `workflow.todoEnforcement`).
+   *
+   * @param sessionId - Session identifier
+   * @returns Enforcement policies
+   */
+  getEnforcementPolicy(sessionId: string): TodoEnforcementConfig {
+    const configured = SessionManager.getStateOrUndefined(sessionId)?.config.workflow.todoEnforcement;
+    return { ...DEFAULT_CONFIG.workflow.todoEnforcement, ...configured };
+  }
+
+  /**
+   * Build the stop message: the blocking todos, how to release them, the
+   * todos the policies let through and the attempts left before the stop
+   * is allowed anyway.
+   */
+  private formatBlockedReason(
+    blocking: TodoItem[],
+    exempt: Record<ExemptReason, number>,
+    policy: TodoEnforcementConfig,
+    attempts: number
+  ): string {
+    const lines = [
+      `Cannot stop: ${blocking.length} pending todo(s)`,
+      "",
+      this.formatTodoSummary(blocking),
+      "",
+      "Please complete or remove todos before stopping. To release a todo:",
+      '- Complete it: `- [x] <todo>` or todowrite status "completed"',
+      '- Cancel it: `- [ ] ~~<todo>~~` or todowrite status "cancelled"',
+    ];
+    if (policy.releaseTags.length > 0) {
+      lines.push(`- Defer it: add a ${policy.releaseTags.map((tag) => `[${tag}]`).join(" or ")} tag`);
+    }
+
+    const notBlocking: string[] = [];
+    if (exempt.tag > 0) notBlocking.push(`${exempt.tag} tagged ${policy.releaseTags.join("/")}`);
+    if (exempt.stale > 0) notBlocking.push(`${exempt.stale} older than ${policy.maxAgeMinutes} minutes`);
+    if (exempt.priority > 0) notBlocking.push(`${exempt.priority} below high priority`);
+    if (notBlocking.length > 0) {
+      lines.push("", `Not blocking: ${notBlocking.join(", ")}`);
+    }
+
+    if (policy.allowStopAfterAttempts > 0) {
+      const remaining = policy.allowStopAfterAttempts - attempts;
+      lines.push(
+        "",
+        remaining > 0
+          ? `Blocked stop attempt ${attempts}; the stop is allowed after ${remaining} more.`
+          : `Blocked stop attempt ${attempts}; the next stop attempt is allowed.`
+      );
+    }
+
+    return lines.join("\n");
+  }
+
   /**
    * Mark a specific todo as completed by ID.
    *
@@ -374,14 +360,8 @@ export class TodoEnforcer {
    * @returns true if the todo was found and marked complete, false otherwise
    */
   completeTodo(sessionId: string, todoId: string): boolean {
-    const todos = this.sessionTodos.get(sessionId);
-    if (!todos) return false;
+    if (!this.store.setStatus(sessionId, todoId, "completed")) return false;
 
-    const todo = todos.get(todoId);
-    if (!todo || todo.completedAt) return false;
-
-    todo.completedAt = Date.now();
-    this.syncSessionState(sessionId);
     logger.debug("Todo marked complete", { sessionId, todoId });
     return true;
   }
@@ -394,11 +374,9 @@ export class TodoEnforcer {
    * @returns true if a matching todo was found and completed
    */
   completeTodoByDescription(sessionId: string, description: string): boolean {
-    const todo = this.findTodoByDescription(sessionId, description);
-    if (!todo || todo.completedAt) return false;
+    const todo = this.store.findTodoByDescription(sessionId, description);
+    if (!todo || !this.store.setStatus(sessionId, todo.id, "completed")) return false;
 
-    todo.completedAt = Date.now();
-    this.syncSessionState(sessionId);
     logger.debug("Todo marked complete by description", { sessionId, description });
     return true;
   }
@@ -411,12 +389,8 @@ export class TodoEnforcer {
    * @returns true if the todo was found and removed
    */
   removeTodo(sessionId: string, todoId: string): boolean {
-    const todos = this.sessionTodos.get(sessionId);
-    if (!todos) return false;
-
-    const removed = todos.delete(todoId);
+    const removed = this.store.removeTodo(sessionId, todoId);
     if (removed) {
-      this.syncSessionState(sessionId);
       logger.debug("Todo removed", { sessionId, todoId });
     }
     return removed;
@@ -429,18 +403,17 @@ export class TodoEnforcer {
    * @returns Array of all TodoItems for the session
    */
   getTodos(sessionId: string): TodoItem[] {
-    const todos = this.sessionTodos.get(sessionId);
-    return todos ? Array.from(todos.values()) : [];
+    return this.store.getTodos(sessionId);
   }
 
   /**
-   * Get only pending (incomplete) todos for a session.
+   * Get only pending (pending or in-progress) todos for a session.
    *
    * @param sessionId - The session to get pending todos for
    * @returns Array of pending TodoItems
    */
   getPendingTodos(sessionId: string): TodoItem[] {
-    return this.getTodos(sessionId).filter((t) => !t.completedAt);
+    return this.store.getOpenTodos(sessionId);
   }
 
   /**
@@ -450,7 +423,20 @@ export class TodoEnforcer {
    * @returns Array of completed TodoItems
    */
   getCompletedTodos(sessionId: string): TodoItem[] {
-    return this.getTodos(sessionId).filter((t) => t.completedAt);
+    return this.getTodos(sessionId).filter((t) => t.status === "completed");
+  }
+
+  /**
+   * Restore pending todos after compaction (from a preserved state block).
+   * Todos already tracked are skipped. Session todo counts are left as
+   * restored from the block, which also counts completed todos.
+   *
+   * @param sessionId - The session to restore todos for
+   * @param todos - Pending todos with their descriptions
+   * @returns Number of todos added
+   */
+  restoreTodos(sessionId: string, todos: ReadonlyArray<{ description: string }>): number {
+    return this.store.restoreTodos(sessionId, todos);
   }
 
   /**
@@ -460,7 +446,7 @@ export class TodoEnforcer {
    * @param sessionId - The session to clear todos for
    */
   clearSessionTodos(sessionId: string): void {
-    this.sessionTodos.delete(sessionId);
+    this.store.clearSessionTodos(sessionId);
     logger.debug("Session todos cleared", { sessionId });
   }
 
@@ -468,21 +454,10 @@ export class TodoEnforcer {
    * Get a summary of todo status for a session.
    *
    * @param sessionId - The session to summarize
-   * @returns Object with total, pending, and completed counts
+   * @returns Counts by status (`total` leaves out cancelled todos, `pending` includes in-progress ones)
    */
-  getTodoSummary(sessionId: string): {
-    total: number;
-    pending: number;
-    completed: number;
-  } {
-    const todos = this.getTodos(sessionId);
-    const completed = todos.filter((t) => t.completedAt).length;
-
-    return {
-      total: todos.length,
-      pending: todos.length - completed,
-      completed,
-    };
+  getTodoSummary(sessionId: string): TodoSummary {
+    return this.store.getSummary(sessionId);
   }
 
   /**
@@ -492,88 +467,46 @@ export class TodoEnforcer {
    * @returns Markdown-formatted todo list
    */
   formatTodoSummary(todos: TodoItem[]): string {
-    return todos.map((todo) => `- [ ] ${todo.description}`).join("\n");
-  }
-
-  /**
-   * Generate a content-based ID for a todo.
-   * Uses SHA-256 hash of normalized description for stable, deterministic IDs.
-   * This prevents duplicates across context compactions and session restores.
-   *
-   * @param description - The todo description to hash
-   * @returns Unique todo ID string based on content hash
-   */
-  private generateId(description: string): string {
-    // Normalize the description: lowercase, collapse whitespace, trim
-    const normalized = description.toLowerCase().replace(/\s+/g, " ").trim();
-
-    // Create SHA-256 hash and take first 12 characters for reasonable uniqueness
-    const hash = createHash("sha256").update(normalized).digest("hex").substring(0, 12);
-
-    return `todo-${hash}`;
+    return todos
+      .map((todo) => {
+        const tags = [todo.priority, ...(todo.tags ?? [])].filter(Boolean).map((tag) => ` [${tag}]`);
+        return `- ${todo.status === "in_progress" ? "[-]" : "[ ]"} ${todo.description}${tags.join("")}`;
+      })
+      .join("\n");
   }
+}
 
-  /**
-   * Get or create the todo Map for a session.
-   *
-   * @param sessionId - The session ID
-   * @returns Map of todoId -> TodoItem
-   */
-  private getOrCreateTodoMap(sessionId: string): Map<string, TodoItem> {
-    let todos = this.sessionTodos.get(sessionId);
-    if (!todos) {
-      todos = new Map();
-      this.sessionTodos.set(sessionId, todos);
-    }
-    return todos;
+/**
+ * Get why an open todo does not block a stop under the policies.
+ *
+ * @returns The exemption, or undefined if the todo blocks
+ */
+function getExemptReason(todo: TodoItem, policy: TodoEnforcementConfig, now: number): ExemptReason | undefined {
+  if (todo.tags?.some((tag) => policy.releaseTags.includes(tag))) {
+    return "tag";
   }
-
-  /**
-   * Find a todo by its description (case-insensitive partial match).
-   *
-   * @param sessionId - The session to search in
-   * @param description - The description to match
-   * @returns Matching TodoItem or undefined
-   */
-  private findTodoByDescription(
-    sessionId: string,
-    description: string
-  ): TodoItem | undefined {
-    const todos = this.sessionTodos.get(sessionId);
-    if (!todos) return undefined;
-
-    const normalizedDesc = description.toLowerCase().trim();
-
-    for (const todo of todos.values()) {
-      if (todo.description.toLowerCase().trim() === normalizedDesc) {
-        return todo;
-      }
-    }
-    return undefined;
+  if (policy.maxAgeMinutes > 0 && now - todo.createdAt > policy.maxAgeMinutes * 60_000) {
+    return "stale";
   }
-
-  /**
-   * Sync todo counts to SessionManager state.
-   *
-   * @param sessionId - The session to sync
-   */
-  private syncSessionState(sessionId: string): void {
-    const summary = this.getTodoSummary(sessionId);
-    SessionManager.updateTodos(sessionId, summary.total, summary.completed);
+  if (policy.blockOn === "high" && todo.priority !== "high") {
+    return "priority";
   }
+  return undefined;
 }
 
 /**
  * Singleton instance of TodoEnforcer for global use.
+ * Shares the `todoStore` with the `compactionHandler` singleton.
  */
-export const todoEnforcer = new TodoEnforcer();
+export const todoEnforcer = new TodoEnforcer(todoStore);
 
 /**
  * Factory function to create a new TodoEnforcer instance.
  * Useful for testing or isolated use cases.
  *
+ * @param store - Todo store to use (default: a new, isolated store)
  * @returns New TodoEnforcer instance
  */
-export function createTodoEnforcer(): TodoEnforcer {
-  return new TodoEnforcer();
+export function createTodoEnforcer(store?: TodoStore): TodoEnforcer {
+  return new TodoEnforcer(store);
 }
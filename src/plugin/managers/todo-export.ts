@@ -0,0 +1,398 @@
+/**
+ * TodoExport - Session todos in a project TODO file
+ *
+ * Writes the todos of a session to a markdown task list (by default
+ * `.opencode/TODO.md`, see `session.todoExport`) so the work left over when
+ * a session ends is not lost with the in-memory todo store, and reads the
+ * open todos back into a new session.
+ *
+ * Key features:
+ * - One section per session with its intent, start and export time
+ * - Entries carry a stable todo id and are merged by id: exporting again
+ *   updates existing entries (including `[x]` once done) instead of
+ *   adding duplicates. `todowrite` ids are short and chosen by the model
+ *   ("1", "2"), so those todos are exported under their content hash
+ * - Export on `session.deleted` when `session.todoExport.enabled` is set
+ * - Import into new sessions with `session.todoExport.importOnStart`
+ * - Failures are logged and reported in the result, never thrown
+ *
+ * ## File Format
+ *
+ * ```markdown
+ * # TODO
+ *
+ * ## Session ses_123
+ *
+ * Intent: bugfix · Started: 2025-01-01T10:00:00.000Z · Exported: 2025-01-01T11:00:00.000Z
+ *
+ * - [ ] Fix the crash [high] <!-- todo:todo-3f2a9c1b0d4e -->
+ * - [-] Write a regression test <!-- todo:todo-8e41d07a9b2c -->
+ * - [x] Reproduce the bug <!-- todo:todo-c5b3e9f10a77 -->
+ * ```
+ *
+ * Text before the first session section is kept as is. Other lines inside
+ * session sections are dropped when the file is rewritten.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, join } from "node:path";
+import * as SessionManager from "./session-manager.js";
+import { createLogger } from "../../lib/logger.js";
+import { DEFAULT_CONFIG } from "../../lib/config.js";
+import { generateTodoId, isOpenTodo, parseTodoText, todoStore, type TodoStore } from "./todo-store.js";
+import type { TodoItem, TodoPriority, TodoStatus } from "../types.js";
+
+const logger = createLogger("atreides:todo-export");
+
+/** Heading written to new todo files */
+const DEFAULT_PREAMBLE = "# TODO\n";
+
+const SECTION_PATTERN = /^## Session (\S+)\s*$/;
+const ENTRY_PATTERN = /^[-*]\s+\[([ xX-])\]\s+(.+?)\s*<!--\s*todo:(\S+)\s*-->\s*$/;
+
+// Project root for this plugin instance
+let projectRoot: string | undefined;
+
+/**
+ * A todo entry in the todo file.
+ */
+export interface ExportedTodo {
+  id: string;
+  description: string;
+  status: TodoStatus;
+  priority?: TodoPriority;
+  tags?: string[];
+}
+
+/**
+ * The todos a session exported, with its metadata.
+ */
+export interface TodoFileSection {
+  sessionId: string;
+  /** Classified intent of the session */
+  intent?: string;
+  /** When the session started (ISO 8601) */
+  startedAt?: string;
+  /** When the section was last exported (ISO 8601) */
+  exportedAt?: string;
+  todos: ExportedTodo[];
+}
+
+/**
+ * Parsed todo file.
+ */
+export interface TodoFile {
+  /** Text before the first session section */
+  preamble: string;
+  sections: TodoFileSection[];
+}
+
+/**
+ * Result of exporting todos.
+ */
+export interface TodoExportResult {
+  success: boolean;
+  /** Absolute path of the todo file */
+  path?: string;
+  /** Entries added to the file */
+  added?: number;
+  /** Existing entries updated by id */
+  updated?: number;
+  error?: string;
+}
+
+/**
+ * Result of importing todos.
+ */
+export interface TodoImportResult {
+  success: boolean;
+  /** Absolute path of the todo file */
+  path?: string;
+  /** Todos added to the session */
+  imported?: number;
+  error?: string;
+}
+
+/**
+ * Options for exporting and importing todos.
+ */
+export interface TodoExportOptions {
+  /** Todo file (absolute or project-relative); default from `session.todoExport.path` */
+  path?: string;
+  /** Todo store to use (default: the shared `todoStore`) */
+  store?: TodoStore;
+}
+
+/**
+ * Register the project root the todo file path is resolved against.
+ * Called once at plugin init.
+ *
+ * @param projectPath - Project root; undefined disables relative paths
+ */
+export function configureTodoExport(projectPath: string | undefined): void {
+  projectRoot = projectPath;
+}
+
+/**
+ * Export the todos of a session to the todo file.
+ *
+ * Open todos are added to the session's section; todos already in the file
+ * (from any section) are updated in place by id, so completing a todo in a
+ * later session checks it off. Completed and cancelled todos that are not
+ * in the file are not added. Nothing is written if there is nothing to add
+ * or update.
+ *
+ * @param sessionId - Session identifier
+ * @param options - Todo file and store
+ * @returns Export result with the number of entries added and updated
+ */
+export function exportTodos(sessionId: string, options: TodoExportOptions = {}): TodoExportResult {
+  const path = resolveTodoFilePath(sessionId, options.path);
+  if (!path) {
+    return { success: false, error: "Todo export is not configured" };
+  }
+
+  try {
+    const todos = (options.store ?? todoStore).getTodos(sessionId);
+    const file = existsSync(path)
+      ? parseTodoFile(readFileSync(path, "utf-8"))
+      : { preamble: DEFAULT_PREAMBLE, sections: [] };
+
+    const byId = new Map<string, ExportedTodo>();
+    for (const section of file.sections) {
+      for (const entry of section.todos) byId.set(entry.id, entry);
+    }
+
+    let added = 0;
+    let updated = 0;
+    const newEntries: ExportedTodo[] = [];
+    for (const todo of todos) {
+      const existing = byId.get(getExportId(todo));
+      if (existing) {
+        if (applyTodo(existing, todo)) updated++;
+      } else if (isOpenTodo(todo)) {
+        newEntries.push(toExportedTodo(todo));
+        added++;
+      }
+    }
+
+    if (added === 0 && updated === 0) {
+      return { success: true, path, added, updated };
+    }
+
+    let section = file.sections.find((s) => s.sessionId === sessionId);
+    if (!section && newEntries.length > 0) {
+      section = { sessionId, todos: [] };
+      file.sections.push(section);
+    }
+    if (section) {
+      section.todos.push(...newEntries);
+      const state = SessionManager.getStateOrUndefined(sessionId);
+      const intent = state?.workflow.intentClassification;
+      if (intent) section.intent = intent;
+      if (state) section.startedAt = state.createdAt.toISOString();
+      section.exportedAt = new Date().toISOString();
+    }
+
+    mkdirSync(dirname(path), { recursive: true });
+    const tempPath = `${path}.tmp`;
+    writeFileSync(tempPath, formatTodoFile(file), "utf-8");
+    renameSync(tempPath, path);
+
+    logger.info("Todos exported", { sessionId, path, added, updated });
+    return { success: true, path, added, updated };
+  } catch (error) {
+    logger.error("Todo export failed", { sessionId, path, error: String(error) });
+    return { success: false, path, error: String(error) };
+  }
+}
+
+/**
+ * Import the open todos of the todo file into a session.
+ * Todos keep their file ids, so exporting them again updates the same entries.
+ * Todos the session already tracks are skipped.
+ *
+ * @param sessionId - Session identifier
+ * @param options - Todo file and store
+ * @returns Import result with the number of todos added
+ */
+export function importTodos(sessionId: string, options: TodoExportOptions = {}): TodoImportResult {
+  const path = resolveTodoFilePath(sessionId, options.path);
+  if (!path) {
+    return { success: false, error: "Todo export is not configured" };
+  }
+  if (!existsSync(path)) {
+    return { success: true, path, imported: 0 };
+  }
+
+  try {
+    const file = parseTodoFile(readFileSync(path, "utf-8"));
+    const open = file.sections.flatMap((section) => section.todos).filter(isOpenTodo);
+    const imported = (options.store ?? todoStore).restoreTodos(sessionId, open);
+
+    logger.info("Todos imported", { sessionId, path, imported });
+    return { success: true, path, imported };
+  } catch (error) {
+    logger.error("Todo import failed", { sessionId, path, error: String(error) });
+    return { success: false, path, error: String(error) };
+  }
+}
+
+/**
+ * Export the session's todos if `session.todoExport.enabled` is set.
+ * Called from the `session.deleted` event before the state is dropped.
+ *
+ * @param sessionId - Session identifier
+ * @returns Export result, if an export was attempted
+ */
+export function exportTodosOnSessionEnd(sessionId: string): TodoExportResult | undefined {
+  const config = SessionManager.getStateOrUndefined(sessionId)?.config.session?.todoExport;
+  if (!config?.enabled) {
+    return undefined;
+  }
+  return exportTodos(sessionId);
+}
+
+/**
+ * Import the open todos of the todo file if `session.todoExport.importOnStart`
+ * is set. Called from the `session.created` event.
+ *
+ * @param sessionId - Session identifier
+ * @returns Import result, if an import was attempted
+ */
+export function importTodosOnSessionStart(sessionId: string): TodoImportResult | undefined {
+  const config = SessionManager.getStateOrUndefined(sessionId)?.config.session?.todoExport;
+  if (!config?.importOnStart) {
+    return undefined;
+  }
+  return importTodos(sessionId);
+}
+
+/**
+ * Parse a todo file.
+ *
+ * @param content - File content
+ * @returns Preamble and session sections
+ */
+export function parseTodoFile(content: string): TodoFile {
+  const preamble: string[] = [];
+  const sections: TodoFileSection[] = [];
+  let section: TodoFileSection | undefined;
+
+  for (const line of content.split("\n")) {
+    const heading = SECTION_PATTERN.exec(line);
+    if (heading) {
+      section = { sessionId: heading[1] ?? "", todos: [] };
+      sections.push(section);
+      continue;
+    }
+    if (!section) {
+      preamble.push(line);
+      continue;
+    }
+
+    const entry = ENTRY_PATTERN.exec(line);
+    if (entry) {
+      const { description, cancelled, priority, tags } = parseTodoText(entry[2] ?? "");
+      const box = entry[1] ?? " ";
+      section.todos.push({
+        id: entry[3] ?? "",
+        description,
+        status: cancelled ? "cancelled" : box === "-" ? "in_progress" : box === " " ? "pending" : "completed",
+        ...(priority ? { priority } : {}),
+        ...(tags ? { tags } : {}),
+      });
+      continue;
+    }
+
+    for (const field of line.split(" · ")) {
+      const [, key, value] = /^(Intent|Started|Exported):\s*(\S+)$/.exec(field.trim()) ?? [];
+      if (!value) continue;
+      if (key === "Intent") section.intent = value;
+      if (key === "Started") section.startedAt = value;
+      if (key === "Exported") section.exportedAt = value;
+    }
+  }
+
+  return { preamble: preamble.join("\n").trimEnd() + "\n", sections };
+}
+
+/**
+ * Format a todo file.
+ *
+ * @param file - Preamble and session sections
+ * @returns Markdown content
+ */
+export function formatTodoFile(file: TodoFile): string {
+  const parts = [file.preamble.trimEnd()];
+
+  for (const section of file.sections) {
+    if (section.todos.length === 0) continue;
+
+    const meta = [
+      section.intent ? `Intent: ${section.intent}` : undefined,
+      section.startedAt ? `Started: ${section.startedAt}` : undefined,
+      section.exportedAt ? `Exported: ${section.exportedAt}` : undefined,
+    ].filter((field): field is string => field !== undefined);
+
+    parts.push(`## Session ${section.sessionId}`);
+    if (meta.length > 0) parts.push(meta.join(" · "));
+    parts.push(section.todos.map(formatEntry).join("\n"));
+  }
+
+  return parts.filter(Boolean).join("\n\n") + "\n";
+}
+
+/**
+ * Resolve the todo file of a session: the given path or the configured one,
+ * relative to the project root.
+ */
+function resolveTodoFilePath(sessionId: string, path: string | undefined): string | undefined {
+  const configured =
+    path ??
+    SessionManager.getStateOrUndefined(sessionId)?.config.session?.todoExport?.path ??
+    DEFAULT_CONFIG.session.todoExport.path;
+  if (isAbsolute(configured)) return configured;
+  return projectRoot ? join(projectRoot, configured) : undefined;
+}
+
+/**
+ * Id of a todo in the todo file. `todowrite` ids are only unique within one
+ * payload, so those todos use the id of their description; imported todos
+ * keep the id they have in the file.
+ */
+function getExportId(todo: TodoItem): string {
+  return todo.source === "todowrite" ? generateTodoId(todo.description) : todo.id;
+}
+
+function toExportedTodo(todo: TodoItem): ExportedTodo {
+  return {
+    id: getExportId(todo),
+    description: todo.description,
+    status: todo.status,
+    ...(todo.priority ? { priority: todo.priority } : {}),
+    ...(todo.tags && todo.tags.length > 0 ? { tags: [...todo.tags] } : {}),
+  };
+}
+
+/**
+ * Update a file entry from the tracked todo.
+ *
+ * @returns true if the entry changed
+ */
+function applyTodo(entry: ExportedTodo, todo: TodoItem): boolean {
+  const next = toExportedTodo(todo);
+  if (formatEntry(entry) === formatEntry(next)) return false;
+
+  delete entry.priority;
+  delete entry.tags;
+  Object.assign(entry, next);
+  return true;
+}
+
+function formatEntry(entry: ExportedTodo): string {
+  const box = entry.status === "completed" ? "x" : entry.status === "in_progress" ? "-" : " ";
+  const tags = [entry.priority, ...(entry.tags ?? [])].filter(Boolean).map((tag) => ` [${tag}]`);
+  const text = `${entry.description}${tags.join("")}`;
+  return `- [${box}] ${entry.status === "cancelled" ? `~~${text}~~` : text} <!-- todo:${entry.id} -->`;
+}
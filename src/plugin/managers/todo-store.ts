@@ -0,0 +1,566 @@
+/**
+ * TodoStore - Single todo model shared by the todo consumers
+ *
+ * Holds the todos of each session, whatever produced them:
+ * - `todowrite` tool payloads (the full list on every call)
+ * - Markdown checkboxes in assistant messages
+ * - Pending todos restored from a preserved state block after compaction
+ *
+ * TodoEnforcer (stop blocking), CompactionHandler (state preservation) and
+ * the stop handler all read from the same store, so a todo written with
+ * `todowrite` blocks a stop just like a checkbox does.
+ *
+ * Key features:
+ * - Statuses: pending, in_progress, completed, cancelled
+ * - Priorities from `todowrite` or `[high]`/`[medium]`/`[low]` tags
+ * - Other `[tag]` markers kept as tags (e.g. `[deferred]`, `[blocked]`)
+ * - Parent/child nesting from indented checkboxes or `todowrite` parentId
+ * - Content-based IDs for duplicate prevention across compactions
+ * - A `todowrite` payload replaces the earlier `todowrite` todos and takes
+ *   over checkbox todos with the same description
+ * - Todo counts synced to SessionManager (`todoCount`, `todosCompleted`)
+ * - The shared store keeps the todos in session metadata ("todos"), so they
+ *   survive eviction and restarts with a session store
+ *
+ * ## Markdown Checkboxes
+ *
+ * ```markdown
+ * - [ ] pending          - [-] in progress (also `[~]`)
+ * - [x] completed        - [ ] ~~cancelled~~
+ *   - [ ] child of the todo above (indented)
+ * - [ ] Fix the build [high]
+ * - [ ] Migrate the database [deferred]
+ * ```
+ *
+ * Checked and cancelled boxes only update todos that are already tracked.
+ */
+
+import { createHash } from "node:crypto";
+import * as SessionManager from "./session-manager.js";
+import { createLogger } from "../../lib/logger.js";
+import type { TodoItem, TodoPriority, TodoStatus, TodoSummary, TodoWriteItem } from "../types.js";
+
+const logger = createLogger("atreides:todo-store");
+
+/** Session metadata key for the todos */
+const TODOS_KEY = "todos";
+
+/**
+ * Options for a TodoStore.
+ */
+export interface TodoStoreOptions {
+  /** Store the todos in the session metadata so they survive eviction (default: false) */
+  persistent?: boolean;
+}
+
+/**
+ * Checkbox line in markdown. Supports nested lists (any indentation with
+ * spaces or tabs) and `-`, `*` or `+` bullets.
+ *
+ * The pattern captures:
+ * - Group 1: Leading whitespace (for nesting)
+ * - Group 2: Box content (empty, `x`, `-` or `~`)
+ * - Group 3: The todo text
+ */
+const CHECKBOX_PATTERN = /^([\t ]*)[-*+]\s*\[(\s*|[xX✓✔]|[-~])\]\s+(.+)$/gm;
+
+/** `[tag]` marker delimited by whitespace (so `arr[i]` is not a tag) */
+const TAG_PATTERN = /(^|\s)\[([a-z][\w-]*)\](?=\s|$)/gi;
+const STRIKETHROUGH_PATTERN = /^~~(.+)~~$/;
+
+const TODO_STATUSES: readonly TodoStatus[] = ["pending", "in_progress", "completed", "cancelled"];
+const TODO_PRIORITIES: readonly TodoPriority[] = ["high", "medium", "low"];
+
+/**
+ * Todo text with its markers removed.
+ */
+export interface ParsedTodoText {
+  /** Description without tags or strikethrough */
+  description: string;
+  /** Priority from a `[high]`/`[medium]`/`[low]` tag */
+  priority?: TodoPriority;
+  /** Other tags, lowercased (e.g. "deferred") */
+  tags?: string[];
+  /** Whether the text was struck through (`~~text~~`) */
+  cancelled: boolean;
+}
+
+/**
+ * Split a todo text into its description, tags and strikethrough.
+ *
+ * @param text - Checkbox text (without the box) or `todowrite` content
+ * @returns Parsed description and markers
+ */
+export function parseTodoText(text: string): ParsedTodoText {
+  let description = text.trim();
+
+  const struck = description.match(STRIKETHROUGH_PATTERN);
+  if (struck?.[1]) {
+    description = struck[1].trim();
+  }
+
+  let priority: TodoPriority | undefined;
+  const tags: string[] = [];
+  for (const match of description.matchAll(TAG_PATTERN)) {
+    const tag = (match[2] ?? "").toLowerCase();
+    const level = normalizePriority(tag);
+    if (level) {
+      priority ??= level;
+    } else if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  // Keep texts that are nothing but a tag
+  const stripped = description.replace(TAG_PATTERN, "").trim();
+  if (stripped) {
+    description = stripped;
+  }
+
+  return {
+    description,
+    cancelled: !!struck,
+    ...(priority && stripped ? { priority } : {}),
+    ...(tags.length > 0 && stripped ? { tags } : {}),
+  };
+}
+
+/**
+ * Generate a content-based ID for a todo.
+ * Uses SHA-256 hash of normalized description for stable, deterministic IDs.
+ * This prevents duplicates across context compactions and session restores.
+ *
+ * @param description - The todo description to hash
+ * @returns Todo ID (`todo-` and 12 hex characters)
+ */
+export function generateTodoId(description: string): string {
+  // Normalize the description: lowercase, collapse whitespace, trim
+  const normalized = description.toLowerCase().replace(/\s+/g, " ").trim();
+  const hash = createHash("sha256").update(normalized).digest("hex").substring(0, 12);
+  return `todo-${hash}`;
+}
+
+/**
+ * Whether a todo still has work left (pending or in progress).
+ */
+export function isOpenTodo(todo: Pick<TodoItem, "status">): boolean {
+  return todo.status === "pending" || todo.status === "in_progress";
+}
+
+/**
+ * TodoStore keeps the todos of each session.
+ *
+ * Each instance maintains its own isolated storage; the plugin shares the
+ * `todoStore` singleton between its managers. Only a persistent store keeps
+ * its todos in the session metadata.
+ */
+export class TodoStore {
+  /**
+   * Todos per session.
+   * Key: sessionId, Value: Map of todoId -> TodoItem (insertion ordered)
+   */
+  private sessionTodos = new Map<string, Map<string, TodoItem>>();
+
+  /** Whether todos are stored in the session metadata */
+  private readonly persistent: boolean;
+
+  constructor(options: TodoStoreOptions = {}) {
+    this.persistent = options.persistent ?? false;
+  }
+
+  /**
+   * Get all todos for a session.
+   *
+   * @param sessionId - Session identifier
+   * @returns Todos in the order they were added
+   */
+  getTodos(sessionId: string): TodoItem[] {
+    const todos = this.getTodoMap(sessionId);
+    return todos ? Array.from(todos.values()) : [];
+  }
+
+  /**
+   * Get the todos that still have work left (pending or in progress).
+   *
+   * @param sessionId - Session identifier
+   * @returns Open todos in the order they were added
+   */
+  getOpenTodos(sessionId: string): TodoItem[] {
+    return this.getTodos(sessionId).filter(isOpenTodo);
+  }
+
+  /**
+   * Get a todo by ID.
+   *
+   * @param sessionId - Session identifier
+   * @param todoId - Todo identifier
+   * @returns The todo, or undefined
+   */
+  getTodo(sessionId: string, todoId: string): TodoItem | undefined {
+    return this.getTodoMap(sessionId)?.get(todoId);
+  }
+
+  /**
+   * Find a todo by its description (case-insensitive).
+   *
+   * @param sessionId - Session identifier
+   * @param description - Description to match
+   * @returns Matching todo, or undefined
+   */
+  findTodoByDescription(sessionId: string, description: string): TodoItem | undefined {
+    const todos = this.getTodoMap(sessionId);
+    if (!todos) return undefined;
+
+    const normalizedDesc = description.toLowerCase().trim();
+    for (const todo of todos.values()) {
+      if (todo.description.toLowerCase().trim() === normalizedDesc) {
+        return todo;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Ingest the markdown checkboxes of an assistant message.
+   * Unchecked and in-progress boxes add todos; checked and struck-through
+   * boxes complete or cancel todos that are already tracked.
+   *
+   * @param sessionId - Session identifier
+   * @param text - Message text
+   * @returns Number of new todos
+   */
+  ingestMarkdown(sessionId: string, text: string): number {
+    const todos = this.getOrCreateTodoMap(sessionId);
+    const parents: Array<{ indent: number; id: string }> = [];
+    let added = 0;
+    let changed = false;
+
+    for (const match of text.matchAll(CHECKBOX_PATTERN)) {
+      const parsed = parseTodoText(match[3] ?? "");
+      if (!parsed.description) continue;
+
+      const indent = (match[1] ?? "").replace(/\t/g, "    ").length;
+      while (parents.length > 0 && parents[parents.length - 1]!.indent >= indent) {
+        parents.pop();
+      }
+      const parentId = parents[parents.length - 1]?.id;
+
+      const box = (match[2] ?? "").trim();
+      const status: TodoStatus = parsed.cancelled
+        ? "cancelled"
+        : /^[xX✓✔]$/.test(box)
+          ? "completed"
+          : box === "-" || box === "~"
+            ? "in_progress"
+            : "pending";
+
+      const existing = todos.get(generateTodoId(parsed.description)) ??
+        this.findTodoByDescription(sessionId, parsed.description);
+
+      if (existing) {
+        parents.push({ indent, id: existing.id });
+        if (this.addTags(existing, parsed.tags)) {
+          changed = true;
+        }
+        // Boxes move todos forward only: an unchecked box never reopens a todo
+        const update = status === "completed" || status === "cancelled"
+          ? existing.status !== status
+          : status === "in_progress" && existing.status === "pending";
+        if (update) {
+          this.applyStatus(existing, status);
+          changed = true;
+          logger.debug("Todo status updated from checkbox", { sessionId, description: existing.description, status });
+        } else {
+          logger.debug("Duplicate todo skipped", { sessionId, description: parsed.description });
+        }
+        continue;
+      }
+
+      if (status === "completed" || status === "cancelled") continue;
+
+      const todo: TodoItem = {
+        id: generateTodoId(parsed.description),
+        description: parsed.description,
+        status,
+        source: "markdown",
+        createdAt: Date.now(),
+        ...(parsed.priority ? { priority: parsed.priority } : {}),
+        ...(parsed.tags ? { tags: parsed.tags } : {}),
+        ...(parentId ? { parentId } : {}),
+      };
+      todos.set(todo.id, todo);
+      parents.push({ indent, id: todo.id });
+      added++;
+      changed = true;
+      logger.debug("Todo detected", { sessionId, description: todo.description, status, nested: !!parentId });
+    }
+
+    if (changed) {
+      this.syncSessionState(sessionId);
+    }
+    return added;
+  }
+
+  /**
+   * Ingest a `todowrite` payload. The payload is the model's full todo list,
+   * so earlier `todowrite` todos missing from it are dropped. Checkbox or
+   * restored todos with the same description are taken over.
+   *
+   * @param sessionId - Session identifier
+   * @param items - Todo items from the `todowrite` output
+   * @returns Number of todos in the payload
+   */
+  ingestTodoWrite(sessionId: string, items: readonly TodoWriteItem[]): number {
+    const todos = this.getOrCreateTodoMap(sessionId);
+    const written = new Set<string>();
+
+    for (const item of items) {
+      const parsed = parseTodoText(item.content ?? item.description ?? "");
+      const description = parsed.description || "No description";
+      const id = item.id ?? generateTodoId(description);
+      const status = normalizeStatus(item.status);
+      const priority = normalizePriority(item.priority) ?? parsed.priority;
+
+      // Take over a checkbox or restored todo with the same description
+      const match = this.findTodoByDescription(sessionId, description);
+      const previous = todos.get(id) ?? (match?.source !== "todowrite" ? match : undefined);
+      if (previous && previous.id !== id) {
+        todos.delete(previous.id);
+      }
+
+      const todo: TodoItem = {
+        id,
+        description,
+        status,
+        source: "todowrite",
+        createdAt: previous?.createdAt ?? Date.now(),
+        ...(priority ? { priority } : {}),
+        ...(parsed.tags ? { tags: parsed.tags } : {}),
+        ...(item.parentId ? { parentId: item.parentId } : {}),
+      };
+      if (status === "completed") {
+        todo.completedAt = previous?.completedAt ?? Date.now();
+      }
+      todos.set(id, todo);
+      written.add(id);
+    }
+
+    for (const todo of [...todos.values()]) {
+      if (todo.source === "todowrite" && !written.has(todo.id)) {
+        todos.delete(todo.id);
+      }
+    }
+
+    this.syncSessionState(sessionId);
+    logger.debug("Todos written", { sessionId, count: items.length });
+    return items.length;
+  }
+
+  /**
+   * Restore open todos after compaction (from a preserved state block) or
+   * from an exported todo file. Todos already tracked are skipped. Session
+   * todo counts are left as restored from the block, which also counts
+   * completed todos.
+   *
+   * @param sessionId - Session identifier
+   * @param todos - Open todos with their descriptions (and ids, if known)
+   * @returns Number of todos added
+   */
+  restoreTodos(
+    sessionId: string,
+    todos: ReadonlyArray<{
+      id?: string;
+      description: string;
+      status?: TodoStatus;
+      priority?: TodoPriority;
+      tags?: string[];
+    }>
+  ): number {
+    const map = this.getOrCreateTodoMap(sessionId);
+    let restored = 0;
+
+    for (const { id, description, status, priority, tags } of todos) {
+      const trimmed = description.trim();
+      if (!trimmed) continue;
+
+      const todoId = id ?? generateTodoId(trimmed);
+      if (map.has(todoId) || this.findTodoByDescription(sessionId, trimmed)) continue;
+
+      map.set(todoId, {
+        id: todoId,
+        description: trimmed,
+        status: status === "in_progress" ? "in_progress" : "pending",
+        source: "restored",
+        createdAt: Date.now(),
+        ...(priority ? { priority } : {}),
+        ...(tags && tags.length > 0 ? { tags: [...tags] } : {}),
+      });
+      restored++;
+    }
+
+    if (restored > 0) {
+      this.persist(sessionId);
+    }
+    logger.debug("Todos restored", { sessionId, restored });
+    return restored;
+  }
+
+  /**
+   * Set the status of a todo.
+   *
+   * @param sessionId - Session identifier
+   * @param todoId - Todo identifier
+   * @param status - New status
+   * @returns true if the todo was found and its status changed
+   */
+  setStatus(sessionId: string, todoId: string, status: TodoStatus): boolean {
+    const todo = this.getTodo(sessionId, todoId);
+    if (!todo || todo.status === status) return false;
+
+    this.applyStatus(todo, status);
+    this.syncSessionState(sessionId);
+    return true;
+  }
+
+  /**
+   * Remove a todo completely.
+   *
+   * @param sessionId - Session identifier
+   * @param todoId - Todo identifier
+   * @returns true if the todo was found and removed
+   */
+  removeTodo(sessionId: string, todoId: string): boolean {
+    const removed = this.getTodoMap(sessionId)?.delete(todoId) ?? false;
+    if (removed) {
+      this.syncSessionState(sessionId);
+    }
+    return removed;
+  }
+
+  /**
+   * Clear all todos for a session from memory.
+   * Called during session cleanup and eviction; todos stored in the session
+   * metadata are loaded again on next access.
+   *
+   * @param sessionId - Session identifier
+   */
+  clearSessionTodos(sessionId: string): void {
+    this.sessionTodos.delete(sessionId);
+  }
+
+  /**
+   * Count the todos of a session by status.
+   *
+   * @param sessionId - Session identifier
+   * @returns Todo counts
+   */
+  getSummary(sessionId: string): TodoSummary {
+    const summary: TodoSummary = { total: 0, pending: 0, inProgress: 0, completed: 0, cancelled: 0 };
+    for (const todo of this.getTodos(sessionId)) {
+      if (todo.status === "cancelled") {
+        summary.cancelled++;
+        continue;
+      }
+      summary.total++;
+      if (todo.status === "completed") summary.completed++;
+      else summary.pending++;
+      if (todo.status === "in_progress") summary.inProgress++;
+    }
+    return summary;
+  }
+
+  /**
+   * Add tags to a todo.
+   *
+   * @returns true if a tag was added
+   */
+  private addTags(todo: TodoItem, tags: readonly string[] | undefined): boolean {
+    const added = (tags ?? []).filter((tag) => !todo.tags?.includes(tag));
+    if (added.length === 0) return false;
+    todo.tags = [...(todo.tags ?? []), ...added];
+    return true;
+  }
+
+  private applyStatus(todo: TodoItem, status: TodoStatus): void {
+    todo.status = status;
+    if (status === "completed") {
+      todo.completedAt = Date.now();
+    } else {
+      delete todo.completedAt;
+    }
+  }
+
+  /**
+   * Get the todos of a session, loading them from the session metadata if
+   * they are not in memory (e.g. after the session was evicted).
+   */
+  private getTodoMap(sessionId: string): Map<string, TodoItem> | undefined {
+    const todos = this.sessionTodos.get(sessionId);
+    if (todos || !this.persistent) return todos;
+
+    const stored = SessionManager.getMetadata(sessionId, TODOS_KEY);
+    if (!Array.isArray(stored)) return undefined;
+
+    const loaded = new Map((stored as TodoItem[]).map((todo) => [todo.id, { ...todo }]));
+    this.sessionTodos.set(sessionId, loaded);
+    return loaded;
+  }
+
+  private getOrCreateTodoMap(sessionId: string): Map<string, TodoItem> {
+    let todos = this.getTodoMap(sessionId);
+    if (!todos) {
+      todos = new Map();
+      this.sessionTodos.set(sessionId, todos);
+    }
+    return todos;
+  }
+
+  /**
+   * Sync todo counts and the stored todos to SessionManager state.
+   */
+  private syncSessionState(sessionId: string): void {
+    const summary = this.getSummary(sessionId);
+    SessionManager.updateTodos(sessionId, summary.total, summary.completed);
+    this.persist(sessionId);
+  }
+
+  /**
+   * Store a copy of the todos in the session metadata.
+   */
+  private persist(sessionId: string): void {
+    if (!this.persistent) return;
+    SessionManager.setMetadata(
+      sessionId,
+      TODOS_KEY,
+      this.getTodos(sessionId).map((todo) => ({ ...todo, ...(todo.tags ? { tags: [...todo.tags] } : {}) }))
+    );
+  }
+}
+
+/**
+ * Map a `todowrite` status to a todo status (unknown values are pending).
+ */
+function normalizeStatus(status: string | undefined): TodoStatus {
+  const normalized = status?.toLowerCase().replace(/[\s-]+/g, "_");
+  return TODO_STATUSES.find((s) => s === normalized) ?? "pending";
+}
+
+function normalizePriority(priority: string | undefined): TodoPriority | undefined {
+  const normalized = priority?.toLowerCase();
+  return TODO_PRIORITIES.find((p) => p === normalized);
+}
+
+/**
+ * Singleton instance of TodoStore shared by the plugin's managers.
+ */
+export const todoStore = new TodoStore({ persistent: true });
+
+/**
+ * Factory function to create a new TodoStore instance.
+ * Useful for testing or isolated use cases.
+ *
+ * @param options - Store options
+ * @returns New TodoStore instance
+ */
+export function createTodoStore(options: TodoStoreOptions = {}): TodoStore {
+  return new TodoStore(options);
+}
@@ -5,15 +5,22 @@
  * and post-execution logging, serving as the central point for tool call tracking.
  *
  * Key features:
- * - Pre-execution security validation
+ * - Pre-execution security validation (built-in + configured patterns)
+ * - Audit trail of `security.allow` overrides in session metadata
+ * - Record of denied tool calls in session metadata ("securityBlocks")
+ * - Optional append-only audit log of deny/ask/override decisions
  * - Post-execution logging with duration tracking
  * - Tool call history management (limited to 100 entries)
  * - Performance monitoring (<5ms overhead target)
  */
 
 import { createLogger } from "../../lib/logger.js";
+import type { SecurityAuditLog } from "../../lib/audit-log.js";
 import type {
   SecurityAction,
+  SecurityOverride,
+  SecurityOverrideRecord,
+  SecurityBlockRecord,
   CommandValidationResult,
   FileValidationResult,
   ToolExecutionRecord,
@@ -29,6 +36,26 @@ const logger = createLogger("atreides:tool-interceptor");
  */
 const MAX_HISTORY_SIZE = 100;
 
+/**
+ * Session metadata key holding SecurityOverrideRecord entries.
+ */
+export const SECURITY_OVERRIDES_METADATA_KEY = "securityOverrides";
+
+/**
+ * Maximum number of override records kept per session.
+ */
+const MAX_OVERRIDE_RECORDS = 50;
+
+/**
+ * Session metadata key holding SecurityBlockRecord entries.
+ */
+export const SECURITY_BLOCKS_METADATA_KEY = "securityBlocks";
+
+/**
+ * Maximum number of block records kept per session.
+ */
+const MAX_BLOCK_RECORDS = 20;
+
 /**
  * Result of pre-execution validation.
  */
@@ -39,6 +66,8 @@ export interface BeforeExecuteResult {
   reason?: string;
   /** Pattern that triggered the action */
   matchedPattern?: string;
+  /** Set when a `security.allow` rule overrode a deny/ask decision */
+  override?: SecurityOverride;
 }
 
 /**
@@ -83,6 +112,11 @@ export class ToolInterceptor {
    */
   private executionTrackers: Map<string, ExecutionTracker> = new Map();
 
+  /**
+   * Audit log receiving deny/ask/override decisions, if enabled.
+   */
+  private auditLog: SecurityAuditLog | undefined;
+
   /**
    * Validates a tool execution before it runs.
    *
@@ -115,8 +149,22 @@ export class ToolInterceptor {
       // Update session activity
       SessionManager.updateActivity(sessionId);
 
-      // Validate with SecurityHardening
-      const validationResult = SecurityHardening.validateToolInput(tool, input);
+      // Validate with SecurityHardening, honoring the session's configured patterns
+      // (the plugin's config if the session is unknown, e.g. evicted without a store)
+      const state = SessionManager.getStateOrUndefined(sessionId);
+      const security = state?.config?.security ?? SessionManager.getDefaultConfig()?.security;
+      const patterns = SecurityHardening.getSecurityPatterns(security);
+      const validationResult = SecurityHardening.validateToolInput(tool, input, patterns);
+
+      if (validationResult.override) {
+        this.recordOverride(sessionId, tool, validationResult.override);
+      }
+      if (validationResult.action === "deny") {
+        this.recordBlock(sessionId, tool, input, validationResult);
+      }
+      if (this.auditLog && (validationResult.action !== "allow" || validationResult.override)) {
+        this.recordAudit(this.auditLog, sessionId, tool, input, validationResult);
+      }
 
       const duration = performance.now() - startTime;
       logger.debug("beforeExecute completed", {
@@ -291,6 +339,127 @@ export class ToolInterceptor {
     this.executionTrackers.clear();
   }
 
+  /**
+   * Clears in-flight execution trackers for a single session.
+   * Called when a session is deleted or evicted.
+   *
+   * @param sessionId - The session identifier
+   */
+  clearSessionTrackers(sessionId: string): void {
+    const prefix = `${sessionId}:`;
+    for (const key of this.executionTrackers.keys()) {
+      if (key.startsWith(prefix)) {
+        this.executionTrackers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Gets the number of in-flight execution trackers.
+   * Useful for monitoring and testing.
+   */
+  getTrackerCount(): number {
+    return this.executionTrackers.size;
+  }
+
+  /**
+   * Gets the `security.allow` overrides applied in a session.
+   *
+   * @param sessionId - The session identifier
+   * @returns Override records, oldest first
+   */
+  getSecurityOverrides(sessionId: string): SecurityOverrideRecord[] {
+    const records = SessionManager.getMetadata(sessionId, SECURITY_OVERRIDES_METADATA_KEY);
+    return Array.isArray(records) ? (records as SecurityOverrideRecord[]) : [];
+  }
+
+  /**
+   * Gets the tool calls denied in a session.
+   *
+   * @param sessionId - The session identifier
+   * @returns Block records, oldest first
+   */
+  getSecurityBlocks(sessionId: string): SecurityBlockRecord[] {
+    const records = SessionManager.getMetadata(sessionId, SECURITY_BLOCKS_METADATA_KEY);
+    return Array.isArray(records) ? (records as SecurityBlockRecord[]) : [];
+  }
+
+  /**
+   * Sets the audit log for security decisions.
+   * Pass undefined to stop auditing.
+   *
+   * @param auditLog - Audit log, or undefined
+   */
+  setAuditLog(auditLog: SecurityAuditLog | undefined): void {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Writes a deny/ask/override decision to the audit log.
+   */
+  private recordAudit(
+    auditLog: SecurityAuditLog,
+    sessionId: string,
+    tool: string,
+    input: unknown,
+    result: CommandValidationResult | FileValidationResult
+  ): void {
+    const { override } = result;
+    const reason = override ? override.originalReason : result.reason;
+    const matchedPattern = override ? override.originalPattern : result.matchedPattern;
+    const segment = "segment" in result ? result.segment : undefined;
+
+    auditLog.append({
+      timestamp: new Date().toISOString(),
+      sessionId,
+      tool,
+      decision: override ? "override" : result.action === "deny" ? "deny" : "ask",
+      input: override?.target ?? SecurityHardening.describeToolInput(tool, input) ?? "",
+      ...(reason !== undefined && { reason }),
+      ...(matchedPattern !== undefined && { matchedPattern }),
+      ...(segment !== undefined && { segment: SecurityHardening.sanitizeCommandForLogging(segment) }),
+      obfuscated: "obfuscated" in result && result.obfuscated === true,
+      ...(override && { ruleIndex: override.ruleIndex }),
+      ...(override?.ruleReason !== undefined && { ruleReason: override.ruleReason }),
+    });
+  }
+
+  /**
+   * Appends a denied call to session metadata.
+   */
+  private recordBlock(
+    sessionId: string,
+    tool: string,
+    input: unknown,
+    result: CommandValidationResult | FileValidationResult
+  ): void {
+    const described = SecurityHardening.describeToolInput(tool, input);
+    const records = [
+      ...this.getSecurityBlocks(sessionId),
+      {
+        tool,
+        reason: result.reason ?? "Blocked by security policy",
+        timestamp: new Date().toISOString(),
+        ...(result.matchedPattern !== undefined && { matchedPattern: result.matchedPattern }),
+        ...(described !== undefined && { input: described }),
+      },
+    ].slice(-MAX_BLOCK_RECORDS);
+
+    SessionManager.setMetadata(sessionId, SECURITY_BLOCKS_METADATA_KEY, records);
+  }
+
+  /**
+   * Appends an override to session metadata for audit.
+   */
+  private recordOverride(sessionId: string, tool: string, override: SecurityOverride): void {
+    const records = [
+      ...this.getSecurityOverrides(sessionId),
+      { ...override, tool, timestamp: new Date().toISOString() },
+    ].slice(-MAX_OVERRIDE_RECORDS);
+
+    SessionManager.setMetadata(sessionId, SECURITY_OVERRIDES_METADATA_KEY, records);
+  }
+
   /**
    * Generates a unique key for tracking an execution.
    */
@@ -308,6 +477,7 @@ export class ToolInterceptor {
       action: result.action,
       reason: result.reason,
       matchedPattern: result.matchedPattern,
+      ...(result.override && { override: result.override }),
     };
   }
 
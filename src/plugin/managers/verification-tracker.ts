@@ -0,0 +1,379 @@
+/**
+ * VerificationTracker - Test/build outcomes per session
+ *
+ * WorkflowEngine recognizes verification commands (`bun test`, `pytest`,
+ * `cargo test`, `tsc`, ...) only to move to the verification phase. The
+ * tracker records what those runs returned, so the plugin knows whether the
+ * code is green and whether it was changed since.
+ *
+ * Key features:
+ * - Exit code and pass/fail counts per run, parsed from Jest, Vitest, Bun,
+ *   pytest, go test, cargo test and tsc output
+ * - File changes (edit tools and the bash changes ChangeLedger finds) counted
+ *   since the last green run
+ * - Optional stop check (workflow.requireGreenBeforeStop)
+ * - Status stored per session in metadata ("verification")
+ */
+
+import * as SessionManager from "./session-manager.js";
+import * as ChangeLedger from "./change-ledger.js";
+import { workflowEngine } from "./workflow-engine.js";
+import { createLogger } from "../../lib/logger.js";
+import { extractCommand } from "../utils.js";
+import type { VerificationResult, VerificationRunner, VerificationStatus } from "../types.js";
+
+const logger = createLogger("atreides:verification-tracker");
+
+/** Session metadata key for the verification status */
+const STATUS_KEY = "verification";
+
+/** File changing tools used when the phase gates are not configured */
+const DEFAULT_EDIT_TOOLS = ["edit", "write", "multiedit", "create", "patch"];
+
+/** Pass/fail counts parsed from runner output */
+interface RunnerCounts {
+  passed?: number;
+  failed?: number;
+  errors?: number;
+}
+
+/** Runners recognized from the command, checked in order */
+const COMMAND_RUNNERS: Array<{ runner: VerificationRunner; pattern: RegExp }> = [
+  { runner: "vitest", pattern: /\bvitest\b/ },
+  { runner: "jest", pattern: /\bjest\b/ },
+  { runner: "bun", pattern: /\bbun\s+test\b/ },
+  { runner: "pytest", pattern: /\bpytest\b/ },
+  { runner: "go", pattern: /\bgo\s+test\b/ },
+  { runner: "cargo", pattern: /\bcargo\s+test\b/ },
+  { runner: "tsc", pattern: /\btsc\b/ },
+];
+
+/**
+ * Output parsers per runner. For unknown runners (e.g. `npm test`) they are
+ * tried in this order and the first match decides the runner.
+ */
+const OUTPUT_PARSERS: Array<{ runner: VerificationRunner; parse: (output: string) => RunnerCounts | undefined }> = [
+  { runner: "jest", parse: parseJest },
+  { runner: "vitest", parse: parseVitest },
+  { runner: "pytest", parse: parsePytest },
+  { runner: "cargo", parse: parseCargo },
+  { runner: "bun", parse: parseBun },
+  { runner: "go", parse: parseGo },
+  { runner: "tsc", parse: parseTsc },
+];
+
+/**
+ * Get the verification status of a session.
+ *
+ * @param sessionId - Session identifier
+ * @returns Status (no runs and no edits if nothing was recorded)
+ */
+export function getStatus(sessionId: string): VerificationStatus {
+  const status = SessionManager.getMetadata(sessionId, STATUS_KEY) as VerificationStatus | undefined;
+  return status ? { ...status } : { editsSinceGreen: 0, runs: 0 };
+}
+
+/**
+ * Get the most recent verification run of a session.
+ *
+ * @param sessionId - Session identifier
+ * @returns Last result, or undefined if nothing was verified yet
+ */
+export function getLastResult(sessionId: string): VerificationResult | undefined {
+  return getStatus(sessionId).lastResult;
+}
+
+/**
+ * Record a completed tool call: verification runs are parsed and stored,
+ * file changes are counted against the last green run.
+ * Called from the tool.execute.after hook; failed calls do not count as
+ * changes (a failed verification run is still recorded).
+ *
+ * @param sessionId - Session identifier
+ * @param tool - Tool that was executed
+ * @param input - Tool input (e.g. bash command)
+ * @param output - Tool output
+ * @returns The recorded result, if the call was a verification run
+ */
+export function recordToolUse(
+  sessionId: string,
+  tool: string,
+  input: unknown,
+  output: unknown
+): VerificationResult | undefined {
+  const state = SessionManager.getStateOrUndefined(sessionId);
+  if (!state) {
+    return undefined;
+  }
+
+  const status = getStatus(sessionId);
+  const last = state.toolHistory.at(-1);
+  const failed = last?.tool === tool && !last.success;
+  if (!failed && isFileChange(state.config.workflow.gates?.implementationTools ?? DEFAULT_EDIT_TOOLS, tool, input)) {
+    status.editsSinceGreen++;
+    SessionManager.setMetadata(sessionId, STATUS_KEY, status);
+  }
+
+  if (!workflowEngine.isVerificationRun(sessionId, tool, input)) {
+    return undefined;
+  }
+
+  const result = parseVerificationOutput(extractCommand(input) ?? tool, output);
+  status.lastResult = result;
+  status.runs++;
+  if (result.success) {
+    status.lastGreenAt = result.timestamp;
+    status.editsSinceGreen = 0;
+  }
+  SessionManager.setMetadata(sessionId, STATUS_KEY, status);
+
+  logger.info("Verification run recorded", {
+    sessionId,
+    runner: result.runner,
+    success: result.success,
+    exitCode: result.exitCode,
+    passed: result.passed,
+    failed: result.failed,
+    errors: result.errors,
+  });
+  return result;
+}
+
+/**
+ * Check whether the session may end: files modified since the last green run
+ * block stop. Only consulted when workflow.requireGreenBeforeStop is enabled.
+ *
+ * @param sessionId - Session identifier
+ * @returns allow, with the reason when blocked
+ */
+export function checkGreenBeforeStop(sessionId: string): { allow: boolean; reason?: string } {
+  const { lastResult, editsSinceGreen } = getStatus(sessionId);
+  if (editsSinceGreen === 0) {
+    return { allow: true };
+  }
+
+  const changes = `${editsSinceGreen} file change${editsSinceGreen === 1 ? "" : "s"}`;
+  const last = lastResult ? `Last run: ${formatResult(lastResult)}.` : "No tests or build have been run yet.";
+  return {
+    allow: false,
+    reason: `[VERIFICATION REQUIRED] ${changes} since the last successful verification. ${last} Run the tests or the build and make them pass before finishing.`,
+  };
+}
+
+/**
+ * Parse the output of a verification command.
+ *
+ * The exit code decides success when the tool reports one; otherwise the
+ * parsed failure and error counts do.
+ *
+ * @example
+ * ```typescript
+ * parseVerificationOutput("bun test", { stdout: " 12 pass\n 1 fail", exitCode: 1 });
+ * // → { runner: "bun", success: false, exitCode: 1, passed: 12, failed: 1, ... }
+ * ```
+ *
+ * @param command - Command that was run
+ * @param output - Tool output (string, or object with stdout/stderr/output/exitCode)
+ * @returns Verification result
+ */
+export function parseVerificationOutput(command: string, output: unknown): VerificationResult {
+  const text = extractOutputText(output);
+  const exitCode = extractExitCode(output);
+
+  let runner = COMMAND_RUNNERS.find((r) => r.pattern.test(command))?.runner ?? "unknown";
+  let counts: RunnerCounts | undefined;
+  if (runner === "unknown") {
+    for (const parser of OUTPUT_PARSERS) {
+      counts = parser.parse(text);
+      if (counts) {
+        runner = parser.runner;
+        break;
+      }
+    }
+  } else {
+    counts = OUTPUT_PARSERS.find((p) => p.runner === runner)?.parse(text);
+  }
+
+  const success = exitCode !== undefined
+    ? exitCode === 0
+    : (counts?.failed ?? 0) === 0 && (counts?.errors ?? 0) === 0;
+
+  return {
+    command,
+    runner,
+    success,
+    timestamp: Date.now(),
+    ...(exitCode !== undefined ? { exitCode } : {}),
+    ...(counts?.passed !== undefined ? { passed: counts.passed } : {}),
+    ...(counts?.failed !== undefined ? { failed: counts.failed } : {}),
+    ...(counts?.errors !== undefined ? { errors: counts.errors } : {}),
+  };
+}
+
+/**
+ * Format a verification result for messages and the compaction block.
+ *
+ * @example
+ * ```typescript
+ * formatResult(result); // → "passed `bun test` (exit 0, 12 passed, 0 failed)"
+ * ```
+ *
+ * @param result - Verification result
+ * @returns One-line summary
+ */
+export function formatResult(result: VerificationResult): string {
+  const details: string[] = [];
+  if (result.exitCode !== undefined) details.push(`exit ${result.exitCode}`);
+  if (result.passed !== undefined) details.push(`${result.passed} passed`);
+  if (result.failed !== undefined) details.push(`${result.failed} failed`);
+  if (result.errors !== undefined) details.push(`${result.errors} errors`);
+
+  const summary = `${result.success ? "passed" : "failed"} \`${result.command}\``;
+  return details.length > 0 ? `${summary} (${details.join(", ")})` : summary;
+}
+
+/**
+ * Parse a summary written by `formatResult()` back into a result.
+ * The timestamp is not part of the summary and is set to now.
+ *
+ * @param summary - Text starting with a formatted result
+ * @returns Parsed result, or undefined if the text is not a summary
+ */
+export function parseResult(summary: string): VerificationResult | undefined {
+  const match = summary.match(/^(passed|failed) `([^`\n]*)`(?: \(([^)\n]*)\))?/);
+  if (!match?.[2]) {
+    return undefined;
+  }
+
+  const command = match[2];
+  const details = match[3] ?? "";
+  const exitCode = matchCount(details, /exit (\d+)/);
+  const passed = matchCount(details, /(\d+) passed/);
+  const failed = matchCount(details, /(\d+) failed/);
+  const errors = matchCount(details, /(\d+) errors/);
+
+  return {
+    command,
+    runner: COMMAND_RUNNERS.find((r) => r.pattern.test(command))?.runner ?? "unknown",
+    success: match[1] === "passed",
+    timestamp: Date.now(),
+    ...(exitCode !== undefined ? { exitCode } : {}),
+    ...(passed !== undefined ? { passed } : {}),
+    ...(failed !== undefined ? { failed } : {}),
+    ...(errors !== undefined ? { errors } : {}),
+  };
+}
+
+// =============================================================================
+// Runner Output Parsers
+// =============================================================================
+
+/** Jest: "Tests:       1 failed, 5 passed, 6 total" */
+function parseJest(output: string): RunnerCounts | undefined {
+  const line = output.match(/^Tests:.*\d+ total$/m)?.[0];
+  return line ? countsFromSummary(line) : undefined;
+}
+
+/** Vitest: "Tests  1 failed | 5 passed (6)" */
+function parseVitest(output: string): RunnerCounts | undefined {
+  const line = output.match(/^\s*Tests\s+.*\(\d+\)$/m)?.[0];
+  return line ? countsFromSummary(line) : undefined;
+}
+
+/** pytest: "==== 1 failed, 5 passed in 0.12s ====" (errors count as failures) */
+function parsePytest(output: string): RunnerCounts | undefined {
+  const line = output.match(/^=+ .*\b(?:passed|failed|errors?)\b.* in [\d.]+s.*=+$/m)?.[0];
+  if (!line) {
+    return undefined;
+  }
+  const counts = countsFromSummary(line);
+  const errors = matchCount(line, /(\d+) errors?\b/);
+  return { ...counts, failed: (counts.failed ?? 0) + (errors ?? 0) };
+}
+
+/** cargo test: "test result: FAILED. 5 passed; 1 failed; ..." (summed over all test binaries) */
+function parseCargo(output: string): RunnerCounts | undefined {
+  const results = [...output.matchAll(/test result: \w+\. (\d+) passed; (\d+) failed/g)];
+  if (results.length === 0) {
+    return undefined;
+  }
+  return {
+    passed: results.reduce((sum, m) => sum + parseInt(m[1] ?? "0", 10), 0),
+    failed: results.reduce((sum, m) => sum + parseInt(m[2] ?? "0", 10), 0),
+  };
+}
+
+/** Bun: " 12 pass" / " 1 fail" summary lines */
+function parseBun(output: string): RunnerCounts | undefined {
+  const passed = matchCount(output, /^\s*(\d+) pass$/m);
+  const failed = matchCount(output, /^\s*(\d+) fail$/m);
+  if (passed === undefined && failed === undefined) {
+    return undefined;
+  }
+  return { passed: passed ?? 0, failed: failed ?? 0 };
+}
+
+/** go test -v: "--- PASS: TestX" / "--- FAIL: TestX" lines */
+function parseGo(output: string): RunnerCounts | undefined {
+  const passed = output.match(/^\s*--- PASS:/gm)?.length ?? 0;
+  const failed = output.match(/^\s*--- FAIL:/gm)?.length ?? 0;
+  return passed + failed > 0 ? { passed, failed } : undefined;
+}
+
+/** tsc: "Found 3 errors" or "error TS2322:" lines */
+function parseTsc(output: string): RunnerCounts | undefined {
+  const found = matchCount(output, /Found (\d+) errors?/);
+  if (found !== undefined) {
+    return { errors: found };
+  }
+  const lines = output.match(/error TS\d+:/g)?.length ?? 0;
+  return lines > 0 ? { errors: lines } : undefined;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function isFileChange(editTools: string[], tool: string, input: unknown): boolean {
+  const name = tool.toLowerCase();
+  if (name === "bash" || name === "shell") {
+    const command = extractCommand(input);
+    return command !== undefined && ChangeLedger.getCommandChanges(command).length > 0;
+  }
+  return editTools.includes(name);
+}
+
+function countsFromSummary(line: string): RunnerCounts {
+  return {
+    passed: matchCount(line, /(\d+) passed/) ?? 0,
+    failed: matchCount(line, /(\d+) failed/) ?? 0,
+  };
+}
+
+function matchCount(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  return match?.[1] !== undefined ? parseInt(match[1], 10) : undefined;
+}
+
+function extractOutputText(output: unknown): string {
+  let text = "";
+  if (typeof output === "string") {
+    text = output;
+  } else if (output && typeof output === "object") {
+    const obj = output as Record<string, unknown>;
+    text = ["stdout", "stderr", "output"]
+      .map((key) => obj[key])
+      .filter((value): value is string => typeof value === "string")
+      .join("\n");
+  }
+  // Strip ANSI colors so summary lines match
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
+
+function extractExitCode(output: unknown): number | undefined {
+  if (output && typeof output === "object") {
+    const exitCode = (output as Record<string, unknown>)["exitCode"];
+    return typeof exitCode === "number" ? exitCode : undefined;
+  }
+  return undefined;
+}
@@ -1,10 +1,12 @@
 /**
  * WorkflowEngine - Phase tracking and workflow orchestration
  *
- * Implements the 5-phase workflow progression:
+ * Implements the 5-phase workflow progression by default:
  * Intent → Assessment → Exploration → Implementation → Verification
  *
  * Key features:
+ * - Configurable workflow definitions (phases, transitions, tool and command
+ *   mappings, guidance), selected per intent type
  * - Phase detection from tool usage patterns
  * - Heuristic-based intent classification
  * - Phase transition logic with history tracking
@@ -18,181 +20,265 @@ import type {
   WorkflowState,
   PhaseTransition,
   IntentType,
+  SessionState,
 } from "../types.js";
+import { DEFAULT_WORKFLOW_NAME, type Config, type WorkflowDefinition } from "../../lib/config.js";
 import { createLogger } from "../../lib/logger.js";
 import * as SessionManager from "./session-manager.js";
+import { extractCommand } from "../utils.js";
 
 const logger = createLogger("atreides:workflow-engine");
 
 // =============================================================================
-// Tool Pattern Mapping
+// Default Workflow Definition
 // =============================================================================
 
 /**
- * Tool patterns that indicate specific workflow phases.
- * Used for heuristic-based phase detection.
+ * The built-in 5-phase workflow, used for intents without a configured
+ * workflow. A workflow named "default" in `workflow.workflows` replaces it.
+ *
+ * Bash command rules are checked in priority order (most specific first):
+ * 1. Test patterns → "verification" (test runners)
+ * 2. Build/lint patterns → "verification" (compilers, linters)
+ * 3. Implementation patterns → "implementation" (package installs, git commits, file modifications)
+ * 4. Exploration patterns → "exploration" (git status, cat, ls, find, grep),
+ *    except during implementation, which reads files too
+ * 5. Unmatched commands → "exploration" early in the workflow
  */
-export const PHASE_TOOL_PATTERNS: Record<string, WorkflowPhase[]> = {
-  // Exploration tools - reading, searching, understanding
-  read: ["exploration"],
-  grep: ["exploration"],
-  grep_search: ["exploration"],
-  file_search: ["exploration"],
-  list_dir: ["exploration"],
-  glob: ["exploration"],
-  search: ["exploration"],
-  codebase_search: ["exploration"],
-
-  // Implementation tools - writing, editing, executing
-  edit: ["implementation"],
-  write: ["implementation"],
-  multiedit: ["implementation"],
-  create: ["implementation"],
-
-  // Bash can be exploration, implementation, or verification
-  bash: ["exploration", "implementation", "verification"],
-  shell: ["exploration", "implementation", "verification"],
-
-  // Verification tools - testing, validating
-  test: ["verification"],
-  lint: ["verification"],
-  typecheck: ["verification"],
-  build: ["verification"],
-
-  // Todo tools - can be any phase
-  todowrite: ["intent", "assessment", "exploration", "implementation"],
-};
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  phases: ["intent", "assessment", "exploration", "implementation", "verification"],
+
+  transitions: {
+    idle: ["intent"],
+    intent: ["assessment", "exploration"], // Can skip assessment if exploring immediately
+    assessment: ["exploration", "implementation"], // Can skip exploration if clear what to do
+    exploration: ["implementation", "assessment"], // May need to re-assess after exploration
+    implementation: ["verification", "exploration"], // May need to explore more during implementation
+    verification: ["intent", "implementation", "idle"], // Can cycle back or complete
+  },
+
+  tools: {
+    // Exploration tools - reading, searching, understanding
+    read: ["exploration"],
+    grep: ["exploration"],
+    grep_search: ["exploration"],
+    file_search: ["exploration"],
+    list_dir: ["exploration"],
+    glob: ["exploration"],
+    search: ["exploration"],
+    codebase_search: ["exploration"],
+
+    // Implementation tools - writing, editing, executing
+    edit: ["implementation"],
+    write: ["implementation"],
+    multiedit: ["implementation"],
+    create: ["implementation"],
+
+    // Bash can be exploration, implementation, or verification (see commands)
+    bash: ["exploration", "implementation", "verification"],
+    shell: ["exploration", "implementation", "verification"],
+
+    // Verification tools - testing, validating
+    test: ["verification"],
+    lint: ["verification"],
+    typecheck: ["verification"],
+    build: ["verification"],
+
+    // Todo tools - can be any phase
+    todowrite: ["intent", "assessment", "exploration", "implementation"],
+  },
+
+  commands: [
+    // Test commands always indicate verification, regardless of other patterns
+    {
+      phase: "verification",
+      patterns: [
+        "\\btest\\b",
+        "\\bjest\\b",
+        "\\bvitest\\b",
+        "\\bmocha\\b",
+        "\\bpytest\\b",
+        "\\bcargo test\\b",
+        "\\bgo test\\b",
+        "\\bnpm test\\b",
+        "\\bbun test\\b",
+        "\\byarn test\\b",
+        "\\bmake test\\b",
+      ],
+    },
+
+    // Build/lint are verification actions, checked before implementation
+    {
+      phase: "verification",
+      patterns: [
+        "\\bbuild\\b",
+        "\\blint\\b",
+        "\\btsc\\b",
+        "\\btypecheck\\b",
+        "\\bcompile\\b",
+        "\\bnpm run build\\b",
+        "\\bbun build\\b",
+        "\\bcargo build\\b",
+      ],
+    },
+
+    // Package management, git operations that modify state, file system
+    // modifications, build/setup execution commands
+    {
+      phase: "implementation",
+      patterns: [
+        // Package management - installing dependencies
+        "\\b(npm|yarn|pnpm|bun)\\s+install\\b",
+        "\\b(pip|pipenv|poetry)\\s+install\\b",
+        "\\bcargo\\s+add\\b",
+        "\\bgo\\s+get\\b",
+        "\\bgo\\s+mod\\s+tidy\\b",
+        "\\bbrew\\s+install\\b",
+        "\\bapt(-get)?\\s+install\\b",
+
+        // Git operations (non-read-only, state-modifying)
+        "\\bgit\\s+add\\b",
+        "\\bgit\\s+commit\\b",
+        "\\bgit\\s+merge\\b",
+        "\\bgit\\s+rebase\\b",
+        "\\bgit\\s+cherry-pick\\b",
+        "\\bgit\\s+stash\\b",
+        "\\bgit\\s+checkout\\s+-b\\b", // Creating new branch
+        "\\bgit\\s+push\\b",
+        "\\bgit\\s+pull\\b",
+        "\\bgit\\s+reset\\b",
+
+        // File system modifications
+        "\\bmkdir\\b",
+        "\\btouch\\b",
+        "\\bcp\\s+-",  // cp with flags
+        "\\bcp\\s+\\S+\\s+\\S+",  // cp source dest
+        "\\bmv\\s+",
+        "\\brm\\s+-",  // rm with flags (careful deletion)
+        "\\bchmod\\b",
+        "\\bchown\\b",
+
+        // Build/setup commands that modify state
+        "\\bnpm\\s+run\\b",
+        "\\byarn\\s+run\\b",
+        "\\bmake\\s+",  // make with target
+        "\\bcmake\\b",
+        "\\bdocker\\s+build\\b",
+        "\\bdocker\\s+run\\b",
+      ],
+    },
+
+    // Read-only git operations, file inspection and system inspection
+    {
+      phase: "exploration",
+      patterns: [
+        // Read-only git operations
+        "\\bgit\\s+status\\b",
+        "\\bgit\\s+log\\b",
+        "\\bgit\\s+diff\\b",
+        "\\bgit\\s+show\\b",
+        "\\bgit\\s+branch\\b",
+        "\\bgit\\s+remote\\b",
+        "\\bgit\\s+describe\\b",
+        "\\bgit\\s+blame\\b",
+        "\\bgit\\s+shortlog\\b",
+
+        // File inspection (read-only)
+        "\\bcat\\s+",
+        "\\bls\\b",
+        "\\bfind\\s+",
+        "\\bgrep\\s+",
+        "\\brg\\s+",  // ripgrep
+        "\\bhead\\s+",
+        "\\btail\\s+",
+        "\\bless\\b",
+        "\\bmore\\b",
+        "\\bwc\\s+",
+        "\\bfile\\s+",
+        "\\bstat\\s+",
+        "\\btree\\b",
+
+        // System inspection
+        "\\bwhich\\s+",
+        "\\bwhereis\\s+",
+        "\\benv\\b",
+        "\\bpwd\\b",
+        "\\becho\\s+\\$",  // echo $VAR (environment inspection)
+        "\\bprintenv\\b",
+        "\\btype\\s+",
+        "\\bcommand\\s+-v\\b",
+      ],
+      keepPhases: ["implementation"],
+    },
+  ],
 
-/**
- * Test command patterns for bash/shell tools.
- * When detected, indicates verification phase.
- */
-const TEST_COMMAND_PATTERNS = [
-  /\btest\b/i,
-  /\bjest\b/i,
-  /\bvitest\b/i,
-  /\bmocha\b/i,
-  /\bpytest\b/i,
-  /\bcargo test\b/i,
-  /\bgo test\b/i,
-  /\bnpm test\b/i,
-  /\bbun test\b/i,
-  /\byarn test\b/i,
-  /\bmake test\b/i,
-];
+  defaultCommandPhase: { phase: "exploration", from: ["idle", "intent", "assessment"] },
 
-/**
- * Build/lint command patterns for bash/shell tools.
- * When detected, indicates verification phase.
- */
-const BUILD_COMMAND_PATTERNS = [
-  /\bbuild\b/i,
-  /\blint\b/i,
-  /\btsc\b/,
-  /\btypecheck\b/i,
-  /\bcompile\b/i,
-  /\bnpm run build\b/i,
-  /\bbun build\b/i,
-  /\bcargo build\b/i,
-];
+  guidance: {
+    intent: `[WORKFLOW PHASE: INTENT]
+You are in the INTENT phase. Focus on:
+- Understanding the user's request
+- Asking clarifying questions if needed
+- Identifying the scope of the task`,
+    assessment: `[WORKFLOW PHASE: ASSESSMENT]
+You are in the ASSESSMENT phase. Focus on:
+- Analyzing the problem/request
+- Identifying what information is needed
+- Planning your approach before exploring`,
+    exploration: `[WORKFLOW PHASE: EXPLORATION]
+You are in the EXPLORATION phase. Focus on:
+- Reading relevant files and code
+- Searching for patterns and dependencies
+- Building understanding before making changes
+Do NOT make changes yet - gather information first.`,
+    implementation: `[WORKFLOW PHASE: IMPLEMENTATION]
+You are in the IMPLEMENTATION phase. Focus on:
+- Making targeted, minimal changes
+- Following existing patterns and conventions
+- Testing changes as you go`,
+    verification: `[WORKFLOW PHASE: VERIFICATION]
+You are in the VERIFICATION phase. Focus on:
+- Running tests to verify changes
+- Checking for regressions
+- Validating the implementation meets requirements`,
+  },
+};
 
 /**
- * Implementation command patterns for bash/shell tools.
- * When detected, indicates implementation phase.
- *
- * Includes:
- * - Package management (npm install, pip install, cargo add, go get)
- * - Git operations that modify state (add, commit, merge, rebase, cherry-pick)
- * - File system modifications (mkdir, touch, cp, mv, rm)
- * - Build/setup execution commands
+ * Tool patterns that indicate specific phases of the default workflow.
+ * Used for heuristic-based phase detection.
  */
-const IMPLEMENTATION_COMMAND_PATTERNS = [
-  // Package management - installing dependencies
-  /\b(npm|yarn|pnpm|bun)\s+install\b/i,
-  /\b(pip|pipenv|poetry)\s+install\b/i,
-  /\bcargo\s+add\b/i,
-  /\bgo\s+get\b/i,
-  /\bgo\s+mod\s+tidy\b/i,
-  /\bbrew\s+install\b/i,
-  /\bapt(-get)?\s+install\b/i,
-
-  // Git operations (non-read-only, state-modifying)
-  /\bgit\s+add\b/i,
-  /\bgit\s+commit\b/i,
-  /\bgit\s+merge\b/i,
-  /\bgit\s+rebase\b/i,
-  /\bgit\s+cherry-pick\b/i,
-  /\bgit\s+stash\b/i,
-  /\bgit\s+checkout\s+-b\b/i, // Creating new branch
-  /\bgit\s+push\b/i,
-  /\bgit\s+pull\b/i,
-  /\bgit\s+reset\b/i,
-
-  // File system modifications
-  /\bmkdir\b/,
-  /\btouch\b/,
-  /\bcp\s+-/,  // cp with flags
-  /\bcp\s+\S+\s+\S+/,  // cp source dest
-  /\bmv\s+/,
-  /\brm\s+-/,  // rm with flags (careful deletion)
-  /\bchmod\b/,
-  /\bchown\b/,
-
-  // Build/setup commands that modify state
-  /\bnpm\s+run\b/i,
-  /\byarn\s+run\b/i,
-  /\bmake\s+/,  // make with target
-  /\bcmake\b/i,
-  /\bdocker\s+build\b/i,
-  /\bdocker\s+run\b/i,
-];
+export const PHASE_TOOL_PATTERNS: Record<string, WorkflowPhase[]> = DEFAULT_WORKFLOW.tools ?? {};
 
-/**
- * Exploration command patterns for bash/shell tools.
- * When detected, indicates exploration phase.
- *
- * Includes:
- * - Read-only git operations (status, log, diff, show, branch)
- * - File inspection (cat, ls, find, grep, head, tail, less, more)
- * - System inspection (which, whereis, env, pwd)
- */
-const EXPLORATION_COMMAND_PATTERNS = [
-  // Read-only git operations
-  /\bgit\s+status\b/i,
-  /\bgit\s+log\b/i,
-  /\bgit\s+diff\b/i,
-  /\bgit\s+show\b/i,
-  /\bgit\s+branch\b/i,
-  /\bgit\s+remote\b/i,
-  /\bgit\s+describe\b/i,
-  /\bgit\s+blame\b/i,
-  /\bgit\s+shortlog\b/i,
-
-  // File inspection (read-only)
-  /\bcat\s+/,
-  /\bls\b/,
-  /\bfind\s+/,
-  /\bgrep\s+/,
-  /\brg\s+/,  // ripgrep
-  /\bhead\s+/,
-  /\btail\s+/,
-  /\bless\b/,
-  /\bmore\b/,
-  /\bwc\s+/,
-  /\bfile\s+/,
-  /\bstat\s+/,
-  /\btree\b/,
-
-  // System inspection
-  /\bwhich\s+/,
-  /\bwhereis\s+/,
-  /\benv\b/,
-  /\bpwd\b/,
-  /\becho\s+\$/,  // echo $VAR (environment inspection)
-  /\bprintenv\b/,
-  /\btype\s+/,
-  /\bcommand\s+-v\b/,
-];
+/** Bash command rule with its patterns compiled */
+interface CompiledCommandRule {
+  phase: WorkflowPhase;
+  patterns: RegExp[];
+  keepPhases: WorkflowPhase[];
+}
+
+/** Compiled command rules, cached per definition object */
+const compiledCommandRules = new WeakMap<WorkflowDefinition, CompiledCommandRule[]>();
+
+function getCommandRules(definition: WorkflowDefinition): CompiledCommandRule[] {
+  let rules = compiledCommandRules.get(definition);
+  if (!rules) {
+    rules = (definition.commands ?? []).map((rule) => ({
+      phase: rule.phase,
+      patterns: rule.patterns.flatMap((pattern) => {
+        try {
+          return [new RegExp(pattern, "i")];
+        } catch {
+          logger.warn("Ignoring invalid workflow command pattern", { pattern });
+          return [];
+        }
+      }),
+      keepPhases: rule.keepPhases ?? [],
+    }));
+    compiledCommandRules.set(definition, rules);
+  }
+  return rules;
+}
 
 // =============================================================================
 // Intent Classification Patterns
@@ -262,23 +348,6 @@ const INTENT_KEYWORDS: Record<IntentType, string[]> = {
   unknown: [],
 };
 
-// =============================================================================
-// Phase Transition Rules
-// =============================================================================
-
-/**
- * Valid phase transitions.
- * Maps current phase to allowed next phases.
- */
-const VALID_TRANSITIONS: Record<WorkflowPhase, WorkflowPhase[]> = {
-  idle: ["intent"],
-  intent: ["assessment", "exploration"], // Can skip assessment if exploring immediately
-  assessment: ["exploration", "implementation"], // Can skip exploration if clear what to do
-  exploration: ["implementation", "assessment"], // May need to re-assess after exploration
-  implementation: ["verification", "exploration"], // May need to explore more during implementation
-  verification: ["intent", "implementation", "idle"], // Can cycle back or complete
-};
-
 // =============================================================================
 // WorkflowEngine Class
 // =============================================================================
@@ -330,13 +399,14 @@ export class WorkflowEngine {
       }
 
       const currentPhase = state.workflow.currentPhase;
+      const { definition } = this.resolveWorkflow(state);
 
       // Detect what phase this tool suggests
-      const detectedPhase = this.detectPhaseFromTool(tool, currentPhase, input);
+      const detectedPhase = this.detectPhaseFromTool(tool, currentPhase, input, definition);
 
       // Check if we should transition
       if (detectedPhase && detectedPhase !== currentPhase) {
-        if (this.isValidTransition(currentPhase, detectedPhase)) {
+        if (this.isValidTransition(currentPhase, detectedPhase, definition)) {
           this.transitionPhase(sessionId, currentPhase, detectedPhase, tool);
           return detectedPhase;
         } else {
@@ -374,22 +444,24 @@ export class WorkflowEngine {
    * @param tool - Tool name (normalized to lowercase)
    * @param currentPhase - Current workflow phase
    * @param input - Optional tool input for context
+   * @param definition - Workflow definition (defaults to the built-in workflow)
    * @returns Suggested phase or undefined if no suggestion
    */
   detectPhaseFromTool(
     tool: string,
     currentPhase: WorkflowPhase,
-    input?: unknown
+    input?: unknown,
+    definition: WorkflowDefinition = DEFAULT_WORKFLOW
   ): WorkflowPhase | undefined {
     const normalizedTool = tool.toLowerCase();
 
     // Handle bash/shell specially - analyze the command
     if (normalizedTool === "bash" || normalizedTool === "shell") {
-      return this.detectPhaseFromBashCommand(currentPhase, input);
+      return this.detectPhaseFromBashCommand(currentPhase, input, definition);
     }
 
     // Look up tool in patterns
-    const possiblePhases = PHASE_TOOL_PATTERNS[normalizedTool];
+    const possiblePhases = definition.tools?.[normalizedTool];
     if (!possiblePhases || possiblePhases.length === 0) {
       return undefined;
     }
@@ -401,14 +473,7 @@ export class WorkflowEngine {
 
     // Multiple possible phases - use context to decide
     // Prefer forward progression in the workflow
-    const phaseOrder: WorkflowPhase[] = [
-      "idle",
-      "intent",
-      "assessment",
-      "exploration",
-      "implementation",
-      "verification",
-    ];
+    const phaseOrder: WorkflowPhase[] = ["idle", ...definition.phases];
     const currentIndex = phaseOrder.indexOf(currentPhase);
 
     // Find the first possible phase that's after current phase
@@ -426,100 +491,81 @@ export class WorkflowEngine {
   /**
    * Detect phase from bash/shell command content.
    *
-   * Pattern matching priority (most specific first):
-   * 1. Implementation patterns → "implementation" (package installs, git commits, file modifications)
-   * 2. Test/build patterns → "verification" (test runners, compilers, linters)
-   * 3. Exploration patterns → "exploration" (git status, cat, ls, find, grep)
-   * 4. Default heuristic based on current phase
+   * The workflow's command rules are checked in order; the first rule with a
+   * matching pattern decides, unless the current phase is one of its
+   * `keepPhases`. Unmatched commands use `defaultCommandPhase` when the
+   * current phase is one of its `from` phases, otherwise the phase is kept.
    *
    * @example
    * ```typescript
+   * // With the default workflow:
    * detectPhaseFromBashCommand("idle", { command: "npm install" }); // → "implementation"
    * detectPhaseFromBashCommand("idle", { command: "npm test" }); // → "verification"
    * detectPhaseFromBashCommand("idle", { command: "git status" }); // → "exploration"
-   * detectPhaseFromBashCommand("implementation", { command: "ls" }); // → "exploration"
+   * detectPhaseFromBashCommand("implementation", { command: "ls" }); // → "implementation"
    * ```
    *
    * @param currentPhase - Current workflow phase
    * @param input - Tool input containing the command
+   * @param definition - Workflow definition
    * @returns Detected phase
    */
   private detectPhaseFromBashCommand(
     currentPhase: WorkflowPhase,
-    input?: unknown
+    input: unknown,
+    definition: WorkflowDefinition
   ): WorkflowPhase {
-    const command = this.extractCommand(input);
+    const fallback = definition.defaultCommandPhase;
+    const command = extractCommand(input);
     if (!command) {
-      // No command to analyze, stay in current phase or default to exploration
-      return currentPhase === "idle" ? "exploration" : currentPhase;
-    }
-
-    // Priority 1: Check for test commands (verification) - highest priority
-    // Test commands always indicate verification, regardless of other patterns
-    if (TEST_COMMAND_PATTERNS.some((p) => p.test(command))) {
-      logger.debug("Bash command matched test pattern", { command });
-      return "verification";
+      // No command to analyze, stay in current phase or start with the fallback
+      return currentPhase === "idle" && fallback ? fallback.phase : currentPhase;
     }
 
-    // Priority 2: Check for build/lint commands (verification)
-    // Build/lint are verification actions, check before implementation
-    if (BUILD_COMMAND_PATTERNS.some((p) => p.test(command))) {
-      logger.debug("Bash command matched build pattern", { command });
-      return "verification";
-    }
-
-    // Priority 3: Check for implementation commands (state-modifying operations)
-    // These include package installs, git commits, file modifications
-    if (IMPLEMENTATION_COMMAND_PATTERNS.some((p) => p.test(command))) {
-      logger.debug("Bash command matched implementation pattern", { command });
-      return "implementation";
-    }
-
-    // Priority 4: Check for exploration commands (read-only operations)
-    // These include git status, file inspection, system inspection
-    // BUT only transition to exploration if not already in implementation phase
-    if (EXPLORATION_COMMAND_PATTERNS.some((p) => p.test(command))) {
-      // Stay in implementation phase for read operations during implementation
-      if (currentPhase === "implementation") {
-        logger.debug("Exploration command during implementation - staying in phase", { command });
-        return "implementation";
+    for (const rule of getCommandRules(definition)) {
+      if (!rule.patterns.some((p) => p.test(command))) {
+        continue;
+      }
+      if (rule.keepPhases.includes(currentPhase)) {
+        logger.debug("Bash command matched rule for kept phase - staying in phase", { command, phase: rule.phase });
+        return currentPhase;
       }
-      logger.debug("Bash command matched exploration pattern", { command });
-      return "exploration";
+      logger.debug("Bash command matched workflow rule", { command, phase: rule.phase });
+      return rule.phase;
     }
 
-    // Default heuristic: exploration if early in workflow, otherwise stay in current phase
-    if (
-      currentPhase === "idle" ||
-      currentPhase === "intent" ||
-      currentPhase === "assessment"
-    ) {
-      return "exploration";
+    if (fallback && fallback.from.includes(currentPhase)) {
+      return fallback.phase;
     }
 
     return currentPhase;
   }
 
   /**
-   * Extract command string from tool input.
+   * Check whether a tool call is a verification run (test, build, lint) of
+   * the session's workflow: a tool or bash command that indicates the last
+   * phase of the workflow.
    *
-   * @param input - Tool input (various formats)
-   * @returns Command string or undefined
+   * @param sessionId - Session identifier
+   * @param tool - Tool name
+   * @param input - Tool input (e.g. bash command)
+   * @returns True if the call verifies the changes
    */
-  private extractCommand(input: unknown): string | undefined {
-    if (typeof input === "string") {
-      return input;
-    }
-    if (input && typeof input === "object") {
-      const obj = input as Record<string, unknown>;
-      if (typeof obj.command === "string") {
-        return obj.command;
-      }
-      if (typeof obj.cmd === "string") {
-        return obj.cmd;
-      }
+  isVerificationRun(sessionId: string, tool: string, input?: unknown): boolean {
+    const { definition } = this.getWorkflow(sessionId);
+    const finalPhase = definition.phases.at(-1);
+    const normalizedTool = tool.toLowerCase();
+
+    if (normalizedTool === "bash" || normalizedTool === "shell") {
+      const command = extractCommand(input);
+      const rule = command
+        ? getCommandRules(definition).find((r) => r.patterns.some((p) => p.test(command)))
+        : undefined;
+      return rule?.phase === finalPhase;
     }
-    return undefined;
+
+    const phases = definition.tools?.[normalizedTool];
+    return phases?.length === 1 && phases[0] === finalPhase;
   }
 
   /**
@@ -527,10 +573,15 @@ export class WorkflowEngine {
    *
    * @param from - Current phase
    * @param to - Target phase
+   * @param definition - Workflow definition (defaults to the built-in workflow)
    * @returns True if transition is allowed
    */
-  isValidTransition(from: WorkflowPhase, to: WorkflowPhase): boolean {
-    const validTargets = VALID_TRANSITIONS[from];
+  isValidTransition(
+    from: WorkflowPhase,
+    to: WorkflowPhase,
+    definition: WorkflowDefinition = DEFAULT_WORKFLOW
+  ): boolean {
+    const validTargets = definition.transitions[from] ?? [];
     return validTargets.includes(to);
   }
 
@@ -573,13 +624,8 @@ export class WorkflowEngine {
     state.workflow.currentPhase = to;
     state.phase = to; // Keep shortcut in sync
 
-    // Mark workflow complete if reaching verification
-    if (to === "verification" && !state.workflow.completed) {
-      // Will be marked complete on successful verification
-    }
-
-    // Mark workflow complete if returning to idle from verification
-    if (to === "idle" && from === "verification") {
+    // Mark workflow complete if returning to idle from its last phase
+    if (to === "idle" && from === this.resolveWorkflow(state).definition.phases.at(-1)) {
       state.workflow.completed = true;
     }
 
@@ -612,6 +658,44 @@ export class WorkflowEngine {
     return SessionManager.getWorkflowState(sessionId);
   }
 
+  /**
+   * Get the workflow definition a session follows.
+   *
+   * @param sessionId - Session identifier
+   * @returns Workflow name and definition (the default workflow if session not found)
+   */
+  getWorkflow(sessionId: string): { name: string; definition: WorkflowDefinition } {
+    const state = SessionManager.getStateOrUndefined(sessionId);
+    return state ? this.resolveWorkflow(state) : { name: DEFAULT_WORKFLOW_NAME, definition: DEFAULT_WORKFLOW };
+  }
+
+  /**
+   * Get the name of the workflow configured for an intent.
+   * Falls back to the default workflow when the intent has no entry or
+   * names a workflow that is not defined.
+   *
+   * @param workflowConfig - Workflow section of the plugin configuration
+   * @param intent - Classified intent type
+   * @returns Workflow name
+   */
+  getWorkflowNameForIntent(workflowConfig: Config["workflow"], intent: IntentType): string {
+    const name = workflowConfig.intentWorkflows?.[intent];
+    if (name && name !== DEFAULT_WORKFLOW_NAME && workflowConfig.workflows?.[name]) {
+      return name;
+    }
+    return DEFAULT_WORKFLOW_NAME;
+  }
+
+  private resolveWorkflow(state: SessionState): { name: string; definition: WorkflowDefinition } {
+    const workflows = state.config.workflow.workflows;
+    const name = state.workflow.workflowName ?? DEFAULT_WORKFLOW_NAME;
+    const definition = workflows?.[name];
+    if (definition) {
+      return { name, definition };
+    }
+    return { name: DEFAULT_WORKFLOW_NAME, definition: workflows?.[DEFAULT_WORKFLOW_NAME] ?? DEFAULT_WORKFLOW };
+  }
+
   /**
    * Classify user intent from message text using heuristics.
    *
@@ -666,11 +750,69 @@ export class WorkflowEngine {
     if (state) {
       state.workflow.intentClassification = intent;
       logger.debug("Intent classified", { sessionId, intent });
+      this.selectWorkflow(sessionId, state, intent);
     }
   }
 
   /**
-   * Start the workflow by transitioning from idle to intent.
+   * Switch to the workflow configured for an intent, as long as the current
+   * workflow has not progressed past its first phase.
+   */
+  private selectWorkflow(sessionId: string, state: SessionState, intent: IntentType): void {
+    const current = this.resolveWorkflow(state);
+    const name = this.getWorkflowNameForIntent(state.config.workflow, intent);
+    const phase = state.workflow.currentPhase;
+    if (name === current.name || (phase !== "idle" && phase !== current.definition.phases[0])) {
+      return;
+    }
+
+    state.workflow.workflowName = name;
+    const firstPhase = this.resolveWorkflow(state).definition.phases[0];
+    if (phase !== "idle" && firstPhase && phase !== firstPhase) {
+      this.transitionPhase(sessionId, phase, firstPhase, undefined, `Workflow selected: ${name}`);
+    }
+    logger.info("Workflow selected", { sessionId, workflow: name, intent });
+  }
+
+  /**
+   * Re-classify intent from a follow-up user message.
+   * Messages that classify as "unknown" (e.g. "yes", "go ahead") keep the
+   * current classification. A different intent is treated as a topic change;
+   * if the previous task already reached the last phase of its workflow, the
+   * workflow configured for the new intent starts from its first phase.
+   *
+   * @param sessionId - Session identifier
+   * @param message - User's message text
+   * @returns True if the message changed an existing classification
+   */
+  reclassifyIntent(sessionId: string, message: string): boolean {
+    const state = SessionManager.getStateOrUndefined(sessionId);
+    if (!state) return false;
+
+    const intent = this.classifyIntent(message);
+    const previous = state.workflow.intentClassification;
+    if (intent === "unknown" || intent === previous) return false;
+
+    if (previous === undefined || previous === "unknown") {
+      this.setIntentClassification(sessionId, intent);
+      return false;
+    }
+
+    logger.info("Topic change detected", { sessionId, from: previous, to: intent });
+    const phase = state.workflow.currentPhase;
+    if (phase === this.resolveWorkflow(state).definition.phases.at(-1)) {
+      state.workflow.workflowName = this.getWorkflowNameForIntent(state.config.workflow, intent);
+      const firstPhase = this.resolveWorkflow(state).definition.phases[0];
+      if (firstPhase) {
+        this.transitionPhase(sessionId, phase, firstPhase, undefined, "Topic changed");
+      }
+    }
+    this.setIntentClassification(sessionId, intent);
+    return true;
+  }
+
+  /**
+   * Start the workflow by transitioning from idle to its first phase.
    * Called when the user sends their first message.
    *
    * @param sessionId - Session identifier
@@ -681,58 +823,40 @@ export class WorkflowEngine {
     if (!state) return;
 
     if (state.workflow.currentPhase === "idle") {
-      this.transitionPhase(sessionId, "idle", "intent", undefined, "Workflow started");
-
-      // Classify intent if message provided
+      // Classify intent if message provided (selects the workflow for it)
       if (message) {
         const intent = this.classifyIntent(message);
         this.setIntentClassification(sessionId, intent);
       }
+
+      const firstPhase = this.resolveWorkflow(state).definition.phases[0] ?? "intent";
+      this.transitionPhase(sessionId, "idle", firstPhase, undefined, "Workflow started");
     }
   }
 
   /**
    * Generate phase-specific guidance for the AI.
    *
+   * Phases without guidance text in the definition get a phase header only.
+   *
    * @param phase - Current workflow phase
    * @param intent - Optional intent classification
+   * @param definition - Workflow definition (defaults to the built-in workflow)
    * @returns Guidance text to include in system prompt
    */
-  generatePhaseGuidance(phase: WorkflowPhase, intent?: IntentType): string {
-    const guidance: Record<WorkflowPhase, string> = {
-      idle: "",
-      intent: `[WORKFLOW PHASE: INTENT]
-You are in the INTENT phase. Focus on:
-- Understanding the user's request
-- Asking clarifying questions if needed
-- Identifying the scope of the task`,
-      assessment: `[WORKFLOW PHASE: ASSESSMENT]
-You are in the ASSESSMENT phase. Focus on:
-- Analyzing the problem/request
-- Identifying what information is needed
-- Planning your approach before exploring`,
-      exploration: `[WORKFLOW PHASE: EXPLORATION]
-You are in the EXPLORATION phase. Focus on:
-- Reading relevant files and code
-- Searching for patterns and dependencies
-- Building understanding before making changes
-Do NOT make changes yet - gather information first.`,
-      implementation: `[WORKFLOW PHASE: IMPLEMENTATION]
-You are in the IMPLEMENTATION phase. Focus on:
-- Making targeted, minimal changes
-- Following existing patterns and conventions
-- Testing changes as you go`,
-      verification: `[WORKFLOW PHASE: VERIFICATION]
-You are in the VERIFICATION phase. Focus on:
-- Running tests to verify changes
-- Checking for regressions
-- Validating the implementation meets requirements`,
-    };
+  generatePhaseGuidance(
+    phase: WorkflowPhase,
+    intent?: IntentType,
+    definition: WorkflowDefinition = DEFAULT_WORKFLOW
+  ): string {
+    if (phase === "idle") {
+      return "";
+    }
 
-    let text = guidance[phase];
+    let text = definition.guidance?.[phase] ?? `[WORKFLOW PHASE: ${phase.toUpperCase()}]`;
 
     // Add intent-specific guidance
-    if (intent && intent !== "unknown" && phase !== "idle") {
+    if (intent && intent !== "unknown") {
       const intentGuidance: Record<IntentType, string> = {
         feature: "This is a FEATURE implementation task.",
         bugfix: "This is a BUGFIX task. Focus on identifying root cause.",
@@ -764,7 +888,7 @@ You are in the VERIFICATION phase. Focus on:
   }
 
   /**
-   * Check if the workflow has been completed (reached verification successfully).
+   * Check if the workflow has been completed (returned to idle from its last phase).
    *
    * @param sessionId - Session identifier
    * @returns True if workflow completed
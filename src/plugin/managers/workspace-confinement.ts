@@ -0,0 +1,197 @@
+/**
+ * WorkspaceConfinement - Path resolution for keeping tools inside the project
+ *
+ * Resolves file paths (including `~`, `..` segments and symlinks) and checks
+ * them against the workspace roots (project directory and git worktree) plus
+ * any configured extra roots.
+ *
+ * Key features:
+ * - Symlink-aware resolution, also for paths that do not exist yet
+ * - Workspace roots registered once at plugin init
+ * - Extraction of file paths from parsed shell commands (arguments of
+ *   `cat`, `cp`, `mv`, ..., redirection targets and `cd` targets), with the
+ *   directory a preceding `cd` changed to
+ *
+ * The policy itself (off/ask/deny) is applied by SecurityHardening.
+ */
+
+import { realpathSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { ShellParseResult } from "./shell-parser.js";
+
+/**
+ * Commands whose positional arguments are file paths.
+ */
+const FILE_ARGUMENT_COMMANDS: ReadonlySet<string> = new Set([
+  "cat",
+  "cp",
+  "mv",
+  "rm",
+  "touch",
+  "tee",
+  "head",
+  "tail",
+  "less",
+  "more",
+  "ln",
+  "mkdir",
+  "rmdir",
+]);
+
+/**
+ * Commands that change the working directory of later commands.
+ */
+const DIRECTORY_COMMANDS: ReadonlySet<string> = new Set(["cd", "pushd"]);
+
+/**
+ * Device paths that are always accessible.
+ */
+const ALWAYS_ALLOWED_PATHS: ReadonlySet<string> = new Set([
+  "/dev/null",
+  "/dev/stdin",
+  "/dev/stdout",
+  "/dev/stderr",
+  "/dev/tty",
+]);
+
+/**
+ * A path found in a shell command.
+ */
+export interface CommandPath {
+  /** Path as written in the command */
+  path: string;
+  /** Text of the segment containing the path */
+  segment: string;
+  /** Directory set by a preceding `cd` (as written), if any; relative paths resolve against it */
+  cwd?: string;
+}
+
+// Workspace roots for this plugin instance (resolved)
+let workspaceRoots: string[] = [];
+
+/**
+ * Register the workspace roots (project directory, git worktree).
+ * Relative paths and paths in shell commands resolve against the first root.
+ * Pass an empty list to disable confinement.
+ *
+ * @param roots - Root directories; undefined and duplicate entries are ignored
+ */
+export function setWorkspaceRoots(roots: ReadonlyArray<string | undefined>): void {
+  const resolved = roots
+    .filter((root): root is string => typeof root === "string" && root.length > 0)
+    .map((root) => resolveWorkspacePath(root, process.cwd()));
+  workspaceRoots = [...new Set(resolved)];
+}
+
+/**
+ * Get the registered workspace roots.
+ *
+ * @returns Resolved root directories
+ */
+export function getWorkspaceRoots(): string[] {
+  return [...workspaceRoots];
+}
+
+/**
+ * Resolve a path to an absolute, symlink-free path.
+ * For paths that do not exist yet, the nearest existing ancestor is resolved
+ * and the remaining segments are appended.
+ *
+ * @param filePath - Path to resolve (absolute, relative or starting with `~`)
+ * @param baseDir - Directory for relative paths
+ * @returns Resolved absolute path
+ */
+export function resolveWorkspacePath(filePath: string, baseDir: string): string {
+  const expanded =
+    filePath === "~" || filePath.startsWith("~/") ? join(homedir(), filePath.slice(1)) : filePath;
+  const absolute = resolve(baseDir, expanded);
+
+  const missing: string[] = [];
+  let current = absolute;
+  for (;;) {
+    try {
+      return join(realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) {
+        return absolute;
+      }
+      missing.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Check whether a resolved path is one of the roots or inside one.
+ *
+ * @param resolvedPath - Path from `resolveWorkspacePath()`
+ * @param roots - Resolved root directories
+ * @returns true if the path is inside a root or always allowed
+ */
+export function isWithinRoots(resolvedPath: string, roots: readonly string[]): boolean {
+  if (ALWAYS_ALLOWED_PATHS.has(resolvedPath) || resolvedPath.startsWith("/dev/fd/")) {
+    return true;
+  }
+
+  return roots.some((root) => {
+    const rel = relative(root, resolvedPath);
+    return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+  });
+}
+
+/**
+ * Extract file paths from a parsed shell command.
+ * Covers positional arguments of file commands (`cat`, `cp`, `mv`, ...),
+ * redirection targets and `cd`/`pushd` targets. Paths after a `cd` carry the
+ * directory it changed to (`cd /etc && cat passwd`). Words containing
+ * expansions (`$VAR`, backticks) cannot be resolved statically and are skipped.
+ *
+ * @param parsed - Result of `parseShellCommand()`
+ * @returns Paths with the segment they appear in
+ */
+export function extractCommandPaths(parsed: ShellParseResult): CommandPath[] {
+  const paths: CommandPath[] = [];
+  let cwd: string | undefined;
+  const isStatic = (path: string): boolean => path.length > 0 && path !== "-" && !/[$`]/.test(path);
+  const add = (path: string, segment: string): void => {
+    if (isStatic(path)) {
+      paths.push({ path, segment, ...(cwd !== undefined && { cwd }) });
+    }
+  };
+
+  for (const segment of parsed.segments) {
+    for (const command of segment.commands) {
+      const name = basename(command.argv[0] ?? "");
+      if (DIRECTORY_COMMANDS.has(name)) {
+        // `cd` without a directory goes home
+        const target = command.argv.slice(1).find((arg) => !arg.startsWith("-") || arg === "-") ?? "~";
+        add(target, segment.text);
+        if (isStatic(target)) {
+          cwd = cwd === undefined || isAbsolute(target) || target.startsWith("~") ? target : join(cwd, target);
+        }
+      }
+
+      if (FILE_ARGUMENT_COMMANDS.has(name)) {
+        let optionsEnded = false;
+        for (const arg of command.argv.slice(1)) {
+          if (!optionsEnded && arg === "--") {
+            optionsEnded = true;
+          } else if (optionsEnded || !arg.startsWith("-")) {
+            add(arg, segment.text);
+          }
+        }
+      }
+
+      for (const redirect of command.redirects) {
+        // Heredocs/herestrings carry data; fd duplication targets are fds
+        if (redirect.operator.includes("<<")) continue;
+        if (redirect.operator.endsWith("&") && /^(\d+|-)$/.test(redirect.target)) continue;
+        add(redirect.target, segment.text);
+      }
+    }
+  }
+
+  return paths;
+}
@@ -70,7 +70,7 @@ export interface PluginContext {
 // =============================================================================
 
 /**
- * Workflow phase enumeration.
+ * Phases of the built-in (default) workflow.
  * Represents the current phase of the development workflow.
  *
  * Phase flow: intent → assessment → exploration → implementation → verification
@@ -81,7 +81,7 @@ export interface PluginContext {
  * - implementation: Writing code, making changes
  * - verification: Testing, validating changes
  */
-export type WorkflowPhase =
+export type BuiltinWorkflowPhase =
   | "intent"
   | "assessment"
   | "exploration"
@@ -89,6 +89,13 @@ export type WorkflowPhase =
   | "verification"
   | "idle";
 
+/**
+ * Workflow phase of the session's workflow definition.
+ * Custom workflows (see `WorkflowDefinition` in the config) declare their own
+ * phases; every workflow starts and ends in "idle".
+ */
+export type WorkflowPhase = BuiltinWorkflowPhase | (string & {});
+
 /**
  * Record of a phase transition in the workflow.
  * Used for tracking phase history and debugging workflow behavior.
@@ -121,6 +128,8 @@ export interface WorkflowState {
   startedAt: number;
   /** Whether workflow has been completed (reached verification) */
   completed: boolean;
+  /** Name of the workflow definition in use (undefined means "default") */
+  workflowName?: string;
 }
 
 /**
@@ -184,6 +193,36 @@ export interface ToolExecutionRecord {
   error?: string;
 }
 
+/**
+ * Why a session was evicted from memory.
+ * - idle: No activity for longer than the configured idle limit
+ * - capacity: Least recently active session removed to stay under the session cap
+ */
+export type SessionEvictionReason = "idle" | "capacity";
+
+/**
+ * Eviction policy for in-memory session state.
+ * A value of 0 disables the corresponding limit.
+ */
+export interface SessionEvictionPolicy {
+  /** Maximum number of sessions kept in memory (LRU by lastActivityAt) */
+  maxSessions: number;
+  /** Maximum idle time in milliseconds, based on lastActivityAt */
+  maxIdleMs: number;
+}
+
+/**
+ * Counters for session evictions, for monitoring memory pressure.
+ */
+export interface SessionEvictionStats {
+  /** Total sessions evicted */
+  evicted: number;
+  /** Sessions evicted for exceeding the idle limit */
+  idle: number;
+  /** Sessions evicted to stay under the session cap */
+  capacity: number;
+}
+
 // =============================================================================
 // Hook Handler Types
 // =============================================================================
@@ -292,6 +331,22 @@ export interface CompactionHookResult {
   summary: string;
 }
 
+/** Author of a chat message */
+export type ChatMessageRole = "user" | "assistant";
+
+/**
+ * Chat message hook payload.
+ * Fired for user prompts and for completed assistant responses.
+ */
+export interface ChatMessageHookPayload {
+  /** Session identifier */
+  sessionId: string;
+  /** Who wrote the message */
+  role: ChatMessageRole;
+  /** Plain text content of the message */
+  text: string;
+}
+
 // =============================================================================
 // Hook Handler Function Types
 // =============================================================================
@@ -326,6 +381,11 @@ export type CompactionHookHandler = (
   payload: CompactionHookPayload
 ) => CompactionHookResult | Promise<CompactionHookResult>;
 
+/** Chat message hook handler function type */
+export type ChatMessageHookHandler = (
+  payload: ChatMessageHookPayload
+) => void | Promise<void>;
+
 // =============================================================================
 // Plugin Hooks Interface
 // =============================================================================
@@ -346,6 +406,8 @@ export interface PluginHooks {
   "experimental.chat.system.transform": SystemTransformHookHandler;
   /** Session compaction handler */
   "experimental.session.compacting": CompactionHookHandler;
+  /** Chat message handler (user prompts and assistant responses) */
+  "chat.message": ChatMessageHookHandler;
 }
 
 // =============================================================================
@@ -438,6 +500,12 @@ export interface CommandValidationResult {
   matchedPattern?: string;
   /** Normalized command used for validation */
   normalizedCommand?: string;
+  /** Command segment that triggered a deny/ask (a single command, payload or the whole line) */
+  segment?: string;
+  /** Set when the command differed after de-obfuscation */
+  obfuscated?: boolean;
+  /** Set when a `security.allow` rule overrode a deny/ask decision */
+  override?: SecurityOverride;
 }
 
 /**
@@ -450,14 +518,78 @@ export interface FileValidationResult {
   reason?: string;
   /** Pattern that matched */
   matchedPattern?: string;
+  /** Set when a `security.allow` rule overrode a deny/ask decision */
+  override?: SecurityOverride;
 }
 
 /**
- * Configuration for security patterns.
- * Extends the base security config from Config.
+ * Compiled `security.allow` exception rule.
+ * Exactly one of `path` or `command` is set.
+ */
+export interface SecurityAllowMatcher {
+  /** Position of the rule in `security.allow` */
+  index: number;
+  /** Tool name the rule is scoped to (lowercase), or undefined for any tool */
+  tool?: string;
+  /** Compiled path glob (file tools) */
+  path?: RegExp;
+  /** Compiled command regex (command tools) */
+  command?: RegExp;
+  /** Why the exception exists */
+  reason?: string;
+}
+
+/**
+ * Record of an allow rule overriding a deny/ask decision.
+ */
+export interface SecurityOverride {
+  /** Decision the pipeline made before the exception applied */
+  originalAction: Exclude<SecurityAction, "allow">;
+  /** Reason given for the original decision */
+  originalReason?: string;
+  /** Pattern that triggered the original decision */
+  originalPattern?: string;
+  /** Position of the matching rule in `security.allow` */
+  ruleIndex: number;
+  /** Reason from the matching rule */
+  ruleReason?: string;
+  /** Sanitized command or file path the rule matched */
+  target: string;
+}
+
+/**
+ * Override entry stored in session metadata (`securityOverrides`) for audit.
+ */
+export interface SecurityOverrideRecord extends SecurityOverride {
+  /** Tool the override applied to */
+  tool: string;
+  /** When the override was applied (ISO string) */
+  timestamp: string;
+}
+
+/**
+ * Denied tool call stored in session metadata (`securityBlocks`), so the
+ * model can be reminded of it (e.g. after compaction).
+ */
+export interface SecurityBlockRecord {
+  /** Tool that was denied */
+  tool: string;
+  /** Why the call was denied */
+  reason: string;
+  /** Pattern that matched */
+  matchedPattern?: string;
+  /** Sanitized command or file path */
+  input?: string;
+  /** When the call was denied (ISO string) */
+  timestamp: string;
+}
+
+/**
+ * Compiled security policy used by validation.
+ * Built-in patterns merged with the user's `security` config section.
  */
 export interface SecurityPatternConfig {
-  /** Additional blocked command patterns (RegExp strings) */
+  /** Blocked command patterns */
   blockedPatterns: readonly RegExp[];
   /** Warning patterns that trigger "ask" action */
   warningPatterns: readonly RegExp[];
@@ -465,6 +597,49 @@ export interface SecurityPatternConfig {
   blockedFiles: readonly RegExp[];
   /** Blocked path patterns */
   blockedPaths: readonly RegExp[];
+  /** Exceptions that override deny/ask decisions */
+  allowRules: readonly SecurityAllowMatcher[];
+  /** Restrictions from `security.preset` and `security.permissions` */
+  permissionRules: readonly PermissionRule[];
+  /** Workspace confinement policy */
+  confinement: {
+    /** Action for paths outside the workspace ("off" disables confinement) */
+    mode: "off" | "ask" | "deny";
+    /** Extra roots (unresolved, as configured) */
+    allowedRoots: readonly string[];
+  };
+  /** Network egress policy */
+  network: {
+    /** Action for destinations outside the allowed domains ("off" disables the policy) */
+    mode: "off" | "ask" | "deny";
+    /** Compiled allowed domain patterns (empty allows every domain that is not denied) */
+    allowedDomains: readonly RegExp[];
+    /** Compiled denied domain patterns */
+    deniedDomains: readonly RegExp[];
+  };
+}
+
+/**
+ * Action for a restricted permission.
+ */
+export type RestrictedAction = Exclude<SecurityAction, "allow">;
+
+/**
+ * Compiled restriction of a permission (see SecurityPresets).
+ */
+export interface PermissionRule {
+  /** Permission id (e.g. "git-push") */
+  permission: string;
+  /** Human-readable permission name */
+  label: string;
+  /** Action when the permission is used */
+  action: RestrictedAction;
+  /** Where the restriction comes from: a preset name or `security.permissions` */
+  source: "strict" | "balanced" | "permissive" | "permissions";
+  /** Tools the permission covers (lowercase) */
+  tools: readonly string[];
+  /** Patterns for simple commands the permission covers */
+  commands: readonly RegExp[];
 }
 
 /**
@@ -481,6 +656,12 @@ export interface SecurityValidationStats {
   filesBlocked: number;
   /** Obfuscation attempts detected */
   obfuscationDetected: number;
+  /** Deny/ask decisions overridden by allow rules */
+  overridesApplied: number;
+  /** Secrets found in tool outputs (warn and redact modes) */
+  secretsDetected: number;
+  /** Secrets replaced in tool outputs (redact mode) */
+  secretsRedacted: number;
   /** Average validation time in ms */
   avgValidationTimeMs: number;
 }
@@ -490,19 +671,81 @@ export interface SecurityValidationStats {
 // =============================================================================
 
 /**
- * Represents a single todo item tracked by TodoEnforcer.
+ * Todo lifecycle status:
+ * - pending: Not started
+ * - in_progress: Being worked on
+ * - completed: Done
+ * - cancelled: Dropped; never blocks a stop
+ */
+export type TodoStatus = "pending" | "in_progress" | "completed" | "cancelled";
+
+/**
+ * Todo priority (the levels used by `todowrite`).
+ */
+export type TodoPriority = "high" | "medium" | "low";
+
+/**
+ * Where a todo came from:
+ * - todowrite: `todowrite` tool payload
+ * - markdown: Checkbox in an assistant message
+ * - restored: Preserved state block after compaction
+ */
+export type TodoSource = "todowrite" | "markdown" | "restored";
+
+/**
+ * Represents a single todo item in the session todo store.
+ * Shared by TodoEnforcer (stop blocking) and CompactionHandler (preservation).
  */
 export interface TodoItem {
   /** Unique identifier for this todo */
   id: string;
   /** Human-readable description of the todo */
   description: string;
+  /** Current status */
+  status: TodoStatus;
+  /** Priority, if one was given */
+  priority?: TodoPriority;
+  /** Tags from `[tag]` markers, lowercased (e.g. "deferred") */
+  tags?: string[];
+  /** Parent todo (nested checkbox or `todowrite` parentId) */
+  parentId?: string;
+  /** Where the todo came from */
+  source: TodoSource;
   /** Timestamp when the todo was created (ms since epoch) */
   createdAt: number;
-  /** Timestamp when the todo was completed (ms since epoch), undefined if pending */
+  /** Timestamp when the todo was completed (ms since epoch), undefined if not completed */
   completedAt?: number;
 }
 
+/**
+ * Todo item as sent by the `todowrite` tool. Fields are optional because
+ * payloads differ between OpenCode versions.
+ */
+export interface TodoWriteItem {
+  id?: string;
+  content?: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  parentId?: string;
+}
+
+/**
+ * Todo counts for a session.
+ */
+export interface TodoSummary {
+  /** Todos that are not cancelled */
+  total: number;
+  /** Pending and in-progress todos */
+  pending: number;
+  /** In-progress todos */
+  inProgress: number;
+  /** Completed todos */
+  completed: number;
+  /** Cancelled todos */
+  cancelled: number;
+}
+
 /**
  * Result of checking pending todos before session stop.
  */
@@ -515,6 +758,142 @@ export interface PendingTodosResult {
   pendingCount: number;
   /** List of pending todo descriptions (for display) */
   pendingTodos: string[];
+  /** Open todos that don't block under the enforcement policies */
+  exemptCount?: number;
+  /** Blocked stop attempts in a row with the same blocking todos (including this one if blocked) */
+  blockedAttempts?: number;
+  /** Whether the stop is allowed only because of `allowStopAfterAttempts` */
+  overridden?: boolean;
+}
+
+// =============================================================================
+// Phase Gate Types
+// =============================================================================
+
+/**
+ * Phase gates:
+ * - early-phase: Implementation tool used in a gated phase (e.g. intent)
+ * - exploration: Fewer read/search calls than required before changes
+ * - todos: No todo list before changes
+ * - verification: Changes not verified by a test/build run before stop
+ */
+export type PhaseGateName = "early-phase" | "exploration" | "todos" | "verification";
+
+/**
+ * Result of evaluating the phase gates for a tool call or stop.
+ */
+export interface PhaseGateResult {
+  /** allow: all gates open, warn: proceed with a warning, deny: blocked */
+  action: "allow" | "warn" | "deny";
+  /** The first gate that is closed */
+  gate?: PhaseGateName;
+  /** Why the gate is closed */
+  reason?: string;
+  /** What the model must do to unlock the gate */
+  unlock?: string;
+}
+
+/**
+ * Per-session progress counted by the phase gates.
+ * Stored in session metadata under "phaseGates".
+ */
+export interface PhaseGateProgress {
+  /** Read/search calls so far */
+  explorationCalls: number;
+  /** Implementation tool calls so far */
+  changes: number;
+}
+
+// =============================================================================
+// Verification Types
+// =============================================================================
+
+/**
+ * Test runner or checker a verification command was recognized as.
+ * "unknown" covers wrappers like `npm test` whose output matched no runner.
+ */
+export type VerificationRunner = "jest" | "vitest" | "bun" | "pytest" | "go" | "cargo" | "tsc" | "unknown";
+
+/**
+ * Outcome of a single verification run (test, build or type-check command).
+ */
+export interface VerificationResult {
+  /** Command that was run */
+  command: string;
+  /** Runner recognized from the command or its output */
+  runner: VerificationRunner;
+  /** Exit code (if the tool reported one) */
+  exitCode?: number;
+  /** Whether the run was green */
+  success: boolean;
+  /** Passed tests (if parsed from the output) */
+  passed?: number;
+  /** Failed tests (if parsed from the output) */
+  failed?: number;
+  /** Compiler errors (tsc) */
+  errors?: number;
+  /** When the run finished */
+  timestamp: number;
+}
+
+/**
+ * Per-session verification status.
+ * Stored in session metadata under "verification".
+ */
+export interface VerificationStatus {
+  /** Most recent verification run */
+  lastResult?: VerificationResult;
+  /** When the last green run finished */
+  lastGreenAt?: number;
+  /** File changes since the last green run (or session start) */
+  editsSinceGreen: number;
+  /** Verification runs so far */
+  runs: number;
+}
+
+// =============================================================================
+// Change Ledger Types
+// =============================================================================
+
+/**
+ * Kind of change made to a file:
+ * - write: File written or created (write tool, shell redirection)
+ * - edit: File edited in place (edit/multiedit tools, `sed -i`)
+ * - move: File moved or renamed (source and destination of `mv`)
+ * - copy: File created as a copy (destination of `cp`)
+ * - delete: File removed (`rm`)
+ */
+export type FileChangeOperation = "write" | "edit" | "move" | "copy" | "delete";
+
+/**
+ * A file in the session's change ledger.
+ */
+export interface FileChangeEntry {
+  /** Path relative to the workspace root (absolute if outside it) */
+  path: string;
+  /** Number of changes made to the file */
+  edits: number;
+  /** Distinct kinds of changes, in the order first seen */
+  operations: FileChangeOperation[];
+  /** When the file was first changed */
+  firstTouched: number;
+  /** When the file was last changed */
+  lastTouched: number;
+}
+
+// =============================================================================
+// Checkpoint Types
+// =============================================================================
+
+/**
+ * Checkpoints taken by a session.
+ * Stored in session metadata under "checkpoints".
+ */
+export interface SessionCheckpoints {
+  /** Checkpoint identifiers, oldest first */
+  ids: string[];
+  /** Whether the before-implementation checkpoint was attempted */
+  beforeImplementation: boolean;
 }
 
 // =============================================================================
@@ -536,6 +915,24 @@ export interface ErrorRecoveryState {
   strikeCount?: number;
   /** Timestamp when escalation was resolved */
   resolvedAt?: number;
+  /** Why the session escalated: consecutive strikes or a repeated-failure loop */
+  reason?: "strikes" | "loop";
+  /** Fingerprint of the error that triggered the escalation */
+  fingerprint?: string;
+  /** Agent the session escalated to */
+  agent?: string;
+}
+
+/**
+ * The same error recurring within the recent tool calls of a session.
+ */
+export interface ErrorLoop {
+  /** Recurring error fingerprint (tool:category:normalized first error line) */
+  fingerprint: string;
+  /** How often the fingerprint was seen within the window */
+  count: number;
+  /** Number of recent tool calls considered */
+  window: number;
 }
 
 /**
@@ -550,6 +947,37 @@ export interface LastErrorInfo {
   output: string;
   /** Categorized error type */
   category: string;
+  /** Confidence of the detection (0-1) */
+  confidence?: number;
+  /** Error fingerprint (see ErrorRecovery.fingerprintError) */
+  fingerprint?: string;
+}
+
+/**
+ * What an error detection was based on.
+ * - exit-code: Non-zero exit code of a command
+ * - error-field: Error reported by the tool itself
+ * - test-summary: Failure counts in a test runner or compiler summary
+ * - pattern: Error pattern in the output text
+ */
+export type ErrorDetectionSource = "exit-code" | "error-field" | "test-summary" | "pattern";
+
+/**
+ * Result of analyzing a tool output for errors.
+ */
+export interface ErrorDetection {
+  /** Whether an error was detected (at any confidence) */
+  detected: boolean;
+  /** Confidence of the detection (0-1); only high-confidence detections are strikes */
+  confidence: number;
+  /** What the detection was based on */
+  source?: ErrorDetectionSource;
+  /** Error category for recovery suggestions */
+  category: string;
+  /** Source of the matched error pattern */
+  pattern?: string;
+  /** Short explanation, e.g. "exit code 1" or "3 failed tests" */
+  reason?: string;
 }
 
 /**
@@ -580,6 +1008,12 @@ export interface ErrorRecoveryResult {
   recoveryMessage?: string;
   /** Formatted escalation message (for strike 3+) */
   escalationMessage?: string;
+  /** Detection behind the result (including ignored low-confidence detections) */
+  detection?: ErrorDetection;
+  /** Fingerprint of the detected error */
+  fingerprint?: string;
+  /** Repeated-failure loop, if the error keeps recurring */
+  loop?: ErrorLoop;
 }
 
 // =============================================================================
@@ -686,4 +1120,5 @@ export interface HookSafeDefaults {
   "tool.execute.after": void;
   "experimental.chat.system.transform": SystemTransformHookResult;
   "experimental.session.compacting": CompactionHookResult;
+  "chat.message": void;
 }
@@ -19,6 +19,7 @@ const SAFE_DEFAULTS: HookSafeDefaults = {
   "tool.execute.after": undefined,
   "experimental.chat.system.transform": { system: "" },
   "experimental.session.compacting": { summary: "" },
+  "chat.message": undefined,
 };
 
 function getSafeDefault<T extends HookName>(
@@ -105,3 +106,24 @@ export function sanitizeLogOutput(output: string, maxLength = 500): string {
     ? sanitized.substring(0, maxLength) + "..."
     : sanitized;
 }
+
+/**
+ * Extract the command string from a bash/shell tool input
+ * (a string, or an object with `command`, `cmd` or `script`).
+ */
+export function extractCommand(input: unknown): string | undefined {
+  if (typeof input === "string") {
+    return input;
+  }
+
+  if (input && typeof input === "object") {
+    const obj = input as Record<string, unknown>;
+    for (const key of ["command", "cmd", "script"]) {
+      if (typeof obj[key] === "string") {
+        return obj[key];
+      }
+    }
+  }
+
+  return undefined;
+}
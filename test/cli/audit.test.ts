@@ -0,0 +1,75 @@
+/**
+ * Audit Command Unit Tests
+ *
+ * Tests for the audit command that filters and summarizes the security audit log.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runAuditCommand } from "../../src/cli/audit.js";
+import { SecurityAuditLog } from "../../src/lib/audit-log.js";
+
+describe("Audit Command", () => {
+  let testDir: string;
+  let originalLog: typeof console.log;
+  let originalExitCode: number | undefined;
+  let consoleOutput: string[];
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-audit-cli-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+
+    writeFileSync(
+      join(testDir, "opencode.json"),
+      JSON.stringify({ atreides: { security: { audit: { enabled: true, path: "logs/audit.jsonl" } } } })
+    );
+    const log = new SecurityAuditLog(join(testDir, "logs/audit.jsonl"), { maxBytes: 1024 * 1024, maxFiles: 1 });
+    log.append({ timestamp: "2026-03-01T10:00:00.000Z", sessionId: "s1", tool: "bash", decision: "deny", input: "rm -rf /", matchedPattern: "rm", obfuscated: true });
+    log.append({ timestamp: "2026-03-02T10:00:00.000Z", sessionId: "s2", tool: "read", decision: "ask", input: ".env", matchedPattern: "env", obfuscated: false });
+
+    originalExitCode = process.exitCode;
+    originalLog = console.log;
+    consoleOutput = [];
+    console.log = (...args: unknown[]) => {
+      consoleOutput.push(args.map(String).join(" "));
+    };
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    process.exitCode = originalExitCode;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("reads the configured log and summarizes it", async () => {
+    const result = await runAuditCommand({ directory: testDir });
+
+    expect(result.success).toBe(true);
+    expect(result.logPath).toBe(join(testDir, "logs/audit.jsonl"));
+    expect(result.summary.byDecision).toEqual({ deny: 1, ask: 1, override: 0 });
+    expect(consoleOutput.join("\n")).toContain("rm -rf /");
+  });
+
+  test("applies filters, including whole-day --until dates", async () => {
+    expect((await runAuditCommand({ directory: testDir, session: "s2" })).entries).toHaveLength(1);
+    expect((await runAuditCommand({ directory: testDir, until: "2026-03-01" })).entries.map((e) => e.sessionId)).toEqual(["s1"]);
+    expect((await runAuditCommand({ directory: testDir, since: "2026-03-02", tool: "read" })).entries).toHaveLength(1);
+  });
+
+  test("prints JSON lines with --json", async () => {
+    await runAuditCommand({ directory: testDir, decision: "deny", json: true });
+
+    expect(consoleOutput).toHaveLength(1);
+    expect(JSON.parse(consoleOutput[0] ?? "")).toMatchObject({ sessionId: "s1", obfuscated: true });
+  });
+
+  test("rejects invalid dates and decisions", async () => {
+    const result = await runAuditCommand({ directory: testDir, since: "yesterday-ish" });
+    expect(result.success).toBe(false);
+    expect(process.exitCode).toBe(1);
+
+    expect((await runAuditCommand({ directory: testDir, decision: "block" })).success).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Checkpoint Command Unit Tests
+ *
+ * Tests for the checkpoint command that lists, creates and restores project checkpoints.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runCheckpointCommand } from "../../src/cli/checkpoint.js";
+
+describe("Checkpoint Command", () => {
+  let testDir: string;
+  let originalLog: typeof console.log;
+  let originalExitCode: number | undefined;
+  let consoleOutput: string[];
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-checkpoint-cli-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, "a.txt"), "one\n");
+
+    originalExitCode = process.exitCode;
+    originalLog = console.log;
+    consoleOutput = [];
+    console.log = (...args: unknown[]) => {
+      consoleOutput.push(args.map(String).join(" "));
+    };
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    process.exitCode = originalExitCode;
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("creates, lists and restores checkpoints", async () => {
+    const created = await runCheckpointCommand({ directory: testDir, action: "create", reason: "manual", files: ["a.txt"] });
+    expect(created.success).toBe(true);
+    const id = created.checkpoints[0]!.id;
+
+    const listed = await runCheckpointCommand({ directory: testDir });
+    expect(listed.checkpoints.map((c) => c.id)).toEqual([id]);
+    expect(consoleOutput.join("\n")).toContain(id);
+
+    writeFileSync(join(testDir, "a.txt"), "two\n");
+    const restored = await runCheckpointCommand({ directory: testDir, action: "restore", id });
+    expect(restored.restoredFiles).toEqual(["a.txt"]);
+    expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("one\n");
+  });
+
+  test("prints checkpoints as JSON lines", async () => {
+    await runCheckpointCommand({ directory: testDir, action: "create", files: ["a.txt"] });
+    consoleOutput = [];
+
+    await runCheckpointCommand({ directory: testDir, json: true });
+    expect(consoleOutput).toHaveLength(1);
+    expect(JSON.parse(consoleOutput[0]!)).toMatchObject({ kind: "files", reason: "manual", files: ["a.txt"] });
+  });
+
+  test("rejects invalid actions and missing ids", async () => {
+    expect((await runCheckpointCommand({ directory: testDir, action: "drop" })).error).toContain("Invalid action");
+    expect(process.exitCode).toBe(1);
+    expect((await runCheckpointCommand({ directory: testDir, action: "restore" })).error).toContain("Missing checkpoint id");
+  });
+});
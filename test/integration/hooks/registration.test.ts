@@ -129,11 +129,11 @@ describe("Integration: Hook Registration", () => {
   });
 
   // Test 7: Hook object structure is correct
-  test("hook object has exactly 6 hooks", async () => {
+  test("hook object has exactly 7 hooks", async () => {
     const harness = await createTestHarness();
 
     const hookKeys = Object.keys(harness.hooks);
-    expect(hookKeys.length).toBe(6);
+    expect(hookKeys.length).toBe(7);
 
     expect(hookKeys).toContain("event");
     expect(hookKeys).toContain("stop");
@@ -141,6 +141,7 @@ describe("Integration: Hook Registration", () => {
     expect(hookKeys).toContain("tool.execute.after");
     expect(hookKeys).toContain("experimental.chat.system.transform");
     expect(hookKeys).toContain("experimental.session.compacting");
+    expect(hookKeys).toContain("chat.message");
 
     harness.cleanup();
   });
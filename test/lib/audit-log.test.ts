@@ -0,0 +1,146 @@
+/**
+ * Audit Log Module Unit Tests
+ *
+ * Tests for the append-only security audit log, rotation, filtering and summaries.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFileSync, existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  SecurityAuditLog,
+  filterAuditEntries,
+  readAuditEntries,
+  resolveAuditLogPath,
+  summarizeAuditEntries,
+  type SecurityAuditEntry,
+} from "../../src/lib/audit-log.js";
+
+function entry(overrides: Partial<SecurityAuditEntry> = {}): SecurityAuditEntry {
+  return {
+    timestamp: "2026-03-01T10:00:00.000Z",
+    sessionId: "session-1",
+    tool: "bash",
+    decision: "deny",
+    input: "rm -rf /",
+    matchedPattern: "rm\\s+-rf\\s+\\/",
+    obfuscated: false,
+    ...overrides,
+  };
+}
+
+describe("Audit Log Module", () => {
+  let testDir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-audit-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    logPath = join(testDir, "nested", "audit.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("SecurityAuditLog", () => {
+    test("appends entries as JSON lines, creating the directory", () => {
+      const log = new SecurityAuditLog(logPath, { maxBytes: 1024 * 1024, maxFiles: 3 });
+
+      expect(log.append(entry())).toBe(true);
+      expect(log.append(entry({ decision: "ask", tool: "read" }))).toBe(true);
+
+      const entries = readAuditEntries(logPath);
+      expect(entries).toHaveLength(2);
+      expect(entries[1]?.decision).toBe("ask");
+    });
+
+    test("rotates when the file would exceed maxBytes and keeps maxFiles copies", () => {
+      const size = JSON.stringify(entry()).length + 1;
+      const log = new SecurityAuditLog(logPath, { maxBytes: size * 2, maxFiles: 2 });
+
+      for (let i = 0; i < 7; i++) {
+        log.append(entry({ sessionId: `s${i}` }));
+      }
+
+      expect(existsSync(`${logPath}.1`)).toBe(true);
+      expect(existsSync(`${logPath}.2`)).toBe(true);
+      expect(existsSync(`${logPath}.3`)).toBe(false);
+      // Oldest entries were dropped, the rest are read in order
+      expect(readAuditEntries(logPath).map((e) => e.sessionId)).toEqual(["s2", "s3", "s4", "s5", "s6"]);
+    });
+
+    test("returns false instead of throwing when the file cannot be written", () => {
+      writeFileSync(join(testDir, "not-a-dir"), "");
+      const log = new SecurityAuditLog(join(testDir, "not-a-dir", "audit.jsonl"), { maxBytes: 1024, maxFiles: 1 });
+      expect(log.append(entry())).toBe(false);
+    });
+  });
+
+  describe("readAuditEntries", () => {
+    test("returns an empty list for a missing log", () => {
+      expect(readAuditEntries(logPath)).toEqual([]);
+    });
+
+    test("skips malformed lines", () => {
+      const log = new SecurityAuditLog(logPath, { maxBytes: 1024 * 1024, maxFiles: 1 });
+      log.append(entry());
+      appendFileSync(logPath, "{not json\n\n");
+      log.append(entry({ sessionId: "session-2" }));
+
+      expect(readAuditEntries(logPath).map((e) => e.sessionId)).toEqual(["session-1", "session-2"]);
+    });
+  });
+
+  describe("filterAuditEntries", () => {
+    const entries = [
+      entry(),
+      entry({ timestamp: "2026-03-02T10:00:00.000Z", sessionId: "session-2", tool: "Read", decision: "ask", matchedPattern: "\\.env$" }),
+      entry({ timestamp: "2026-03-03T10:00:00.000Z", decision: "override", matchedPattern: "workspace-confinement" }),
+    ];
+
+    test("filters by session, tool and decision", () => {
+      expect(filterAuditEntries(entries, { sessionId: "session-1" })).toHaveLength(2);
+      expect(filterAuditEntries(entries, { tool: "read" })).toHaveLength(1);
+      expect(filterAuditEntries(entries, { decision: "override" })).toHaveLength(1);
+    });
+
+    test("filters by pattern substring", () => {
+      expect(filterAuditEntries(entries, { pattern: "CONFINEMENT" })[0]?.decision).toBe("override");
+    });
+
+    test("filters by date range (inclusive)", () => {
+      const result = filterAuditEntries(entries, {
+        since: new Date("2026-03-02T10:00:00.000Z"),
+        until: new Date("2026-03-03T10:00:00.000Z"),
+      });
+      expect(result.map((e) => e.sessionId)).toEqual(["session-2", "session-1"]);
+    });
+  });
+
+  describe("summarizeAuditEntries", () => {
+    test("counts by decision, session, tool and pattern", () => {
+      const summary = summarizeAuditEntries([
+        entry(),
+        entry({ timestamp: "2026-03-02T00:00:00.000Z", decision: "ask", tool: "read", matchedPattern: "\\.env$" }),
+        entry({ timestamp: "2026-03-03T00:00:00.000Z", sessionId: "session-2" }),
+      ]);
+
+      expect(summary.total).toBe(3);
+      expect(summary.byDecision).toEqual({ deny: 2, ask: 1, override: 0 });
+      expect(summary.bySession).toEqual({ "session-1": 2, "session-2": 1 });
+      expect(summary.byTool).toEqual({ bash: 2, read: 1 });
+      expect(summary.byPattern["\\.env$"]).toBe(1);
+      expect(summary.firstTimestamp).toBe("2026-03-01T10:00:00.000Z");
+      expect(summary.lastTimestamp).toBe("2026-03-03T00:00:00.000Z");
+    });
+  });
+
+  describe("resolveAuditLogPath", () => {
+    test("resolves relative paths against the project", () => {
+      expect(resolveAuditLogPath("/project", ".opencode/audit.jsonl")).toBe("/project/.opencode/audit.jsonl");
+      expect(resolveAuditLogPath("/project", "/var/log/audit.jsonl")).toBe("/var/log/audit.jsonl");
+    });
+  });
+});
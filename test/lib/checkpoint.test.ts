@@ -0,0 +1,174 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  CHECKPOINT_BACKUP_DIR,
+  createCheckpoint,
+  createProcessShell,
+  listCheckpoints,
+  pruneCheckpoints,
+  restoreCheckpoint,
+} from "../../src/lib/checkpoint.js";
+
+const shell = createProcessShell();
+
+async function git(dir: string, command: string): Promise<string> {
+  const result = await shell(`git ${command}`, { cwd: dir });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${command} failed: ${result.stderr}`);
+  }
+  return result.stdout.trim();
+}
+
+describe("Checkpoints", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-checkpoint-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("git repositories", () => {
+    beforeEach(async () => {
+      await git(testDir, "init -q");
+      await git(testDir, "config user.email test@example.com");
+      await git(testDir, "config user.name Test");
+      writeFileSync(join(testDir, "a.txt"), "one\n");
+      await git(testDir, "add a.txt");
+      await git(testDir, "commit -q -m initial");
+    });
+
+    test("snapshots local changes without touching the work tree", async () => {
+      writeFileSync(join(testDir, "a.txt"), "two\n");
+
+      const result = await createCheckpoint(testDir, shell, { reason: "before-implementation", sessionId: "s1" });
+
+      expect(result.success).toBe(true);
+      expect(result.checkpoint).toMatchObject({ kind: "git", reason: "before-implementation", sessionId: "s1" });
+      expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("two\n");
+      expect(await git(testDir, "stash list")).toBe("");
+      expect(await git(testDir, `show ${result.checkpoint!.commit}:a.txt`)).toBe("two");
+
+      const listed = await listCheckpoints(testDir, shell);
+      expect(listed).toHaveLength(1);
+      expect(listed[0]).toMatchObject({ id: result.checkpoint!.id, reason: "before-implementation", sessionId: "s1" });
+    });
+
+    test("restores a checkpoint after taking a safety checkpoint", async () => {
+      const { checkpoint } = await createCheckpoint(testDir, shell, { reason: "manual" });
+      writeFileSync(join(testDir, "a.txt"), "broken\n");
+
+      const result = await restoreCheckpoint(testDir, shell, checkpoint!.id);
+
+      expect(result.success).toBe(true);
+      expect(result.restoredFiles).toEqual(["a.txt"]);
+      expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("one\n");
+      expect(result.safetyCheckpoint?.reason).toBe("before-restore");
+      expect(await git(testDir, `show ${result.safetyCheckpoint!.commit}:a.txt`)).toBe("broken");
+    });
+
+    test("aborts the restore when the safety checkpoint fails", async () => {
+      const { checkpoint } = await createCheckpoint(testDir, shell, { reason: "manual" });
+      writeFileSync(join(testDir, "a.txt"), "uncommitted\n");
+      // Fail the git commands of the safety checkpoint
+      const failing: typeof shell = (command, options) =>
+        command.includes("before-restore") ? Promise.resolve({ stdout: "", stderr: "disk full", exitCode: 1 }) : shell(command, options);
+
+      const result = await restoreCheckpoint(testDir, failing, checkpoint!.id);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("use force");
+      expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("uncommitted\n");
+
+      const forced = await restoreCheckpoint(testDir, failing, checkpoint!.id, { force: true });
+      expect(forced.success).toBe(true);
+      expect(forced.safetyCheckpoint).toBeUndefined();
+      expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("one\n");
+    });
+
+    test("reports unknown checkpoints", async () => {
+      const result = await restoreCheckpoint(testDir, shell, "missing");
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("missing");
+    });
+
+    test("prunes the oldest checkpoints", async () => {
+      for (const reason of ["first", "second", "third"]) {
+        await createCheckpoint(testDir, shell, { reason });
+      }
+      await createCheckpoint(testDir, shell, { reason: "fourth", maxCheckpoints: 3 });
+
+      expect((await listCheckpoints(testDir, shell)).map((c) => c.reason)).toEqual(["fourth", "third", "second"]);
+      expect(await pruneCheckpoints(testDir, shell, 1)).toHaveLength(2);
+      expect((await listCheckpoints(testDir, shell)).map((c) => c.reason)).toEqual(["fourth"]);
+    });
+  });
+
+  describe("projects without git", () => {
+    test("copies touched files and restores them", async () => {
+      writeFileSync(join(testDir, "a.txt"), "one\n");
+
+      const { checkpoint } = await createCheckpoint(testDir, shell, {
+        reason: "before-escalation",
+        files: ["a.txt", join(testDir, "new.txt")],
+      });
+
+      expect(checkpoint).toMatchObject({ kind: "files", files: ["a.txt"], absent: ["new.txt"] });
+      expect(existsSync(join(testDir, CHECKPOINT_BACKUP_DIR, checkpoint!.id, "files", "a.txt"))).toBe(true);
+
+      writeFileSync(join(testDir, "a.txt"), "two\n");
+      writeFileSync(join(testDir, "new.txt"), "created\n");
+      const result = await restoreCheckpoint(testDir, shell, checkpoint!.id);
+
+      expect(result.success).toBe(true);
+      expect(result.restoredFiles.sort()).toEqual(["a.txt", "new.txt"]);
+      expect(readFileSync(join(testDir, "a.txt"), "utf-8")).toBe("one\n");
+      expect(existsSync(join(testDir, "new.txt"))).toBe(false);
+      expect((await listCheckpoints(testDir, shell)).map((c) => c.reason)).toEqual(["before-restore", "before-escalation"]);
+    });
+
+    test("ignores checkpoint metadata with a foreign id", async () => {
+      const project = join(testDir, "project");
+      writeFileSync(join(testDir, "victim.txt"), "keep\n");
+      const planted = join(project, CHECKPOINT_BACKUP_DIR, "20200101T000000000Z-aaaa");
+      mkdirSync(planted, { recursive: true });
+      writeFileSync(
+        join(planted, "checkpoint.json"),
+        JSON.stringify({ id: "../../victim.txt", kind: "files", reason: "x", createdAt: "", files: [], absent: [] })
+      );
+      writeFileSync(join(project, "a.txt"), "one\n");
+
+      await createCheckpoint(project, shell, { reason: "manual", files: ["a.txt"], maxCheckpoints: 1 });
+
+      expect(readFileSync(join(testDir, "victim.txt"), "utf-8")).toBe("keep\n");
+      expect((await listCheckpoints(project, shell)).map((c) => c.reason)).toEqual(["manual"]);
+    });
+
+    test("rejects restoring paths outside the project", async () => {
+      const project = join(testDir, "project");
+      mkdirSync(project, { recursive: true });
+      writeFileSync(join(testDir, "victim.txt"), "keep\n");
+      writeFileSync(join(project, "a.txt"), "one\n");
+      const { checkpoint } = await createCheckpoint(project, shell, { reason: "manual", files: ["a.txt"] });
+      const metadata = join(project, CHECKPOINT_BACKUP_DIR, checkpoint!.id, "checkpoint.json");
+      writeFileSync(metadata, JSON.stringify({ ...checkpoint, absent: ["../victim.txt"] }));
+
+      const result = await restoreCheckpoint(project, shell, checkpoint!.id);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("outside the project");
+      expect(existsSync(join(testDir, "victim.txt"))).toBe(true);
+    });
+
+    test("fails when there is nothing to copy", async () => {
+      const result = await createCheckpoint(testDir, shell, { reason: "manual" });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("not a git repository");
+    });
+  });
+});
@@ -12,6 +12,7 @@ import { tmpdir } from "node:os";
 import {
   loadConfig,
   createDefaultConfig,
+  validateConfig,
   type Config,
 } from "../../src/lib/config.js";
 
@@ -49,6 +50,13 @@ describe("Config Module", () => {
       expect(config.workflow.enablePhaseTracking).toBe(true);
       expect(config.workflow.strictTodoEnforcement).toBe(true);
       expect(config.workflow.autoEscalateOnError).toBe(true);
+      expect(config.workflow.requireGreenBeforeStop).toBe(false);
+      expect(config.workflow.workflows).toEqual({});
+      expect(config.workflow.intentWorkflows).toEqual({});
+      expect(config.workflow.gates.mode).toBe("off");
+      expect(config.workflow.gates.blockedPhases).toEqual(["intent", "assessment"]);
+      expect(config.workflow.gates.implementationTools).toContain("edit");
+      expect(config.workflow.gates.explorationTools).toContain("grep");
     });
 
     test("returns security defaults", () => {
@@ -57,6 +65,53 @@ describe("Config Module", () => {
       expect(config.security.blockedPatterns).toEqual([]);
       expect(config.security.warningPatterns).toEqual([]);
       expect(config.security.blockedFiles).toEqual([]);
+      expect(config.security.allow).toEqual([]);
+      expect(config.security.confinement).toEqual({ mode: "off", allowedRoots: [] });
+      expect(config.security.audit).toEqual({
+        enabled: false,
+        path: ".opencode/security-audit.jsonl",
+        maxFileSizeMB: 10,
+        maxFiles: 5,
+      });
+      expect(config.security.redaction).toEqual({ mode: "redact", detectors: {} });
+      expect(config.security.preset).toBe("permissive");
+      expect(config.security.network).toEqual({ mode: "off", allowedDomains: [], deniedDomains: [] });
+      expect(config.security.permissions).toEqual({});
+    });
+
+    test("returns error recovery defaults", () => {
+      const config = createDefaultConfig();
+      expect(config.workflow.errorRecovery).toEqual({
+        suggestAt: 2,
+        escalateAt: 3,
+        escalationAgent: "stilgar",
+        cooldownSeconds: 0,
+        categories: {},
+      });
+    });
+
+    test("returns todo enforcement defaults", () => {
+      const config = createDefaultConfig();
+      expect(config.workflow.todoEnforcement).toEqual({
+        blockOn: "any",
+        allowStopAfterAttempts: 0,
+        releaseTags: ["deferred", "blocked"],
+        maxAgeMinutes: 0,
+      });
+    });
+
+    test("returns session defaults", () => {
+      const config = createDefaultConfig();
+      expect(config.session.persistState).toBe(false);
+      expect(config.session.stateDirectory).toBe(".opencode/state");
+      expect(config.session.checkpoints).toEqual({
+        enabled: false,
+        beforeImplementation: true,
+        beforeEscalation: true,
+        maxCheckpoints: 20,
+      });
+      expect(config.session.todoExport).toEqual({ enabled: false, path: ".opencode/TODO.md", importOnStart: false });
+      expect(config.session.compaction).toEqual({ maxChars: 8000, maxTokens: 0 });
     });
 
     test("returns a new object each time (not a reference)", () => {
@@ -189,6 +244,95 @@ describe("Config Module", () => {
       expect(config.security.blockedFiles).toEqual([".env", "secrets.json"]);
     });
 
+    test("merges partial security.confinement with defaults", async () => {
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { security: { confinement: { mode: "ask" } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.security.confinement).toEqual({ mode: "ask", allowedRoots: [] });
+      expect(config.security.allow).toEqual([]);
+    });
+
+    test("merges security.redaction detector toggles with defaults", async () => {
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { security: { redaction: { detectors: { jwt: false } } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.security.redaction).toEqual({ mode: "redact", detectors: { jwt: false } });
+    });
+
+    test("loads security preset and permissions", async () => {
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { security: { preset: "custom", permissions: { "git-push": false } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.security.preset).toBe("custom");
+      expect(config.security.permissions).toEqual({ "git-push": false });
+      expect(config.security.blockedFiles).toEqual([]);
+    });
+
+    test("merges partial security.network with defaults", async () => {
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { security: { network: { mode: "deny", allowedDomains: ["*.corp.com"] } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.security.network).toEqual({ mode: "deny", allowedDomains: ["*.corp.com"], deniedDomains: [] });
+    });
+
+    test("loads custom workflows and keeps workflow defaults", async () => {
+      const docs = { phases: ["drafting", "review"], transitions: { idle: ["drafting"], drafting: ["review"] } };
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { workflow: { workflows: { docs }, intentWorkflows: { documentation: "docs" } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.workflow.workflows).toEqual({ docs });
+      expect(config.workflow.intentWorkflows).toEqual({ documentation: "docs" });
+      expect(config.workflow.enablePhaseTracking).toBe(true);
+    });
+
+    test("merges partial security.audit with defaults", async () => {
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify({ atreides: { security: { audit: { enabled: true, maxFiles: 2 } } } })
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.security.audit).toEqual({
+        enabled: true,
+        path: ".opencode/security-audit.jsonl",
+        maxFileSizeMB: 10,
+        maxFiles: 2,
+      });
+    });
+
+    test("loads session config from opencode.json", async () => {
+      const configContent = {
+        atreides: {
+          session: {
+            persistState: true,
+          },
+        },
+      };
+      await writeFile(
+        join(testDir, "opencode.json"),
+        JSON.stringify(configContent)
+      );
+
+      const config = await loadConfig(testDir);
+      expect(config.session.persistState).toBe(true);
+      expect(config.session.stateDirectory).toBe(".opencode/state");
+    });
+
     test("merges partial config with defaults", async () => {
       // Only provide personaName, other defaults should remain
       const configContent = {
@@ -298,6 +442,294 @@ describe("Config Module", () => {
     });
   });
 
+  // ===========================================================================
+  // validateConfig - security patterns
+  // ===========================================================================
+
+  describe("validateConfig security patterns", () => {
+    test("accepts valid regex patterns and globs", () => {
+      const result = validateConfig({
+        security: {
+          enableObfuscationDetection: true,
+          blockedPatterns: ["terraform\\s+destroy"],
+          warningPatterns: ["kubectl\\s+delete"],
+          blockedFiles: [".vault/*", "secrets/**"],
+        },
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    test("reports invalid regular expressions with their index", () => {
+      const result = validateConfig({
+        security: {
+          enableObfuscationDetection: true,
+          blockedPatterns: ["ok", "([unclosed"],
+          warningPatterns: [],
+          blockedFiles: [],
+        },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.path).toBe("security.blockedPatterns[1]");
+      expect(result.errors[0]?.message).toContain("Invalid regular expression");
+    });
+
+    test("rejects empty blockedFiles entries", () => {
+      const result = validateConfig({
+        security: {
+          enableObfuscationDetection: true,
+          blockedPatterns: [],
+          warningPatterns: [],
+          blockedFiles: [""],
+        },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.path).toBe("security.blockedFiles[0]");
+    });
+
+    test("validates security.confinement", () => {
+      const result = validateConfig({
+        security: {
+          enableObfuscationDetection: true,
+          blockedPatterns: [],
+          warningPatterns: [],
+          blockedFiles: [],
+          allow: [],
+          confinement: { mode: "block" as "deny", allowedRoots: ["/tmp", ""] },
+        },
+      });
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.confinement.mode",
+        "security.confinement.allowedRoots[1]",
+      ]);
+    });
+
+    test("validates security.audit", () => {
+      const result = validateConfig({
+        security: {
+          audit: { enabled: "yes", path: "", maxFileSizeMB: 0, maxFiles: 1.5 },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.audit.enabled",
+        "security.audit.path",
+        "security.audit.maxFileSizeMB",
+        "security.audit.maxFiles",
+      ]);
+    });
+
+    test("validates security.redaction", () => {
+      const result = validateConfig({
+        security: {
+          redaction: { mode: "mask", detectors: { jwt: false, "github-token": "no" } },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.redaction.mode",
+        "security.redaction.detectors.github-token",
+      ]);
+    });
+
+    test("validates security.preset and security.permissions", () => {
+      const result = validateConfig({
+        security: { preset: "paranoid", permissions: { "git-push": false, "git-force": "no" } },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.preset",
+        "security.permissions.git-force",
+      ]);
+
+      const arrayPermissions = validateConfig({ security: { permissions: [] } } as never);
+      expect(arrayPermissions.errors.map((e) => e.path)).toEqual(["security.permissions"]);
+    });
+
+    test("validates security.network", () => {
+      const result = validateConfig({
+        security: {
+          network: { mode: "block", allowedDomains: ["*.github.com", "https://x.com/"], deniedDomains: "evil.com" },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.network.mode",
+        "security.network.allowedDomains[1]",
+        "security.network.deniedDomains",
+      ]);
+    });
+
+    test("accepts a valid custom workflow", () => {
+      const result = validateConfig({
+        workflow: {
+          workflows: {
+            tdd: {
+              phases: ["intent", "red", "green", "refactor", "verification"],
+              transitions: {
+                idle: ["intent"],
+                intent: ["red"],
+                red: ["green"],
+                green: ["refactor", "verification"],
+                refactor: ["verification"],
+                verification: ["intent", "idle"],
+              },
+              tools: { write: ["red"], edit: ["green", "refactor"] },
+              commands: [{ phase: "verification", patterns: ["\\btest\\b"], keepPhases: ["red"] }],
+              defaultCommandPhase: { phase: "red", from: ["idle", "intent"] },
+              guidance: { red: "Write a failing test first." },
+            },
+          },
+          intentWorkflows: { test: "tdd", documentation: "default" },
+        },
+      } as never);
+      expect(result.errors).toEqual([]);
+    });
+
+    test("validates workflow definitions and intent mappings", () => {
+      const result = validateConfig({
+        workflow: {
+          workflows: {
+            broken: {
+              phases: ["plan", "idle", "plan", "ship-it"],
+              transitions: { plan: ["deploy"], deploy: [] },
+              tools: { edit: "plan" },
+              commands: [{ phase: "plan", patterns: ["(["] }],
+              guidance: { review: "x" },
+            },
+            empty: { phases: [], transitions: {} },
+          },
+          intentWorkflows: { bugfix: "missing", chores: "broken" },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "workflow.workflows.broken.phases[1]",
+        "workflow.workflows.broken.phases[2]",
+        "workflow.workflows.broken.phases[3]",
+        "workflow.workflows.broken.transitions.plan[0]",
+        "workflow.workflows.broken.transitions.deploy",
+        "workflow.workflows.broken.tools.edit",
+        "workflow.workflows.broken.commands[0].patterns[0]",
+        "workflow.workflows.broken.guidance.review",
+        "workflow.workflows.empty.phases",
+        "workflow.intentWorkflows.bugfix",
+        "workflow.intentWorkflows.chores",
+      ]);
+    });
+
+    test("validates workflow.gates", () => {
+      const result = validateConfig({
+        workflow: {
+          gates: {
+            mode: "block",
+            blockedPhases: ["intent", "not a phase"],
+            minExplorationCalls: -1,
+            requireTodos: "yes",
+            implementationTools: ["edit", ""],
+            intents: {
+              bugfix: { mode: "deny", requireVerification: 1 },
+              chores: { mode: "off" },
+            },
+          },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "workflow.gates.mode",
+        "workflow.gates.blockedPhases[1]",
+        "workflow.gates.minExplorationCalls",
+        "workflow.gates.requireTodos",
+        "workflow.gates.implementationTools[1]",
+        "workflow.gates.intents.bugfix.requireVerification",
+        "workflow.gates.intents.chores",
+      ]);
+    });
+
+    test("validates workflow.errorRecovery", () => {
+      const result = validateConfig({
+        workflow: {
+          errorRecovery: {
+            suggestAt: 0,
+            escalateAt: -1,
+            escalationAgent: "Stilgar Agent",
+            cooldownSeconds: "5m",
+            categories: {
+              network: { escalateAt: 1 },
+              lint: { escalateAt: 0, suggestAt: 1.5 },
+              style: { escalateAt: 0 },
+              test: 3,
+            },
+          },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "workflow.errorRecovery.suggestAt",
+        "workflow.errorRecovery.escalateAt",
+        "workflow.errorRecovery.escalationAgent",
+        "workflow.errorRecovery.cooldownSeconds",
+        "workflow.errorRecovery.categories.lint.suggestAt",
+        "workflow.errorRecovery.categories.style",
+        "workflow.errorRecovery.categories.test",
+      ]);
+    });
+
+    test("validates workflow.todoEnforcement", () => {
+      const result = validateConfig({
+        workflow: {
+          todoEnforcement: { blockOn: "medium", allowStopAfterAttempts: -1, releaseTags: ["later", "on hold"], maxAgeMinutes: 30 },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "workflow.todoEnforcement.blockOn",
+        "workflow.todoEnforcement.allowStopAfterAttempts",
+        "workflow.todoEnforcement.releaseTags",
+      ]);
+    });
+
+    test("validates session.checkpoints", () => {
+      const result = validateConfig({
+        session: {
+          checkpoints: { enabled: "yes", beforeImplementation: true, beforeEscalation: 0, maxCheckpoints: 1.5 },
+        },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "session.checkpoints.enabled",
+        "session.checkpoints.beforeEscalation",
+        "session.checkpoints.maxCheckpoints",
+      ]);
+      expect(validateConfig({ session: { checkpoints: [] } } as never).errors.map((e) => e.path)).toEqual([
+        "session.checkpoints",
+      ]);
+    });
+
+    test("validates session.todoExport", () => {
+      const result = validateConfig({
+        session: { todoExport: { enabled: "yes", path: "", importOnStart: true } },
+      } as never);
+      expect(result.errors.map((e) => e.path)).toEqual(["session.todoExport.enabled", "session.todoExport.path"]);
+    });
+
+    test("validates session.compaction", () => {
+      const result = validateConfig({ session: { compaction: { maxChars: -1, maxTokens: 1.5 } } } as never);
+      expect(result.errors.map((e) => e.path)).toEqual(["session.compaction.maxChars", "session.compaction.maxTokens"]);
+    });
+
+    test("validates security.allow rules", () => {
+      const result = validateConfig({
+        security: {
+          enableObfuscationDetection: true,
+          blockedPatterns: [],
+          warningPatterns: [],
+          blockedFiles: [],
+          allow: [
+            { path: "fixtures/*.key", reason: "Test fixtures" },
+            { command: "^make install$", tool: "bash" },
+            { path: "a", command: "b" },
+            { command: "([" },
+          ],
+        },
+      });
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "security.allow[2]",
+        "security.allow[3].command",
+      ]);
+    });
+  });
+
   // ===========================================================================
   // Integration with IdentityManager
   // ===========================================================================
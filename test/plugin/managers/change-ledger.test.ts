@@ -0,0 +1,95 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as ChangeLedger from "../../../src/plugin/managers/change-ledger.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { setWorkspaceRoots } from "../../../src/plugin/managers/workspace-confinement.js";
+import { createDefaultConfig } from "../../../src/lib/config.js";
+
+const sessionId = "ledger-session";
+
+describe("ChangeLedger", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createDefaultConfig());
+    SessionManager.getState(sessionId);
+    setWorkspaceRoots(["/ledger/project"]);
+  });
+
+  afterEach(() => {
+    SessionManager.clearSessions();
+    setWorkspaceRoots([]);
+  });
+
+  test("records file tools with edit counts", () => {
+    ChangeLedger.recordToolUse(sessionId, "write", { filePath: "src/new.ts", content: "x" });
+    ChangeLedger.recordToolUse(sessionId, "edit", { file_path: "/ledger/project/src/new.ts" });
+    ChangeLedger.recordToolUse(sessionId, "multiedit", { filePath: "src/util.ts", edits: [{}, {}, {}] });
+    ChangeLedger.recordToolUse(sessionId, "read", { filePath: "src/other.ts" });
+
+    const entry = ChangeLedger.getFileChange(sessionId, "src/new.ts");
+    expect(entry).toMatchObject({ path: "src/new.ts", edits: 2, operations: ["write", "edit"] });
+    expect(entry!.firstTouched).toBeLessThanOrEqual(entry!.lastTouched);
+    expect(ChangeLedger.getFileChange(sessionId, "src/util.ts")?.edits).toBe(3);
+    expect(ChangeLedger.getChanges(sessionId).map((e) => e.path).sort()).toEqual(["src/new.ts", "src/util.ts"]);
+  });
+
+  test("tracks files read, most recently read first", () => {
+    ChangeLedger.recordToolUse(sessionId, "read", { filePath: "src/a.ts" });
+    ChangeLedger.recordToolUse(sessionId, "read", { file_path: "/ledger/project/src/b.ts" });
+    ChangeLedger.recordToolUse(sessionId, "read", { filePath: "src/a.ts" });
+
+    expect(ChangeLedger.getFilesRead(sessionId)).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(ChangeLedger.getChanges(sessionId)).toEqual([]);
+
+    ChangeLedger.restoreFilesRead(sessionId, ["docs/x.md"]);
+    expect(ChangeLedger.getFilesRead(sessionId)).toEqual(["docs/x.md"]);
+  });
+
+  test("records obvious file operations in bash commands", () => {
+    ChangeLedger.recordToolUse(sessionId, "bash", {
+      command: "mv src/old.ts src/new.ts && cp config.json config.bak && rm -rf dist tmp.log",
+    });
+    ChangeLedger.recordToolUse(sessionId, "bash", { command: "sed -i.bak -e 's/a/b/' src/a.ts src/b.ts; echo done > out.txt 2>/dev/null" });
+    ChangeLedger.recordToolUse(sessionId, "bash", { command: "sed -n '1,5p' src/c.ts; cat $FILE > /dev/null" });
+
+    const changes = Object.fromEntries(ChangeLedger.getChanges(sessionId).map((e) => [e.path, e.operations]));
+    expect(changes).toEqual({
+      "src/old.ts": ["move"],
+      "src/new.ts": ["move"],
+      "config.bak": ["copy"],
+      dist: ["delete"],
+      "tmp.log": ["delete"],
+      "src/a.ts": ["edit"],
+      "src/b.ts": ["edit"],
+      "out.txt": ["write"],
+    });
+  });
+
+  test("skips failed tool calls", () => {
+    SessionManager.getState(sessionId).toolHistory.push({
+      tool: "edit",
+      timestamp: new Date(),
+      success: false,
+    });
+    expect(ChangeLedger.recordToolUse(sessionId, "edit", { filePath: "src/a.ts" })).toEqual([]);
+    expect(ChangeLedger.getChanges(sessionId)).toEqual([]);
+  });
+
+  test("summarizes and round-trips change descriptions", () => {
+    expect(ChangeLedger.summarize(sessionId)).toBe("");
+
+    ChangeLedger.recordToolUse(sessionId, "edit", { filePath: "src/a.ts" });
+    ChangeLedger.recordToolUse(sessionId, "bash", { command: "rm src/b.ts" });
+    const summary = ChangeLedger.summarize(sessionId);
+    expect(summary.split("\n")[0]).toBe("2 files changed (2 edits):");
+    expect(summary).toContain("- src/b.ts (1 edit, deleted)");
+    expect(summary).toContain("- src/a.ts (1 edit)");
+
+    const [entry] = ChangeLedger.getChanges(sessionId).filter((e) => e.path === "src/b.ts");
+    expect(ChangeLedger.parseChange(ChangeLedger.formatChange(entry!))).toMatchObject({
+      path: "src/b.ts",
+      edits: 1,
+      operations: ["delete"],
+    });
+    expect(ChangeLedger.parseChange("... and 3 more")).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import * as CheckpointManager from "../../../src/plugin/managers/checkpoint-manager.js";
+import * as ChangeLedger from "../../../src/plugin/managers/change-ledger.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { setWorkspaceRoots } from "../../../src/plugin/managers/workspace-confinement.js";
+import { createProcessShell } from "../../../src/lib/checkpoint.js";
+import { createDefaultConfig } from "../../../src/lib/config.js";
+
+const sessionId = "checkpoint-session";
+
+describe("CheckpointManager", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-checkpoint-manager-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, "a.ts"), "export const a = 1;\n");
+
+    const config = createDefaultConfig();
+    config.session.checkpoints.enabled = true;
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(config);
+    SessionManager.getState(sessionId);
+    setWorkspaceRoots([testDir]);
+    CheckpointManager.configureCheckpoints(createProcessShell(), testDir);
+  });
+
+  afterEach(() => {
+    CheckpointManager.configureCheckpoints(undefined, undefined);
+    SessionManager.clearSessions();
+    setWorkspaceRoots([]);
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("takes a checkpoint before the first implementation tool only", async () => {
+    expect(await CheckpointManager.checkpointBeforeImplementation(sessionId, "read", { filePath: "a.ts" })).toBeUndefined();
+
+    const checkpoint = await CheckpointManager.checkpointBeforeImplementation(sessionId, "edit", { filePath: "a.ts" });
+    expect(checkpoint).toMatchObject({ kind: "files", reason: "before-implementation", sessionId, files: ["a.ts"] });
+
+    expect(await CheckpointManager.checkpointBeforeImplementation(sessionId, "write", { filePath: "a.ts" })).toBeUndefined();
+    expect(CheckpointManager.getSessionCheckpoints(sessionId)).toEqual({ ids: [checkpoint!.id], beforeImplementation: true });
+  });
+
+  test("copies the session's changed files before escalation", async () => {
+    ChangeLedger.recordToolUse(sessionId, "edit", { filePath: join(testDir, "a.ts") });
+
+    const checkpoint = await CheckpointManager.checkpointBeforeEscalation(sessionId);
+    expect(checkpoint).toMatchObject({ reason: "before-escalation", files: ["a.ts"] });
+
+    writeFileSync(join(testDir, "a.ts"), "broken");
+    const restored = await CheckpointManager.restoreCheckpoint(checkpoint!.id);
+    expect(restored.restoredFiles).toEqual(["a.ts"]);
+    expect((await CheckpointManager.listCheckpoints()).map((c) => c.reason)).toEqual(["before-restore", "before-escalation"]);
+  });
+
+  test("does nothing when checkpoints are disabled or not configured", async () => {
+    SessionManager.getState(sessionId).config.session.checkpoints.enabled = false;
+    expect(await CheckpointManager.checkpointBeforeImplementation(sessionId, "edit", { filePath: "a.ts" })).toBeUndefined();
+    expect(await CheckpointManager.checkpointBeforeEscalation(sessionId)).toBeUndefined();
+
+    CheckpointManager.configureCheckpoints(undefined, undefined);
+    expect((await CheckpointManager.createCheckpoint("manual")).error).toBe("Checkpoints are not configured");
+    expect(await CheckpointManager.listCheckpoints()).toEqual([]);
+  });
+});
@@ -3,6 +3,8 @@ import {
   CompactionHandler,
   createCompactionHandler,
   compactionHandler,
+  PRESERVED_STATE_VERSION,
+  estimateTokens,
   type PendingTodo,
   type PreservedState,
 } from "../../../src/plugin/managers/compaction-handler";
@@ -440,11 +442,13 @@ describe("CompactionHandler - extractPreservedState", () => {
     state.workflow.currentPhase = "verification";
     state.workflow.intentClassification = "refactor";
     state.errorCount = 2;
-    state.todoCount = 5;
-    state.todosCompleted = 3;
 
+    // Todo counts come from the todo store
     handler.storePendingTodos(sessionId, [
       { id: "1", content: "Remaining task", status: "pending" },
+      { id: "2", content: "Done task", status: "completed" },
+      { id: "3", content: "Another done task", status: "completed" },
+      { id: "4", content: "Third done task", status: "completed" },
     ]);
 
     SessionManager.addToolExecution(sessionId, {
@@ -458,10 +462,395 @@ describe("CompactionHandler - extractPreservedState", () => {
     expect(preserved.workflowPhase).toBe("verification");
     expect(preserved.intentClassification).toBe("refactor");
     expect(preserved.strikeCount).toBe(2);
-    expect(preserved.totalTodos).toBe(5);
+    expect(preserved.totalTodos).toBe(4);
     expect(preserved.completedTodos).toBe(3);
     expect(preserved.pendingTodos.length).toBe(1);
     expect(preserved.recentTools.length).toBe(1);
     expect(preserved.personaName).toBe("TestAgent");
   });
 });
+
+describe("CompactionHandler - State restoration", () => {
+  const legacyBlock = [
+    "<!-- ATREIDES STATE -->",
+    "",
+    "**Workflow Phase:** implementation",
+    "**Intent:** feature",
+    "",
+    "**Pending Todos:** 2",
+    "[-] Wire the API",
+    "[ ] Write tests",
+    "",
+    "**Todo Progress:** 1/3 completed",
+    "",
+    "**Error Recovery:** 3 strikes",
+    "**Escalation Status:** ACTIVE (Stilgar mode)",
+    "**Triggering Tool:** bash",
+    "",
+    "<!-- END ATREIDES STATE -->",
+  ].join("\n");
+
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+  });
+
+  test("tags blocks with the format version", () => {
+    const handler = createCompactionHandler();
+    const markdown = handler.formatAsMarkdown({
+      workflowPhase: "intent",
+      pendingTodos: [],
+      strikeCount: 0,
+      escalated: false,
+      recentTools: [],
+      totalTodos: 0,
+      completedTodos: 0,
+    });
+
+    expect(markdown).toContain(`<!-- ATREIDES STATE VERSION ${PRESERVED_STATE_VERSION} -->`);
+    expect(handler.parsePreservedStateFromMarkdown(markdown)?.version).toBe(PRESERVED_STATE_VERSION);
+  });
+
+  test("parses unversioned blocks as version 1", () => {
+    const parsed = createCompactionHandler().parsePreservedStateFromMarkdown(legacyBlock);
+    expect(parsed?.version).toBe(1);
+    expect(parsed?.workflowPhase).toBe("implementation");
+  });
+
+  test("parses known fields of newer versions", () => {
+    const newer = legacyBlock.replace(
+      "<!-- ATREIDES STATE -->",
+      "<!-- ATREIDES STATE -->\n<!-- ATREIDES STATE VERSION 99 -->\n**Future Field:** x"
+    );
+    const parsed = createCompactionHandler().parsePreservedStateFromMarkdown(newer);
+    expect(parsed?.version).toBe(99);
+    expect(parsed?.strikeCount).toBe(3);
+  });
+
+  test("uses the latest block when there are several", () => {
+    const older = legacyBlock.replace("implementation", "planning");
+    const parsed = createCompactionHandler().parsePreservedStateFromMarkdown(`${older}\n\n${legacyBlock}`);
+    expect(parsed?.workflowPhase).toBe("implementation");
+  });
+
+  test("preserves the name of a custom workflow", () => {
+    const handler = createCompactionHandler();
+    const markdown = handler.formatAsMarkdown({
+      workflowPhase: "red",
+      workflowName: "tdd",
+      pendingTodos: [],
+      strikeCount: 0,
+      escalated: false,
+      recentTools: [],
+      totalTodos: 0,
+      completedTodos: 0,
+    });
+    expect(markdown).toContain("**Workflow:** tdd");
+
+    SessionManager.getState("restore-workflow");
+    handler.restoreState("restore-workflow", handler.parsePreservedStateFromMarkdown(markdown)!);
+    const { workflow } = SessionManager.getState("restore-workflow");
+    expect(workflow).toMatchObject({ currentPhase: "red", workflowName: "tdd" });
+
+    expect(handler.formatAsMarkdown({ ...handler.parsePreservedStateFromMarkdown(markdown)!, workflowName: "default" }))
+      .not.toContain("**Workflow:**");
+  });
+
+  test("carries the last verification result", () => {
+    const handler = createCompactionHandler();
+    const sessionId = "restore-verification";
+    const state = SessionManager.getState(sessionId);
+    state.metadata.verification = {
+      lastResult: { command: "bun test", runner: "bun", success: false, exitCode: 1, passed: 10, failed: 2, timestamp: 1 },
+      editsSinceGreen: 3,
+      runs: 4,
+    };
+
+    const markdown = handler.formatAsMarkdown(handler.extractPreservedState(state));
+    expect(markdown).toContain("**Last Verification:** failed `bun test` (exit 1, 10 passed, 2 failed)");
+    expect(markdown).toContain("**Edits Since Green:** 3");
+
+    state.metadata = {};
+    handler.restoreState(sessionId, handler.parsePreservedStateFromMarkdown(markdown)!);
+    expect(SessionManager.getState(sessionId).metadata.verification).toMatchObject({
+      lastResult: { command: "bun test", runner: "bun", success: false, exitCode: 1, passed: 10, failed: 2 },
+      editsSinceGreen: 3,
+    });
+  });
+
+  test("lists and restores the changed files", () => {
+    const handler = createCompactionHandler();
+    const sessionId = "restore-changes";
+    const state = SessionManager.getState(sessionId);
+    state.metadata.changeLedger = {
+      "src/a.ts": { path: "src/a.ts", edits: 3, operations: ["edit"], firstTouched: 1, lastTouched: 3 },
+      "old.ts": { path: "old.ts", edits: 1, operations: ["move", "delete"], firstTouched: 2, lastTouched: 2 },
+    };
+
+    const markdown = handler.formatAsMarkdown(handler.extractPreservedState(state));
+    expect(markdown).toContain("**Changed Files:** 2\n- src/a.ts (3 edits)\n- old.ts (1 edit, moved, deleted)");
+
+    state.metadata = {};
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+    expect(parsed.pendingTodos).toEqual([]);
+    handler.restoreState(sessionId, parsed);
+    expect(SessionManager.getState(sessionId).metadata.changeLedger).toMatchObject({
+      "src/a.ts": { edits: 3, operations: ["edit"] },
+      "old.ts": { edits: 1, operations: ["move", "delete"] },
+    });
+  });
+
+  test("restoreFromText rehydrates the session once per block", () => {
+    const handler = createCompactionHandler();
+    const sessionId = "restore-text";
+    SessionManager.getState(sessionId);
+
+    const restored = handler.restoreFromText(sessionId, `Summary of earlier work.\n${legacyBlock}`);
+    expect(restored?.pendingTodos.map((t) => t.description)).toEqual(["Wire the API", "Write tests"]);
+
+    const state = SessionManager.getState(sessionId);
+    expect(state.phase).toBe("implementation");
+    expect(state.workflow.intentClassification).toBe("feature");
+    expect(state.errorCount).toBe(3);
+    expect(state.metadata.errorRecovery).toMatchObject({ escalated: true, triggeringTool: "bash", strikeCount: 3 });
+    expect(handler.getPendingTodos(sessionId)).toHaveLength(2);
+
+    // Progress after the restore is not reset by the same block
+    state.errorCount = 0;
+    expect(handler.restoreFromText(sessionId, legacyBlock)).toBeNull();
+    expect(SessionManager.getState(sessionId).errorCount).toBe(0);
+  });
+
+  test("restoreFromText skips blocks written by this process", async () => {
+    const handler = createCompactionHandler();
+    const sessionId = "restore-own";
+    SessionManager.getState(sessionId).errorCount = 1;
+
+    const markdown = await handler.preserveState(sessionId);
+    SessionManager.getState(sessionId).errorCount = 2;
+
+    expect(handler.restoreFromText(sessionId, markdown)).toBeNull();
+    expect(SessionManager.getState(sessionId).errorCount).toBe(2);
+  });
+
+  test("restoreFromText ignores text without a block", () => {
+    const handler = createCompactionHandler();
+    SessionManager.getState("restore-none");
+    expect(handler.restoreFromText("restore-none", "no state here")).toBeNull();
+  });
+});
+
+describe("CompactionHandler - Budget and JSON payload", () => {
+  function createLargeState(): PreservedState {
+    return {
+      workflowPhase: "implementation",
+      intentClassification: "feature",
+      pendingTodos: Array.from({ length: 40 }, (_, i) => ({
+        id: `t${i}`,
+        description: `Implement part ${i} of the importer with retries and logging`,
+        status: "pending" as const,
+      })),
+      strikeCount: 3,
+      escalated: true,
+      triggeringTool: "bash",
+      lastErrorOutput: "E".repeat(500),
+      recentTools: Array.from({ length: 10 }, (_, i) => ({ tool: `tool${i}`, success: i % 2 === 0 })),
+      totalTodos: 45,
+      completedTodos: 5,
+      changedFiles: Array.from({ length: 30 }, (_, i) => ({
+        path: `src/module-${i}.ts`,
+        edits: 1,
+        operations: ["edit" as const],
+        firstTouched: i,
+        lastTouched: i,
+      })),
+    };
+  }
+
+  test("fits the block into maxChars with truncation markers", () => {
+    const handler = createCompactionHandler();
+
+    const markdown = handler.formatAsMarkdown(createLargeState(), { maxChars: 3000 });
+
+    expect(markdown.length).toBeLessThanOrEqual(3000);
+    expect(markdown).toContain("**Workflow Phase:** implementation");
+    expect(markdown).toContain("**Escalation Status:** ACTIVE (Stilgar mode)");
+    expect(markdown).toContain("**Pending Todos:** 40\n[ ] Implement part 0 of");
+    expect(markdown).toMatch(/- \.\.\. and \d+ more\n/);
+    expect(markdown).toContain("**Changed Files:** 30");
+    expect(markdown).toContain("**Recent Tool History:**");
+
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+    expect(parsed.escalated).toBe(true);
+    expect(parsed.pendingTodos.length).toBeGreaterThan(0);
+    expect(parsed.pendingTodos.length).toBeLessThan(40);
+  });
+
+  test("prefers todos over changed files, error output and tools", () => {
+    const handler = createCompactionHandler();
+    const unlimited = handler.formatAsMarkdown(createLargeState());
+
+    const markdown = handler.formatAsMarkdown(createLargeState(), { maxTokens: 500 });
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+
+    expect(estimateTokens(markdown)).toBeLessThanOrEqual(500);
+    expect(estimateTokens(unlimited)).toBeGreaterThan(500);
+    expect(parsed.pendingTodos.length).toBeGreaterThan(0);
+    expect(parsed.changedFiles).toBeUndefined();
+    expect(parsed.recentTools).toEqual([]);
+    expect(markdown).toContain("**Changed Files:** 30\n- ... and 30 more");
+    expect(markdown).toContain("- ... and 10 earlier");
+  });
+
+  test("keeps a prefix of the error output and the most recent tools", () => {
+    const handler = createCompactionHandler();
+    const state = { ...createLargeState(), pendingTodos: [], changedFiles: [] };
+
+    const markdown = handler.formatAsMarkdown(state, { maxChars: 1600 });
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+    expect(parsed.lastErrorOutput?.length).toBeLessThan(500);
+    expect(markdown).toMatch(/\.\.\. and \d+ more characters/);
+    expect(markdown).toContain("- ... and 10 earlier");
+
+    const { lastErrorOutput: _omit, ...withoutError } = state;
+    const tools = handler.parsePreservedStateFromMarkdown(handler.formatAsMarkdown(withoutError, { maxChars: 800 }))!;
+    expect(tools.recentTools.length).toBeGreaterThan(0);
+    expect(tools.recentTools.length).toBeLessThan(10);
+    expect(tools.recentTools.at(-1)).toEqual({ tool: "tool9", success: false });
+  });
+
+  test("round-trips the state through the JSON payload", () => {
+    const handler = createCompactionHandler();
+    const state: PreservedState = {
+      ...createLargeState(),
+      pendingTodos: [{ id: "t1", description: "Handle --force --> flags", status: "in_progress", tags: ["blocked"] }],
+      lastErrorOutput: "error: unexpected '-->' in comment",
+    };
+
+    const markdown = handler.formatAsMarkdown(state);
+    const json = markdown.match(/<!-- ATREIDES STATE JSON (\{.*\}) -->\n<!-- END ATREIDES STATE -->/)?.[1];
+    expect(json).not.toContain("--");
+
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown);
+    expect(parsed).toEqual({ ...state, version: PRESERVED_STATE_VERSION });
+  });
+
+  test("falls back to the markdown when the JSON payload is damaged", () => {
+    const handler = createCompactionHandler();
+    const markdown = handler
+      .formatAsMarkdown(createLargeState())
+      .replace(/<!-- ATREIDES STATE JSON \{/, "<!-- ATREIDES STATE JSON {oops");
+
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+    expect(parsed.workflowPhase).toBe("implementation");
+    expect(parsed.pendingTodos).toHaveLength(40);
+    expect(parsed.strikeCount).toBe(3);
+  });
+});
+
+describe("CompactionHandler - Session digest", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+  });
+
+  function createDigestSession(sessionId: string) {
+    const state = SessionManager.getState(sessionId);
+    state.workflow.intentClassification = "bugfix";
+    state.errorCount = 3;
+    state.metadata.errorRecovery = {
+      escalated: true,
+      escalatedAt: 1700000000000,
+      reason: "loop",
+      fingerprint: "bash:test:expected <n> to be <n>",
+    };
+    state.metadata.verification = {
+      editsSinceGreen: 2,
+      runs: 3,
+      lastResult: { command: "bun test", runner: "bun", success: false, exitCode: 1, passed: 10, failed: 2, timestamp: 1 },
+    };
+    state.metadata.changeLedger = {
+      "src/a.ts": { path: "src/a.ts", edits: 2, operations: ["edit"], firstTouched: 1, lastTouched: 2 },
+    };
+    state.metadata.filesRead = ["src/a.ts", "src/b.ts", "README.md"];
+    state.metadata.securityBlocks = [
+      { tool: "read", reason: "Access to sensitive file blocked", input: ".env", timestamp: "2025-01-01T00:00:00.000Z" },
+      { tool: "bash", reason: "Blocked dangerous command", input: "rm -rf /", matchedPattern: "rm -rf", timestamp: "2025-01-01T00:00:01.000Z" },
+    ];
+    return state;
+  }
+
+  test("extracts files read, security blocks and the escalation reason", () => {
+    const handler = createCompactionHandler();
+    const preserved = handler.extractPreservedState(createDigestSession("digest-extract"));
+
+    expect(preserved.intentClassification).toBe("bugfix");
+    expect(preserved.lastVerification).toMatchObject({ command: "bun test", failed: 2 });
+    expect(preserved.changedFiles?.map((e) => e.path)).toEqual(["src/a.ts"]);
+    expect(preserved.filesRead).toEqual(["src/b.ts", "README.md"]);
+    expect(preserved.securityBlocks).toEqual([
+      { tool: "bash", reason: "Blocked dangerous command", input: "rm -rf /" },
+      { tool: "read", reason: "Access to sensitive file blocked", input: ".env" },
+    ]);
+    expect(preserved.escalationReason).toBe("loop");
+    expect(preserved.escalationFingerprint).toBe("bash:test:expected <n> to be <n>");
+  });
+
+  test("formats the digest for the model and parses it from the markdown", () => {
+    const handler = createCompactionHandler();
+    const preserved = handler.extractPreservedState(createDigestSession("digest-format"));
+    const markdown = handler.formatAsMarkdown(preserved);
+
+    expect(markdown).toContain("**Escalation Reason:** loop (error `bash:test:expected <n> to be <n>`)");
+    expect(markdown).toContain("**Security Blocks:** 2\n- bash: Blocked dangerous command (`rm -rf /`)\n- read: ");
+    expect(markdown).toContain("**Files Read:** 2\n- src/b.ts\n- README.md\n");
+
+    const fromMarkdown = handler.parsePreservedStateFromMarkdown(markdown.replace(/<!-- ATREIDES STATE JSON .* -->\n/, ""))!;
+    expect(fromMarkdown.filesRead).toEqual(preserved.filesRead!);
+    expect(fromMarkdown.securityBlocks).toEqual(preserved.securityBlocks!);
+    expect(fromMarkdown.escalationReason).toBe("loop");
+    expect(fromMarkdown.escalationFingerprint).toBe(preserved.escalationFingerprint!);
+    expect(fromMarkdown.changedFiles?.map((e) => e.path)).toEqual(["src/a.ts"]);
+  });
+
+  test("names the configured escalation agent", () => {
+    const handler = createCompactionHandler();
+    const state = createDigestSession("digest-agent");
+    state.config = {
+      ...state.config,
+      workflow: { ...state.config.workflow, errorRecovery: { ...state.config.workflow.errorRecovery, escalationAgent: "plan" } },
+    };
+    const preserved = handler.extractPreservedState(state);
+    const markdown = handler.formatAsMarkdown(preserved);
+
+    expect(preserved.escalationAgent).toBe("Plan");
+    expect(markdown).toContain("**Escalation Status:** ACTIVE (Plan mode)");
+    expect(handler.parsePreservedStateFromMarkdown(markdown.replace(/<!-- ATREIDES STATE JSON .* -->\n/, ""))?.escalationAgent).toBe("Plan");
+  });
+
+  test("restores the digest into session metadata", () => {
+    const handler = createCompactionHandler();
+    const markdown = handler.formatAsMarkdown(handler.extractPreservedState(createDigestSession("digest-source")));
+
+    SessionManager.getState("digest-target");
+    expect(handler.restoreFromText("digest-target", markdown)).not.toBeNull();
+
+    const metadata = SessionManager.getState("digest-target").metadata;
+    expect(metadata.errorRecovery).toMatchObject({ escalated: true, reason: "loop", fingerprint: "bash:test:expected <n> to be <n>" });
+    expect(metadata.filesRead).toEqual(["src/b.ts", "README.md"]);
+    expect((metadata.securityBlocks as Array<{ tool: string }>).map((b) => b.tool)).toEqual(["read", "bash"]);
+  });
+
+  test("keeps security blocks ahead of changed files when the budget is tight", () => {
+    const handler = createCompactionHandler();
+    const preserved = handler.extractPreservedState(createDigestSession("digest-budget"));
+    const { filesRead: _filesRead, ...withoutFilesRead } = preserved;
+    const maxChars = handler.formatAsMarkdown(withoutFilesRead).length + 50;
+    const markdown = handler.formatAsMarkdown(preserved, { maxChars });
+    const parsed = handler.parsePreservedStateFromMarkdown(markdown)!;
+
+    expect(parsed.securityBlocks).toHaveLength(2);
+    expect(parsed.filesRead).toBeUndefined();
+    expect(markdown).toContain("**Files Read:** 2\n- ... and 2 more");
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, expect, test, beforeEach } from "bun:test";
 import * as ErrorRecovery from "../../../src/plugin/managers/error-recovery";
 import * as SessionManager from "../../../src/plugin/managers/session-manager";
-import type { Config } from "../../../src/lib/config";
+import { createDefaultConfig, type Config, type ErrorRecoveryConfig } from "../../../src/lib/config";
 
 function createMockConfig(): Config {
   return {
@@ -112,6 +112,71 @@ describe("ErrorRecovery - Error Pattern Detection", () => {
   });
 });
 
+describe("ErrorRecovery - Tool-aware analysis", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+  });
+
+  test("never scans the content of read and search tools", () => {
+    expect(ErrorRecovery.analyzeOutput("read", "throw new Error('boom'); // FAILED").detected).toBe(false);
+    expect(ErrorRecovery.analyzeOutput("grep", { output: "src/a.ts:3: TypeError: x" }).detected).toBe(false);
+
+    const failed = ErrorRecovery.analyzeOutput("read", { error: "ENOENT: no such file or directory" });
+    expect(failed).toMatchObject({ detected: true, source: "error-field", category: "file" });
+  });
+
+  test("exit codes take precedence over the output text", () => {
+    expect(ErrorRecovery.analyzeOutput("bash", { stdout: "all good", exitCode: 2 })).toMatchObject({
+      detected: true,
+      confidence: 1,
+      source: "exit-code",
+      reason: "exit code 2",
+    });
+
+    const success = ErrorRecovery.analyzeOutput("bash", { stdout: "warning: Error handler registered", exitCode: 0 });
+    expect(success.detected).toBe(true);
+    expect(success.confidence).toBeLessThan(ErrorRecovery.STRIKE_CONFIDENCE_THRESHOLD);
+  });
+
+  test("parses test runner summaries for actual failure counts", () => {
+    expect(ErrorRecovery.analyzeOutput("bash", "Tests:       0 failed, 12 passed, 12 total", { command: "npx jest" }).detected).toBe(false);
+
+    const failing = ErrorRecovery.analyzeOutput("bash", { stdout: " 10 pass\n 2 fail" }, { command: "bun test" });
+    expect(failing).toMatchObject({ detected: true, source: "test-summary", category: "test", reason: "2 failed tests" });
+    expect(failing.confidence).toBeGreaterThanOrEqual(ErrorRecovery.STRIKE_CONFIDENCE_THRESHOLD);
+
+    expect(ErrorRecovery.analyzeOutput("bash", { stdout: "Found 3 errors", exitCode: 2 }, "npx tsc")).toMatchObject({
+      category: "build",
+      reason: "exit code 2, 3 errors",
+    });
+  });
+
+  test("gives loose patterns low confidence and specific patterns high confidence", () => {
+    const loose = ErrorRecovery.analyzeOutput("bash", "Error occurred during processing");
+    expect(loose.confidence).toBeLessThan(ErrorRecovery.STRIKE_CONFIDENCE_THRESHOLD);
+
+    const specific = ErrorRecovery.analyzeOutput("bash", "Error: bash: foo: command not found");
+    expect(specific).toMatchObject({ detected: true, source: "pattern", category: "command" });
+    expect(specific.confidence).toBeGreaterThanOrEqual(ErrorRecovery.STRIKE_CONFIDENCE_THRESHOLD);
+  });
+
+  test("low-confidence detections are logged but are not strikes", async () => {
+    SessionManager.getState("test-session");
+    await ErrorRecovery.checkForErrors("bash", "error: first", "test-session");
+
+    const result = await ErrorRecovery.checkForErrors("bash", "An Error occurred", "test-session");
+    expect(result.errorDetected).toBe(false);
+    expect(result.action).toBe("none");
+    expect(result.strikeCount).toBe(1);
+    expect(result.detection?.detected).toBe(true);
+    expect(ErrorRecovery.getStrikeCount("test-session")).toBe(1);
+
+    const read = await ErrorRecovery.checkForErrors("read", "Error: this file documents errors", "test-session");
+    expect(read.action).toBe("reset");
+  });
+});
+
 describe("ErrorRecovery - Pattern Category Detection", () => {
   test("getRecoverySuggestion returns correct category for command error", () => {
     const suggestion = ErrorRecovery.getRecoverySuggestion("bash: foo: command not found");
@@ -413,6 +478,145 @@ describe("ErrorRecovery - Output Text Extraction", () => {
   });
 });
 
+describe("ErrorRecovery - Fingerprints and loop detection", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+    SessionManager.getState("test-session");
+  });
+
+  test("fingerprints ignore paths, line numbers and ids", () => {
+    const a = ErrorRecovery.fingerprintError(
+      "bash",
+      "module",
+      "Running...\nError: Cannot find module './db' from /app/src/index.ts:12:3"
+    );
+    const b = ErrorRecovery.fingerprintError("bash", "module", "Error: Cannot find module './cache' from /app/lib/main.ts:40:9");
+    expect(a).toBe("bash:module:Error: Cannot find module '<path>' from <path>");
+    expect(b).toBe(a);
+
+    expect(ErrorRecovery.normalizeErrorLine("request 550e8400-e29b-41d4-a716-446655440000 failed after 30s (commit 3f71355a)")).toBe(
+      "request <id> failed after <n>s (commit <id>)"
+    );
+    expect(ErrorRecovery.fingerprintError("bash", "generic", "", "exit code 1")).toBe("bash:generic:exit code <n>");
+  });
+
+  test("escalates when the same error recurs despite interleaved successes", async () => {
+    const failing = { stdout: " 3 pass\n 1 fail", exitCode: 1 };
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      if (i > 0) {
+        await ErrorRecovery.checkForErrors("bash", { stdout: "src", exitCode: 0 }, "test-session", { command: "ls" });
+      }
+      results.push(await ErrorRecovery.checkForErrors("bash", failing, "test-session", { command: "bun test" }));
+    }
+
+    expect(results.map((r) => r.strikeCount)).toEqual([1, 1, 1]);
+    expect(results.map((r) => r.action)).toEqual(["logged", "logged", "escalated"]);
+    expect(results[2]!.loop).toEqual({ fingerprint: results[0]!.fingerprint!, count: 3, window: ErrorRecovery.LOOP_WINDOW });
+    expect(ErrorRecovery.getErrorRecoveryState("test-session")).toMatchObject({ escalated: true, reason: "loop" });
+
+    const message = results[2]!.escalationMessage!;
+    expect(message).toContain("Repeated Failure Loop Detected");
+    expect(message).toContain(`Error fingerprint: ${results[0]!.fingerprint}`);
+    expect(message).toContain("Seen: 3 times in the last 5 tool calls");
+  });
+
+  test("errors that fall out of the window do not form a loop", async () => {
+    await ErrorRecovery.checkForErrors("bash", "error: flaky", "test-session");
+    await ErrorRecovery.checkForErrors("bash", "error: flaky", "test-session");
+    for (let i = 0; i < ErrorRecovery.LOOP_WINDOW; i++) {
+      await ErrorRecovery.checkForErrors("bash", "ok", "test-session");
+    }
+
+    const result = await ErrorRecovery.checkForErrors("bash", "error: flaky", "test-session");
+    expect(result.action).toBe("logged");
+    expect(result.loop).toBeUndefined();
+    expect(ErrorRecovery.getErrorLoop("test-session")).toBeUndefined();
+  });
+
+  test("3-strike escalation message includes the fingerprint count", async () => {
+    await ErrorRecovery.checkForErrors("bash", "error: disk full on /dev/sda1", "test-session");
+    await ErrorRecovery.checkForErrors("bash", "error: disk full on /dev/sdb2", "test-session");
+    const result = await ErrorRecovery.checkForErrors("bash", "error: disk full on /dev/sdc3", "test-session");
+
+    expect(result.escalationMessage).toContain("3-Strike Protocol Triggered");
+    expect(result.escalationMessage).toContain("Error fingerprint: bash:generic:error: disk full on <path>");
+    expect(result.escalationMessage).toContain("Seen: 3 times in the last 3 tool calls");
+    expect(ErrorRecovery.getErrorRecoveryState("test-session")?.reason).toBe("strikes");
+  });
+});
+
+describe("ErrorRecovery - Configurable thresholds", () => {
+  function useRecoveryConfig(recovery: Partial<ErrorRecoveryConfig>): void {
+    const config = createDefaultConfig();
+    config.workflow.errorRecovery = { ...config.workflow.errorRecovery, ...recovery };
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(config);
+    SessionManager.getState("test-session");
+  }
+
+  test("uses the configured suggestion and escalation thresholds", async () => {
+    useRecoveryConfig({ suggestAt: 1, escalateAt: 4 });
+
+    const actions = [];
+    for (const output of ["error: one", "Build failed", "Permission denied", "Cannot find module 'x'"]) {
+      actions.push((await ErrorRecovery.checkForErrors("bash", output, "test-session")).action);
+    }
+    expect(actions).toEqual(["suggested", "suggested", "suggested", "escalated"]);
+  });
+
+  test("escalates to the configured agent", async () => {
+    useRecoveryConfig({ escalateAt: 2, escalationAgent: "plan" });
+
+    const first = await ErrorRecovery.checkForErrors("bash", "error: one", "test-session");
+    expect(first.action).toBe("logged");
+    const result = await ErrorRecovery.checkForErrors("bash", "error: two", "test-session");
+
+    expect(result.action).toBe("escalated");
+    expect(result.escalationMessage).toContain("[PLAN ESCALATION - 2-Strike Protocol Triggered]");
+    expect(result.escalationMessage).toContain("Escalation agent: Plan");
+    expect(ErrorRecovery.getErrorRecoveryState("test-session")?.agent).toBe("plan");
+  });
+
+  test("applies per-category overrides", async () => {
+    useRecoveryConfig({ categories: { network: { escalateAt: 1 }, lint: { escalateAt: 0 } } });
+
+    for (let i = 0; i < 4; i++) {
+      const lint = await ErrorRecovery.checkForErrors("bash", "✖ 3 problems (3 errors, 0 warnings)", "test-session");
+      expect(lint.suggestion?.category).toBe("lint");
+      expect(lint.action).not.toBe("escalated");
+    }
+
+    await ErrorRecovery.checkForErrors("bash", "ok", "test-session");
+    const network = await ErrorRecovery.checkForErrors("bash", "Error: connect ECONNREFUSED 127.0.0.1:5432", "test-session");
+    expect(network.strikeCount).toBe(1);
+    expect(network.action).toBe("escalated");
+    expect(ErrorRecovery.getRecoveryRules("test-session", "network")).toEqual({ suggestAt: 2, escalateAt: 1 });
+  });
+
+  test("suggests instead of escalating again during the cooldown", async () => {
+    useRecoveryConfig({ escalateAt: 1, cooldownSeconds: 60 });
+
+    expect((await ErrorRecovery.checkForErrors("bash", "error: one", "test-session")).action).toBe("escalated");
+    await ErrorRecovery.checkForErrors("bash", "ok", "test-session");
+
+    const result = await ErrorRecovery.checkForErrors("bash", "error: two", "test-session");
+    expect(result.action).toBe("suggested");
+    expect(result.recoveryMessage).toContain("Escalation is on cooldown");
+  });
+
+  test("recovery messages count down to escalation", () => {
+    const suggestion = ErrorRecovery.RECOVERY_SUGGESTIONS.build;
+    expect(ErrorRecovery.formatRecoverySuggestion(suggestion, ErrorRecovery.formatEscalationOutlook(3, "Plan"))).toContain(
+      "If issues persist, 3 more errors will trigger Plan escalation."
+    );
+    expect(ErrorRecovery.formatRecoverySuggestion(suggestion, ErrorRecovery.formatEscalationOutlook(undefined, "Plan"))).not.toContain(
+      "escalation"
+    );
+  });
+});
+
 describe("ErrorRecovery - Escalation Message", () => {
   beforeEach(() => {
     SessionManager.clearSessions();
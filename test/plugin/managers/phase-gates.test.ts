@@ -0,0 +1,119 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as PhaseGates from "../../../src/plugin/managers/phase-gates.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import * as VerificationTracker from "../../../src/plugin/managers/verification-tracker.js";
+import { workflowEngine } from "../../../src/plugin/managers/workflow-engine.js";
+import { todoEnforcer } from "../../../src/plugin/managers/todo-enforcer.js";
+import { createDefaultConfig, type PhaseGateConfig } from "../../../src/lib/config.js";
+
+const sessionId = "phase-gates-session";
+
+function useGates(gates: Partial<PhaseGateConfig>): void {
+  const config = createDefaultConfig();
+  config.workflow.gates = { ...config.workflow.gates, ...gates };
+  SessionManager.setDefaultConfig(config);
+  SessionManager.getState(sessionId);
+}
+
+describe("PhaseGates - Tool gates", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+  });
+
+  afterEach(() => {
+    SessionManager.clearSessions();
+    todoEnforcer.clearSessionTodos(sessionId);
+  });
+
+  test("gates are off by default", () => {
+    useGates({});
+    workflowEngine.startWorkflow(sessionId);
+    expect(PhaseGates.checkToolGate(sessionId, "edit")).toEqual({ action: "allow" });
+    expect(PhaseGates.describeGates(sessionId)).toBe("");
+  });
+
+  test("denies implementation tools in early phases until exploration moves the workflow on", async () => {
+    useGates({ mode: "deny" });
+    workflowEngine.startWorkflow(sessionId);
+
+    const result = PhaseGates.checkToolGate(sessionId, "edit");
+    expect(result).toMatchObject({ action: "deny", gate: "early-phase" });
+    expect(PhaseGates.formatGateMessage(result)).toBe(
+      "[PHASE GATE] edit is not allowed during the intent phase. To unlock: read or search the code involved first, so the workflow moves past the intent phase."
+    );
+    expect(PhaseGates.checkToolGate(sessionId, "read").action).toBe("allow");
+
+    await workflowEngine.updatePhase("read", sessionId);
+    expect(PhaseGates.checkToolGate(sessionId, "edit").action).toBe("allow");
+  });
+
+  test("requires a number of read/search calls before changes", () => {
+    useGates({ mode: "warn", blockedPhases: [], minExplorationCalls: 2 });
+
+    expect(PhaseGates.checkToolGate(sessionId, "write")).toMatchObject({
+      action: "warn",
+      gate: "exploration",
+      unlock: "read or search the relevant code (2 more calls) before editing",
+    });
+
+    PhaseGates.recordToolUse(sessionId, "read");
+    PhaseGates.recordToolUse(sessionId, "grep");
+    expect(PhaseGates.getGateProgress(sessionId).explorationCalls).toBe(2);
+    expect(PhaseGates.checkToolGate(sessionId, "write").action).toBe("allow");
+  });
+
+  test("requires a todo list before changes", () => {
+    useGates({ mode: "deny", blockedPhases: [], requireTodos: true });
+    expect(PhaseGates.checkToolGate(sessionId, "edit")).toMatchObject({ action: "deny", gate: "todos" });
+
+    todoEnforcer.detectTodos("- [ ] Update the parser", sessionId);
+    expect(PhaseGates.checkToolGate(sessionId, "edit").action).toBe("allow");
+  });
+
+  test("intent overrides change the rules", () => {
+    useGates({ mode: "deny", intents: { exploration: { mode: "off" }, bugfix: { minExplorationCalls: 1 } } });
+    workflowEngine.startWorkflow(sessionId, "Explain how does the cache work");
+    expect(PhaseGates.checkToolGate(sessionId, "edit").action).toBe("allow");
+
+    workflowEngine.setIntentClassification(sessionId, "bugfix");
+    SessionManager.setPhase(sessionId, "exploration");
+    expect(PhaseGates.checkToolGate(sessionId, "edit")).toMatchObject({ action: "deny", gate: "exploration" });
+  });
+});
+
+describe("PhaseGates - Verification gate", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    useGates({ mode: "deny", blockedPhases: [], requireVerification: true });
+  });
+
+  afterEach(() => {
+    SessionManager.clearSessions();
+  });
+
+  test("allows stop when nothing was changed", () => {
+    expect(PhaseGates.checkStopGate(sessionId).action).toBe("allow");
+  });
+
+  test("requires a passing test or build run after the last change", () => {
+    VerificationTracker.recordToolUse(sessionId, "edit", { path: "src/a.ts" }, {});
+    const result = PhaseGates.checkStopGate(sessionId);
+    expect(result).toMatchObject({ action: "deny", gate: "verification" });
+    expect(PhaseGates.describeGates(sessionId)).toContain("Before finishing:");
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "ls src" }, { stdout: "a.ts", exitCode: 0 });
+    expect(PhaseGates.checkStopGate(sessionId).action).toBe("deny");
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "bun test" }, { stdout: " 3 pass\n 1 fail", exitCode: 1 });
+    expect(PhaseGates.checkStopGate(sessionId)).toMatchObject({
+      action: "deny",
+      reason: "The changes have not passed a test or build run since the last edit; last run failed `bun test` (exit 1, 3 passed, 1 failed)",
+    });
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "bun test" }, { stdout: " 4 pass", exitCode: 0 });
+    expect(PhaseGates.checkStopGate(sessionId).action).toBe("allow");
+
+    VerificationTracker.recordToolUse(sessionId, "write", { path: "src/b.ts" }, {});
+    expect(PhaseGates.checkStopGate(sessionId).action).toBe("deny");
+  });
+});
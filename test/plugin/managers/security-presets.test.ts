@@ -0,0 +1,192 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  PERMISSION_DEFINITIONS,
+  SECURITY_PRESETS,
+  compilePermissionRules,
+  matchPermissionRules,
+  toPermissionCommand,
+} from "../../../src/plugin/managers/security-presets.js";
+import * as SecurityHardening from "../../../src/plugin/managers/security-hardening.js";
+import { createDefaultPermissions, toSecurityPermissions } from "../../../src/cli/wizard/types.js";
+import { writeSecurityPermissions } from "../../../src/cli/init.js";
+import type { SecurityConfig } from "../../../src/lib/config.js";
+
+function securityWith(overrides: Partial<SecurityConfig>): SecurityConfig {
+  return {
+    enableObfuscationDetection: true,
+    blockedPatterns: [],
+    warningPatterns: [],
+    blockedFiles: [],
+    preset: "permissive",
+    permissions: {},
+    allow: [],
+    confinement: { mode: "off", allowedRoots: [] },
+    network: { mode: "off", allowedDomains: [], deniedDomains: [] },
+    audit: { enabled: false, path: ".opencode/security-audit.jsonl", maxFileSizeMB: 10, maxFiles: 5 },
+    redaction: { mode: "redact", detectors: {} },
+    ...overrides,
+  };
+}
+
+function actionFor(security: SecurityConfig, tool: string, input: unknown): string {
+  return SecurityHardening.validateToolInput(tool, input, SecurityHardening.getSecurityPatterns(security)).action;
+}
+
+describe("SecurityPresets - Rule compilation", () => {
+  test("preset restrictions reference catalog permissions", () => {
+    const ids = new Set(PERMISSION_DEFINITIONS.map((d) => d.id));
+    for (const restrictions of Object.values(SECURITY_PRESETS)) {
+      for (const id of Object.keys(restrictions)) {
+        expect(ids.has(id)).toBe(true);
+      }
+    }
+  });
+
+  test("permissive and custom start without restrictions", () => {
+    expect(compilePermissionRules("permissive")).toEqual([]);
+    expect(compilePermissionRules("custom")).toEqual([]);
+  });
+
+  test("permissions overrides lift and add restrictions", () => {
+    const rules = compilePermissionRules("balanced", { "git-push": true, "git-commit": false, unknown: false });
+    const byId = new Map(rules.map((r) => [r.permission, r]));
+
+    expect(byId.has("git-push")).toBe(false);
+    expect(byId.get("git-commit")).toMatchObject({ action: "ask", source: "permissions" });
+    expect(byId.get("shell-system")).toMatchObject({ action: "ask", source: "balanced" });
+    expect(byId.has("unknown")).toBe(false);
+  });
+
+  test("matchPermissionRules prefers deny over ask", () => {
+    const rules = compilePermissionRules("permissive", { "git-push": false, "shell-npm": false });
+    expect(matchPermissionRules(rules, "bash", ["npm test", "git push origin"])?.rule.permission).toBe("git-push");
+    expect(matchPermissionRules(rules, "bash", ["npm test"])?.rule.action).toBe("ask");
+    expect(matchPermissionRules(rules, "bash", ["ls"])).toBeUndefined();
+  });
+});
+
+describe("SecurityPresets - Enforcement", () => {
+  beforeEach(() => {
+    SecurityHardening.clearValidationCaches();
+  });
+
+  test("strict denies pushes and system commands, asks for commits", () => {
+    const strict = securityWith({ preset: "strict" });
+    expect(actionFor(strict, "bash", { command: "git push origin main" })).toBe("deny");
+    expect(actionFor(strict, "bash", { command: "systemctl restart nginx" })).toBe("deny");
+    expect(actionFor(strict, "bash", { command: "ssh prod" })).toBe("deny");
+    expect(actionFor(strict, "bash", { command: "git commit -m wip" })).toBe("ask");
+    expect(actionFor(strict, "bash", { command: "npm test" })).toBe("allow");
+  });
+
+  test("balanced asks for pushes and denies force operations", () => {
+    const balanced = securityWith({ preset: "balanced" });
+    expect(actionFor(balanced, "bash", { command: "git push" })).toBe("ask");
+    expect(actionFor(balanced, "bash", { command: "git push --force" })).toBe("deny");
+    expect(actionFor(balanced, "bash", { command: "git status" })).toBe("allow");
+  });
+
+  test("permissive keeps built-in behavior", () => {
+    expect(actionFor(securityWith({}), "bash", { command: "git push" })).toBe("allow");
+  });
+
+  test("matches wrapped and compound commands but not quoted text", () => {
+    const balanced = securityWith({ preset: "balanced" });
+    expect(actionFor(balanced, "bash", { command: "npm test && git push" })).toBe("ask");
+    expect(actionFor(balanced, "bash", { command: "env GIT_TRACE=1 git push" })).toBe("ask");
+    expect(actionFor(balanced, "bash", { command: "echo 'git push'" })).toBe("allow");
+  });
+
+  test("matches git with a path or global options", () => {
+    const strict = securityWith({ preset: "strict" });
+    for (const command of [
+      "git -C . push origin main",
+      "git --git-dir=.git push",
+      "git -c core.sshCommand=ssh --work-tree=. push",
+      "/usr/bin/git push",
+      "/usr/bin/git --no-pager -C app push --force",
+    ]) {
+      expect(actionFor(strict, "bash", { command })).toBe("deny");
+    }
+    expect(actionFor(strict, "bash", { command: "/usr/bin/systemctl restart nginx" })).toBe("deny");
+    expect(actionFor(strict, "bash", { command: "git -C app status" })).toBe("allow");
+    expect(toPermissionCommand(["/usr/bin/git", "-C", "app", "push", "origin"])).toBe("git push origin");
+  });
+
+  test("reports the permission and its origin", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith({ preset: "custom", permissions: { "git-push": false } }));
+    const result = SecurityHardening.validateToolInput("bash", { command: "cd app && git push" }, patterns);
+
+    expect(result).toMatchObject({
+      action: "deny",
+      matchedPattern: "permission:git-push",
+      segment: "git push",
+    });
+    expect(result.reason).toBe('Permission "git-push" (Git push) is restricted by security.permissions');
+  });
+
+  test("restricts file tools by permission", () => {
+    const security = securityWith({ preset: "custom", permissions: { "file-write": false } });
+    expect(actionFor(security, "write", { filePath: "src/a.ts" })).toBe("ask");
+    expect(actionFor(security, "read", { filePath: "src/a.ts" })).toBe("allow");
+  });
+
+  test("never relaxes built-in denials", () => {
+    const security = securityWith({ preset: "custom", permissions: { "file-delete": true } });
+    expect(actionFor(security, "bash", { command: "rm -rf /" })).toBe("deny");
+  });
+
+  test("allow rules can override permission restrictions", () => {
+    const security = securityWith({
+      preset: "strict",
+      allow: [{ command: "^git push origin feature/", reason: "Feature branches" }],
+    });
+    expect(actionFor(security, "bash", { command: "git push origin feature/x" })).toBe("allow");
+    expect(actionFor(security, "bash", { command: "git push origin main" })).toBe("deny");
+  });
+});
+
+describe("SecurityPresets - Wizard choices", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "atreides-presets-"));
+    SecurityHardening.clearValidationCaches();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("unchecked wizard permissions are enforced", () => {
+    const permissions = toSecurityPermissions(createDefaultPermissions("typescript"));
+    expect(permissions["git-push"]).toBe(false);
+    expect(permissions["shell-npm"]).toBe(true);
+
+    const security = securityWith({ preset: "custom", permissions });
+    expect(actionFor(security, "bash", { command: "git push" })).toBe("deny");
+    expect(actionFor(security, "bash", { command: "curl -s https://example.com" })).toBe("allow");
+    expect(actionFor(security, "bash", { command: "pip install requests" })).toBe("ask");
+  });
+
+  test("writeSecurityPermissions merges into an existing opencode.json", async () => {
+    writeFileSync(join(dir, "opencode.json"), JSON.stringify({ model: "x", atreides: { security: { blockedFiles: ["a"] } } }));
+    const configuration = {
+      projectType: "typescript" as const,
+      installationMode: "standard" as const,
+      agents: [],
+      permissions: createDefaultPermissions("typescript"),
+    };
+
+    expect(await writeSecurityPermissions(dir, configuration)).toBe(true);
+
+    const written = JSON.parse(readFileSync(join(dir, "opencode.json"), "utf-8"));
+    expect(written.model).toBe("x");
+    expect(written.atreides.security.blockedFiles).toEqual(["a"]);
+    expect(written.atreides.security.preset).toBe("custom");
+    expect(written.atreides.security.permissions["git-push"]).toBe(false);
+  });
+});
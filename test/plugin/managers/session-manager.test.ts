@@ -399,3 +399,92 @@ describe("SessionManager - Memory Safety", () => {
     expect(SessionManager.getState("replace-test")).not.toBe(original);
   });
 });
+
+describe("SessionManager - Eviction", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+  });
+
+  test("eviction is disabled by default", () => {
+    for (let i = 0; i < 5; i++) {
+      SessionManager.getState(`session-${i}`);
+    }
+
+    expect(SessionManager.getEvictionPolicy()).toBeNull();
+    expect(SessionManager.getSessionCount()).toBe(5);
+  });
+
+  test("evicts least recently active sessions over the cap", () => {
+    SessionManager.setEvictionPolicy({ maxSessions: 2, maxIdleMs: 0 });
+
+    SessionManager.getState("oldest").lastActivityAt = new Date(1000);
+    SessionManager.getState("middle").lastActivityAt = new Date(2000);
+    SessionManager.getState("newest");
+
+    expect(SessionManager.getSessionCount()).toBe(2);
+    expect(SessionManager.hasSession("oldest")).toBe(false);
+    expect(SessionManager.hasSession("middle")).toBe(true);
+    expect(SessionManager.hasSession("newest")).toBe(true);
+    expect(SessionManager.getEvictionStats()).toEqual({ evicted: 1, idle: 0, capacity: 1 });
+  });
+
+  test("never evicts the session being created", () => {
+    SessionManager.setEvictionPolicy({ maxSessions: 1, maxIdleMs: 0 });
+
+    SessionManager.getState("first");
+    const created = SessionManager.initializeSessionState("second", createMockConfig());
+    created.lastActivityAt = new Date(0);
+    SessionManager.setState("second", created);
+
+    expect(SessionManager.hasSession("second")).toBe(true);
+    expect(SessionManager.hasSession("first")).toBe(false);
+  });
+
+  test("evicts sessions idle longer than maxIdleMs", () => {
+    const now = Date.now();
+    SessionManager.getState("idle").lastActivityAt = new Date(now - 120_000);
+    SessionManager.getState("active").lastActivityAt = new Date(now - 1_000);
+    SessionManager.setEvictionPolicy({ maxSessions: 0, maxIdleMs: 60_000 });
+
+    const evicted = SessionManager.enforceEvictionPolicy(undefined, now);
+
+    expect(evicted).toEqual(["idle"]);
+    expect(SessionManager.hasSession("active")).toBe(true);
+    expect(SessionManager.getEvictionStats().idle).toBe(1);
+  });
+
+  test("notifies listeners with the eviction reason", () => {
+    const events: Array<[string, string]> = [];
+    SessionManager.onSessionEvicted((sessionId, reason) => events.push([sessionId, reason]));
+    SessionManager.setEvictionPolicy({ maxSessions: 1, maxIdleMs: 0 });
+
+    SessionManager.getState("a").lastActivityAt = new Date(0);
+    SessionManager.getState("b");
+
+    expect(events).toEqual([["a", "capacity"]]);
+  });
+
+  test("listener unsubscribe stops notifications", () => {
+    let calls = 0;
+    const unsubscribe = SessionManager.onSessionEvicted(() => calls++);
+    unsubscribe();
+    SessionManager.setEvictionPolicy({ maxSessions: 1, maxIdleMs: 0 });
+
+    SessionManager.getState("a").lastActivityAt = new Date(0);
+    SessionManager.getState("b");
+
+    expect(calls).toBe(0);
+  });
+
+  test("clearSessions resets policy, listeners and stats", () => {
+    SessionManager.setEvictionPolicy({ maxSessions: 1, maxIdleMs: 0 });
+    SessionManager.getState("a").lastActivityAt = new Date(0);
+    SessionManager.getState("b");
+
+    SessionManager.clearSessions();
+
+    expect(SessionManager.getEvictionPolicy()).toBeNull();
+    expect(SessionManager.getEvictionStats()).toEqual({ evicted: 0, idle: 0, capacity: 0 });
+  });
+});
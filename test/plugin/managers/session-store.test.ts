@@ -0,0 +1,172 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  FileSessionStore,
+  serializeSessionState,
+  deserializeSessionState,
+  resolveStateDirectory,
+} from "../../../src/plugin/managers/session-store.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { createEventHandler } from "../../../src/plugin/handlers.js";
+import { createMockConfig, createMockContext } from "../../mocks/opencode-context.js";
+
+describe("SessionStore - Serialization", () => {
+  test("round-trips Date fields", () => {
+    const state = SessionManager.initializeSessionState("s1", createMockConfig());
+    state.createdAt = new Date("2025-01-01T10:00:00.000Z");
+    state.lastActivityAt = new Date("2025-01-01T11:30:00.000Z");
+    state.toolHistory.push({
+      tool: "bash",
+      timestamp: new Date("2025-01-01T11:00:00.000Z"),
+      success: false,
+      durationMs: 12,
+      error: "Exit code: 1",
+    });
+
+    const restored = deserializeSessionState(serializeSessionState(state));
+
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.createdAt.toISOString()).toBe("2025-01-01T10:00:00.000Z");
+    expect(restored.lastActivityAt.toISOString()).toBe("2025-01-01T11:30:00.000Z");
+    expect(restored.toolHistory[0]?.timestamp).toBeInstanceOf(Date);
+    expect(restored.toolHistory[0]?.timestamp.toISOString()).toBe("2025-01-01T11:00:00.000Z");
+    expect(restored.toolHistory[0]?.error).toBe("Exit code: 1");
+  });
+
+  test("does not persist the config snapshot", () => {
+    const state = SessionManager.initializeSessionState("s1", createMockConfig());
+    const parsed = JSON.parse(serializeSessionState(state));
+
+    expect(parsed.version).toBe(1);
+    expect(parsed.state.config).toBeUndefined();
+  });
+
+  test("rejects invalid content", () => {
+    expect(() => deserializeSessionState("{not json")).toThrow();
+    expect(() => deserializeSessionState(JSON.stringify({ version: 1 }))).toThrow();
+    expect(() =>
+      deserializeSessionState(JSON.stringify({ version: 99, state: {} }))
+    ).toThrow();
+  });
+
+  test("resolveStateDirectory handles relative and absolute paths", () => {
+    expect(resolveStateDirectory("/project", ".opencode/state")).toBe("/project/.opencode/state");
+    expect(resolveStateDirectory("/project", "/var/state")).toBe("/var/state");
+  });
+});
+
+describe("SessionStore - FileSessionStore", () => {
+  let dir: string;
+  let store: FileSessionStore;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `atreides-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    store = new FileSessionStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("saves, loads and deletes a session", () => {
+    const state = SessionManager.initializeSessionState("session/1", createMockConfig());
+    state.errorCount = 2;
+
+    expect(store.save(state)).toBe(true);
+    expect(existsSync(store.getFilePath("session/1"))).toBe(true);
+
+    const loaded = store.load("session/1");
+    expect(loaded?.sessionId).toBe("session/1");
+    expect(loaded?.errorCount).toBe(2);
+
+    expect(store.delete("session/1")).toBe(true);
+    expect(store.load("session/1")).toBeUndefined();
+    expect(store.delete("session/1")).toBe(false);
+  });
+
+  test("returns undefined for unknown sessions", () => {
+    expect(store.load("unknown")).toBeUndefined();
+  });
+
+  test("quarantines corrupt files instead of throwing", () => {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(store.getFilePath("broken"), "{ definitely not json", "utf-8");
+
+    expect(store.load("broken")).toBeUndefined();
+
+    const files = readdirSync(dir);
+    expect(files.some((f) => f.startsWith("broken.json.corrupt-"))).toBe(true);
+    expect(existsSync(store.getFilePath("broken"))).toBe(false);
+  });
+});
+
+describe("SessionStore - SessionManager write-through", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `atreides-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+    SessionManager.setStore(new FileSessionStore(dir));
+  });
+
+  afterEach(() => {
+    SessionManager.clearSessions();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("setState and persistSession write through to the store", () => {
+    const config = createMockConfig();
+    SessionManager.setState("s1", SessionManager.initializeSessionState("s1", config));
+    SessionManager.setPhase("s1", "exploration");
+    SessionManager.incrementErrorCount("s1");
+    expect(SessionManager.persistSession("s1")).toBe(true);
+
+    const loaded = SessionManager.getStore()?.load("s1");
+    expect(loaded?.phase).toBe("exploration");
+    expect(loaded?.errorCount).toBe(1);
+  });
+
+  test("deleteSession removes the persisted copy", () => {
+    SessionManager.setState("s1", SessionManager.initializeSessionState("s1", createMockConfig()));
+    SessionManager.deleteSession("s1");
+
+    expect(SessionManager.getStore()?.load("s1")).toBeUndefined();
+  });
+
+  test("getState rehydrates a persisted session before auto-initializing", () => {
+    const store = new FileSessionStore(dir);
+    const config = createMockConfig();
+    const original = SessionManager.initializeSessionState("s1", config);
+    original.errorCount = 2;
+    store.save(original);
+
+    const state = SessionManager.getState("s1");
+    expect(state.errorCount).toBe(2);
+    expect(state.config).toBeDefined();
+  });
+
+  test("session.created restores a known session after restart", async () => {
+    const config = createMockConfig();
+    const handler = createEventHandler(config, createMockContext());
+
+    await handler({ type: "session.created", sessionId: "s1" });
+    SessionManager.setPhase("s1", "implementation");
+    SessionManager.addToolExecution("s1", { tool: "edit", timestamp: new Date(), success: true });
+    SessionManager.persistSession("s1");
+
+    // Simulate a plugin restart: memory is wiped, the store is re-attached
+    SessionManager.clearSessions();
+    SessionManager.setStore(new FileSessionStore(dir));
+
+    await handler({ type: "session.created", sessionId: "s1" });
+
+    const state = SessionManager.getStateOrUndefined("s1");
+    expect(state?.phase).toBe("implementation");
+    expect(state?.toolHistory).toHaveLength(1);
+    expect(state?.toolHistory[0]?.timestamp).toBeInstanceOf(Date);
+    expect(state?.config).toBe(config);
+  });
+});
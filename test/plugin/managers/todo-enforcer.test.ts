@@ -6,7 +6,7 @@ import {
   type TodoItem,
 } from "../../../src/plugin/managers/todo-enforcer";
 import * as SessionManager from "../../../src/plugin/managers/session-manager";
-import type { Config } from "../../../src/lib/config";
+import type { Config, TodoEnforcementConfig } from "../../../src/lib/config";
 
 function createMockConfig(): Config {
   return {
@@ -256,6 +256,106 @@ describe("TodoEnforcer - Stop Blocking Logic", () => {
   });
 });
 
+describe("TodoEnforcer - Enforcement Policies", () => {
+  const sessionId = "policy-session";
+  let enforcer: TodoEnforcer;
+
+  function setPolicy(policy: Partial<TodoEnforcementConfig>): void {
+    SessionManager.getState(sessionId).config.workflow.todoEnforcement = {
+      blockOn: "any",
+      allowStopAfterAttempts: 0,
+      releaseTags: ["deferred", "blocked"],
+      maxAgeMinutes: 0,
+      ...policy,
+    };
+  }
+
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+    SessionManager.getState(sessionId);
+    enforcer = createTodoEnforcer();
+  });
+
+  test("lists blocking todos and how to release them", async () => {
+    enforcer.detectTodos("- [ ] Add tests [high]\n- [-] Wire the API", sessionId);
+
+    const result = await enforcer.checkPendingTodos(sessionId);
+
+    expect(result.allow).toBe(false);
+    expect(result.reason).toContain("- [ ] Add tests [high]\n- [-] Wire the API");
+    expect(result.reason).toContain("`- [x] <todo>`");
+    expect(result.reason).toContain("`- [ ] ~~<todo>~~`");
+    expect(result.reason).toContain("add a [deferred] or [blocked] tag");
+  });
+
+  test("release tags exempt todos", async () => {
+    enforcer.detectTodos("- [ ] Migrate data [deferred]\n- [ ] Ask for keys [blocked]\n- [ ] Ship it", sessionId);
+
+    const result = await enforcer.checkPendingTodos(sessionId);
+
+    expect(result.pendingTodos).toEqual(["Ship it"]);
+    expect(result.exemptCount).toBe(2);
+    expect(result.reason).toContain("Not blocking: 2 tagged deferred/blocked");
+
+    enforcer.detectTodos("- [ ] Ship it [deferred]", sessionId);
+    expect(await enforcer.checkPendingTodos(sessionId)).toMatchObject({ allow: true, pendingCount: 0, exemptCount: 3 });
+  });
+
+  test("blockOn high only blocks high-priority todos", async () => {
+    setPolicy({ blockOn: "high" });
+    enforcer.detectTodos("- [ ] Polish copy [low]\n- [ ] Refactor", sessionId);
+
+    expect(await enforcer.checkPendingTodos(sessionId)).toMatchObject({ allow: true, exemptCount: 2 });
+
+    enforcer.detectTodos("- [ ] Fix the crash [high]", sessionId);
+    const result = await enforcer.checkPendingTodos(sessionId);
+    expect(result.pendingTodos).toEqual(["Fix the crash"]);
+    expect(result.reason).toContain("Not blocking: 2 below high priority");
+  });
+
+  test("todos older than maxAgeMinutes stop counting", async () => {
+    setPolicy({ maxAgeMinutes: 30 });
+    enforcer.detectTodos("- [ ] Old task\n- [ ] New task", sessionId);
+    enforcer.getTodos(sessionId)[0]!.createdAt = Date.now() - 31 * 60_000;
+
+    const result = await enforcer.checkPendingTodos(sessionId);
+
+    expect(result.pendingTodos).toEqual(["New task"]);
+    expect(result.reason).toContain("Not blocking: 1 older than 30 minutes");
+  });
+
+  test("allows the stop after N blocked attempts in a row", async () => {
+    setPolicy({ allowStopAfterAttempts: 2 });
+    enforcer.detectTodos("- [ ] Pending task", sessionId);
+
+    const first = await enforcer.checkPendingTodos(sessionId);
+    expect(first).toMatchObject({ allow: false, blockedAttempts: 1 });
+    expect(first.reason).toContain("the stop is allowed after 1 more");
+
+    const second = await enforcer.checkPendingTodos(sessionId);
+    expect(second).toMatchObject({ allow: false, blockedAttempts: 2 });
+    expect(second.reason).toContain("the next stop attempt is allowed");
+
+    expect(await enforcer.checkPendingTodos(sessionId)).toMatchObject({
+      allow: true,
+      pendingCount: 1,
+      blockedAttempts: 2,
+      overridden: true,
+    });
+    expect((await enforcer.checkPendingTodos(sessionId)).allow).toBe(false);
+  });
+
+  test("restarts the attempt count when the blocking todos change", async () => {
+    setPolicy({ allowStopAfterAttempts: 1 });
+    enforcer.detectTodos("- [ ] First", sessionId);
+    expect((await enforcer.checkPendingTodos(sessionId)).blockedAttempts).toBe(1);
+
+    enforcer.detectTodos("- [ ] Second", sessionId);
+    expect(await enforcer.checkPendingTodos(sessionId)).toMatchObject({ allow: false, blockedAttempts: 1 });
+  });
+});
+
 describe("TodoEnforcer - Todo Management", () => {
   let enforcer: TodoEnforcer;
 
@@ -363,6 +463,42 @@ describe("TodoEnforcer - Todo Management", () => {
   });
 });
 
+describe("TodoEnforcer - Compaction Restore", () => {
+  let enforcer: TodoEnforcer;
+
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createMockConfig());
+    enforcer = createTodoEnforcer();
+  });
+
+  test("restores pending todos and skips known ones", () => {
+    const sessionId = "restore-session";
+    enforcer.detectTodos("- [ ] Write tests", sessionId);
+
+    const restored = enforcer.restoreTodos(sessionId, [
+      { description: "Write tests" },
+      { description: "Update docs" },
+      { description: "  " },
+    ]);
+
+    expect(restored).toBe(1);
+    expect(enforcer.getPendingTodos(sessionId).map((t) => t.description)).toEqual(["Write tests", "Update docs"]);
+  });
+
+  test("leaves restored session todo counts alone", () => {
+    const sessionId = "restore-counts";
+    SessionManager.getState(sessionId);
+    SessionManager.updateTodos(sessionId, 5, 3);
+
+    enforcer.restoreTodos(sessionId, [{ description: "Remaining task" }]);
+
+    const state = SessionManager.getState(sessionId);
+    expect(state.todoCount).toBe(5);
+    expect(state.todosCompleted).toBe(3);
+  });
+});
+
 describe("TodoEnforcer - Summary and Formatting", () => {
   let enforcer: TodoEnforcer;
 
@@ -0,0 +1,131 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import * as TodoExport from "../../../src/plugin/managers/todo-export.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { createTodoStore, generateTodoId, type TodoStore } from "../../../src/plugin/managers/todo-store.js";
+import { createDefaultConfig } from "../../../src/lib/config.js";
+
+describe("TodoExport", () => {
+  let testDir: string;
+  let store: TodoStore;
+  let todoFile: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `atreides-todo-export-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    todoFile = join(testDir, ".opencode", "TODO.md");
+
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createDefaultConfig());
+    TodoExport.configureTodoExport(testDir);
+    store = createTodoStore();
+  });
+
+  afterEach(() => {
+    TodoExport.configureTodoExport(undefined);
+    SessionManager.clearSessions();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("exports open todos with the session's intent and timestamps", () => {
+    SessionManager.getState("ses-1").workflow.intentClassification = "bugfix";
+    store.ingestTodoWrite("ses-1", [
+      { id: "t1", content: "Reproduce the bug", status: "completed" },
+      { id: "t2", content: "Fix the crash", status: "in_progress", priority: "high" },
+      { id: "t3", content: "Add a test [deferred]" },
+    ]);
+
+    const result = TodoExport.exportTodos("ses-1", { store });
+
+    expect(result).toEqual({ success: true, path: todoFile, added: 2, updated: 0 });
+    const content = readFileSync(todoFile, "utf-8");
+    expect(content).toStartWith("# TODO\n\n## Session ses-1\n\nIntent: bugfix · Started: ");
+    expect(content).toContain(
+      `- [-] Fix the crash [high] <!-- todo:${generateTodoId("Fix the crash")} -->\n` +
+        `- [ ] Add a test [deferred] <!-- todo:${generateTodoId("Add a test")} -->\n`
+    );
+    expect(content).not.toContain("Reproduce the bug");
+  });
+
+  test("merges entries by todo id across sessions", () => {
+    store.ingestTodoWrite("ses-1", [{ id: "t1", content: "Fix the crash" }, { id: "t2", content: "Update docs" }]);
+    TodoExport.exportTodos("ses-1", { store });
+
+    expect(TodoExport.importTodos("ses-2", { store })).toEqual({ success: true, path: todoFile, imported: 2 });
+    const crash = generateTodoId("Fix the crash");
+    store.setStatus("ses-2", crash, "completed");
+    store.ingestMarkdown("ses-2", "- [ ] Release notes");
+
+    expect(TodoExport.exportTodos("ses-2", { store })).toMatchObject({ added: 1, updated: 1 });
+    const file = TodoExport.parseTodoFile(readFileSync(todoFile, "utf-8"));
+    expect(file.sections.map((s) => [s.sessionId, s.todos.map((t) => `${t.id}:${t.status}`)])).toEqual([
+      ["ses-1", [`${crash}:completed`, `${generateTodoId("Update docs")}:pending`]],
+      ["ses-2", [`${store.findTodoByDescription("ses-2", "Release notes")!.id}:pending`]],
+    ]);
+    expect(TodoExport.exportTodos("ses-2", { store })).toMatchObject({ added: 0, updated: 0 });
+  });
+
+  test("does not mix up todowrite ids of different sessions", () => {
+    store.ingestTodoWrite("ses-a", [{ id: "1", content: "Fix the crash" }]);
+    TodoExport.exportTodos("ses-a", { store });
+    store.ingestTodoWrite("ses-b", [{ id: "1", content: "Write the docs", status: "completed" }]);
+    TodoExport.exportTodos("ses-b", { store });
+
+    const file = TodoExport.parseTodoFile(readFileSync(todoFile, "utf-8"));
+    expect(file.sections.flatMap((s) => s.todos.map((t) => `${t.description}:${t.status}`))).toEqual([
+      "Fix the crash:pending",
+    ]);
+
+    // Imported todos keep their file id next to a later todowrite payload
+    expect(TodoExport.importTodos("ses-c", { store })).toMatchObject({ imported: 1 });
+    store.ingestTodoWrite("ses-c", [{ id: "1", content: "Release notes" }]);
+    expect(store.getOpenTodos("ses-c").map((t) => t.description).sort()).toEqual(["Fix the crash", "Release notes"]);
+  });
+
+  test("round-trips cancelled todos, tags and the preamble", () => {
+    const content = [
+      "# Project TODO",
+      "",
+      "Notes for the team.",
+      "",
+      "## Session ses-9",
+      "",
+      "Intent: feature · Exported: 2025-01-01T00:00:00.000Z",
+      "",
+      "- [ ] ~~Old plan [low] [blocked]~~ <!-- todo:a -->",
+      "- [x] Done task <!-- todo:b -->",
+      "",
+    ].join("\n");
+
+    const file = TodoExport.parseTodoFile(content);
+
+    expect(file.preamble).toBe("# Project TODO\n\nNotes for the team.\n");
+    expect(file.sections[0]).toMatchObject({ sessionId: "ses-9", intent: "feature", exportedAt: "2025-01-01T00:00:00.000Z" });
+    expect(file.sections[0]!.todos[0]).toEqual({ id: "a", description: "Old plan", status: "cancelled", priority: "low", tags: ["blocked"] });
+    expect(TodoExport.formatTodoFile(file)).toBe(content);
+  });
+
+  test("exports and imports on session events only when configured", () => {
+    writeFileSync(join(testDir, "TODO.md"), "## Session old\n\n- [ ] Carry over <!-- todo:c1 -->\n");
+    const config = SessionManager.getState("ses-1").config.session.todoExport;
+    config.path = "TODO.md";
+
+    expect(TodoExport.importTodosOnSessionStart("ses-1")).toBeUndefined();
+    expect(TodoExport.exportTodosOnSessionEnd("ses-1")).toBeUndefined();
+
+    config.importOnStart = true;
+    config.enabled = true;
+    expect(TodoExport.importTodosOnSessionStart("ses-1")).toMatchObject({ success: true, imported: 1 });
+    expect(TodoExport.exportTodosOnSessionEnd("ses-1")).toMatchObject({ success: true, added: 0, updated: 0 });
+  });
+
+  test("reports missing configuration and files", () => {
+    TodoExport.configureTodoExport(undefined);
+    expect(TodoExport.exportTodos("ses-1", { store }).error).toBe("Todo export is not configured");
+
+    expect(TodoExport.importTodos("ses-1", { store, path: join(testDir, "missing.md") })).toMatchObject({ success: true, imported: 0 });
+    expect(existsSync(join(testDir, "missing.md"))).toBe(false);
+  });
+});
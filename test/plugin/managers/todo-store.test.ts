@@ -0,0 +1,104 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { createTodoStore, generateTodoId, parseTodoText, type TodoStore } from "../../../src/plugin/managers/todo-store.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { createDefaultConfig } from "../../../src/lib/config.js";
+
+const sessionId = "todo-store-session";
+
+describe("TodoStore", () => {
+  let store: TodoStore;
+
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createDefaultConfig());
+    SessionManager.getState(sessionId);
+    store = createTodoStore();
+  });
+
+  test("ingests todowrite payloads with statuses and priorities", () => {
+    store.ingestTodoWrite(sessionId, [
+      { id: "a", content: "Write the parser", status: "in_progress", priority: "high" },
+      { id: "b", content: "Add tests", status: "pending", priority: "urgent" },
+      { id: "c", content: "Read the spec", status: "completed" },
+      { id: "d", content: "Port the old parser", status: "cancelled" },
+    ]);
+
+    expect(store.getTodos(sessionId).map((t) => [t.id, t.status, t.priority, t.source])).toEqual([
+      ["a", "in_progress", "high", "todowrite"],
+      ["b", "pending", undefined, "todowrite"],
+      ["c", "completed", undefined, "todowrite"],
+      ["d", "cancelled", undefined, "todowrite"],
+    ]);
+    expect(store.getOpenTodos(sessionId).map((t) => t.id)).toEqual(["a", "b"]);
+    expect(store.getSummary(sessionId)).toEqual({ total: 3, pending: 2, inProgress: 1, completed: 1, cancelled: 1 });
+
+    const state = SessionManager.getState(sessionId);
+    expect(state.todoCount).toBe(3);
+    expect(state.todosCompleted).toBe(1);
+  });
+
+  test("replaces earlier todowrite todos and takes over checkbox todos", () => {
+    store.ingestMarkdown(sessionId, "- [ ] Add tests\n- [ ] Update docs");
+    store.ingestTodoWrite(sessionId, [{ id: "old", content: "Old task", status: "pending" }]);
+
+    store.ingestTodoWrite(sessionId, [{ id: "t1", content: "add tests", status: "completed" }]);
+
+    expect(store.getTodos(sessionId).map((t) => [t.id, t.source, t.status])).toEqual([
+      [generateTodoId("Update docs"), "markdown", "pending"],
+      ["t1", "todowrite", "completed"],
+    ]);
+    expect(store.getTodo(sessionId, "t1")?.completedAt).toBeNumber();
+  });
+
+  test("ingests nested markdown checkboxes", () => {
+    const added = store.ingestMarkdown(
+      sessionId,
+      ["- [ ] Build the API [high]", "  - [-] Add routes", "    - [ ] Validate input", "- [ ] Write docs"].join("\n")
+    );
+
+    expect(added).toBe(4);
+    const [api, routes, validate, docs] = store.getTodos(sessionId);
+    expect(api).toMatchObject({ description: "Build the API", priority: "high", status: "pending", source: "markdown" });
+    expect(api?.parentId).toBeUndefined();
+    expect(routes).toMatchObject({ status: "in_progress", parentId: api!.id });
+    expect(validate?.parentId).toBe(routes!.id);
+    expect(docs?.parentId).toBeUndefined();
+  });
+
+  test("checked and struck-through boxes update tracked todos only", () => {
+    store.ingestMarkdown(sessionId, "- [ ] Add routes\n- [ ] Old approach");
+
+    store.ingestMarkdown(sessionId, "- [x] Add routes\n- [ ] ~~Old approach~~\n- [x] Never tracked\n- [ ] Add routes");
+
+    expect(store.getTodos(sessionId).map((t) => [t.description, t.status])).toEqual([
+      ["Add routes", "completed"],
+      ["Old approach", "cancelled"],
+    ]);
+    expect(store.getOpenTodos(sessionId)).toEqual([]);
+  });
+
+  test("restores open todos without touching session counts", () => {
+    SessionManager.updateTodos(sessionId, 4, 2);
+    store.ingestMarkdown(sessionId, "- [ ] Add routes");
+
+    const restored = store.restoreTodos(sessionId, [
+      { description: "Add routes" },
+      { description: "Write docs", status: "in_progress", priority: "low" },
+    ]);
+
+    expect(restored).toBe(1);
+    expect(store.getTodos(sessionId)[1]).toMatchObject({ status: "in_progress", priority: "low", source: "restored" });
+    expect(SessionManager.getState(sessionId).todoCount).toBe(1);
+  });
+
+  test("parses todo text markers", () => {
+    expect(parseTodoText("~~Drop the cache~~")).toEqual({ description: "Drop the cache", cancelled: true });
+    expect(parseTodoText("[LOW] Tidy up")).toEqual({ description: "Tidy up", cancelled: false, priority: "low" });
+    expect(parseTodoText("Migrate data [Deferred] [high] [deferred]")).toEqual({
+      description: "Migrate data",
+      cancelled: false,
+      priority: "high",
+      tags: ["deferred"],
+    });
+  });
+});
@@ -2,6 +2,10 @@ import { describe, expect, test, beforeEach, afterEach } from "bun:test";
 import { ToolInterceptor, toolInterceptor } from "../../../src/plugin/managers/tool-interceptor.js";
 import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
 import { createMockConfig } from "../../mocks/opencode-context.js";
+import { SecurityAuditLog, readAuditEntries } from "../../../src/lib/audit-log.js";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 
 describe("ToolInterceptor", () => {
   const testSessionId = "test-session-123";
@@ -102,6 +106,97 @@ describe("ToolInterceptor", () => {
       expect(history.length).toBe(1);
       expect(history[0].durationMs).toBeDefined();
     });
+
+    test("applies the session's configured security patterns", async () => {
+      SessionManager.setState(
+        "configured-session",
+        SessionManager.initializeSessionState("configured-session", createMockConfig({
+          security: {
+            enableObfuscationDetection: true,
+            blockedPatterns: ["terraform\\s+destroy"],
+            warningPatterns: ["kubectl\\s+delete"],
+            blockedFiles: [".vault/*"],
+          },
+        }))
+      );
+
+      expect((await interceptor.beforeExecute("bash", { command: "terraform destroy" }, "configured-session")).action).toBe("deny");
+      expect((await interceptor.beforeExecute("bash", { command: "kubectl delete ns x" }, "configured-session")).action).toBe("ask");
+      expect((await interceptor.beforeExecute("read", { filePath: ".vault/token" }, "configured-session")).action).toBe("deny");
+      expect((await interceptor.beforeExecute("bash", { command: "terraform destroy" }, testSessionId)).action).toBe("allow");
+    });
+
+    test("records security.allow overrides in session metadata", async () => {
+      SessionManager.setState(
+        "allow-session",
+        SessionManager.initializeSessionState("allow-session", createMockConfig({
+          security: {
+            enableObfuscationDetection: true,
+            blockedPatterns: [],
+            warningPatterns: [],
+            blockedFiles: [],
+            allow: [{ path: "fixtures/*.key", reason: "Test fixtures" }],
+          },
+        }))
+      );
+
+      const result = await interceptor.beforeExecute("read", { filePath: "fixtures/test.key" }, "allow-session");
+      expect(result.action).toBe("allow");
+      expect(result.override?.originalAction).toBe("deny");
+
+      const records = interceptor.getSecurityOverrides("allow-session");
+      expect(records).toHaveLength(1);
+      expect(records[0]?.tool).toBe("read");
+      expect(records[0]?.target).toBe("fixtures/test.key");
+      expect(records[0]?.ruleReason).toBe("Test fixtures");
+      expect(SessionManager.getMetadata("allow-session", "securityOverrides")).toBe(records);
+    });
+
+    test("records denied calls in session metadata", async () => {
+      await interceptor.beforeExecute("bash", { command: "rm -rf /" }, testSessionId);
+      await interceptor.beforeExecute("read", { filePath: ".env" }, testSessionId);
+      await interceptor.beforeExecute("bash", { command: "ls -la" }, testSessionId);
+
+      const blocks = interceptor.getSecurityBlocks(testSessionId);
+      expect(blocks.map((b) => [b.tool, b.input])).toEqual([["bash", "rm -rf /"], ["read", ".env"]]);
+      expect(blocks[0]?.reason).toBeDefined();
+      expect(blocks[0]?.matchedPattern).toBeDefined();
+      expect(SessionManager.getMetadata(testSessionId, "securityBlocks")).toEqual(blocks);
+    });
+
+    test("writes deny, ask and override decisions to the audit log", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "atreides-interceptor-audit-"));
+      const logPath = join(dir, "audit.jsonl");
+      SessionManager.setState(
+        "audit-session",
+        SessionManager.initializeSessionState("audit-session", createMockConfig({
+          security: {
+            enableObfuscationDetection: true,
+            blockedPatterns: [],
+            warningPatterns: ["kubectl\\s+delete"],
+            blockedFiles: [],
+            allow: [{ path: "fixtures/*.key", reason: "Test fixtures" }],
+          },
+        }))
+      );
+
+      try {
+        interceptor.setAuditLog(new SecurityAuditLog(logPath, { maxBytes: 1024 * 1024, maxFiles: 1 }));
+        await interceptor.beforeExecute("bash", { command: "rm -rf /" }, "audit-session");
+        await interceptor.beforeExecute("bash", { command: "kubectl delete ns x" }, "audit-session");
+        await interceptor.beforeExecute("read", { filePath: "fixtures/test.key" }, "audit-session");
+        await interceptor.beforeExecute("bash", { command: "ls -la" }, "audit-session");
+
+        const entries = readAuditEntries(logPath);
+        expect(entries.map((e) => e.decision)).toEqual(["deny", "ask", "override"]);
+        expect(entries[0]).toMatchObject({ sessionId: "audit-session", tool: "bash", input: "rm -rf /", obfuscated: false });
+        expect(entries[0]?.matchedPattern).toBeDefined();
+        expect(entries[2]).toMatchObject({ tool: "read", input: "fixtures/test.key", ruleIndex: 0, ruleReason: "Test fixtures" });
+      } finally {
+        interceptor.setAuditLog(undefined);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("afterExecute", () => {
@@ -0,0 +1,158 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import * as VerificationTracker from "../../../src/plugin/managers/verification-tracker.js";
+import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
+import { createDefaultConfig } from "../../../src/lib/config.js";
+
+const sessionId = "verification-session";
+
+describe("VerificationTracker - Output parsing", () => {
+  test("parses Bun test summaries", () => {
+    const result = VerificationTracker.parseVerificationOutput("bun test", {
+      stdout: "\n 12 pass\n 1 fail\n 30 expect() calls\nRan 13 tests across 2 files.",
+      exitCode: 1,
+    });
+    expect(result).toMatchObject({ runner: "bun", success: false, exitCode: 1, passed: 12, failed: 1 });
+  });
+
+  test("parses Jest summaries", () => {
+    const result = VerificationTracker.parseVerificationOutput("npx jest", {
+      stderr: "Test Suites: 1 failed, 3 passed, 4 total\nTests:       2 failed, 40 passed, 42 total",
+      exitCode: 1,
+    });
+    expect(result).toMatchObject({ runner: "jest", passed: 40, failed: 2 });
+  });
+
+  test("parses Vitest summaries with ANSI colors", () => {
+    const result = VerificationTracker.parseVerificationOutput("npx vitest run", {
+      stdout: " Test Files  2 passed (2)\n      Tests  \x1b[32m15 passed\x1b[39m (15)",
+      exitCode: 0,
+    });
+    expect(result).toMatchObject({ runner: "vitest", success: true, passed: 15, failed: 0 });
+  });
+
+  test("parses pytest summaries and counts errors as failures", () => {
+    const result = VerificationTracker.parseVerificationOutput(
+      "pytest -q",
+      "========== 1 failed, 8 passed, 1 error in 0.52s =========="
+    );
+    expect(result).toMatchObject({ runner: "pytest", success: false, passed: 8, failed: 2 });
+    expect(result.exitCode).toBeUndefined();
+  });
+
+  test("parses go test -v output", () => {
+    const result = VerificationTracker.parseVerificationOutput("go test -v ./...", {
+      stdout: "--- PASS: TestA (0.00s)\n--- PASS: TestB (0.00s)\n--- FAIL: TestC (0.01s)\nFAIL",
+      exitCode: 1,
+    });
+    expect(result).toMatchObject({ runner: "go", passed: 2, failed: 1 });
+  });
+
+  test("sums cargo test results over all test binaries", () => {
+    const result = VerificationTracker.parseVerificationOutput("cargo test", {
+      stdout: "test result: ok. 5 passed; 0 failed; 0 ignored\ntest result: FAILED. 2 passed; 1 failed; 0 ignored",
+      exitCode: 101,
+    });
+    expect(result).toMatchObject({ runner: "cargo", passed: 7, failed: 1, exitCode: 101 });
+  });
+
+  test("counts tsc errors", () => {
+    const result = VerificationTracker.parseVerificationOutput("npx tsc --noEmit", {
+      stdout: "src/a.ts(1,7): error TS2322: Type 'string' is not assignable.\n\nFound 1 error in src/a.ts:1",
+      exitCode: 2,
+    });
+    expect(result).toMatchObject({ runner: "tsc", success: false, errors: 1 });
+  });
+
+  test("detects the runner from the output of wrapper commands", () => {
+    const result = VerificationTracker.parseVerificationOutput("npm test", {
+      stdout: "Tests:       3 passed, 3 total",
+      exitCode: 0,
+    });
+    expect(result).toMatchObject({ runner: "jest", success: true, passed: 3 });
+  });
+
+  test("formats and parses result summaries", () => {
+    const result = VerificationTracker.parseVerificationOutput("bun test", { stdout: " 4 pass\n 1 fail", exitCode: 1 });
+    const summary = VerificationTracker.formatResult(result);
+    expect(summary).toBe("failed `bun test` (exit 1, 4 passed, 1 failed)");
+    expect(VerificationTracker.parseResult(summary)).toMatchObject({
+      command: "bun test",
+      runner: "bun",
+      success: false,
+      exitCode: 1,
+      passed: 4,
+      failed: 1,
+    });
+    expect(VerificationTracker.parseResult("not a summary")).toBeUndefined();
+  });
+});
+
+describe("VerificationTracker - Session tracking", () => {
+  beforeEach(() => {
+    SessionManager.clearSessions();
+    SessionManager.setDefaultConfig(createDefaultConfig());
+    SessionManager.getState(sessionId);
+  });
+
+  afterEach(() => {
+    SessionManager.clearSessions();
+  });
+
+  test("ignores commands that are not verification runs", () => {
+    expect(VerificationTracker.recordToolUse(sessionId, "bash", { command: "ls" }, { exitCode: 0 })).toBeUndefined();
+    expect(VerificationTracker.getStatus(sessionId)).toEqual({ editsSinceGreen: 0, runs: 0 });
+  });
+
+  test("counts edits since the last green run", () => {
+    VerificationTracker.recordToolUse(sessionId, "edit", { path: "a.ts" }, {});
+    VerificationTracker.recordToolUse(sessionId, "write", { path: "b.ts" }, {});
+    expect(VerificationTracker.getStatus(sessionId).editsSinceGreen).toBe(2);
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "bun test" }, { stdout: " 1 fail", exitCode: 1 });
+    expect(VerificationTracker.getStatus(sessionId).editsSinceGreen).toBe(2);
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "bun test" }, { stdout: " 3 pass", exitCode: 0 });
+    const status = VerificationTracker.getStatus(sessionId);
+    expect(status.editsSinceGreen).toBe(0);
+    expect(status.runs).toBe(2);
+    expect(status.lastGreenAt).toBeDefined();
+    expect(VerificationTracker.getLastResult(sessionId)?.passed).toBe(3);
+  });
+
+  test("counts file changes made with bash and skips failed calls", () => {
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "sed -i 's/a/b/' src/a.ts" }, { exitCode: 0 });
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "mv src/b.ts src/c.ts && echo done > log.txt" }, { exitCode: 0 });
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "git status" }, { exitCode: 0 });
+    expect(VerificationTracker.getStatus(sessionId).editsSinceGreen).toBe(2);
+
+    SessionManager.getState(sessionId).toolHistory.push({ tool: "edit", timestamp: new Date(), success: false });
+    VerificationTracker.recordToolUse(sessionId, "edit", { path: "a.ts" }, { error: "String not found" });
+    SessionManager.getState(sessionId).toolHistory.push({ tool: "bash", timestamp: new Date(), success: false });
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "rm missing.ts" }, { exitCode: 1 });
+    expect(VerificationTracker.getStatus(sessionId).editsSinceGreen).toBe(2);
+
+    // A failing test run is still recorded
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "bun test" }, { stdout: " 1 fail", exitCode: 1 });
+    expect(VerificationTracker.getStatus(sessionId)).toMatchObject({ editsSinceGreen: 2, runs: 1 });
+  });
+
+  test("blocks stop while changes are not verified", () => {
+    expect(VerificationTracker.checkGreenBeforeStop(sessionId).allow).toBe(true);
+
+    VerificationTracker.recordToolUse(sessionId, "edit", { path: "a.ts" }, {});
+    expect(VerificationTracker.checkGreenBeforeStop(sessionId).reason).toContain("No tests or build have been run yet");
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "cargo test" }, {
+      stdout: "test result: FAILED. 1 passed; 1 failed;",
+      exitCode: 101,
+    });
+    const blocked = VerificationTracker.checkGreenBeforeStop(sessionId);
+    expect(blocked.allow).toBe(false);
+    expect(blocked.reason).toBe(
+      "[VERIFICATION REQUIRED] 1 file change since the last successful verification. Last run: failed `cargo test` (exit 101, 1 passed, 1 failed). Run the tests or the build and make them pass before finishing."
+    );
+
+    VerificationTracker.recordToolUse(sessionId, "bash", { command: "cargo test" }, { exitCode: 0 });
+    expect(VerificationTracker.checkGreenBeforeStop(sessionId).allow).toBe(true);
+  });
+});
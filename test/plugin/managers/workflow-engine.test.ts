@@ -10,10 +10,11 @@ import {
   WorkflowEngine,
   workflowEngine,
   PHASE_TOOL_PATTERNS,
+  DEFAULT_WORKFLOW,
 } from "../../../src/plugin/managers/workflow-engine.js";
 import * as SessionManager from "../../../src/plugin/managers/session-manager.js";
 import type { WorkflowPhase, IntentType } from "../../../src/plugin/types.js";
-import { createDefaultConfig } from "../../../src/lib/config.js";
+import { createDefaultConfig, type WorkflowDefinition } from "../../../src/lib/config.js";
 
 describe("WorkflowEngine", () => {
   let engine: WorkflowEngine;
@@ -463,6 +464,155 @@ describe("WorkflowEngine", () => {
     });
   });
 
+  // ===========================================================================
+  // Intent Re-classification
+  // ===========================================================================
+
+  describe("Intent Re-classification", () => {
+    test("sets the intent when none is classified yet", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId);
+
+      expect(engine.reclassifyIntent(testSessionId, "Fix the authentication bug")).toBe(false);
+      expect(engine.getWorkflowState(testSessionId)?.intentClassification).toBe("bugfix");
+    });
+
+    test("keeps the intent for messages without a clear topic", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Fix the authentication bug");
+
+      expect(engine.reclassifyIntent(testSessionId, "yes, go ahead")).toBe(false);
+      expect(engine.getWorkflowState(testSessionId)?.intentClassification).toBe("bugfix");
+    });
+
+    test("reports a topic change and keeps the current phase mid-task", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Fix the authentication bug");
+      engine.transitionPhase(testSessionId, "intent", "exploration");
+
+      expect(engine.reclassifyIntent(testSessionId, "Update the README documentation")).toBe(true);
+      expect(engine.getWorkflowState(testSessionId)?.intentClassification).toBe("documentation");
+      expect(engine.getCurrentPhase(testSessionId)).toBe("exploration");
+    });
+
+    test("starts a new cycle when the topic changes after verification", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Fix the authentication bug");
+      SessionManager.setPhase(testSessionId, "verification");
+
+      expect(engine.reclassifyIntent(testSessionId, "Update the README documentation")).toBe(true);
+      expect(engine.getCurrentPhase(testSessionId)).toBe("intent");
+      expect(engine.getPhaseHistory(testSessionId).at(-1)?.reason).toBe("Topic changed");
+    });
+
+    test("does nothing for non-existent session", () => {
+      expect(engine.reclassifyIntent("non-existent", "Fix the bug")).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // Custom Workflows
+  // ===========================================================================
+
+  describe("Custom Workflows", () => {
+    const tdd: WorkflowDefinition = {
+      phases: ["intent", "red", "green", "refactor", "verification"],
+      transitions: {
+        idle: ["intent"],
+        intent: ["red"],
+        red: ["green"],
+        green: ["refactor", "verification"],
+        refactor: ["verification"],
+        verification: ["intent", "red", "idle"],
+      },
+      tools: { write: ["red"], edit: ["green", "refactor"] },
+      commands: [{ phase: "verification", patterns: ["\\bbun test\\b"], keepPhases: ["red"] }],
+      guidance: { red: "[WORKFLOW PHASE: RED]\nWrite a failing test first." },
+    };
+
+    beforeEach(() => {
+      const config = createDefaultConfig();
+      config.workflow.workflows = { tdd };
+      config.workflow.intentWorkflows = { test: "tdd" };
+      SessionManager.setDefaultConfig(config);
+    });
+
+    test("the built-in workflow is the default definition", () => {
+      SessionManager.getState(testSessionId);
+      expect(engine.getWorkflow(testSessionId)).toEqual({ name: "default", definition: DEFAULT_WORKFLOW });
+      expect(PHASE_TOOL_PATTERNS).toBe(DEFAULT_WORKFLOW.tools!);
+    });
+
+    test("selects the workflow configured for the classified intent", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Write unit test coverage for the parser");
+
+      expect(engine.getWorkflow(testSessionId).name).toBe("tdd");
+      expect(engine.getWorkflowState(testSessionId)?.workflowName).toBe("tdd");
+      expect(engine.getCurrentPhase(testSessionId)).toBe("intent");
+    });
+
+    test("follows the custom transitions, tool mappings and command rules", async () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Add test coverage");
+
+      // read is not mapped in the tdd workflow
+      expect(await engine.updatePhase("read", testSessionId)).toBe("intent");
+      expect(await engine.updatePhase("write", testSessionId)).toBe("red");
+      // The failing test run keeps the red phase
+      expect(await engine.updatePhase("bash", testSessionId, { command: "bun test" })).toBe("red");
+      expect(await engine.updatePhase("edit", testSessionId)).toBe("green");
+      // Forward progression picks refactor over green
+      expect(await engine.updatePhase("edit", testSessionId)).toBe("refactor");
+      expect(await engine.updatePhase("bash", testSessionId, { command: "bun test" })).toBe("verification");
+
+      engine.transitionPhase(testSessionId, "verification", "idle");
+      expect(engine.isWorkflowComplete(testSessionId)).toBe(true);
+    });
+
+    test("uses custom guidance and a phase header for phases without guidance", () => {
+      expect(engine.generatePhaseGuidance("red", "test", tdd)).toBe(
+        "[WORKFLOW PHASE: RED]\nWrite a failing test first.\nThis is a TEST task. Focus on coverage and edge cases."
+      );
+      expect(engine.generatePhaseGuidance("green", undefined, tdd)).toBe("[WORKFLOW PHASE: GREEN]");
+    });
+
+    test("switches workflow when the intent is classified before work starts", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId);
+      expect(engine.getWorkflow(testSessionId).name).toBe("default");
+
+      engine.reclassifyIntent(testSessionId, "Add integration test coverage");
+      expect(engine.getWorkflow(testSessionId).name).toBe("tdd");
+    });
+
+    test("keeps the workflow of a task in progress", async () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Fix the authentication bug");
+      await engine.updatePhase("read", testSessionId);
+
+      engine.reclassifyIntent(testSessionId, "Add integration test coverage");
+      expect(engine.getWorkflow(testSessionId).name).toBe("default");
+      expect(engine.getCurrentPhase(testSessionId)).toBe("exploration");
+    });
+
+    test("a topic change after the last phase starts the new intent's workflow", () => {
+      SessionManager.getState(testSessionId);
+      engine.startWorkflow(testSessionId, "Fix the authentication bug");
+      SessionManager.setPhase(testSessionId, "verification");
+
+      expect(engine.reclassifyIntent(testSessionId, "Add integration test coverage")).toBe(true);
+      expect(engine.getWorkflow(testSessionId).name).toBe("tdd");
+      expect(engine.getCurrentPhase(testSessionId)).toBe("intent");
+    });
+
+    test("falls back to the default workflow for unknown workflow names", () => {
+      const config = createDefaultConfig();
+      config.workflow.intentWorkflows = { test: "missing" };
+      expect(engine.getWorkflowNameForIntent(config.workflow, "test")).toBe("default");
+    });
+  });
+
   // ===========================================================================
   // Phase Guidance
   // ===========================================================================
@@ -0,0 +1,206 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, realpathSync, rmSync, symlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  extractCommandPaths,
+  getWorkspaceRoots,
+  isWithinRoots,
+  resolveWorkspacePath,
+  setWorkspaceRoots,
+} from "../../../src/plugin/managers/workspace-confinement.js";
+import { parseShellCommand } from "../../../src/plugin/managers/shell-parser.js";
+import * as SecurityHardening from "../../../src/plugin/managers/security-hardening.js";
+
+function createWorkspace(): { base: string; project: string; outside: string } {
+  const base = realpathSync(tmpdir());
+  const root = join(base, `atreides-confine-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const project = join(root, "project");
+  const outside = join(root, "outside");
+  mkdirSync(join(project, "src"), { recursive: true });
+  mkdirSync(outside, { recursive: true });
+  symlinkSync(outside, join(project, "escape"));
+  return { base: root, project, outside };
+}
+
+describe("WorkspaceConfinement - Path resolution", () => {
+  let ws: ReturnType<typeof createWorkspace>;
+
+  beforeEach(() => {
+    ws = createWorkspace();
+  });
+
+  afterEach(() => {
+    rmSync(ws.base, { recursive: true, force: true });
+  });
+
+  test("resolves relative paths and .. segments", () => {
+    expect(resolveWorkspacePath("src/index.ts", ws.project)).toBe(join(ws.project, "src/index.ts"));
+    expect(resolveWorkspacePath("../outside/x", ws.project)).toBe(join(ws.outside, "x"));
+  });
+
+  test("resolves symlinks, including for files that do not exist yet", () => {
+    expect(resolveWorkspacePath("escape", ws.project)).toBe(ws.outside);
+    expect(resolveWorkspacePath("escape/new/file.txt", ws.project)).toBe(join(ws.outside, "new/file.txt"));
+  });
+
+  test("isWithinRoots checks containment, not string prefixes", () => {
+    expect(isWithinRoots(join(ws.project, "src"), [ws.project])).toBe(true);
+    expect(isWithinRoots(ws.project, [ws.project])).toBe(true);
+    expect(isWithinRoots(`${ws.project}-other/file`, [ws.project])).toBe(false);
+    expect(isWithinRoots("/dev/null", [ws.project])).toBe(true);
+    expect(isWithinRoots(join(ws.project, "..cache/x"), [ws.project])).toBe(true);
+    expect(isWithinRoots(join(ws.project, ".."), [ws.project])).toBe(false);
+  });
+
+  test("setWorkspaceRoots resolves and de-duplicates roots", () => {
+    setWorkspaceRoots([ws.project, undefined, `${ws.project}/`, join(ws.project, "escape")]);
+    expect(getWorkspaceRoots()).toEqual([ws.project, ws.outside]);
+    setWorkspaceRoots([]);
+  });
+});
+
+describe("WorkspaceConfinement - Command paths", () => {
+  test("extracts file command arguments and redirect targets", () => {
+    const paths = extractCommandPaths(
+      parseShellCommand("cat -n a.txt && cp -- -odd /tmp/b > out.log 2>&1 <<EOF")
+    ).map((p) => p.path);
+
+    expect(paths).toEqual(["a.txt", "-odd", "/tmp/b", "out.log"]);
+  });
+
+  test("covers wrapped and nested commands", () => {
+    const paths = extractCommandPaths(parseShellCommand("sudo mv x /etc/y; echo $(cat /etc/shadow)"));
+    expect(paths.map((p) => p.path)).toEqual(["x", "/etc/y", "/etc/shadow"]);
+    expect(paths[1]?.segment).toBe("mv x /etc/y");
+  });
+
+  test("tracks the directory set by cd", () => {
+    const paths = extractCommandPaths(parseShellCommand("cat a.txt; cd /etc && cd ssh; cat id_rsa; cd; cat x"));
+    expect(paths.map((p) => [p.path, p.cwd])).toEqual([
+      ["a.txt", undefined],
+      ["/etc", undefined],
+      ["ssh", "/etc"],
+      ["id_rsa", "/etc/ssh"],
+      ["~", "/etc/ssh"],
+      ["x", "~"],
+    ]);
+  });
+
+  test("skips paths with expansions", () => {
+    expect(extractCommandPaths(parseShellCommand("cat $HOME/x `pwd`/y"))).toEqual([]);
+  });
+});
+
+describe("WorkspaceConfinement - SecurityHardening integration", () => {
+  let ws: ReturnType<typeof createWorkspace>;
+
+  const securityWith = (mode: "off" | "ask" | "deny", allowedRoots: string[] = []) => ({
+    enableObfuscationDetection: true,
+    blockedPatterns: [],
+    warningPatterns: [],
+    blockedFiles: [],
+    allow: [],
+    confinement: { mode, allowedRoots },
+  });
+
+  beforeEach(() => {
+    ws = createWorkspace();
+    setWorkspaceRoots([ws.project]);
+    SecurityHardening.clearValidationCaches();
+  });
+
+  afterEach(() => {
+    setWorkspaceRoots([]);
+    rmSync(ws.base, { recursive: true, force: true });
+  });
+
+  test("denies file tools outside the workspace in deny mode", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("deny"));
+
+    const outside = SecurityHardening.validateToolInput("read", { filePath: join(ws.outside, "a.txt") }, patterns);
+    expect(outside.action).toBe("deny");
+    expect(outside.reason).toContain("outside the workspace");
+    expect(outside.matchedPattern).toBe(SecurityHardening.CONFINEMENT_PATTERN);
+
+    expect(SecurityHardening.validateToolInput("read", { filePath: "src/a.ts" }, patterns).action).toBe("allow");
+    expect(
+      SecurityHardening.validateToolInput("write", { filePath: join(ws.project, "src/new.ts") }, patterns).action
+    ).toBe("allow");
+  });
+
+  test("follows symlinks that leave the workspace", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("deny"));
+    expect(SecurityHardening.validateToolInput("edit", { filePath: "escape/a.txt" }, patterns).action).toBe("deny");
+  });
+
+  test("asks instead of denying in ask mode", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("ask"));
+    expect(SecurityHardening.validateToolInput("read", { filePath: "/etc/hosts" }, patterns).action).toBe("ask");
+  });
+
+  test("allows configured extra roots", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("deny", [ws.outside]));
+    expect(SecurityHardening.validateToolInput("read", { filePath: join(ws.outside, "a") }, patterns).action).toBe("allow");
+  });
+
+  test("does nothing when off or without workspace roots", () => {
+    const off = SecurityHardening.getSecurityPatterns(securityWith("off"));
+    expect(SecurityHardening.validateToolInput("read", { filePath: "/etc/hosts" }, off).action).toBe("allow");
+
+    setWorkspaceRoots([]);
+    const deny = SecurityHardening.getSecurityPatterns(securityWith("deny"));
+    expect(SecurityHardening.validateToolInput("read", { filePath: "/etc/hosts" }, deny).action).toBe("allow");
+  });
+
+  test("checks paths in bash commands", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("deny"));
+
+    const copy = SecurityHardening.validateToolInput("bash", { command: "npm test && cp dist/app.js /opt/app.js" }, patterns);
+    expect(copy.action).toBe("deny");
+    expect((copy as { segment?: string }).segment).toBe("cp dist/app.js /opt/app.js");
+
+    expect(SecurityHardening.validateToolInput("bash", { command: "cat ../../secret.txt" }, patterns).action).toBe("deny");
+    expect(SecurityHardening.validateToolInput("bash", { command: "echo hi > /tmp/out.txt" }, patterns).action).toBe("deny");
+    expect(SecurityHardening.validateToolInput("bash", { command: "cat src/a.ts > build.log 2>/dev/null" }, patterns).action).toBe("allow");
+  });
+
+  test("resolves command paths against cd targets", () => {
+    const patterns = SecurityHardening.getSecurityPatterns(securityWith("deny"));
+    const validate = (command: string) => SecurityHardening.validateToolInput("bash", { command }, patterns).action;
+
+    expect(validate("cd /etc && cat passwd")).toBe("deny");
+    expect(validate("cd src && cat ../../outside/a.txt")).toBe("deny");
+    expect(validate("cd src && cat index.ts > ../build.log")).toBe("allow");
+    expect(validate("cat ..cache/x")).toBe("allow");
+  });
+
+  test("allow rules never lift confinement", () => {
+    const patterns = SecurityHardening.getSecurityPatterns({
+      ...securityWith("deny"),
+      allow: [{ path: "**/*.key", reason: "Key fixtures" }],
+    });
+
+    const outside = SecurityHardening.validateToolInput("read", { filePath: "/home/other/secret.key" }, patterns);
+    expect(outside.action).toBe("deny");
+    expect(outside.matchedPattern).toBe(SecurityHardening.CONFINEMENT_PATTERN);
+    expect(outside.override).toBeUndefined();
+
+    const inside = SecurityHardening.validateToolInput("read", { filePath: "fixtures/secret.key" }, patterns);
+    expect(inside.action).toBe("allow");
+    expect(inside.override?.originalAction).toBe("deny");
+  });
+
+  test("allow rules for commands never lift confinement", () => {
+    const patterns = SecurityHardening.getSecurityPatterns({
+      ...securityWith("deny"),
+      blockedPatterns: ["\\.key\\b"],
+      allow: [{ command: "^cat \\S+\\.key$", reason: "Key fixtures" }],
+    });
+
+    expect(SecurityHardening.validateToolInput("bash", { command: "cat fixtures/a.key" }, patterns).action).toBe("allow");
+    const outside = SecurityHardening.validateToolInput("bash", { command: "cat /home/other/secret.key" }, patterns);
+    expect(outside).toMatchObject({ action: "deny", matchedPattern: SecurityHardening.CONFINEMENT_PATTERN });
+    expect(outside.override).toBeUndefined();
+  });
+});
@@ -88,13 +88,35 @@ export async function createTestProject(options: TestProjectOptions = {}): Promi
       workflow: {
         enablePhaseTracking: true,
         strictTodoEnforcement: true,
+        todoEnforcement: { blockOn: "any", allowStopAfterAttempts: 0, releaseTags: ["deferred", "blocked"], maxAgeMinutes: 0 },
         autoEscalateOnError: true,
+        errorRecovery: { suggestAt: 2, escalateAt: 3, escalationAgent: "stilgar", cooldownSeconds: 0, categories: {} },
+        requireGreenBeforeStop: false,
+        workflows: {},
+        intentWorkflows: {},
+        gates: {
+          mode: "off",
+          blockedPhases: ["intent", "assessment"],
+          minExplorationCalls: 0,
+          requireTodos: false,
+          requireVerification: false,
+          implementationTools: ["edit", "write", "multiedit", "create", "patch"],
+          explorationTools: ["read", "grep", "glob", "list"],
+          intents: {},
+        },
       },
       security: {
         enableObfuscationDetection: true,
         blockedPatterns: [],
         warningPatterns: [],
         blockedFiles: [],
+        preset: "permissive",
+        permissions: {},
+        allow: [],
+        confinement: { mode: "off", allowedRoots: [] },
+        network: { mode: "off", allowedDomains: [], deniedDomains: [] },
+        audit: { enabled: false, path: ".opencode/security-audit.jsonl", maxFileSizeMB: 10, maxFiles: 5 },
+        redaction: { mode: "redact", detectors: {} },
       },
     };
 
@@ -185,7 +207,22 @@ export function createMockConfig(overrides: Partial<Config> = {}): Config {
     workflow: {
       enablePhaseTracking: true,
       strictTodoEnforcement: true,
+      todoEnforcement: { blockOn: "any", allowStopAfterAttempts: 0, releaseTags: ["deferred", "blocked"], maxAgeMinutes: 0 },
       autoEscalateOnError: true,
+      errorRecovery: { suggestAt: 2, escalateAt: 3, escalationAgent: "stilgar", cooldownSeconds: 0, categories: {} },
+      requireGreenBeforeStop: false,
+      workflows: {},
+      intentWorkflows: {},
+      gates: {
+        mode: "off",
+        blockedPhases: ["intent", "assessment"],
+        minExplorationCalls: 0,
+        requireTodos: false,
+        requireVerification: false,
+        implementationTools: ["edit", "write", "multiedit", "create", "patch"],
+        explorationTools: ["read", "grep", "glob", "list"],
+        intents: {},
+      },
       ...overrides.workflow,
     },
     security: {
@@ -193,8 +230,25 @@ export function createMockConfig(overrides: Partial<Config> = {}): Config {
       blockedPatterns: [],
       warningPatterns: [],
       blockedFiles: [],
+      preset: "permissive",
+      permissions: {},
+      allow: [],
+      confinement: { mode: "off", allowedRoots: [] },
+      network: { mode: "off", allowedDomains: [], deniedDomains: [] },
+      audit: { enabled: false, path: ".opencode/security-audit.jsonl", maxFileSizeMB: 10, maxFiles: 5 },
+      redaction: { mode: "redact", detectors: {} },
       ...overrides.security,
     },
+    session: {
+      persistState: false,
+      stateDirectory: ".opencode/state",
+      maxSessions: 100,
+      maxIdleMinutes: 240,
+      checkpoints: { enabled: false, beforeImplementation: true, beforeEscalation: true, maxCheckpoints: 20 },
+      todoExport: { enabled: false, path: ".opencode/TODO.md", importOnStart: false },
+      compaction: { maxChars: 8000, maxTokens: 0 },
+      ...overrides.session,
+    },
   };
 }
 
@@ -211,13 +265,44 @@ export function createMinimalConfig(): Config {
     workflow: {
       enablePhaseTracking: false,
       strictTodoEnforcement: false,
+      todoEnforcement: { blockOn: "any", allowStopAfterAttempts: 0, releaseTags: ["deferred", "blocked"], maxAgeMinutes: 0 },
       autoEscalateOnError: false,
+      errorRecovery: { suggestAt: 2, escalateAt: 3, escalationAgent: "stilgar", cooldownSeconds: 0, categories: {} },
+      requireGreenBeforeStop: false,
+      workflows: {},
+      intentWorkflows: {},
+      gates: {
+        mode: "off",
+        blockedPhases: ["intent", "assessment"],
+        minExplorationCalls: 0,
+        requireTodos: false,
+        requireVerification: false,
+        implementationTools: ["edit", "write", "multiedit", "create", "patch"],
+        explorationTools: ["read", "grep", "glob", "list"],
+        intents: {},
+      },
     },
     security: {
       enableObfuscationDetection: false,
       blockedPatterns: [],
       warningPatterns: [],
       blockedFiles: [],
+      preset: "permissive",
+      permissions: {},
+      allow: [],
+      confinement: { mode: "off", allowedRoots: [] },
+      network: { mode: "off", allowedDomains: [], deniedDomains: [] },
+      audit: { enabled: false, path: ".opencode/security-audit.jsonl", maxFileSizeMB: 10, maxFiles: 5 },
+      redaction: { mode: "redact", detectors: {} },
+    },
+    session: {
+      persistState: false,
+      stateDirectory: ".opencode/state",
+      maxSessions: 100,
+      maxIdleMinutes: 240,
+      checkpoints: { enabled: false, beforeImplementation: true, beforeEscalation: true, maxCheckpoints: 20 },
+      todoExport: { enabled: false, path: ".opencode/TODO.md", importOnStart: false },
+      compaction: { maxChars: 8000, maxTokens: 0 },
     },
   };
 }